@@ -9,7 +9,17 @@ import Auth from "./pages/Auth";
 import AdminDashboard from "./pages/AdminDashboard.tsx";
 import MoodStatistics from "./pages/MoodStatistics";
 import History from "./pages/History";
+import MoodReport from "./pages/MoodReport";
 import Insights from "./pages/Insights";
+import CrisisSupport from "./pages/CrisisSupport";
+import SafetyAlerts from "./pages/SafetyAlerts";
+import RecommendationCatalog from "./pages/RecommendationCatalog";
+import Activities from "./pages/Activities";
+import ActivityExercise from "./pages/ActivityExercise";
+import ArticleLibrary from "./pages/ArticleLibrary";
+import ArticleDetail from "./pages/ArticleDetail";
+import ArticleAdmin from "./pages/ArticleAdmin";
+import PeerSupport from "./pages/PeerSupport";
 
 
 import Chat from "./pages/Chat";
@@ -40,8 +50,20 @@ const App = () => {
               <Route path="/admin" element={<AdminDashboard />} />
               <Route path="/mood-statistics" element={<MoodStatistics />} />
               <Route path="/history" element={<History />} />
+              <Route path="/history/report" element={<MoodReport />} />
               <Route path="/insights" element={<Insights />} />
               <Route path="/chat" element={<Chat />} />
+              <Route path="/resources/crisis-support" element={<CrisisSupport />} />
+              <Route path="/safety" element={<SafetyAlerts />} />
+              <Route path="/admin/recommendations" element={<RecommendationCatalog />} />
+              <Route path="/activities" element={<Activities />} />
+              <Route path="/activities/:slug" element={<ActivityExercise />} />
+              <Route path="/articles" element={<ArticleLibrary />} />
+              <Route path="/articles/category/:category" element={<ArticleLibrary />} />
+              <Route path="/articles/:slug" element={<ArticleDetail kind="article" />} />
+              <Route path="/resources/:slug" element={<ArticleDetail kind="resource" />} />
+              <Route path="/admin/articles" element={<ArticleAdmin />} />
+              <Route path="/peer-support" element={<PeerSupport />} />
 
 
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
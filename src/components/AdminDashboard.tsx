@@ -4,6 +4,8 @@ import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useIsMobile } from '@/hooks/use-mobile';
+import useTimeZone from '@/hooks/useTimeZone';
+import { getDayKey, getRecentDayKeys, getWeekdayIndex } from '@/lib/dateBuckets';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell } from 'recharts';
 import { TrendingUp, Users, MessageSquare, Brain, Calendar, AlertTriangle } from 'lucide-react';
 
@@ -23,12 +25,13 @@ const AdminDashboard: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
   const isMobile = useIsMobile();
+  const { timeZone, loading: timeZoneLoading } = useTimeZone();
 
   useEffect(() => {
-    if (user?.role === 'admin') {
+    if (user?.role === 'admin' && !timeZoneLoading) {
       fetchDashboardData();
     }
-  }, [user]);
+  }, [user, timeZone, timeZoneLoading]);
 
   const fetchDashboardData = async () => {
     try {
@@ -71,16 +74,15 @@ const AdminDashboard: React.FC = () => {
     const days = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
     const weekData = days.map(day => ({ day, averageMood: 0, count: 0 }));
 
-    const today = new Date();
-    const oneWeekAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000);
+    // The last 7 days in the admin's time zone, so each weekday appears once
+    const recentDays = new Set(getRecentDayKeys(7, timeZone));
 
     const recentLogs = moodLogs.filter(log => 
-      new Date(log.created_at) >= oneWeekAgo
+      recentDays.has(getDayKey(log.created_at, timeZone))
     );
 
     const dayGroups = recentLogs.reduce((acc, log) => {
-      const date = new Date(log.created_at);
-      const dayIndex = (date.getDay() + 6) % 7; // Convert Sunday=0 to Monday=0
+      const dayIndex = getWeekdayIndex(getDayKey(log.created_at, timeZone));
       const dayName = days[dayIndex];
       
       if (!acc[dayName]) acc[dayName] = [];
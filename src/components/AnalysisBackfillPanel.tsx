@@ -0,0 +1,240 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { DatabaseZap, Play, Square, RefreshCw, AlertTriangle } from 'lucide-react';
+
+type BackfillJob = Tables<'analysis_backfill_jobs'>;
+type BackfillFailure = Tables<'analysis_backfill_failures'>;
+
+const STATUS_BADGE: Record<string, 'default' | 'secondary' | 'outline'> = {
+  running: 'default',
+  completed: 'secondary',
+  cancelled: 'outline'
+};
+
+/**
+ * Starts and drives server analysis backfills. The edge function handles one page per call,
+ * so this panel keeps requesting pages while it is open; a job interrupted by closing the
+ * tab can be resumed from here.
+ */
+const AnalysisBackfillPanel: React.FC = () => {
+  const { toast } = useToast();
+  const [job, setJob] = useState<BackfillJob | null>(null);
+  const [failures, setFailures] = useState<BackfillFailure[]>([]);
+  const [driving, setDriving] = useState(false);
+  const [reanalyze, setReanalyze] = useState(false);
+  const drivingRef = useRef(false);
+
+  const loadLatestJob = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('analysis_backfill_jobs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error loading backfill job:', error);
+      return;
+    }
+    setJob(data);
+
+    if (data?.failed_logs) {
+      const { data: failureRows, error: failureError } = await supabase
+        .from('analysis_backfill_failures')
+        .select('*')
+        .eq('job_id', data.id)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (failureError) {
+        console.error('❌ Error loading backfill failures:', failureError);
+      } else {
+        setFailures(failureRows || []);
+      }
+    } else {
+      setFailures([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLatestJob();
+
+    const channel = supabase
+      .channel('analysis-backfill-jobs')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'analysis_backfill_jobs' }, () => loadLatestJob())
+      .subscribe();
+
+    return () => {
+      drivingRef.current = false;
+      supabase.removeChannel(channel);
+    };
+  }, [loadLatestJob]);
+
+  const invokeBackfill = async (body: { action: 'start' | 'continue' | 'cancel'; job_id?: string; reanalyze?: boolean }) => {
+    const { data, error } = await supabase.functions.invoke('backfill-analyses', { body });
+    if (error) throw error;
+    return (data as { job: BackfillJob }).job;
+  };
+
+  const runJob = async (action: 'start' | 'continue', jobId?: string) => {
+    drivingRef.current = true;
+    setDriving(true);
+
+    try {
+      let current = await invokeBackfill(action === 'start' ? { action, reanalyze } : { action, job_id: jobId });
+      setJob(current);
+
+      while (drivingRef.current && current.status === 'running') {
+        current = await invokeBackfill({ action: 'continue', job_id: current.id });
+        setJob(current);
+      }
+
+      if (current.status === 'completed') {
+        toast({
+          title: 'Backfill complete',
+          description: `${current.analyzed_logs} logs re-analyzed with ${current.engine_version}, ${current.failed_logs} failed.`
+        });
+      }
+    } catch (error) {
+      console.error('❌ Backfill request failed:', error);
+      toast({
+        title: 'Backfill stopped',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive'
+      });
+    } finally {
+      drivingRef.current = false;
+      setDriving(false);
+      loadLatestJob();
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!job) return;
+    drivingRef.current = false;
+
+    try {
+      setJob(await invokeBackfill({ action: 'cancel', job_id: job.id }));
+      toast({ title: 'Backfill cancelled', description: 'Already re-analyzed logs keep their new analysis.' });
+    } catch (error) {
+      toast({
+        title: 'Could not cancel backfill',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const isRunning = job?.status === 'running';
+  const progress = job && job.total_logs > 0
+    ? Math.min(100, Math.round((job.processed_logs / job.total_logs) * 100))
+    : 0;
+
+  return (
+    <Card className="shadow-lg border-2 border-indigo-100">
+      <CardHeader className="bg-gradient-to-r from-indigo-50 to-indigo-100">
+        <CardTitle className="flex items-center gap-2">
+          <DatabaseZap className="h-5 w-5 text-indigo-600" />
+          Analysis Backfill
+          {job && (
+            <Badge variant={STATUS_BADGE[job.status] ?? 'outline'} className="ml-auto">{job.status}</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Re-run the server analysis over historical mood logs with the current engine version. Logs already analyzed by that version are skipped unless you choose to re-analyze them, e.g. after a rule change that kept the version.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          {isRunning ? (
+            <>
+              {!driving && (
+                <Button size="sm" onClick={() => runJob('continue', job.id)}>
+                  <Play className="h-4 w-4 mr-2" />
+                  Resume
+                </Button>
+              )}
+              <Button size="sm" variant="outline" onClick={handleCancel}>
+                <Square className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button size="sm" onClick={() => runJob('start')} disabled={driving}>
+                <Play className="h-4 w-4 mr-2" />
+                Start backfill
+              </Button>
+              <div className="flex items-center gap-2">
+                <Switch id="backfill-reanalyze" checked={reanalyze} onCheckedChange={setReanalyze} disabled={driving} />
+                <Label htmlFor="backfill-reanalyze" className="text-sm">Re-analyze logs already at this version</Label>
+              </div>
+            </>
+          )}
+          <Button size="sm" variant="outline" onClick={loadLatestJob}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+
+        {!job ? (
+          <p className="text-sm text-gray-500">No backfill has been run yet.</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <Progress value={progress} className="h-2" />
+              <span>{progress}%</span>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-center">
+              <div className="p-2 bg-gray-50 rounded">
+                <div className="text-lg font-bold text-gray-800">{job.processed_logs}/{job.total_logs}</div>
+                <div className="text-xs text-gray-600">Processed</div>
+              </div>
+              <div className="p-2 bg-gray-50 rounded">
+                <div className="text-lg font-bold text-green-600">{job.analyzed_logs}</div>
+                <div className="text-xs text-gray-600">Re-analyzed</div>
+              </div>
+              <div className="p-2 bg-gray-50 rounded">
+                <div className="text-lg font-bold text-gray-500">{job.skipped_logs}</div>
+                <div className="text-xs text-gray-600">Skipped</div>
+              </div>
+              <div className="p-2 bg-gray-50 rounded">
+                <div className="text-lg font-bold text-red-600">{job.failed_logs}</div>
+                <div className="text-xs text-gray-600">Failed</div>
+              </div>
+            </div>
+            <div className="text-xs text-gray-500">
+              Engine {job.engine_version}{job.reanalyze && ' (re-analyze)'} · started {new Date(job.started_at).toLocaleString()}
+              {job.finished_at && ` · finished ${new Date(job.finished_at).toLocaleString()}`}
+            </div>
+
+            {failures.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-sm font-medium text-red-700">
+                  <AlertTriangle className="h-4 w-4" />
+                  Recent failures
+                </div>
+                {failures.map(failure => (
+                  <div key={failure.id} className="text-xs p-2 rounded border border-red-100 bg-red-50">
+                    <span className="font-mono">{failure.mood_log_id?.slice(0, 8) ?? 'deleted log'}</span>
+                    <span className="text-gray-600"> · {failure.error}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AnalysisBackfillPanel;
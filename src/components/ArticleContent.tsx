@@ -0,0 +1,47 @@
+import React from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import MarkdownContent from '@/components/MarkdownContent';
+import type { Article } from '@/lib/articles';
+import { Check, Clock } from 'lucide-react';
+
+interface ArticleContentProps {
+  article: Pick<Article, 'category' | 'tags' | 'reading_minutes' | 'body_markdown'>;
+  isMobile?: boolean;
+  completeLabel?: string;
+  completed?: boolean;
+  onComplete?: () => void;
+}
+
+const ArticleContent: React.FC<ArticleContentProps> = ({ article, isMobile = false, completeLabel, completed = false, onComplete }) => (
+  <Card className="shadow-lg">
+    <CardContent className={isMobile ? 'p-4' : 'p-6'}>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <Badge variant="secondary" className="capitalize">{article.category}</Badge>
+        {article.reading_minutes && (
+          <span className="flex items-center gap-1 text-xs text-gray-500">
+            <Clock className="h-3 w-3" />
+            {article.reading_minutes} min
+          </span>
+        )}
+        {article.tags.map(tag => (
+          <Badge key={tag} variant="outline" className="text-xs">#{tag}</Badge>
+        ))}
+      </div>
+
+      <MarkdownContent markdown={article.body_markdown} />
+
+      {onComplete && (
+        <div className="mt-6 pt-4 border-t border-gray-200/60">
+          <Button onClick={onComplete} disabled={completed}>
+            <Check className="h-4 w-4 mr-2" />
+            {completed ? 'Done' : completeLabel ?? 'Mark as done'}
+          </Button>
+        </div>
+      )}
+    </CardContent>
+  </Card>
+);
+
+export default ArticleContent;
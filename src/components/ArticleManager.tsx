@@ -0,0 +1,348 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import MarkdownContent from '@/components/MarkdownContent';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  type Article,
+  type ArticleKind,
+  ARTICLE_KINDS,
+  ARTICLE_KIND_LABELS,
+  getArticlePath,
+  toArticleSlug
+} from '@/lib/articles';
+import { getExercise } from '@/lib/exercises';
+import { BookOpen, Plus, Pencil, Trash2, Loader2, ExternalLink } from 'lucide-react';
+
+interface ArticleForm {
+  title: string;
+  slug: string;
+  kind: ArticleKind;
+  category: string;
+  summary: string;
+  body_markdown: string;
+  tags: string;
+  reading_minutes: string;
+  is_published: boolean;
+}
+
+const EMPTY_FORM: ArticleForm = {
+  title: '',
+  slug: '',
+  kind: 'article',
+  category: 'general',
+  summary: '',
+  body_markdown: '',
+  tags: '',
+  reading_minutes: '',
+  is_published: false
+};
+
+const toForm = (article: Article): ArticleForm => ({
+  title: article.title,
+  slug: article.slug,
+  kind: article.kind,
+  category: article.category,
+  summary: article.summary ?? '',
+  body_markdown: article.body_markdown,
+  tags: article.tags.join(', '),
+  reading_minutes: article.reading_minutes?.toString() ?? '',
+  is_published: article.is_published
+});
+
+const ArticleManager: React.FC = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [articles, setArticles] = useState<Article[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [slugEdited, setSlugEdited] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<ArticleForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const loadArticles = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('articles')
+      .select('*')
+      .order('kind', { ascending: true })
+      .order('title', { ascending: true });
+
+    if (error) {
+      console.error('Error loading articles:', error);
+    } else {
+      setArticles(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadArticles();
+  }, [loadArticles]);
+
+  const openEditor = (article?: Article) => {
+    setEditingId(article?.id ?? null);
+    setSlugEdited(!!article);
+    setForm(article ? toForm(article) : EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const updateForm = <K extends keyof ArticleForm>(key: K, value: ArticleForm[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateTitle = (title: string) => {
+    // New entries follow the title until the slug is edited by hand
+    setForm(prev => ({ ...prev, title, slug: slugEdited ? prev.slug : toArticleSlug(title) }));
+  };
+
+  const handleSave = async () => {
+    const slug = toArticleSlug(form.slug);
+    if (!form.title.trim() || !slug) {
+      toast({ title: 'Title and slug are required', variant: 'destructive' });
+      return;
+    }
+
+    const payload = {
+      title: form.title.trim(),
+      slug,
+      kind: form.kind,
+      category: form.category.trim().toLowerCase() || 'general',
+      summary: form.summary.trim() || null,
+      body_markdown: form.body_markdown,
+      tags: form.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+      reading_minutes: form.reading_minutes ? parseInt(form.reading_minutes, 10) : null,
+      is_published: form.is_published
+    };
+
+    setSaving(true);
+    const { error } = editingId
+      ? await supabase.from('articles').update(payload).eq('id', editingId)
+      : await supabase.from('articles').insert({ ...payload, author_id: user?.id ?? null });
+    setSaving(false);
+
+    if (error) {
+      console.error('Error saving article:', error);
+      toast({
+        title: 'Could not save article',
+        description: error.code === '23505' ? `Another ${form.kind} already uses the slug "${slug}".` : error.message,
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setDialogOpen(false);
+    toast({ title: editingId ? 'Article updated' : 'Article added' });
+    loadArticles();
+  };
+
+  const handleTogglePublished = async (article: Article, isPublished: boolean) => {
+    const { error } = await supabase
+      .from('articles')
+      .update({ is_published: isPublished })
+      .eq('id', article.id);
+
+    if (error) {
+      console.error('Error updating article:', error);
+      toast({ title: 'Could not update article', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    setArticles(prev => prev.map(a => (a.id === article.id ? { ...a, is_published: isPublished } : a)));
+  };
+
+  const handleDelete = async (article: Article) => {
+    if (!window.confirm(`Delete "${article.title}"? Recommendations linking to ${getArticlePath(article)} will stop resolving.`)) return;
+
+    const { error } = await supabase.from('articles').delete().eq('id', article.id);
+
+    if (error) {
+      console.error('Error deleting article:', error);
+      toast({ title: 'Could not delete article', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    setArticles(prev => prev.filter(a => a.id !== article.id));
+  };
+
+  const shadowedByExercise = form.kind === 'activity' && !!getExercise(toArticleSlug(form.slug));
+
+  return (
+    <Card className="shadow-lg border-2 border-indigo-100">
+      <CardHeader className="bg-gradient-to-r from-indigo-50 to-indigo-100">
+        <CardTitle className="flex items-center gap-2">
+          <BookOpen className="h-5 w-5 text-indigo-600" />
+          Content Library
+          <Button size="sm" className="ml-auto" onClick={() => openEditor()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add article
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Published entries are served at /articles/:slug, /resources/:slug or /activities/:slug depending on their kind. Use these paths as content URLs in the recommendation catalog.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-3">
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading articles...
+          </div>
+        ) : articles.length === 0 ? (
+          <p className="text-sm text-gray-500">The library is empty.</p>
+        ) : (
+          articles.map(article => (
+            <div
+              key={article.id}
+              className={`flex flex-wrap items-center gap-3 p-3 rounded-lg border ${article.is_published ? 'bg-white' : 'bg-gray-50 opacity-70'}`}
+            >
+              <div className="flex-1 min-w-[220px]">
+                <div className="text-sm font-medium text-gray-800 flex flex-wrap items-center gap-2">
+                  {article.title}
+                  <Badge variant="outline">{ARTICLE_KIND_LABELS[article.kind]}</Badge>
+                  <Badge variant="secondary" className="capitalize">{article.category}</Badge>
+                  {!article.is_published && <Badge variant="outline">draft</Badge>}
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {getArticlePath(article)}
+                  {article.tags.length > 0 && ` · #${article.tags.join(' #')}`}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={article.is_published}
+                  onCheckedChange={(checked) => handleTogglePublished(article, checked)}
+                  aria-label={article.is_published ? 'Unpublish' : 'Publish'}
+                />
+                <Button size="sm" variant="ghost" asChild>
+                  <a href={getArticlePath(article)} target="_blank" rel="noopener noreferrer" aria-label="Open">
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => openEditor(article)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => handleDelete(article)}>
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit article' : 'Add article'}</DialogTitle>
+            <DialogDescription>Drafts are only visible to admins until they are published.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="article-title">Title</Label>
+              <Input id="article-title" value={form.title} onChange={(e) => updateTitle(e.target.value)} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="article-slug">Slug</Label>
+                <Input
+                  id="article-slug"
+                  value={form.slug}
+                  onChange={(e) => {
+                    setSlugEdited(true);
+                    updateForm('slug', e.target.value);
+                  }}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Kind</Label>
+                <Select value={form.kind} onValueChange={(value) => updateForm('kind', value as ArticleKind)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ARTICLE_KINDS.map(kind => (
+                      <SelectItem key={kind} value={kind}>{ARTICLE_KIND_LABELS[kind]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Served at {getArticlePath({ kind: form.kind, slug: toArticleSlug(form.slug) || '…' })}
+              {shadowedByExercise && '. A guided exercise already uses this slug, so this activity will not be shown.'}
+            </p>
+            <div className="space-y-1">
+              <Label htmlFor="article-summary">Summary</Label>
+              <Textarea id="article-summary" rows={2} value={form.summary} onChange={(e) => updateForm('summary', e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Body (markdown)</Label>
+              <Tabs defaultValue="write">
+                <TabsList>
+                  <TabsTrigger value="write">Write</TabsTrigger>
+                  <TabsTrigger value="preview">Preview</TabsTrigger>
+                </TabsList>
+                <TabsContent value="write">
+                  <Textarea
+                    rows={14}
+                    className="font-mono text-sm"
+                    placeholder={'## Heading\n\nA paragraph with **bold** text and a [link](/activities/box-breathing).\n\n- A list item'}
+                    value={form.body_markdown}
+                    onChange={(e) => updateForm('body_markdown', e.target.value)}
+                  />
+                </TabsContent>
+                <TabsContent value="preview">
+                  <div className="min-h-[200px] rounded-md border p-4">
+                    {form.body_markdown.trim()
+                      ? <MarkdownContent markdown={form.body_markdown} />
+                      : <p className="text-sm text-gray-500">Nothing to preview yet.</p>}
+                  </div>
+                </TabsContent>
+              </Tabs>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="article-category">Category</Label>
+                <Input id="article-category" value={form.category} onChange={(e) => updateForm('category', e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="article-minutes">Reading time (minutes)</Label>
+                <Input id="article-minutes" type="number" min={1} value={form.reading_minutes} onChange={(e) => updateForm('reading_minutes', e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="article-tags">Tags</Label>
+              <Input id="article-tags" placeholder="sleep, habits" value={form.tags} onChange={(e) => updateForm('tags', e.target.value)} />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="article-published" checked={form.is_published} onCheckedChange={(checked) => updateForm('is_published', checked)} />
+              <Label htmlFor="article-published">Published</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ArticleManager;
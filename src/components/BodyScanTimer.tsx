@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Play, Pause, RotateCcw, SkipForward } from 'lucide-react';
+
+interface BodyScanTimerProps {
+  regions: string[];
+  secondsPerRegion: number;
+  onComplete: () => void;
+}
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const BodyScanTimer: React.FC<BodyScanTimerProps> = ({ regions, secondsPerRegion, onComplete }) => {
+  const [running, setRunning] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [finished, setFinished] = useState(false);
+  const totalSeconds = regions.length * secondsPerRegion;
+
+  useEffect(() => {
+    if (!running) return;
+
+    const timer = setInterval(() => {
+      setElapsed(prev => prev + 1);
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [running]);
+
+  useEffect(() => {
+    if (finished || elapsed < totalSeconds) return;
+
+    setRunning(false);
+    setFinished(true);
+    onComplete();
+  }, [elapsed, finished, totalSeconds, onComplete]);
+
+  const skipRegion = () => {
+    setElapsed(prev => Math.min(totalSeconds, (Math.floor(prev / secondsPerRegion) + 1) * secondsPerRegion));
+  };
+
+  const reset = () => {
+    setRunning(false);
+    setFinished(false);
+    setElapsed(0);
+  };
+
+  const regionIndex = Math.min(regions.length - 1, Math.floor(elapsed / secondsPerRegion));
+  const regionSecondsLeft = secondsPerRegion - (elapsed % secondsPerRegion);
+
+  return (
+    <div className="flex flex-col items-center gap-6 py-4">
+      <div className="text-center space-y-2 max-w-md">
+        {finished ? (
+          <>
+            <div className="text-2xl font-bold text-indigo-900">Scan complete</div>
+            <p className="text-gray-600">Notice how your body feels now compared with when you started.</p>
+          </>
+        ) : (
+          <>
+            <div className="text-sm text-gray-500">Region {regionIndex + 1} of {regions.length}</div>
+            <div className="text-2xl font-bold text-indigo-900">{regions[regionIndex]}</div>
+            <p className="text-gray-600">
+              Rest your attention here. Notice any tension, warmth or tingling without judging it, then let it soften.
+            </p>
+            <div className="text-3xl font-light text-indigo-800">{formatTime(regionSecondsLeft)}</div>
+          </>
+        )}
+      </div>
+
+      <div className="w-full max-w-sm space-y-1">
+        <Progress value={(elapsed / totalSeconds) * 100} className="h-2" />
+        <div className="text-xs text-gray-500 text-center">
+          {formatTime(elapsed)} / {formatTime(totalSeconds)}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {!finished && (
+          <>
+            <Button onClick={() => setRunning(prev => !prev)}>
+              {running ? <Pause className="h-4 w-4 mr-2" /> : <Play className="h-4 w-4 mr-2" />}
+              {running ? 'Pause' : elapsed === 0 ? 'Start' : 'Resume'}
+            </Button>
+            <Button variant="outline" onClick={skipRegion}>
+              <SkipForward className="h-4 w-4 mr-2" />
+              Next region
+            </Button>
+          </>
+        )}
+        <Button variant="outline" onClick={reset}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Restart
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default BodyScanTimer;
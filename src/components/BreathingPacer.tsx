@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { motion } from 'framer-motion';
+import { Play, Pause, RotateCcw } from 'lucide-react';
+import type { BreathingPhase } from '@/lib/exercises';
+
+interface BreathingPacerProps {
+  phases: BreathingPhase[];
+  cycles: number;
+  onComplete: () => void;
+}
+
+// Circle scale at the end of each phase; holds keep the previous size
+const PHASE_SCALE: Record<BreathingPhase['label'], number | null> = {
+  Inhale: 1,
+  Hold: null,
+  Exhale: 0.55
+};
+
+const BreathingPacer: React.FC<BreathingPacerProps> = ({ phases, cycles, onComplete }) => {
+  const [running, setRunning] = useState(false);
+  const [cycle, setCycle] = useState(0);
+  const [phaseIndex, setPhaseIndex] = useState(0);
+  const [secondsLeft, setSecondsLeft] = useState(phases[0].seconds);
+  const [finished, setFinished] = useState(false);
+
+  useEffect(() => {
+    if (!running) return;
+
+    const timer = setInterval(() => {
+      setSecondsLeft(prev => prev - 1);
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [running]);
+
+  // Advance to the next phase (and cycle) when the current one runs out
+  useEffect(() => {
+    if (secondsLeft > 0 || finished) return;
+
+    const nextPhase = (phaseIndex + 1) % phases.length;
+    const nextCycle = nextPhase === 0 ? cycle + 1 : cycle;
+
+    if (nextCycle >= cycles) {
+      setRunning(false);
+      setFinished(true);
+      setCycle(cycles);
+      onComplete();
+      return;
+    }
+
+    setPhaseIndex(nextPhase);
+    setCycle(nextCycle);
+    setSecondsLeft(phases[nextPhase].seconds);
+  }, [secondsLeft, finished, phaseIndex, cycle, phases, cycles, onComplete]);
+
+  const reset = () => {
+    setRunning(false);
+    setFinished(false);
+    setCycle(0);
+    setPhaseIndex(0);
+    setSecondsLeft(phases[0].seconds);
+  };
+
+  const phase = phases[phaseIndex];
+  // Scale the circle towards the size this phase ends at, holds keep the size they started with
+  const previousScale = phases
+    .slice(0, phaseIndex)
+    .reduce((scale, p) => PHASE_SCALE[p.label] ?? scale, PHASE_SCALE.Exhale as number);
+  const targetScale = PHASE_SCALE[phase.label] ?? previousScale;
+
+  return (
+    <div className="flex flex-col items-center gap-6 py-4">
+      <div className="relative w-56 h-56 flex items-center justify-center">
+        <motion.div
+          className="absolute inset-0 rounded-full bg-gradient-to-br from-sky-200 to-indigo-300"
+          animate={{ scale: running || finished ? targetScale : PHASE_SCALE.Exhale }}
+          transition={{ duration: running ? phase.seconds : 0.3, ease: 'easeInOut' }}
+        />
+        <div className="relative text-center">
+          <div className="text-2xl font-bold text-indigo-900">{finished ? 'Well done' : phase.label}</div>
+          {!finished && <div className="text-4xl font-light text-indigo-800">{secondsLeft}</div>}
+        </div>
+      </div>
+
+      <div className="w-full max-w-sm space-y-1">
+        <Progress value={(cycle / cycles) * 100} className="h-2" />
+        <div className="text-xs text-gray-500 text-center">
+          Cycle {Math.min(cycle + 1, cycles)} of {cycles} · {phases.map(p => `${p.label.toLowerCase()} ${p.seconds}s`).join(', ')}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {!finished && (
+          <Button onClick={() => setRunning(prev => !prev)}>
+            {running ? <Pause className="h-4 w-4 mr-2" /> : <Play className="h-4 w-4 mr-2" />}
+            {running ? 'Pause' : cycle === 0 && phaseIndex === 0 && secondsLeft === phases[0].seconds ? 'Start' : 'Resume'}
+          </Button>
+        )}
+        <Button variant="outline" onClick={reset}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Restart
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default BreathingPacer;
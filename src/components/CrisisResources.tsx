@@ -0,0 +1,90 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Phone, MessageSquare, Globe, AlertTriangle, HeartHandshake } from 'lucide-react';
+
+interface CrisisResourcesProps {
+  mentorNotified?: boolean;
+  isMobile?: boolean;
+}
+
+const CRISIS_LINES = [
+  {
+    name: '988 Suicide & Crisis Lifeline',
+    description: 'Call or text 988, any time, free and confidential (US)',
+    actions: [
+      { label: 'Call 988', href: 'tel:988', icon: Phone },
+      { label: 'Text 988', href: 'sms:988', icon: MessageSquare }
+    ]
+  },
+  {
+    name: 'Crisis Text Line',
+    description: 'Text HOME to 741741 to reach a trained crisis counselor',
+    actions: [
+      { label: 'Text HOME', href: 'sms:741741?&body=HOME', icon: MessageSquare }
+    ]
+  },
+  {
+    name: 'Find a helpline near you',
+    description: 'Free, confidential helplines in over 130 countries',
+    actions: [
+      { label: 'findahelpline.com', href: 'https://findahelpline.com', icon: Globe }
+    ]
+  }
+];
+
+const CrisisResources: React.FC<CrisisResourcesProps> = ({ mentorNotified, isMobile }) => {
+  return (
+    <div className="space-y-4">
+      <Card className="border-2 border-red-200 bg-red-50">
+        <CardContent className={`${isMobile ? 'p-4' : 'p-6'} flex items-start gap-3`}>
+          <AlertTriangle className="h-6 w-6 text-red-600 flex-shrink-0 mt-0.5" />
+          <div className="space-y-1">
+            <div className="font-semibold text-red-800">If you are in immediate danger, call your local emergency number (911 in the US) now.</div>
+            <div className="text-sm text-red-700">You can also go to the nearest emergency room.</div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {mentorNotified && (
+        <Card className="border-2 border-purple-200 bg-purple-50">
+          <CardContent className={`${isMobile ? 'p-4' : 'p-6'} flex items-start gap-3`}>
+            <HeartHandshake className="h-6 w-6 text-purple-600 flex-shrink-0 mt-0.5" />
+            <div className="text-sm text-purple-800">
+              A mentor from our support team has been notified and will reach out to you. You don't have to go through this alone.
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className={isMobile ? 'text-lg' : 'text-xl'}>Talk to someone now</CardTitle>
+          <CardDescription>These services are free, confidential and available 24/7.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {CRISIS_LINES.map(line => (
+            <div key={line.name} className="p-4 rounded-lg border bg-white space-y-3">
+              <div>
+                <div className="font-medium text-gray-800">{line.name}</div>
+                <div className="text-sm text-gray-600">{line.description}</div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {line.actions.map(action => (
+                  <Button key={action.label} asChild size="sm" variant="outline">
+                    <a href={action.href} target={action.href.startsWith('http') ? '_blank' : undefined} rel="noreferrer">
+                      <action.icon className="h-4 w-4 mr-2" />
+                      {action.label}
+                    </a>
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CrisisResources;
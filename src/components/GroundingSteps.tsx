@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Check, RotateCcw } from 'lucide-react';
+import type { GroundingStep } from '@/lib/exercises';
+
+interface GroundingStepsProps {
+  steps: GroundingStep[];
+  onComplete: () => void;
+}
+
+const GroundingSteps: React.FC<GroundingStepsProps> = ({ steps, onComplete }) => {
+  const [stepIndex, setStepIndex] = useState(0);
+  const [noticed, setNoticed] = useState(0);
+  const finished = stepIndex >= steps.length;
+
+  const handleNoticed = () => {
+    const step = steps[stepIndex];
+    if (noticed + 1 < step.count) {
+      setNoticed(noticed + 1);
+      return;
+    }
+
+    setNoticed(0);
+    setStepIndex(stepIndex + 1);
+    if (stepIndex + 1 >= steps.length) {
+      onComplete();
+    }
+  };
+
+  const reset = () => {
+    setStepIndex(0);
+    setNoticed(0);
+  };
+
+  const totalItems = steps.reduce((sum, step) => sum + step.count, 0);
+  const itemsDone = steps.slice(0, stepIndex).reduce((sum, step) => sum + step.count, 0) + noticed;
+
+  return (
+    <div className="flex flex-col items-center gap-6 py-4">
+      <AnimatePresence mode="wait">
+        <motion.div
+          key={stepIndex}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -10 }}
+          className="text-center space-y-4 max-w-md"
+        >
+          {finished ? (
+            <>
+              <div className="text-2xl font-bold text-emerald-800">You're here, right now</div>
+              <p className="text-gray-600">Take one more slow breath before you carry on with your day.</p>
+            </>
+          ) : (
+            <>
+              <div className="text-5xl font-bold text-emerald-700">{steps[stepIndex].count}</div>
+              <div className="text-lg font-semibold text-gray-800 capitalize">Things you can {steps[stepIndex].sense}</div>
+              <p className="text-gray-600">{steps[stepIndex].prompt}</p>
+              <div className="flex justify-center gap-2">
+                {Array.from({ length: steps[stepIndex].count }, (_, i) => (
+                  <div
+                    key={i}
+                    className={`w-4 h-4 rounded-full border-2 border-emerald-500 ${i < noticed ? 'bg-emerald-500' : 'bg-white'}`}
+                  />
+                ))}
+              </div>
+            </>
+          )}
+        </motion.div>
+      </AnimatePresence>
+
+      <div className="w-full max-w-sm">
+        <Progress value={(itemsDone / totalItems) * 100} className="h-2" />
+      </div>
+
+      <div className="flex gap-2">
+        {!finished && (
+          <Button onClick={handleNoticed}>
+            <Check className="h-4 w-4 mr-2" />
+            I noticed one
+          </Button>
+        )}
+        <Button variant="outline" onClick={reset}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Restart
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default GroundingSteps;
@@ -1,71 +1,80 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useIsMobile } from '@/hooks/use-mobile';
-import { Brain, Play, BookOpen, Activity, ExternalLink, Sparkles, Zap, Video, Wind, MessageCircle } from 'lucide-react';
+import { Brain, Play, ExternalLink, Sparkles, Zap, MessageCircle } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { type PredictionResult, getRecommendationMapping } from '@/lib/moodModel';
+import { type PredictionResult, getFlaggedReasons } from '@/lib/moodModel';
+import {
+  type EnhancedRecommendation,
+  getEnhancedRecommendation,
+  getRecommendationLink,
+  toEnhancedRecommendation
+} from '@/lib/recommendationCatalog';
+import RecommendationFeedback, { type RecommendationFeedbackState } from '@/components/RecommendationFeedback';
+import MoodCorrectionControl, { type CorrectableMoodLog } from '@/components/MoodCorrectionControl';
 
 interface InsightsPanelProps {
   latestAiAnalysis?: PredictionResult | null;
   selectedMood?: string | null;
+  analyzedMoodLog?: CorrectableMoodLog | null; // Set when latestAiAnalysis came from the model, enabling corrections
 }
 
-// Enhanced recommendations mapping with icons
-interface EnhancedRecommendation {
-  title: string;
-  description: string;
-  content_url?: string;
-  type: 'breathing' | 'mindfulness' | 'activity' | 'video' | 'article';
-  icon: React.ComponentType<any>;
-  color: string;
-  urgency: 'low' | 'medium' | 'high';
-}
-
-const getEnhancedRecommendationForStressLevel = (stressLevel: number): EnhancedRecommendation => {
-  const mapping = getRecommendationMapping(stressLevel);
-  const iconMap = {
-    video: Video,
-    breathing: Wind,
-    mindfulness: Brain,
-    activity: Activity,
-    article: BookOpen
-  };
-  
-  const colorMap = {
-    1: 'from-green-50 to-emerald-50 border-green-200',
-    2: 'from-green-50 to-emerald-50 border-green-200', 
-    3: 'from-yellow-50 to-orange-50 border-yellow-200',
-    4: 'from-orange-50 to-red-50 border-orange-200',
-    5: 'from-red-50 to-red-100 border-red-300'
-  };
-  
-  return {
-    ...mapping.recommendation,
-    type: mapping.recommendation.type,
-    icon: iconMap[mapping.recommendation.type] || Brain,
-    color: colorMap[stressLevel as keyof typeof colorMap] || colorMap[3],
-    urgency: stressLevel <= 2 ? 'low' : stressLevel === 3 ? 'medium' : 'high'
-  };
-};
-
-
-const InsightsPanel: React.FC<InsightsPanelProps> = ({ latestAiAnalysis, selectedMood }) => {
+const InsightsPanel: React.FC<InsightsPanelProps> = ({ latestAiAnalysis, selectedMood, analyzedMoodLog }) => {
   const [enhancedRecommendation, setEnhancedRecommendation] = useState<EnhancedRecommendation | null>(null);
+  const [recommendationFeedback, setRecommendationFeedback] = useState<RecommendationFeedbackState | null>(null);
   const { user } = useAuth();
+  const navigate = useNavigate();
   const isMobile = useIsMobile();
 
   // Update enhanced recommendation when latest AI analysis changes
   useEffect(() => {
-    if (latestAiAnalysis) {
-      const recommendation = getEnhancedRecommendationForStressLevel(latestAiAnalysis.stressLevel);
+    if (!latestAiAnalysis) return;
+    let cancelled = false;
+
+    const loadRecommendation = async (): Promise<[EnhancedRecommendation | null, RecommendationFeedbackState | null]> => {
+      // Show the recommendation stored with the analysed mood log so it can be rated
+      if (analyzedMoodLog) {
+        const { data, error } = await supabase
+          .from('recommendations')
+          .select('id, catalog_id, title, description, content_url, type, recommendation_feedback(helpful, completed)')
+          .eq('mood_log_id', analyzedMoodLog.id)
+          .order('created_at', { ascending: true })
+          .limit(1)
+          .maybeSingle();
+
+        if (error) {
+          console.error('Error loading stored recommendation:', error);
+        } else if (data) {
+          return [
+            toEnhancedRecommendation({ ...data, catalogId: data.catalog_id, recommendationId: data.id }, latestAiAnalysis.stressLevel),
+            data.recommendation_feedback[0] ?? null
+          ];
+        }
+      }
+
+      return [await getEnhancedRecommendation(latestAiAnalysis.stressLevel, latestAiAnalysis.dominantEmotion ?? null, user?.id), null];
+    };
+
+    loadRecommendation().then(([recommendation, feedback]) => {
+      if (cancelled) return;
       setEnhancedRecommendation(recommendation);
-    }
-  }, [latestAiAnalysis]);
+      setRecommendationFeedback(feedback);
+    });
 
+    return () => {
+      cancelled = true;
+    };
+  }, [latestAiAnalysis, analyzedMoodLog, user?.id]);
+
+  // Keywords/features that pushed this prediction towards stress
+  const flaggedReasons = latestAiAnalysis?.explanation && latestAiAnalysis.stressLevel >= 3
+    ? getFlaggedReasons(latestAiAnalysis.explanation)
+    : [];
 
   if (!latestAiAnalysis) {
     return (
@@ -147,7 +156,7 @@ const InsightsPanel: React.FC<InsightsPanelProps> = ({ latestAiAnalysis, selecte
               <span className={`font-bold text-blue-800 ${isMobile ? 'text-base' : 'text-lg'}`}>Enhanced AI Analysis</span>
               <Sparkles className="h-5 w-5 text-purple-600" />
               <Badge variant="secondary" className={`${isMobile ? 'ml-0 mt-1' : 'ml-auto'} text-xs`}>
-                v4.0
+                v6.0
               </Badge>
             </div>
             <div className="space-y-4">
@@ -171,6 +180,16 @@ const InsightsPanel: React.FC<InsightsPanelProps> = ({ latestAiAnalysis, selecte
                       Polarity: {latestAiAnalysis.sentimentPolarity.toFixed(2)}
                     </div>
                   )}
+                  {latestAiAnalysis.sentiment === 'uncertain' && (
+                    <div className="text-xs text-gray-500 mt-1">
+                      The model wasn't confident enough to assign a sentiment
+                    </div>
+                  )}
+                  {flaggedReasons.length > 0 && (
+                    <div className="text-xs text-gray-600 mt-1">
+                      Flagged because of: <span className="font-medium">{flaggedReasons.join(', ')}</span>
+                    </div>
+                  )}
                 </div>
                 <div className={`bg-white rounded-lg border ${isMobile ? 'p-2' : 'p-3'}`}>
                   <div className={`text-gray-600 mb-1 ${isMobile ? 'text-xs' : 'text-sm'}`}>Stress Level</div>
@@ -190,7 +209,7 @@ const InsightsPanel: React.FC<InsightsPanelProps> = ({ latestAiAnalysis, selecte
                   <div className="flex items-center justify-between mb-2">
                     <div className={`text-gray-600 ${isMobile ? 'text-xs' : 'text-sm'}`}>Model Performance</div>
                     <Badge variant="outline" className="text-xs">
-                      Enhanced AI v4.0
+                      Enhanced AI v6.0
                     </Badge>
                   </div>
                   <div className={`grid gap-4 ${isMobile ? 'grid-cols-1 text-xs' : 'grid-cols-2 text-sm'}`}>
@@ -229,6 +248,36 @@ const InsightsPanel: React.FC<InsightsPanelProps> = ({ latestAiAnalysis, selecte
                 </div>
               </div>
               
+              {/* Ranked emotion distribution from the emotion head */}
+              {latestAiAnalysis.emotions && latestAiAnalysis.emotions.length > 0 && (
+                <div className={`bg-white rounded-lg border ${isMobile ? 'p-2' : 'p-3'}`}>
+                  <div className="flex items-center justify-between mb-2">
+                    <div className={`text-gray-600 ${isMobile ? 'text-xs' : 'text-sm'}`}>Emotion Breakdown</div>
+                    {latestAiAnalysis.dominantEmotion && (
+                      <Badge variant="outline" className="text-xs capitalize">
+                        {latestAiAnalysis.dominantEmotion}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="space-y-1.5">
+                    {latestAiAnalysis.emotions.slice(0, 4).map(({ emotion, probability }) => (
+                      <div key={emotion} className={`flex items-center gap-2 ${isMobile ? 'text-xs' : 'text-sm'}`}>
+                        <span className="w-20 capitalize text-gray-700">{emotion}</span>
+                        <div className="flex-1 bg-gray-200 rounded-full h-2 overflow-hidden">
+                          <motion.div
+                            className="h-2 rounded-full bg-gradient-to-r from-blue-400 to-purple-500"
+                            initial={{ width: 0 }}
+                            animate={{ width: `${probability * 100}%` }}
+                            transition={{ duration: 0.8, delay: 0.3 }}
+                          />
+                        </div>
+                        <span className="w-10 text-right text-gray-500">{Math.round(probability * 100)}%</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              
               <motion.div 
                 className={`bg-white rounded-lg border-l-4 border-blue-400 ${isMobile ? 'p-2' : 'p-3'}`}
                 initial={{ opacity: 0 }}
@@ -243,6 +292,10 @@ const InsightsPanel: React.FC<InsightsPanelProps> = ({ latestAiAnalysis, selecte
                     : 'Your mood shows some mixed signals. Consider taking time for self-care and mindfulness practices to maintain emotional balance.'}
                 </p>
               </motion.div>
+
+              {analyzedMoodLog && (
+                <MoodCorrectionControl moodLog={analyzedMoodLog} analysis={latestAiAnalysis} isMobile={isMobile} />
+              )}
             </div>
           </CardContent>
         </Card>
@@ -290,7 +343,7 @@ const InsightsPanel: React.FC<InsightsPanelProps> = ({ latestAiAnalysis, selecte
                         if (enhancedRecommendation.content_url?.startsWith('http')) {
                           window.open(enhancedRecommendation.content_url, '_blank');
                         } else {
-                          window.location.href = enhancedRecommendation.content_url!;
+                          navigate(getRecommendationLink(enhancedRecommendation.content_url!, enhancedRecommendation.recommendationId));
                         }
                       }}
                     >
@@ -300,6 +353,14 @@ const InsightsPanel: React.FC<InsightsPanelProps> = ({ latestAiAnalysis, selecte
                     </Button>
                   </motion.div>
                 )}
+                {enhancedRecommendation.recommendationId && (
+                  <RecommendationFeedback
+                    key={enhancedRecommendation.recommendationId}
+                    recommendationId={enhancedRecommendation.recommendationId}
+                    initialFeedback={recommendationFeedback}
+                    compact={isMobile}
+                  />
+                )}
               </div>
             </CardContent>
           </Card>
@@ -13,12 +13,21 @@ import {
   Brain,
   MessageCircle,
   Menu,
-  X
+  X,
+  ShieldAlert,
+  ListChecks,
+  Wind,
+  BookOpen,
+  Users,
+  FileText,
+  UserCog
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { motion } from 'framer-motion';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useIsMobile } from '@/hooks/use-mobile';
+import useRiskFlagAlerts from '@/hooks/useRiskFlagAlerts';
+import ProfileSettingsDialog from '@/components/ProfileSettingsDialog';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -30,16 +39,26 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   const location = useLocation();
   const isMobile = useIsMobile();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  useRiskFlagAlerts();
 
   const navigationItems = [
     { id: 'mood', label: 'Mood Check-in', icon: Heart, path: '/' },
     { id: 'history', label: 'Mood History', icon: Calendar, path: '/history' },
     { id: 'statistics', label: 'Your Mood Statistics', icon: TrendingUp, path: '/mood-statistics' },
     { id: 'insights', label: 'Insights', icon: Brain, path: '/insights' },
+    { id: 'activities', label: 'Exercises', icon: Wind, path: '/activities' },
+    { id: 'library', label: 'Library', icon: BookOpen, path: '/articles' },
+    { id: 'peer-support', label: 'Peer Support', icon: Users, path: '/peer-support' },
     { id: 'chat', label: 'Peer Video Chat', icon: MessageCircle, path: '/chat' },
 
+    ...(user?.role === 'admin' || user?.role === 'mentor' ? [
+      { id: 'safety', label: 'Safety Alerts', icon: ShieldAlert, path: '/safety' }
+    ] : []),
     ...(user?.role === 'admin' ? [
-      { id: 'dashboard', label: 'Admin Dashboard', icon: Settings, path: '/admin' }
+      { id: 'dashboard', label: 'Admin Dashboard', icon: Settings, path: '/admin' },
+      { id: 'catalog', label: 'Recommendation Catalog', icon: ListChecks, path: '/admin/recommendations' },
+      { id: 'content', label: 'Content Library', icon: FileText, path: '/admin/articles' }
     ] : [])
   ];
 
@@ -50,6 +69,13 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     }
   };
 
+  const openSettings = () => {
+    setSettingsOpen(true);
+    if (isMobile) {
+      setMobileMenuOpen(false);
+    }
+  };
+
   const SidebarContent = () => (
     <motion.div 
       initial={!isMobile ? { x: -300, opacity: 0 } : {}}
@@ -105,6 +131,18 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
 
       <Separator className="my-4 bg-slate-200" />
 
+      {/* Profile Settings */}
+      <motion.div whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} className="mb-1">
+        <Button
+          variant="ghost"
+          className="w-full justify-start gap-3 h-10 text-slate-600 hover:text-slate-800 hover:bg-slate-100/80 rounded-lg transition-all duration-200 text-sm"
+          onClick={openSettings}
+        >
+          <UserCog className="h-4 w-4" />
+          <span className="font-medium">Settings</span>
+        </Button>
+      </motion.div>
+
       {/* Compact Logout Button */}
       <motion.div whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
         <Button 
@@ -159,6 +197,8 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
           {children}
         </motion.div>
       </div>
+
+      <ProfileSettingsDialog open={settingsOpen} onOpenChange={setSettingsOpen} />
     </div>
   );
 };
@@ -0,0 +1,157 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+
+// Renders the markdown subset used by the content library: headings, paragraphs, lists,
+// quotes, rules and inline bold, italic, code and links. Output is built from React
+// elements, so article bodies can never inject HTML.
+
+interface MarkdownContentProps {
+  markdown: string;
+  className?: string;
+}
+
+type Block =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'quote'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'rule' };
+
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const UNORDERED_ITEM = /^\s*[-*]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const RULE = /^\s*(-{3,}|\*{3,})\s*$/;
+const INLINE = /(\*\*[^*]+\*\*|`[^`]+`|\[[^\]]+\]\([^)\s]+\)|\*[^*\s][^*]*\*|_[^_\s][^_]*_)/g;
+const LINK = /^\[([^\]]+)\]\(([^)\s]+)\)$/;
+const SAFE_EXTERNAL_URL = /^(https?:|mailto:|tel:)/i;
+
+const parseBlocks = (markdown: string): Block[] => {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let quote: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+    if (quote.length > 0) blocks.push({ type: 'quote', text: quote.join(' ') });
+    if (list) blocks.push({ type: 'list', ...list });
+    paragraph = [];
+    quote = [];
+    list = null;
+  };
+
+  for (const line of markdown.replace(/\r\n/g, '\n').split('\n')) {
+    const heading = line.match(HEADING);
+    const unordered = line.match(UNORDERED_ITEM);
+    const ordered = line.match(ORDERED_ITEM);
+    const quoted = line.match(QUOTE);
+
+    if (!line.trim()) {
+      flush();
+    } else if (RULE.test(line)) {
+      flush();
+      blocks.push({ type: 'rule' });
+    } else if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, text: heading[2].trim() });
+    } else if (unordered || ordered) {
+      const isOrdered = !unordered;
+      if (!list || list.ordered !== isOrdered) {
+        flush();
+        list = { ordered: isOrdered, items: [] };
+      }
+      list.items.push((unordered ?? ordered)[1]);
+    } else if (quoted) {
+      if (quote.length === 0) flush();
+      quote.push(quoted[1]);
+    } else if (list) {
+      // Indented continuation of the previous list item
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+    } else if (quote.length > 0) {
+      quote.push(line.trim());
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  flush();
+
+  return blocks;
+};
+
+const renderInline = (text: string, keyPrefix: string): React.ReactNode[] =>
+  text.split(INLINE).filter(Boolean).map((token, index) => {
+    const key = `${keyPrefix}-${index}`;
+    const link = token.match(LINK);
+
+    if (link) {
+      const [, label, href] = link;
+      if (href.startsWith('/')) {
+        return <Link key={key} to={href} className="text-indigo-700 underline underline-offset-2 hover:text-indigo-900">{renderInline(label, key)}</Link>;
+      }
+      if (SAFE_EXTERNAL_URL.test(href)) {
+        return (
+          <a key={key} href={href} target="_blank" rel="noopener noreferrer" className="text-indigo-700 underline underline-offset-2 hover:text-indigo-900">
+            {renderInline(label, key)}
+          </a>
+        );
+      }
+      return <React.Fragment key={key}>{renderInline(label, key)}</React.Fragment>;
+    }
+    if (token.startsWith('**') && token.endsWith('**')) {
+      return <strong key={key} className="font-semibold text-gray-900">{renderInline(token.slice(2, -2), key)}</strong>;
+    }
+    if (token.startsWith('`') && token.endsWith('`')) {
+      return <code key={key} className="px-1 py-0.5 rounded bg-gray-100 text-sm font-mono">{token.slice(1, -1)}</code>;
+    }
+    if ((token.startsWith('*') && token.endsWith('*')) || (token.startsWith('_') && token.endsWith('_'))) {
+      return <em key={key}>{renderInline(token.slice(1, -1), key)}</em>;
+    }
+    return <React.Fragment key={key}>{token}</React.Fragment>;
+  });
+
+const HEADING_CLASSES: Record<1 | 2 | 3, string> = {
+  1: 'text-2xl font-bold text-gray-900 mt-6 first:mt-0',
+  2: 'text-xl font-semibold text-gray-900 mt-6 first:mt-0',
+  3: 'text-lg font-semibold text-gray-800 mt-4 first:mt-0'
+};
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ markdown, className = '' }) => {
+  const blocks = parseBlocks(markdown);
+
+  return (
+    <div className={`space-y-4 text-gray-700 leading-relaxed ${className}`}>
+      {blocks.map((block, index) => {
+        const key = `block-${index}`;
+        switch (block.type) {
+          case 'heading': {
+            const Heading = `h${block.level + 1}` as 'h2' | 'h3' | 'h4';
+            return <Heading key={key} className={HEADING_CLASSES[block.level]}>{renderInline(block.text, key)}</Heading>;
+          }
+          case 'quote':
+            return (
+              <blockquote key={key} className="border-l-4 border-indigo-200 pl-4 italic text-gray-600">
+                {renderInline(block.text, key)}
+              </blockquote>
+            );
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={key} className={`pl-6 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={`${key}-${itemIndex}`}>{renderInline(item, `${key}-${itemIndex}`)}</li>
+                ))}
+              </List>
+            );
+          }
+          case 'rule':
+            return <hr key={key} className="border-gray-200" />;
+          default:
+            return <p key={key}>{renderInline(block.text, key)}</p>;
+        }
+      })}
+    </div>
+  );
+};
+
+export default MarkdownContent;
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine
+} from 'recharts';
+import { Gauge } from 'lucide-react';
+import { DEFAULT_ABSTAIN_THRESHOLD, loadAbstainThreshold, saveAbstainThreshold } from '@/lib/moodModel';
+import type { ModelCalibration } from '@/lib/moodModelProtocol';
+
+interface ModelCalibrationPanelProps {
+  calibration: ModelCalibration | null;
+}
+
+const ModelCalibrationPanel: React.FC<ModelCalibrationPanelProps> = ({ calibration }) => {
+  const { toast } = useToast();
+  const [threshold, setThreshold] = useState(DEFAULT_ABSTAIN_THRESHOLD);
+  const [savedThreshold, setSavedThreshold] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAbstainThreshold().then(value => {
+      if (cancelled) return;
+      setThreshold(value);
+      setSavedThreshold(value);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleThresholdCommit = async ([value]: number[]) => {
+    if (await saveAbstainThreshold(value)) {
+      setSavedThreshold(value);
+      toast({
+        title: 'Abstain threshold updated',
+        description: `Predictions below ${Math.round(value * 100)}% confidence are now shown as uncertain for every student.`
+      });
+      return;
+    }
+
+    setThreshold(savedThreshold ?? DEFAULT_ABSTAIN_THRESHOLD);
+    toast({
+      title: 'Abstain threshold not saved',
+      description: 'Please try again.',
+      variant: 'destructive'
+    });
+  };
+
+  return (
+    <Card className="shadow-lg border-2 border-indigo-100">
+      <CardHeader className="bg-gradient-to-r from-indigo-50 to-indigo-100">
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5 text-indigo-600" />
+          Confidence Calibration
+          {calibration && (
+            <Badge variant="secondary" className="ml-auto">T = {calibration.temperature.toFixed(2)}</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Temperature scaling fitted on the validation split. A well-calibrated model follows the diagonal.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        {!calibration ? (
+          <p className="text-sm text-gray-500">
+            The active model version was trained before calibration existed, so its confidence is uncalibrated. Train a new version to fit one.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-3 text-sm">
+              <div className="p-3 rounded-lg border bg-gray-50">
+                <div className="text-xs text-gray-500">ECE before</div>
+                <div className="text-lg font-bold text-gray-800">{calibration.uncalibratedEce.toFixed(3)}</div>
+              </div>
+              <div className="p-3 rounded-lg border bg-gray-50">
+                <div className="text-xs text-gray-500">ECE after</div>
+                <div className="text-lg font-bold text-gray-800">{calibration.calibratedEce.toFixed(3)}</div>
+              </div>
+              <div className="p-3 rounded-lg border bg-gray-50">
+                <div className="text-xs text-gray-500">Fitted on</div>
+                <div className="text-lg font-bold text-gray-800">{calibration.fittedOn} examples</div>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">
+                Reliability diagram ({calibration.reliabilitySplit} split)
+              </h4>
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ScatterChart>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      dataKey="meanPredicted"
+                      type="number"
+                      domain={[0, 1]}
+                      name="Predicted stress probability"
+                      label={{ value: 'Predicted stress probability', position: 'insideBottom', offset: -2, fontSize: 11 }}
+                    />
+                    <YAxis dataKey="observedRate" type="number" domain={[0, 1]} name="Observed stress rate" />
+                    <Tooltip formatter={(value: number) => value.toFixed(3)} />
+                    <Legend verticalAlign="top" />
+                    <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="#94a3b8" strokeDasharray="4 4" />
+                    <Scatter name="Uncalibrated" data={calibration.uncalibratedBins} fill="#F59E0B" line />
+                    <Scatter name="Calibrated" data={calibration.calibratedBins} fill="#6366F1" line />
+                  </ScatterChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium text-gray-700">Abstain threshold</span>
+            <span className="font-mono text-gray-800">{Math.round(threshold * 100)}%</span>
+          </div>
+          <Slider
+            min={0.5}
+            max={0.95}
+            step={0.05}
+            value={[threshold]}
+            onValueChange={([value]) => setThreshold(value)}
+            onValueCommit={handleThresholdCommit}
+            disabled={savedThreshold === null}
+          />
+          <p className="text-xs text-gray-500">
+            Predictions whose calibrated confidence is below this threshold are labelled "uncertain" instead of a sentiment, for every student. 50% never abstains.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ModelCalibrationPanel;
@@ -0,0 +1,169 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine
+} from 'recharts';
+import { AlertTriangle, Brain, Target, TrendingUp } from 'lucide-react';
+import type { FeatureImportance, ModelPerformanceMetrics } from '@/lib/analyticsQueries';
+
+interface ModelEvaluationPanelProps {
+  metrics: ModelPerformanceMetrics | null;
+  featureImportance: FeatureImportance[];
+}
+
+const formatPercent = (value: number | null | undefined) =>
+  value === null || value === undefined ? '—' : `${(value * 100).toFixed(1)}%`;
+
+const NotEvaluated: React.FC<{ message: string }> = ({ message }) => (
+  <div className="flex items-start gap-3 p-4 rounded-lg border border-dashed border-amber-300 bg-amber-50 text-amber-800">
+    <AlertTriangle className="h-5 w-5 mt-0.5 flex-shrink-0" />
+    <div>
+      <div className="font-medium">Not evaluated</div>
+      <div className="text-sm">{message}</div>
+    </div>
+  </div>
+);
+
+const ModelEvaluationPanel: React.FC<ModelEvaluationPanelProps> = ({ metrics, featureImportance }) => {
+  if (!metrics) {
+    return (
+      <Card className="shadow-lg border-2 border-indigo-100">
+        <CardHeader className="bg-gradient-to-r from-indigo-50 to-indigo-100">
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5 text-indigo-600" />
+            Model Evaluation
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-6">
+          <NotEvaluated message="No trained model has reported metrics on this device yet. Metrics appear after the model is loaded or trained." />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const evaluation = metrics.evaluation;
+  const summary = [
+    { label: 'Training accuracy', value: formatPercent(metrics.trainingAccuracy) },
+    { label: 'Validation accuracy', value: formatPercent(metrics.validationAccuracy) },
+    { label: 'Test accuracy', value: formatPercent(evaluation?.accuracy ?? metrics.testAccuracy) },
+    { label: 'Emotion accuracy', value: formatPercent(metrics.emotionAccuracy) },
+    { label: 'Precision', value: formatPercent(evaluation?.precision) },
+    { label: 'Recall', value: formatPercent(evaluation?.recall) },
+    { label: 'F1 score', value: formatPercent(evaluation?.f1Score) },
+    { label: 'ROC AUC', value: evaluation ? evaluation.auc.toFixed(3) : '—' }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg border-2 border-indigo-100">
+        <CardHeader className="bg-gradient-to-r from-indigo-50 to-indigo-100">
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5 text-indigo-600" />
+            Model Evaluation
+            {metrics.modelVersion && (
+              <Badge variant="secondary" className="ml-auto font-mono">{metrics.modelVersion}</Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            Trained {new Date(metrics.lastTrainingDate).toLocaleString()} on {metrics.trainingDataSize} examples
+            ({metrics.augmentedDataSize} after augmentation), {metrics.totalParameters.toLocaleString()} parameters
+            {evaluation && ` · evaluated on ${evaluation.testSize} held-out examples`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-6 space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {summary.map(item => (
+              <div key={item.label} className="p-3 rounded-lg border bg-gray-50">
+                <div className="text-xs text-gray-500">{item.label}</div>
+                <div className="text-lg font-bold text-gray-800">{item.value}</div>
+              </div>
+            ))}
+          </div>
+
+          {!evaluation ? (
+            <NotEvaluated message="This model version has no stored test-split evaluation. Train a new version to record one." />
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 mb-2">Confusion matrix (threshold 0.5)</h4>
+                <div className="grid grid-cols-3 gap-1 text-center text-sm max-w-xs">
+                  <div />
+                  <div className="text-xs text-gray-500">Pred. positive</div>
+                  <div className="text-xs text-gray-500">Pred. stress</div>
+                  <div className="text-xs text-gray-500 flex items-center justify-end pr-2">Positive</div>
+                  <div className="p-3 rounded bg-green-100 font-bold text-green-800">{evaluation.confusionMatrix[0][0]}</div>
+                  <div className="p-3 rounded bg-red-50 font-bold text-red-700">{evaluation.confusionMatrix[0][1]}</div>
+                  <div className="text-xs text-gray-500 flex items-center justify-end pr-2">Stress</div>
+                  <div className="p-3 rounded bg-red-50 font-bold text-red-700">{evaluation.confusionMatrix[1][0]}</div>
+                  <div className="p-3 rounded bg-green-100 font-bold text-green-800">{evaluation.confusionMatrix[1][1]}</div>
+                </div>
+
+                <h4 className="text-sm font-medium text-gray-700 mt-6 mb-2">Accuracy by category</h4>
+                <div className="h-48">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={evaluation.categoryAccuracy}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="category" tick={{ fontSize: 11 }} />
+                      <YAxis domain={[0, 1]} tickFormatter={(value) => `${Math.round(value * 100)}%`} />
+                      <Tooltip formatter={(value: number, _name, item) => [`${(value * 100).toFixed(1)}% (n=${item.payload.count})`, 'Accuracy']} />
+                      <Bar dataKey="accuracy" fill="#6366F1" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+                  <TrendingUp className="h-4 w-4" />
+                  ROC curve (AUC {evaluation.auc.toFixed(3)})
+                </h4>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={evaluation.rocPoints}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="fpr" type="number" domain={[0, 1]} label={{ value: 'False positive rate', position: 'insideBottom', offset: -2, fontSize: 11 }} />
+                      <YAxis dataKey="tpr" type="number" domain={[0, 1]} />
+                      <Tooltip formatter={(value: number) => value.toFixed(3)} labelFormatter={(value) => `FPR ${Number(value).toFixed(3)}`} />
+                      <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="#94a3b8" strokeDasharray="4 4" />
+                      <Line type="stepAfter" dataKey="tpr" stroke="#6366F1" strokeWidth={2} dot={false} name="TPR" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg border-2 border-indigo-100">
+        <CardHeader className="bg-gradient-to-r from-indigo-50 to-indigo-100">
+          <CardTitle className="flex items-center gap-2">
+            <Brain className="h-5 w-5 text-indigo-600" />
+            Global Feature Importance
+          </CardTitle>
+          <CardDescription>Mean absolute attribution over recent explained predictions, scaled to the strongest feature</CardDescription>
+        </CardHeader>
+        <CardContent className="p-6">
+          {featureImportance.length === 0 ? (
+            <NotEvaluated message="No explained predictions have been stored yet." />
+          ) : (
+            <div className="h-96">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={featureImportance} layout="vertical" margin={{ left: 40 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" domain={[0, 1]} />
+                  <YAxis type="category" dataKey="featureName" width={140} tick={{ fontSize: 11 }} />
+                  <Tooltip formatter={(value: number, _name, item) => [value.toFixed(3), item.payload.description]} />
+                  <Bar dataKey="importance" fill="#8B5CF6" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ModelEvaluationPanel;
@@ -0,0 +1,194 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/components/ui/use-toast';
+import { GitBranch, Pin, PinOff, RotateCcw, RefreshCw, Sparkles } from 'lucide-react';
+import {
+  listModelVersions,
+  activateModelVersion,
+  trainNewModelVersion,
+  type ModelRegistrySnapshot
+} from '@/lib/moodModel';
+import type { ModelVersionBreakdown } from '@/lib/analyticsQueries';
+
+interface ModelRegistryPanelProps {
+  versionBreakdown: ModelVersionBreakdown[];
+  onActiveVersionChange?: () => void;
+}
+
+const formatPercent = (value?: number) => (value !== undefined ? `${(value * 100).toFixed(1)}%` : '—');
+
+const ModelRegistryPanel: React.FC<ModelRegistryPanelProps> = ({ versionBreakdown, onActiveVersionChange }) => {
+  const { toast } = useToast();
+  const [snapshot, setSnapshot] = useState<ModelRegistrySnapshot | null>(null);
+  const [busyVersion, setBusyVersion] = useState<string | null>(null);
+  const [trainingProgress, setTrainingProgress] = useState<number | null>(null);
+
+  const loadRegistry = useCallback(async () => {
+    try {
+      setSnapshot(await listModelVersions());
+    } catch (error) {
+      console.error('❌ Error loading model registry:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRegistry();
+  }, [loadRegistry]);
+
+  const handleActivate = async (versionId: string, pinned: boolean) => {
+    try {
+      setBusyVersion(versionId);
+      await activateModelVersion(versionId, pinned);
+      toast({
+        title: pinned ? 'Model version pinned' : 'Model version activated',
+        description: `${versionId} now serves all predictions on this device.`
+      });
+      await loadRegistry();
+      onActiveVersionChange?.();
+    } catch (error) {
+      toast({
+        title: 'Could not switch model version',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive'
+      });
+    } finally {
+      setBusyVersion(null);
+    }
+  };
+
+  const handleTrainNew = async () => {
+    try {
+      setTrainingProgress(0);
+      await trainNewModelVersion(progress => {
+        setTrainingProgress(Math.round((progress.epoch / progress.totalEpochs) * 100));
+      });
+      toast({ title: 'New model version trained', description: 'The registry has been updated.' });
+      await loadRegistry();
+      onActiveVersionChange?.();
+    } catch (error) {
+      toast({
+        title: 'Training failed',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive'
+      });
+    } finally {
+      setTrainingProgress(null);
+    }
+  };
+
+  const logCounts = new Map(versionBreakdown.map(item => [item.modelVersion, item]));
+
+  return (
+    <Card className="shadow-lg border-2 border-indigo-100">
+      <CardHeader className="bg-gradient-to-r from-indigo-50 to-indigo-100">
+        <CardTitle className="flex items-center gap-2">
+          <GitBranch className="h-5 w-5 text-indigo-600" />
+          Model Registry
+          {snapshot && (
+            <Badge variant="secondary" className="ml-auto">
+              architecture v{snapshot.currentArchitectureVersion}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Trained versions stored in this browser. Pin a version to keep it active when new versions are trained.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <Button onClick={handleTrainNew} disabled={trainingProgress !== null} size="sm">
+            <Sparkles className="h-4 w-4 mr-2" />
+            Train new version
+          </Button>
+          <Button onClick={loadRegistry} variant="outline" size="sm">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          {trainingProgress !== null && (
+            <div className="flex-1 flex items-center gap-2 text-sm text-gray-600">
+              <Progress value={trainingProgress} className="h-2" />
+              <span>{trainingProgress}%</span>
+            </div>
+          )}
+        </div>
+
+        {!snapshot || snapshot.entries.length === 0 ? (
+          <p className="text-sm text-gray-500">No model versions registered yet. One is trained on the first mood check-in.</p>
+        ) : (
+          <div className="space-y-2">
+            {snapshot.entries.map(entry => {
+              const isActive = entry.id === snapshot.activeVersionId;
+              const isCompatible = entry.architectureVersion === snapshot.currentArchitectureVersion;
+              const usage = logCounts.get(entry.id);
+
+              return (
+                <div
+                  key={entry.id}
+                  className={`flex flex-wrap items-center gap-3 p-3 rounded-lg border ${isActive ? 'border-indigo-300 bg-indigo-50' : 'bg-gray-50'}`}
+                >
+                  <div className="flex-1 min-w-[200px]">
+                    <div className="font-mono text-sm font-medium text-gray-800 flex items-center gap-2">
+                      {entry.id}
+                      {isActive && <Badge className="bg-indigo-600">Active</Badge>}
+                      {isActive && snapshot.pinned && <Badge variant="outline">Pinned</Badge>}
+                      {!isCompatible && <Badge variant="destructive">Incompatible</Badge>}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      Trained {new Date(entry.createdAt).toLocaleString()} · val {formatPercent(entry.metrics?.validationAccuracy)} · test {formatPercent(entry.metrics?.testAccuracy)}
+                      {usage && ` · ${usage.count} logs (avg stress ${usage.avgStressLevel})`}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    {isActive ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busyVersion !== null}
+                        onClick={() => handleActivate(entry.id, !snapshot.pinned)}
+                      >
+                        {snapshot.pinned ? <PinOff className="h-4 w-4 mr-1" /> : <Pin className="h-4 w-4 mr-1" />}
+                        {snapshot.pinned ? 'Unpin' : 'Pin'}
+                      </Button>
+                    ) : (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={!isCompatible || busyVersion !== null}
+                          onClick={() => handleActivate(entry.id, false)}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Activate
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={!isCompatible || busyVersion !== null}
+                          onClick={() => handleActivate(entry.id, true)}
+                        >
+                          <Pin className="h-4 w-4 mr-1" />
+                          Pin
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {logCounts.has('unversioned') && (
+          <p className="text-xs text-gray-500">
+            {logCounts.get('unversioned').count} mood logs were analysed before the registry existed.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ModelRegistryPanel;
@@ -0,0 +1,279 @@
+import React, { useEffect, useState } from 'react';
+import {
+  addMonths, eachDayOfInterval, endOfMonth, format, getDay, startOfMonth, startOfYear
+} from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { useAuth } from '@/contexts/AuthContext';
+import useTimeZone from '@/hooks/useTimeZone';
+import type { MoodLogWithRecommendations } from '@/hooks/useMoodHistory';
+import MoodHistoryCard from '@/components/MoodHistoryCard';
+import { type MoodCalendar, type MoodCalendarDay, loadMoodCalendar } from '@/lib/moodCalendar';
+import { addDaysToKey, getDayKey, getStartOfDay } from '@/lib/dateBuckets';
+import { fetchMoodHistoryBetween } from '@/lib/moodHistoryQueries';
+import { CalendarDays, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+
+type CalendarView = 'year' | 'month';
+type CalendarMetric = 'mood' | 'stress';
+
+// Colour steps for averages rounded to 1-5
+const METRIC_COLORS: Record<CalendarMetric, string[]> = {
+  mood: ['bg-red-400', 'bg-orange-300', 'bg-yellow-300', 'bg-lime-400', 'bg-green-500'],
+  stress: ['bg-purple-100', 'bg-purple-200', 'bg-purple-300', 'bg-purple-500', 'bg-purple-700']
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const getMetricValue = (day: MoodCalendarDay | undefined, metric: CalendarMetric): number | null => {
+  if (!day) return null;
+  return metric === 'mood' ? day.averageMood : day.averageStress;
+};
+
+const getCellColor = (day: MoodCalendarDay | undefined, metric: CalendarMetric): string => {
+  const value = getMetricValue(day, metric);
+  if (value === null) return day ? 'bg-slate-200' : 'bg-slate-100';
+  return METRIC_COLORS[metric][Math.min(4, Math.max(0, Math.round(value) - 1))];
+};
+
+const summarizeDay = (day: MoodCalendarDay | undefined): string => {
+  if (!day) return 'No check-ins';
+  const stress = day.averageStress !== null ? `, stress ${day.averageStress}` : '';
+  return `Mood ${day.averageMood}${stress} (${day.entries} ${day.entries === 1 ? 'check-in' : 'check-ins'})`;
+};
+
+const describeDay = (date: Date, day: MoodCalendarDay | undefined): string =>
+  `${format(date, 'EEE, MMM d, yyyy')}: ${summarizeDay(day)}`;
+
+// Cells are calendar dates, so their keys come from their own fields rather than from
+// an instant converted to the user's time zone
+const getCellKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// Days of the month with blank cells before the first so weeks line up from Sunday
+const getMonthCells = (month: Date): Array<Date | null> => [
+  ...Array<null>(getDay(month)).fill(null),
+  ...eachDayOfInterval({ start: month, end: endOfMonth(month) })
+];
+
+const MoodCalendarHeatmap: React.FC = () => {
+  const { user } = useAuth();
+  const { timeZone, loading: timeZoneLoading } = useTimeZone();
+  const [view, setView] = useState<CalendarView>('year');
+  const [metric, setMetric] = useState<CalendarMetric>('mood');
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [calendar, setCalendar] = useState<MoodCalendar>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+  const [selectedDay, setSelectedDay] = useState<Date | null>(null);
+  const [dayLogs, setDayLogs] = useState<MoodLogWithRecommendations[]>([]);
+  const [dayLoading, setDayLoading] = useState(false);
+  const year = month.getFullYear();
+  const todayKey = getDayKey(new Date(), timeZone);
+
+  // The whole year is loaded, so month navigation within it needs no requests
+  useEffect(() => {
+    if (!user?.id || timeZoneLoading) return;
+
+    let cancelled = false;
+    setLoading(true);
+    const from = getStartOfDay(`${year}-01-01`, timeZone);
+    const to = getStartOfDay(`${year + 1}-01-01`, timeZone);
+    loadMoodCalendar(user.id, from, to, timeZone).then(result => {
+      if (cancelled) return;
+      setCalendar(result ?? {});
+      setError(!result);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, year, timeZone, timeZoneLoading]);
+
+  useEffect(() => {
+    if (!user?.id || !selectedDay) return;
+
+    let cancelled = false;
+    setDayLoading(true);
+    const dayKey = getCellKey(selectedDay);
+    const from = getStartOfDay(dayKey, timeZone);
+    const to = getStartOfDay(addDaysToKey(dayKey, 1), timeZone);
+    fetchMoodHistoryBetween(user.id, from, to).then(logs => {
+      if (cancelled) return;
+      setDayLogs(logs ?? []);
+      setDayLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, selectedDay, timeZone]);
+
+  const step = (direction: 1 | -1) => {
+    setMonth(current => addMonths(current, view === 'year' ? direction * 12 : direction));
+  };
+
+  const openMonth = (next: Date) => {
+    setMonth(next);
+    setView('month');
+  };
+
+  const renderDay = (date: Date | null, index: number, large: boolean) => {
+    if (!date) {
+      return <div key={`blank-${index}`} className={large ? 'h-14' : 'w-3 h-3'} />;
+    }
+
+    const key = getCellKey(date);
+    const day = calendar[key];
+    const future = key > todayKey;
+    const className = `${future ? 'bg-slate-50' : getCellColor(day, metric)} rounded-sm transition-transform ${day ? 'hover:scale-110 cursor-pointer' : 'cursor-default'}`;
+
+    return (
+      <button
+        key={key}
+        type="button"
+        title={describeDay(date, day)}
+        aria-label={describeDay(date, day)}
+        disabled={!day}
+        onClick={() => setSelectedDay(date)}
+        className={large ? `${className} h-14 p-1 text-left flex flex-col justify-between` : `${className} w-3 h-3`}
+      >
+        {large && (
+          <>
+            <span className="text-xs font-medium text-slate-700">{format(date, 'd')}</span>
+            {day && (
+              <span className="text-[10px] text-slate-700">
+                {getMetricValue(day, metric) ?? '–'}
+              </span>
+            )}
+          </>
+        )}
+      </button>
+    );
+  };
+
+  const months = Array.from({ length: 12 }, (_, index) => addMonths(startOfYear(month), index));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5 text-green-600" />
+          <h3 className="font-bold text-slate-800">Mood Calendar</h3>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex rounded-lg border border-slate-200 p-0.5">
+            {(['year', 'month'] as const).map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={view === option ? 'secondary' : 'ghost'}
+                className="h-7 px-2 text-xs capitalize"
+                onClick={() => setView(option)}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+          <div className="flex rounded-lg border border-slate-200 p-0.5">
+            {(['mood', 'stress'] as const).map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={metric === option ? 'secondary' : 'ghost'}
+                className="h-7 px-2 text-xs capitalize"
+                onClick={() => setMetric(option)}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => step(-1)} aria-label="Previous">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="min-w-[7rem] text-center text-sm font-medium text-slate-700">
+              {view === 'year' ? year : format(month, 'MMMM yyyy')}
+            </span>
+            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => step(1)} aria-label="Next">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl p-4 border border-slate-200">
+        {loading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : error ? (
+          <p className="text-sm text-slate-500 text-center py-8">Your mood calendar could not be loaded. Please try again later.</p>
+        ) : view === 'year' ? (
+          <div className="grid grid-cols-3 md:grid-cols-4 xl:grid-cols-6 gap-4">
+            {months.map(monthStart => (
+              <div key={monthStart.toISOString()} className="space-y-1">
+                <button
+                  type="button"
+                  onClick={() => openMonth(monthStart)}
+                  className={`text-xs font-medium hover:text-slate-900 ${format(monthStart, 'yyyy-MM') === todayKey.slice(0, 7) ? 'text-slate-900' : 'text-slate-500'}`}
+                >
+                  {format(monthStart, 'MMM')}
+                </button>
+                <div className="grid grid-cols-7 gap-0.5 w-fit">
+                  {getMonthCells(monthStart).map((date, index) => renderDay(date, index, false))}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-1">
+            <div className="grid grid-cols-7 gap-1">
+              {WEEKDAYS.map(weekday => (
+                <div key={weekday} className="text-center text-xs font-medium text-slate-500">{weekday}</div>
+              ))}
+            </div>
+            <div className="grid grid-cols-7 gap-1">
+              {getMonthCells(month).map((date, index) => renderDay(date, index, true))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-end gap-1 mt-4 text-xs text-slate-500">
+          <span>{metric === 'mood' ? 'Low mood' : 'Low stress'}</span>
+          {METRIC_COLORS[metric].map(color => (
+            <div key={color} className={`w-3 h-3 rounded-sm ${color}`} />
+          ))}
+          <span>{metric === 'mood' ? 'High mood' : 'High stress'}</span>
+        </div>
+      </div>
+
+      <Sheet open={selectedDay !== null} onOpenChange={open => !open && setSelectedDay(null)}>
+        <SheetContent side="right" className="w-full sm:max-w-lg overflow-y-auto">
+          {selectedDay && (
+            <>
+              <SheetHeader>
+                <SheetTitle>{format(selectedDay, 'EEEE, MMMM d, yyyy')}</SheetTitle>
+                <SheetDescription>{summarizeDay(calendar[getCellKey(selectedDay)])}</SheetDescription>
+              </SheetHeader>
+              <div className="mt-6 space-y-4">
+                {dayLoading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+                  </div>
+                ) : dayLogs.length === 0 ? (
+                  <p className="text-sm text-slate-500">No check-ins on this day.</p>
+                ) : (
+                  dayLogs.map((log, index) => (
+                    <MoodHistoryCard key={log.id} moodLog={log} index={index} />
+                  ))
+                )}
+              </div>
+            </>
+          )}
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+};
+
+export default MoodCalendarHeatmap;
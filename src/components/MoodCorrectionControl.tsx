@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { ThumbsDown, RotateCcw, UserCheck } from 'lucide-react';
+import {
+  type PredictionResult,
+  recordCorrection,
+  getPersonalizationStatus,
+  resetPersonalization
+} from '@/lib/moodModel';
+
+// The analysed mood log a correction refers to
+export interface CorrectableMoodLog {
+  id: string;
+  note: string | null;
+  mood_level: string;
+}
+
+interface MoodCorrectionControlProps {
+  moodLog: CorrectableMoodLog;
+  analysis: PredictionResult;
+  isMobile?: boolean;
+}
+
+const MoodCorrectionControl: React.FC<MoodCorrectionControlProps> = ({ moodLog, analysis, isMobile }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isChoosing, setIsChoosing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [correctedLabel, setCorrectedLabel] = useState<string | null>(null);
+  const [personalExampleCount, setPersonalExampleCount] = useState(0);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const loadCorrectionState = async () => {
+      const { data, error } = await supabase
+        .from('mood_corrections')
+        .select('corrected_label')
+        .eq('mood_log_id', moodLog.id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading mood correction:', error);
+      } else {
+        setCorrectedLabel(data?.corrected_label ?? null);
+      }
+
+      try {
+        const status = await getPersonalizationStatus(user.id);
+        setPersonalExampleCount(status.exampleCount);
+      } catch (statusError) {
+        console.warn('Failed to load personalization status:', statusError);
+      }
+    };
+
+    loadCorrectionState();
+  }, [moodLog.id, user?.id]);
+
+  const handleCorrection = async (stressed: boolean) => {
+    if (!user) return;
+
+    const label = stressed ? 'stressed' : 'not_stressed';
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('mood_corrections')
+        .upsert({
+          user_id: user.id,
+          mood_log_id: moodLog.id,
+          predicted_sentiment: analysis.sentiment,
+          predicted_stress_level: analysis.stressLevel,
+          corrected_label: label,
+          model_version: analysis.modelVersion ?? null
+        }, { onConflict: 'mood_log_id,user_id' });
+
+      if (error) throw error;
+
+      const status = await recordCorrection(user.id, {
+        moodLogId: moodLog.id,
+        text: moodLog.note || '',
+        moodLevel: moodLog.mood_level,
+        stressed
+      });
+
+      setCorrectedLabel(label);
+      setPersonalExampleCount(status.exampleCount);
+      setIsChoosing(false);
+      toast({
+        title: 'Thanks for the correction',
+        description: 'Future analyses on this device will take it into account.'
+      });
+    } catch (error) {
+      console.error('Error saving mood correction:', error);
+      toast({
+        title: 'Could not save correction',
+        description: 'Please try again in a moment.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!user) return;
+
+    try {
+      const status = await resetPersonalization(user.id);
+      setPersonalExampleCount(status.exampleCount);
+      toast({
+        title: 'Personalization reset',
+        description: 'Analyses on this device now use the shared model only.'
+      });
+    } catch (error) {
+      console.error('Error resetting personalization:', error);
+    }
+  };
+
+  const textSize = isMobile ? 'text-xs' : 'text-sm';
+
+  return (
+    <div className={`bg-white rounded-lg border ${isMobile ? 'p-2' : 'p-3'} space-y-2`}>
+      {correctedLabel ? (
+        <div className={`flex items-center gap-2 text-gray-600 ${textSize}`}>
+          <UserCheck className="h-4 w-4 text-green-600" />
+          You marked this analysis as {correctedLabel === 'stressed' ? 'stressed' : 'not stressed'}.
+        </div>
+      ) : isChoosing ? (
+        <div className="space-y-2">
+          <div className={`text-gray-600 ${textSize}`}>How are you actually feeling?</div>
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant="outline" disabled={isSaving} onClick={() => handleCorrection(false)}>
+              I'm not stressed
+            </Button>
+            <Button size="sm" variant="outline" disabled={isSaving} onClick={() => handleCorrection(true)}>
+              I'm stressed
+            </Button>
+            <Button size="sm" variant="ghost" disabled={isSaving} onClick={() => setIsChoosing(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button size="sm" variant="ghost" className="text-gray-600 px-2" onClick={() => setIsChoosing(true)}>
+          <ThumbsDown className="h-4 w-4 mr-2" />
+          This isn't right
+        </Button>
+      )}
+
+      {personalExampleCount > 0 && (
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span>
+            Personalized with {personalExampleCount} correction{personalExampleCount === 1 ? '' : 's'} on this device
+          </span>
+          <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={handleReset}>
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Reset
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MoodCorrectionControl;
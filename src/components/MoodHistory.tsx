@@ -1,16 +1,21 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import useMoodHistory from '@/hooks/useMoodHistory';
+import useMoodHistory, { type MoodHistoryFilters } from '@/hooks/useMoodHistory';
 import MoodHistoryCard from '@/components/MoodHistoryCard';
+import MoodHistoryExportMenu from '@/components/MoodHistoryExportMenu';
+import MoodHistoryImportDialog from '@/components/MoodHistoryImportDialog';
+import { MOOD_NAMES, MOOD_DEFINITIONS } from '@/lib/moodNames';
+import { formatDayKey } from '@/lib/dateBuckets';
 import { 
   History, Filter, BarChart3, TrendingUp, Calendar, 
-  RefreshCw, Smile, Brain, AlertCircle, Archive
+  RefreshCw, Smile, Brain, AlertCircle, Archive, Search, Loader2
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
@@ -18,14 +23,43 @@ const MoodHistory: React.FC = () => {
   const { 
     moodLogs, 
     loading, 
+    loadingMore,
+    hasMore,
     error, 
     filters, 
     statistics, 
     updateFilters, 
-    refreshHistory 
+    refreshHistory,
+    loadMore
   } = useMoodHistory();
 
   const [showStats, setShowStats] = useState(true);
+  const [searchInput, setSearchInput] = useState(filters.search);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  const hasFilters = filters.dateRange !== 'all' || filters.moodLevel !== 'all' || filters.moodName !== 'all' || filters.search !== '';
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ search: searchInput.trim() });
+  };
+
+  const clearFilters = () => {
+    setSearchInput('');
+    updateFilters({ dateRange: 'all', moodLevel: 'all', moodName: 'all', search: '' });
+  };
 
   if (loading) {
     return (
@@ -89,6 +123,8 @@ const MoodHistory: React.FC = () => {
               </CardDescription>
             </div>
             <div className="flex gap-2">
+              <MoodHistoryImportDialog onImported={refreshHistory} />
+              <MoodHistoryExportMenu filters={filters} entryCount={statistics.totalEntries} />
               <Button
                 variant="outline"
                 size="sm"
@@ -168,7 +204,7 @@ const MoodHistory: React.FC = () => {
                           <div className="text-xs text-center">
                             <div className="font-medium">{day.mood}</div>
                             <div className="text-muted-foreground">
-                              {new Date(day.date).toLocaleDateString('en-US', { weekday: 'short' })}
+                              {formatDayKey(day.date, { weekday: 'short' })}
                             </div>
                           </div>
                         </div>
@@ -190,8 +226,21 @@ const MoodHistory: React.FC = () => {
             Filter & Sort
           </CardTitle>
         </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <CardContent className="space-y-4">
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search your notes"
+                className="pl-9"
+              />
+            </div>
+            <Button type="submit" variant="outline">Search</Button>
+          </form>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
             <div className="space-y-2">
               <label className="text-sm font-medium">Time Range</label>
               <Select 
@@ -215,21 +264,37 @@ const MoodHistory: React.FC = () => {
               <Select 
                 value={filters.moodLevel} 
                 onValueChange={(value: any) => updateFilters({ moodLevel: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Levels</SelectItem>
+                  <SelectItem value="5">5 · Excited / Euphoric</SelectItem>
+                  <SelectItem value="4">4 · Happy / Content</SelectItem>
+                  <SelectItem value="3">3 · Neutral / Worried</SelectItem>
+                  <SelectItem value="2">2 · Stressed / Sad</SelectItem>
+                  <SelectItem value="1">1 · Devastated</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Mood</label>
+              <Select 
+                value={filters.moodName} 
+                onValueChange={(value) => updateFilters({ moodName: value as MoodHistoryFilters['moodName'] })}
               >
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Moods</SelectItem>
-                  <SelectItem value="5">🤩 Euphoric</SelectItem>
-                  <SelectItem value="5">😄 Excited</SelectItem>
-                  <SelectItem value="4">😊 Happy</SelectItem>
-                  <SelectItem value="4">😌 Content</SelectItem>
-                  <SelectItem value="3">😐 Neutral</SelectItem>
-                  <SelectItem value="3">😟 Worried</SelectItem>
-                  <SelectItem value="2">😢 Sad</SelectItem>
-                  <SelectItem value="2">😰 Stressed</SelectItem>
-                  <SelectItem value="1">😭 Devastated</SelectItem>
+                  {[...MOOD_NAMES].reverse().map(name => (
+                    <SelectItem key={name} value={name}>
+                      {MOOD_DEFINITIONS[name].emoji} {MOOD_DEFINITIONS[name].label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -259,9 +324,11 @@ const MoodHistory: React.FC = () => {
       {moodLogs.length > 0 && (
         <div className="flex items-center gap-2 text-sm text-muted-foreground">
           <Calendar className="w-4 h-4" />
-          Showing {moodLogs.length} mood {moodLogs.length === 1 ? 'entry' : 'entries'}
+          Showing {moodLogs.length} of {statistics.totalEntries} mood {statistics.totalEntries === 1 ? 'entry' : 'entries'}
+          {filters.search && ` mentioning "${filters.search}"`}
           {filters.dateRange !== 'all' && ` from ${filters.dateRange}`}
           {filters.moodLevel !== 'all' && ` with mood level ${filters.moodLevel}`}
+          {filters.moodName !== 'all' && ` feeling ${MOOD_DEFINITIONS[filters.moodName].label.toLowerCase()}`}
         </div>
       )}
 
@@ -281,14 +348,14 @@ const MoodHistory: React.FC = () => {
                     No mood entries found
                   </h3>
                   <p className="text-muted-foreground mb-4">
-                    {filters.dateRange !== 'all' || filters.moodLevel !== 'all'
+                    {hasFilters
                       ? 'Try adjusting your filters to see more entries.'
                       : 'Start by logging your first mood to see it appear here.'}
                   </p>
-                  {filters.dateRange !== 'all' || filters.moodLevel !== 'all' ? (
+                  {hasFilters ? (
                     <Button 
                       variant="outline" 
-                      onClick={() => updateFilters({ dateRange: 'all', moodLevel: 'all' })}
+                      onClick={clearFilters}
                     >
                       Clear Filters
                     </Button>
@@ -306,6 +373,18 @@ const MoodHistory: React.FC = () => {
             ))
           )}
         </AnimatePresence>
+
+        {hasMore && (
+          <div ref={sentinelRef} className="flex justify-center py-4">
+            {loadingMore ? (
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            ) : (
+              <Button variant="outline" size="sm" onClick={loadMore}>
+                Load more
+              </Button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,12 +1,18 @@
 import React from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { 
-  Smile, Meh, Frown, Sun, Brain, Activity, Video, BookOpen, Wind,
+  Smile, Meh, Frown, Sun, Brain, Activity,
   Calendar, MessageSquare, TrendingUp, ExternalLink
 } from 'lucide-react';
 import { MoodLogWithRecommendations } from '@/hooks/useMoodHistory';
+import RecommendationFeedback from '@/components/RecommendationFeedback';
+import { RECOMMENDATION_TYPE_ICONS, getRecommendationLink } from '@/lib/recommendationCatalog';
+import { describeMoodCoordinates, getMoodDefinition } from '@/lib/moodNames';
+import { MOOD_LOG_SOURCE_LABELS } from '@/lib/moodImport';
+import type { MoodLevel } from '@shared/moodDomain';
 import { motion } from 'framer-motion';
 
 interface MoodHistoryCardProps {
@@ -14,7 +20,7 @@ interface MoodHistoryCardProps {
   index: number;
 }
 
-const moodConfig = {
+const moodConfig: Record<MoodLevel, { emoji: string; icon: typeof Smile; label: string; color: string; textColor: string; bgLight: string }> = {
   '1': { emoji: '😭', icon: Frown, label: 'Devastated', color: 'bg-red-500', textColor: 'text-red-700', bgLight: 'bg-red-50' },
   '2': { emoji: '😰', icon: Frown, label: 'Stressed / Sad', color: 'bg-orange-500', textColor: 'text-orange-700', bgLight: 'bg-orange-50' },
   '3': { emoji: '😐', icon: Meh, label: 'Neutral / Worried', color: 'bg-yellow-500', textColor: 'text-yellow-700', bgLight: 'bg-yellow-50' },
@@ -30,17 +36,12 @@ const stressLevelConfig = {
   5: { label: 'Very High', color: 'bg-red-500' }
 };
 
-const recommendationIcons = {
-  breathing: Wind,
-  mindfulness: Brain,
-  activity: Activity,
-  video: Video,
-  article: BookOpen
-};
-
 const MoodHistoryCard: React.FC<MoodHistoryCardProps> = ({ moodLog, index }) => {
+  const navigate = useNavigate();
   const mood = moodConfig[moodLog.mood_level];
   const MoodIcon = mood.icon;
+  // Check-ins logged before mood names were stored only have the combined level label
+  const namedMood = getMoodDefinition(moodLog.mood_name);
   const formattedDate = new Date(moodLog.created_at).toLocaleDateString('en-US', {
     weekday: 'short',
     year: 'numeric',
@@ -67,12 +68,22 @@ const MoodHistoryCard: React.FC<MoodHistoryCardProps> = ({ moodLog, index }) =>
               </div>
               <div>
                 <h3 className="font-semibold text-lg">
-                  {mood.emoji} Feeling {mood.label}
+                  {namedMood ? `${namedMood.emoji} Feeling ${namedMood.label}` : `${mood.emoji} Feeling ${mood.label}`}
                 </h3>
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
                   <Calendar className="w-4 h-4" />
                   <span>{formattedDate} at {formattedTime}</span>
+                  {moodLog.source !== 'check_in' && (
+                    <Badge variant="secondary" className="text-xs">
+                      Imported from {MOOD_LOG_SOURCE_LABELS[moodLog.source]}
+                    </Badge>
+                  )}
                 </div>
+                {moodLog.valence !== null && moodLog.arousal !== null && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {describeMoodCoordinates(moodLog.valence, moodLog.arousal)}
+                  </p>
+                )}
               </div>
             </div>
             <Badge variant="outline" className={mood.color + ' text-white border-transparent'}>
@@ -138,7 +149,7 @@ const MoodHistoryCard: React.FC<MoodHistoryCardProps> = ({ moodLog, index }) =>
               </p>
               <div className="space-y-2">
                 {moodLog.recommendations.map((rec) => {
-                  const RecIcon = recommendationIcons[rec.type] || Activity;
+                  const RecIcon = RECOMMENDATION_TYPE_ICONS[rec.type] || Activity;
                   return (
                     <div key={rec.id} className="flex items-start gap-2 p-2 bg-white rounded border">
                       <RecIcon className="w-4 h-4 mt-0.5 text-blue-600" />
@@ -156,13 +167,22 @@ const MoodHistoryCard: React.FC<MoodHistoryCardProps> = ({ moodLog, index }) =>
                               size="sm"
                               variant="ghost"
                               className="h-6 px-2 text-xs text-blue-600 hover:text-blue-800"
-                              onClick={() => window.open(rec.content_url!, '_blank')}
+                              onClick={() => rec.content_url!.startsWith('/')
+                                ? navigate(getRecommendationLink(rec.content_url!, rec.id))
+                                : window.open(rec.content_url!, '_blank')}
                             >
                               <ExternalLink className="w-3 h-3 mr-1" />
                               View
                             </Button>
                           )}
                         </div>
+                        <div className="mt-2">
+                          <RecommendationFeedback
+                            recommendationId={rec.id}
+                            initialFeedback={rec.recommendation_feedback?.[0] ?? null}
+                            compact
+                          />
+                        </div>
                       </div>
                     </div>
                   );
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import type { MoodHistoryFilters, MoodLogWithRecommendations } from '@/hooks/useMoodHistory';
+import { fetchAllMoodHistory } from '@/lib/moodHistoryQueries';
+import {
+  downloadFile,
+  getExportFilename,
+  toMoodHistoryCsv,
+  toMoodHistoryJson,
+  toReportSearch
+} from '@/lib/moodExport';
+import { Download, FileSpreadsheet, FileJson, FileText, Loader2 } from 'lucide-react';
+
+interface MoodHistoryExportMenuProps {
+  filters: MoodHistoryFilters;
+  entryCount: number;
+}
+
+// The History page only holds the pages scrolled so far, so exports fetch every matching entry
+const MoodHistoryExportMenu: React.FC<MoodHistoryExportMenuProps> = ({ filters, entryCount }) => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+
+  const exportLogs = async (save: (logs: MoodLogWithRecommendations[]) => void, format: string) => {
+    if (!user) return;
+
+    setExporting(true);
+    const logs = await fetchAllMoodHistory(user.id, filters);
+    setExporting(false);
+
+    if (!logs) {
+      toast({ title: 'Export failed', description: 'Your mood history could not be loaded. Please try again.', variant: 'destructive' });
+      return;
+    }
+    save(logs);
+    toast({ title: 'Export ready', description: `${logs.length} entries saved as ${format}.` });
+  };
+
+  const exportCsv = () => exportLogs(logs => {
+    // The byte order mark makes spreadsheet apps read the notes as UTF-8
+    downloadFile(`\ufeff${toMoodHistoryCsv(logs)}`, getExportFilename('csv'), 'text/csv');
+  }, 'CSV');
+
+  const exportJson = () => exportLogs(logs => {
+    downloadFile(toMoodHistoryJson(logs, filters), getExportFilename('json'), 'application/json');
+  }, 'JSON');
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2" disabled={entryCount === 0 || exporting}>
+          {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+          Exports the {entryCount} entries matching your filters
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={exportCsv}>
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          Spreadsheet (CSV)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={exportJson}>
+          <FileJson className="w-4 h-4 mr-2" />
+          Data (JSON)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate(`/history/report${toReportSearch(filters)}`)}>
+          <FileText className="w-4 h-4 mr-2" />
+          Clinician report (PDF)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default MoodHistoryExportMenu;
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { getMoodLabel } from '@/lib/moodExport';
+import {
+  type BearableMoodScale,
+  type MoodImportPreview,
+  MOOD_LOG_SOURCE_LABELS,
+  importMoodLogs,
+  previewMoodImport
+} from '@/lib/moodImport';
+import { AlertCircle, Loader2, Upload } from 'lucide-react';
+
+interface MoodHistoryImportDialogProps {
+  onImported: () => void;
+}
+
+// Entries shown in the preview before importing
+const PREVIEW_ROWS = 8;
+
+const MoodHistoryImportDialog: React.FC<MoodHistoryImportDialogProps> = ({ onImported }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [bearableScale, setBearableScale] = useState<BearableMoodScale>(10);
+  const [preview, setPreview] = useState<MoodImportPreview | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const reset = () => {
+    setFileText(null);
+    setPreview(null);
+    setFileError(null);
+  };
+
+  const loadPreview = async (text: string, scale: BearableMoodScale) => {
+    if (!user) return;
+
+    setReading(true);
+    const result = await previewMoodImport(user.id, text, { bearableScale: scale });
+    setReading(false);
+
+    if (!result) {
+      setPreview(null);
+      setFileError('This file could not be checked against your history. Use a Daylio or Bearable CSV export, or a JSON export from this app.');
+      return;
+    }
+    setPreview(result);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (importing) return;
+    setOpen(nextOpen);
+    if (!nextOpen) reset();
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    reset();
+    if (!file) return;
+
+    const text = await file.text();
+    setFileText(text);
+    await loadPreview(text, bearableScale);
+  };
+
+  // Bearable files do not record their scale, so ratings are re-mapped when it changes
+  const handleBearableScaleChange = (value: string) => {
+    const scale = Number(value) as BearableMoodScale;
+    setBearableScale(scale);
+    if (fileText) loadPreview(fileText, scale);
+  };
+
+  const handleImport = async () => {
+    if (!preview || !user) return;
+
+    setImporting(true);
+    const { inserted, flagged } = await importMoodLogs(user.id, preview.source, preview.entries);
+    setImporting(false);
+
+    if (inserted < preview.entries.length) {
+      toast({
+        title: 'Import incomplete',
+        description: `${inserted} of ${preview.entries.length} entries were imported. Import the same file again to add the rest.`,
+        variant: 'destructive'
+      });
+    } else {
+      toast({ title: 'Import complete', description: `${inserted} entries added to your history.` });
+    }
+
+    if (flagged > 0) {
+      toast({
+        title: 'Some notes were shared with a mentor',
+        description: `${flagged} imported ${flagged === 1 ? 'note mentions' : 'notes mention'} thoughts of self-harm, so a mentor has been notified.`
+      });
+    }
+
+    if (inserted > 0) onImported();
+    setOpen(false);
+    reset();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <Upload className="w-4 h-4" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import mood history</DialogTitle>
+          <DialogDescription>
+            Bring in entries from Daylio or Bearable (CSV export) or from a JSON export of this app.
+            Entries at a time already in your history are skipped. Notes are checked for crisis
+            language the same way as check-ins.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="mood-import-file">Export file</Label>
+            <Input id="mood-import-file" type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} disabled={reading || importing} />
+          </div>
+
+          {reading && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Checking the file against your history...
+            </div>
+          )}
+
+          {fileError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{fileError}</AlertDescription>
+            </Alert>
+          )}
+
+          {preview && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                <span className="font-medium">{MOOD_LOG_SOURCE_LABELS[preview.source]}</span>
+                {' · '}{preview.entries.length} new
+                {' · '}{preview.duplicates} already in your history
+                {preview.skipped.length > 0 && ` · ${preview.skipped.length} unreadable`}
+              </p>
+
+              {preview.source === 'bearable' && (
+                <div className="space-y-2">
+                  <Label htmlFor="mood-import-bearable-scale">Bearable mood scale</Label>
+                  <Select value={String(bearableScale)} onValueChange={handleBearableScaleChange} disabled={reading || importing}>
+                    <SelectTrigger id="mood-import-bearable-scale" className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="10">1-10 (current app)</SelectItem>
+                      <SelectItem value="5">1-5 (older versions)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {preview.entries.length > 0 && (
+                <div className="border rounded-lg overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted/50 text-left text-muted-foreground">
+                      <tr>
+                        <th className="px-3 py-2 font-medium whitespace-nowrap">Date</th>
+                        <th className="px-3 py-2 font-medium whitespace-nowrap">Mood</th>
+                        <th className="px-3 py-2 font-medium">Note</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.entries.slice(0, PREVIEW_ROWS).map(entry => (
+                        <tr key={entry.created_at} className="border-t align-top">
+                          <td className="px-3 py-2 whitespace-nowrap">{format(new Date(entry.created_at), 'MMM d, yyyy HH:mm')}</td>
+                          <td className="px-3 py-2 whitespace-nowrap">{getMoodLabel(entry)}</td>
+                          <td className="px-3 py-2 text-muted-foreground line-clamp-2">{entry.note || '–'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {preview.entries.length > PREVIEW_ROWS && (
+                    <p className="px-3 py-2 border-t text-xs text-muted-foreground">
+                      and {preview.entries.length - PREVIEW_ROWS} more
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {preview.skipped.length > 0 && (
+                <ul className="text-xs text-muted-foreground space-y-1">
+                  {preview.skipped.slice(0, 5).map(({ row, reason }) => (
+                    <li key={`${row}-${reason}`}>{row > 0 ? `Row ${row}: ` : ''}{reason}</li>
+                  ))}
+                  {preview.skipped.length > 5 && <li>and {preview.skipped.length - 5} more</li>}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={importing}>Cancel</Button>
+          <Button onClick={handleImport} disabled={!preview || preview.entries.length === 0 || importing}>
+            {importing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {preview && preview.entries.length > 0 ? `Import ${preview.entries.length} entries` : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MoodHistoryImportDialog;
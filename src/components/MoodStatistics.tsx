@@ -12,22 +12,25 @@ import {
   Activity
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
 import { motion } from 'framer-motion';
 import useMoodHistory, { type MoodHistoryStats } from '@/hooks/useMoodHistory';
+import MoodCalendarHeatmap from '@/components/MoodCalendarHeatmap';
+import { MOOD_DEFINITIONS, type MoodName } from '@/lib/moodNames';
+import { loadMoodCalendar } from '@/lib/moodCalendar';
+import { addDaysToKey, formatDayKey, getRecentDayKeys, getStartOfDay } from '@/lib/dateBuckets';
 
+// The trend and top recommendation type come with the statistics, computed over every entry
 interface ExtendedStats extends MoodHistoryStats {
-  improvementTrend: 'improving' | 'stable' | 'declining';
   streakCount: number;
   wellnessScore: number;
-  topRecommendationType: string;
 }
 
 const MoodStatistics = () => {
   const { user, logout } = useAuth();
-  const { moodLogs, statistics, loading: historyLoading } = useMoodHistory();
+  const { moodLogs, statistics, timeZone, loading: historyLoading } = useMoodHistory();
   const [extendedStats, setExtendedStats] = useState<ExtendedStats | null>(null);
   const [loading, setLoading] = useState(true);
+  const [distributionBy, setDistributionBy] = useState<'level' | 'mood'>('level');
 
   useEffect(() => {
     if (!historyLoading && statistics && moodLogs.length > 0) {
@@ -42,41 +45,28 @@ const MoodStatistics = () => {
       if (moodLogs.length === 0) {
         setExtendedStats({
           ...statistics,
-          improvementTrend: 'stable',
           streakCount: 0,
-          wellnessScore: 0,
-          topRecommendationType: 'mindfulness'
+          wellnessScore: 0
         });
         setLoading(false);
         return;
       }
 
-      // Calculate improvement trend based on recent vs older logs
-      const recentLogs = moodLogs.slice(0, Math.min(10, Math.floor(moodLogs.length / 2)));
-      const olderLogs = moodLogs.slice(-Math.min(10, Math.floor(moodLogs.length / 2)));
-      
-      const recentAvg = recentLogs.reduce((sum, log) => sum + parseInt(log.mood_level), 0) / recentLogs.length;
-      const olderAvg = olderLogs.reduce((sum, log) => sum + parseInt(log.mood_level), 0) / olderLogs.length;
-      
-      let improvementTrend: 'improving' | 'stable' | 'declining' = 'stable';
-      if (recentAvg > olderAvg + 0.3) improvementTrend = 'improving';
-      else if (recentAvg < olderAvg - 0.3) improvementTrend = 'declining';
-
-      // Calculate streak (consecutive days with mood >= 3)
+      // Calculate streak (consecutive days with mood >= 3), with days in the user's time zone
       let streakCount = 0;
-      const today = new Date();
-      for (let i = 0; i < 30; i++) {
-        const checkDate = new Date(today.getTime() - (i * 24 * 60 * 60 * 1000));
-        const dateStr = checkDate.toISOString().split('T')[0];
-        const dayLogs = moodLogs.filter(log => log.created_at.startsWith(dateStr));
-        
-        if (dayLogs.length > 0) {
-          const dayAvg = dayLogs.reduce((sum, log) => sum + parseInt(log.mood_level), 0) / dayLogs.length;
-          if (dayAvg >= 3) {
-            streakCount++;
-          } else {
-            break;
-          }
+      const recentDays = getRecentDayKeys(30, timeZone);
+      const calendar = user?.id
+        ? await loadMoodCalendar(
+            user.id,
+            getStartOfDay(recentDays[0], timeZone),
+            getStartOfDay(addDaysToKey(recentDays[recentDays.length - 1], 1), timeZone),
+            timeZone
+          )
+        : null;
+      for (const dayKey of [...recentDays].reverse()) {
+        const day = calendar?.[dayKey];
+        if (day && day.averageMood >= 3) {
+          streakCount++;
         } else {
           break;
         }
@@ -89,38 +79,17 @@ const MoodStatistics = () => {
       const streakComponent = Math.min(streakCount / 7, 1) * 10;
       const wellnessScore = Math.round(moodComponent + stressComponent + consistencyComponent + streakComponent);
 
-      // Get top recommendation type from real user data only
-      const { data: recommendations } = await supabase
-        .from('recommendations')
-        .select('type')
-        .in('mood_log_id', moodLogs.map(log => log.id));
-      
-      let topRecommendationType = 'mindfulness'; // default
-      if (recommendations && recommendations.length > 0) {
-        const typeCounts: Record<string, number> = {};
-        recommendations.forEach(rec => {
-          typeCounts[rec.type] = (typeCounts[rec.type] || 0) + 1;
-        });
-        
-        topRecommendationType = Object.entries(typeCounts)
-          .reduce((a, b) => a[1] > b[1] ? a : b)[0];
-      }
-
       setExtendedStats({
         ...statistics,
-        improvementTrend,
         streakCount,
-        wellnessScore,
-        topRecommendationType
+        wellnessScore
       });
     } catch (error) {
       console.error('Error calculating extended stats:', error);
       setExtendedStats({
         ...statistics,
-        improvementTrend: 'stable',
         streakCount: 0,
-        wellnessScore: Math.round((statistics.averageMood / 5) * 100),
-        topRecommendationType: 'mindfulness'
+        wellnessScore: Math.round((statistics.averageMood / 5) * 100)
       });
     } finally {
       setLoading(false);
@@ -143,7 +112,7 @@ const MoodStatistics = () => {
   }
 
   return (
-    <div className="p-4 bg-white/80 backdrop-blur-sm overflow-hidden h-full">
+    <div className="p-4 bg-white/80 backdrop-blur-sm overflow-y-auto h-full">
       {/* Compact Header */}
       <div className="flex items-center justify-between mb-6 pb-4 border-b border-gray-200/60">
         <div>
@@ -306,7 +275,7 @@ const MoodStatistics = () => {
                             <div className="text-xs text-center">
                               <div className="font-bold text-slate-800">{day.mood.toFixed(1)}</div>
                               <div className="text-slate-500 text-xs">
-                                {new Date(day.date).toLocaleDateString('en-US', { weekday: 'short' })}
+                                {formatDayKey(day.date, { weekday: 'short' })}
                               </div>
                             </div>
                           </motion.div>
@@ -336,11 +305,33 @@ const MoodStatistics = () => {
                       <h4 className="font-semibold text-slate-700 mb-3 text-sm flex items-center gap-2">
                         <Heart className="h-4 w-4 text-orange-500" />
                         Mood Distribution
+                        <div className="ml-auto flex gap-1">
+                          <Button
+                            size="sm"
+                            variant={distributionBy === 'level' ? 'default' : 'ghost'}
+                            className="h-6 px-2 text-xs"
+                            onClick={() => setDistributionBy('level')}
+                          >
+                            Level
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant={distributionBy === 'mood' ? 'default' : 'ghost'}
+                            className="h-6 px-2 text-xs"
+                            onClick={() => setDistributionBy('mood')}
+                          >
+                            Mood
+                          </Button>
+                        </div>
                       </h4>
                       <div className="space-y-2">
-                        {statistics && Object.entries(statistics.moodDistribution).map(([level, count]) => (
-                          <div key={level} className="flex items-center justify-between text-xs">
-                            <span className="font-medium text-slate-700">Level {level}</span>
+                        {statistics && Object.entries(distributionBy === 'level' ? statistics.moodDistribution : statistics.moodNameDistribution).map(([key, count]) => (
+                          <div key={key} className="flex items-center justify-between text-xs">
+                            <span className="font-medium text-slate-700">
+                              {distributionBy === 'level'
+                                ? `Level ${key}`
+                                : `${MOOD_DEFINITIONS[key as MoodName].emoji} ${MOOD_DEFINITIONS[key as MoodName].label}`}
+                            </span>
                             <div className="flex items-center gap-2">
                               <div className="w-16 bg-gray-200 rounded-full h-2">
                                 <motion.div 
@@ -379,6 +370,11 @@ const MoodStatistics = () => {
                   </div>
                 </div>
               </div>
+
+              <Separator className="bg-gray-200" />
+
+              {/* Year-at-a-glance calendar */}
+              <MoodCalendarHeatmap />
             </div>
           )}
     </div>
@@ -8,18 +8,20 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { 
-  Smile, Meh, Frown, Heart, Sun, Brain, Sparkles, Video, Wind, MessageCircle, 
-  Zap, Activity, BookOpen, TrendingUp 
+  Smile, Meh, Frown, Heart, Sun, Brain, Sparkles, MessageCircle, 
+  Zap, TrendingUp 
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   predictMood, 
   trainModel, 
-  getRecommendationMapping, 
   getModelStatus,
-  type RecommendationMapping,
   type PredictionResult
 } from '@/lib/moodModel';
+import { CLIENT_ANALYSIS_ENGINE, saveClientAnalysis } from '@/lib/moodAnalyses';
+import { getEnhancedRecommendation } from '@/lib/recommendationCatalog';
+import { getMoodDefinition } from '@/lib/moodNames';
+import { type CrisisAssessment, detectCrisisLanguage, createRiskFlag } from '@/lib/crisisDetection';
 
 const moodEmojis = [
   { 
@@ -115,55 +117,21 @@ const moodEmojis = [
 ];
 
 interface MoodTrackerProps {
-  onMoodLogged?: (aiResult?: PredictionResult, moodLevel?: string) => void;
+  onMoodLogged?: (aiResult?: PredictionResult, moodLevel?: string, crisis?: CrisisCheckResult) => void;
 }
 
-// Enhanced recommendations mapping with icons
-interface EnhancedRecommendation {
-  title: string;
-  description: string;
-  content_url?: string;
-  type: 'breathing' | 'mindfulness' | 'activity' | 'video' | 'article';
-  icon: React.ComponentType<any>;
-  color: string;
-  urgency: 'low' | 'medium' | 'high';
+// Outcome of the crisis check on a submitted note
+export interface CrisisCheckResult {
+  assessment: CrisisAssessment;
+  mentorNotified: boolean;
 }
 
-const getEnhancedRecommendationForStressLevel = (stressLevel: number): EnhancedRecommendation => {
-  const mapping = getRecommendationMapping(stressLevel);
-  const iconMap = {
-    video: Video,
-    breathing: Wind,
-    mindfulness: Brain,
-    activity: Activity,
-    article: BookOpen
-  };
-  
-  const colorMap = {
-    1: 'from-green-50 to-emerald-50 border-green-200',
-    2: 'from-green-50 to-emerald-50 border-green-200', 
-    3: 'from-yellow-50 to-orange-50 border-yellow-200',
-    4: 'from-orange-50 to-red-50 border-orange-200',
-    5: 'from-red-50 to-red-100 border-red-300'
-  };
-  
-  // Map types directly since all are now database compatible
-  const dbCompatibleType = mapping.recommendation.type;
-  
-  return {
-    ...mapping.recommendation,
-    type: dbCompatibleType,
-    icon: iconMap[dbCompatibleType] || Brain,
-    color: colorMap[stressLevel as keyof typeof colorMap] || colorMap[3],
-    urgency: stressLevel <= 2 ? 'low' : stressLevel === 3 ? 'medium' : 'high'
-  };
-};
-
 const MoodTracker: React.FC<MoodTrackerProps> = ({ onMoodLogged }) => {
   const [selectedMood, setSelectedMood] = useState<string | null>(null);
   const [note, setNote] = useState('');
   const [loading, setLoading] = useState(false);
   const [analysisProgress, setAnalysisProgress] = useState(0);
+  const [analysisStage, setAnalysisStage] = useState('Processing your mood data...');
   const [hoveredMood, setHoveredMood] = useState<string | null>(null);
   const { user } = useAuth();
   const { toast } = useToast();
@@ -184,6 +152,42 @@ const MoodTracker: React.FC<MoodTrackerProps> = ({ onMoodLogged }) => {
     }
   }, []);
 
+  /**
+   * Alerts mentors about a flagged note. The risk flag points at the mood log when it was
+   * saved and otherwise keeps only the note's excerpt, so escalation never depends on the save.
+   */
+  const reportCrisis = async (
+    assessment: CrisisAssessment,
+    moodLogId: string | null,
+    text: string
+  ): Promise<CrisisCheckResult | undefined> => {
+    if (!assessment.flagged || !user) return undefined;
+
+    const mentorNotified = await createRiskFlag(user.id, 'mood_log', moodLogId, text, assessment);
+    return { assessment, mentorNotified };
+  };
+
+  // Stores the server analysis of a saved mood log; failures are logged, never thrown
+  const requestServerAnalysis = async (moodLogId: string, moodLevel: string, text: string) => {
+    try {
+      const { error: edgeFunctionError } = await supabase.functions.invoke('analyze-mood', {
+        // Keyed by mood log so a retried request returns the stored analysis
+        headers: { 'Idempotency-Key': `analyze-mood:${moodLogId}` },
+        body: { 
+          mood_log_id: moodLogId,
+          mood_level: moodLevel,
+          note: text || null
+        }
+      });
+      if (edgeFunctionError) throw edgeFunctionError;
+      if (process.env.NODE_ENV === 'development') {
+        console.log('✅ Edge function analysis completed');
+      }
+    } catch (edgeFunctionError) {
+      console.warn('⚠️ Edge function failed, but local AI analysis succeeded:', edgeFunctionError);
+    }
+  };
+
   const handleSubmit = async () => {
     if (!selectedMood) {
       toast({
@@ -203,78 +207,74 @@ const MoodTracker: React.FC<MoodTrackerProps> = ({ onMoodLogged }) => {
       return;
     }
 
+    const trimmedNote = note.trim();
+    // Crisis language is checked before anything is saved, so the support flow neither waits
+    // on the save nor depends on it succeeding
+    let crisisAssessment = detectCrisisLanguage(trimmedNote);
+
     try {
       setLoading(true);
       setAnalysisProgress(0);
+      setAnalysisStage('Preparing mood model...');
 
       if (process.env.NODE_ENV === 'development') {
         console.log('🧠 Starting enhanced TensorFlow.js mood analysis...');
       }
       
-      // Progress simulation for better UX
-      const progressInterval = setInterval(() => {
-        setAnalysisProgress(prev => Math.min(prev + 10, 90));
-      }, 200);
-      
-      // Map mood names to database mood levels (1-5)
-      const moodLevelMapping: Record<string, "1" | "2" | "3" | "4" | "5"> = {
-        'devastated': '1',
-        'stressed': '2', 
-        'sad': '2',
-        'worried': '3',
-        'neutral': '3',
-        'content': '4',
-        'happy': '4', 
-        'excited': '5',
-        'euphoric': '5'
-      };
-      
-      const moodLevel = moodLevelMapping[selectedMood] || '3';
+      // The named mood is stored alongside its 1-5 level, which existing analytics use
+      const moodDefinition = getMoodDefinition(selectedMood);
+      const moodLevel = moodDefinition?.level ?? '3';
       
       // Train model and predict mood using enhanced TensorFlow.js
       if (process.env.NODE_ENV === 'development') {
         console.log('🏋️ Ensuring model is trained...');
       }
-      await trainModel();
-      setAnalysisProgress(50);
+      // Training runs in the model worker; the first 60% of the bar tracks real epochs
+      await trainModel(progress => {
+        setAnalysisStage(`Training model (epoch ${progress.epoch}/${progress.totalEpochs})...`);
+        setAnalysisProgress(Math.round((progress.epoch / progress.totalEpochs) * 60));
+      });
+      setAnalysisProgress(60);
+      setAnalysisStage('Analyzing your note...');
       
       if (process.env.NODE_ENV === 'development') {
         console.log('🔮 Making enhanced prediction...');
       }
-      const prediction = await predictMood(note.trim(), moodLevel);
+      const prediction = await predictMood(trimmedNote, moodLevel, { explain: true, userId: user.id });
+      // The model's stress probability can only raise the score of a phrase match
+      crisisAssessment = detectCrisisLanguage(trimmedNote, prediction.stressProbability ?? null);
       setAnalysisProgress(80);
+      setAnalysisStage('Saving your check-in...');
       
       if (process.env.NODE_ENV === 'development') {
         console.log('🎯 Enhanced AI Analysis Result:', prediction);
       }
 
-      // Generate enhanced recommendation based on stress level
-      const enhancedRecommendation = getEnhancedRecommendationForStressLevel(prediction.stressLevel);
+      // Pick the catalog recommendation for the predicted stress level and emotion, ranked by past feedback
+      const enhancedRecommendation = await getEnhancedRecommendation(prediction.stressLevel, prediction.dominantEmotion ?? null, user.id);
       setAnalysisProgress(100);
-      
-      clearInterval(progressInterval);
 
       if (process.env.NODE_ENV === 'development') {
         console.log('📊 About to insert mood log with data:', {
           user_id: user.id,
           mood_name: selectedMood,
           mood_level: moodLevel,
-          note: note.trim() || null,
+          note: trimmedNote || null,
           ai_sentiment: prediction.sentiment,
           ai_stress_level: prediction.stressLevel
         });
       }
 
-      // Insert mood log with enhanced AI results
+      // Insert the mood log; its ai_* columns are filled from the stored analyses
       const { data: moodLogData, error: moodLogError } = await supabase
         .from('mood_logs')
         .insert({
           user_id: user.id,
           mood_level: moodLevel,
-          note: note.trim() || null,
-          ai_sentiment: prediction.sentiment,
-          ai_stress_level: prediction.stressLevel
-          // ai_confidence: prediction.confidence // TODO: Add after migration
+          mood_name: moodDefinition?.name ?? null,
+          valence: moodDefinition?.valence ?? null,
+          arousal: moodDefinition?.arousal ?? null,
+          note: trimmedNote || null
         })
         .select()
         .single();
@@ -288,45 +288,45 @@ const MoodTracker: React.FC<MoodTrackerProps> = ({ onMoodLogged }) => {
         console.log('✅ Mood log inserted successfully:', moodLogData);
       }
 
-      // Insert enhanced recommendation into Supabase
-      const { error: recommendationError } = await supabase
-        .from('recommendations')
-        .insert({
-          mood_log_id: moodLogData.id,
-          title: enhancedRecommendation.title,
-          description: enhancedRecommendation.description,
-          content_url: enhancedRecommendation.content_url,
-          type: enhancedRecommendation.type
-        });
+      // The client analysis takes precedence over the server's, so it also owns the recommendation
+      const clientAnalysisSaved = await saveClientAnalysis(moodLogData.id, user.id, prediction);
 
-      if (recommendationError) {
-        console.warn('Failed to save recommendation:', recommendationError);
-      }
+      if (clientAnalysisSaved && enhancedRecommendation) {
+        const { error: recommendationError } = await supabase
+          .from('recommendations')
+          .upsert({
+            mood_log_id: moodLogData.id,
+            catalog_id: enhancedRecommendation.catalogId,
+            title: enhancedRecommendation.title,
+            description: enhancedRecommendation.description,
+            content_url: enhancedRecommendation.content_url,
+            type: enhancedRecommendation.type,
+            engine: CLIENT_ANALYSIS_ENGINE
+          }, { onConflict: 'mood_log_id,title', ignoreDuplicates: true });
 
+        if (recommendationError) {
+          console.warn('Failed to save recommendation:', recommendationError);
+        }
+      }
 
+      // Crisis language takes over the post-check-in flow and alerts mentors
+      const crisis = await reportCrisis(crisisAssessment, moodLogData.id, trimmedNote);
 
-      // Also call the existing edge function for additional analysis
-      try {
-        await supabase.functions.invoke('analyze-mood', {
-          body: { 
-            mood_log_id: moodLogData.id,
-            mood_level: moodLevel,
-            note: note.trim() || null
-          }
-        });
-        if (process.env.NODE_ENV === 'development') {
-          console.log('✅ Edge function analysis completed');
-        }
-      } catch (edgeFunctionError) {
-        console.warn('⚠️ Edge function failed, but local AI analysis succeeded:', edgeFunctionError);
+      // The server analysis is stored alongside; it is only displayed (and only adds
+      // recommendations) when no client analysis was saved. The crisis flow does not wait for it.
+      const serverAnalysis = requestServerAnalysis(moodLogData.id, moodLevel, trimmedNote);
+      if (!crisis) {
+        await serverAnalysis;
       }
 
       const selectedMoodEmoji = moodEmojis.find(m => m.name === selectedMood);
       
-      toast({
-        title: "Mood logged successfully! 🎉",
-        description: `${selectedMoodEmoji?.emoji} Feeling ${selectedMoodEmoji?.label} - AI analysis completed with ${prediction.sentiment} sentiment and personalized recommendations.`
-      });
+      if (!crisis) {
+        toast({
+          title: "Mood logged successfully! 🎉",
+          description: `${selectedMoodEmoji?.emoji} Feeling ${selectedMoodEmoji?.label} - AI analysis completed with ${prediction.sentiment} sentiment and personalized recommendations.`
+        });
+      }
 
       // Reset form and immediately notify parent with AI results
       setSelectedMood(null);
@@ -334,7 +334,7 @@ const MoodTracker: React.FC<MoodTrackerProps> = ({ onMoodLogged }) => {
       setAnalysisProgress(0);
       
       // Notify parent component with AI analysis data
-      onMoodLogged?.(prediction, selectedMood);
+      onMoodLogged?.(prediction, selectedMood, crisis);
 
     } catch (error) {
       console.error('❌ Error logging mood:', error);
@@ -371,6 +371,12 @@ const MoodTracker: React.FC<MoodTrackerProps> = ({ onMoodLogged }) => {
         description: errorMessage,
         variant: "destructive"
       });
+
+      // The support flow still shows and mentors are still alerted, from the note alone
+      const crisis = await reportCrisis(crisisAssessment, null, trimmedNote);
+      if (crisis) {
+        onMoodLogged?.(undefined, selectedMood, crisis);
+      }
     } finally {
       setLoading(false);
     }
@@ -577,7 +583,7 @@ const MoodTracker: React.FC<MoodTrackerProps> = ({ onMoodLogged }) => {
                 </div>
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm text-gray-600">
-                    <span>Processing your mood data...</span>
+                    <span>{analysisStage}</span>
                     <span>{analysisProgress}%</span>
                   </div>
                   <div className="w-full bg-gray-200 rounded-full h-2">
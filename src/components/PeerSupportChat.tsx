@@ -1,13 +1,18 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Sheet, SheetContent, SheetTrigger, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import CrisisResources from '@/components/CrisisResources';
 import { supabase } from '@/integrations/supabase/client';
+import type { RealtimeChannel } from '@supabase/supabase-js';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/components/ui/use-toast';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { detectCrisisLanguage, createRiskFlag } from '@/lib/crisisDetection';
 import { MessageCircle, Send, Users, Heart, Shield, Info } from 'lucide-react';
 
 interface Message {
@@ -19,13 +24,57 @@ interface Message {
   is_anonymous: boolean;
 }
 
+const CHAT_GUIDELINES = [
+  'Be kind and supportive, everyone here is going through something',
+  'Stay anonymous: do not share names, contact details or locations',
+  'Listen first and avoid giving medical advice',
+  'No harassment, hate speech or pressure of any kind'
+];
+
+const GuidelinesPanel: React.FC = () => (
+  <Card className="mood-card">
+    <CardHeader className="pb-3">
+      <CardTitle className="flex items-center gap-2 text-base">
+        <Shield className="h-5 w-5 text-primary" />
+        Chat Guidelines
+      </CardTitle>
+      <CardDescription>Help keep this a safe space</CardDescription>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      <ul className="space-y-2 text-sm text-muted-foreground">
+        {CHAT_GUIDELINES.map(guideline => (
+          <li key={guideline} className="flex gap-2">
+            <span className="text-primary">•</span>
+            {guideline}
+          </li>
+        ))}
+      </ul>
+      <div className="rounded-lg bg-secondary p-3 text-sm space-y-2">
+        <div className="flex items-center gap-2 font-medium">
+          <Heart className="h-4 w-4 text-primary" />
+          Need more support?
+        </div>
+        <p className="text-muted-foreground">
+          Peers are not counsellors. If you are struggling, please reach out to a professional.
+        </p>
+        <div className="flex flex-col gap-1">
+          <Link to="/resources/crisis-support" className="text-primary underline underline-offset-2">Crisis support</Link>
+          <Link to="/articles" className="text-primary underline underline-offset-2">Wellbeing library</Link>
+        </div>
+      </div>
+    </CardContent>
+  </Card>
+);
+
 const PeerSupportChat: React.FC = () => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [currentRoom, setCurrentRoom] = useState<string>('general');
   const [loading, setLoading] = useState(false);
   const [connected, setConnected] = useState(false);
+  const [crisisSupport, setCrisisSupport] = useState<{ mentorNotified: boolean } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const channelRef = useRef<RealtimeChannel | null>(null);
   const { user } = useAuth();
   const { toast } = useToast();
   const isMobile = useIsMobile();
@@ -35,8 +84,11 @@ const PeerSupportChat: React.FC = () => {
       connectToChat();
     }
     return () => {
-      // Cleanup subscription
-      supabase.removeAllChannels();
+      // Cleanup subscription; other channels such as mentor alerts stay open
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        channelRef.current = null;
+      }
     };
   }, [user, currentRoom]);
 
@@ -86,6 +138,7 @@ const PeerSupportChat: React.FC = () => {
         .subscribe((status) => {
           setConnected(status === 'SUBSCRIBED');
         });
+      channelRef.current = channel;
 
       toast({
         title: "Connected to peer support",
@@ -107,19 +160,30 @@ const PeerSupportChat: React.FC = () => {
   const sendMessage = async () => {
     if (!newMessage.trim() || !user) return;
 
+    const content = newMessage.trim();
     try {
-      const { error } = await supabase
+      const { data: sentMessage, error } = await supabase
         .from('messages')
         .insert({
           sender_id: user.id,
-          content: newMessage.trim(),
+          content,
           room_id: currentRoom,
           is_anonymous: true
-        });
+        })
+        .select()
+        .single();
 
       if (error) throw error;
 
       setNewMessage('');
+
+      // Crisis language in chat alerts mentors and offers support resources right away. Chat
+      // messages have no mood model score, so the phrases alone decide.
+      const crisisAssessment = detectCrisisLanguage(content, null, { textOnly: true });
+      if (crisisAssessment.flagged) {
+        const mentorNotified = await createRiskFlag(user.id, 'chat_message', sentMessage.id, content, crisisAssessment);
+        setCrisisSupport({ mentorNotified });
+      }
     } catch (error) {
       console.error('Error sending message:', error);
       toast({
@@ -358,6 +422,18 @@ const PeerSupportChat: React.FC = () => {
             </div>
           </div>
         )}
+
+        <Dialog open={!!crisisSupport} onOpenChange={(open) => !open && setCrisisSupport(null)}>
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>You're not alone</DialogTitle>
+              <DialogDescription>
+                It sounds like things are really hard right now. Please reach out to someone who can help.
+              </DialogDescription>
+            </DialogHeader>
+            <CrisisResources mentorNotified={crisisSupport?.mentorNotified} isMobile={isMobile} />
+          </DialogContent>
+        </Dialog>
       </div>
     );
 };
@@ -0,0 +1,101 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import useTimeZone from '@/hooks/useTimeZone';
+import { getBrowserTimeZone, listTimeZones } from '@/lib/dateBuckets';
+import { saveTimeZonePreference } from '@/lib/userPreferences';
+import { Loader2 } from 'lucide-react';
+
+interface ProfileSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Personal settings; the time zone decides which day a check-in counts for in every chart
+const ProfileSettingsDialog: React.FC<ProfileSettingsDialogProps> = ({ open, onOpenChange }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { timeZone, loading } = useTimeZone();
+  const [selectedTimeZone, setSelectedTimeZone] = useState(timeZone);
+  const [saving, setSaving] = useState(false);
+  const timeZones = useMemo(listTimeZones, []);
+  const browserTimeZone = getBrowserTimeZone();
+
+  // Start from the stored preference each time the dialog opens
+  useEffect(() => {
+    if (open) setSelectedTimeZone(timeZone);
+  }, [open, timeZone]);
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    const saved = await saveTimeZonePreference(user.id, selectedTimeZone);
+    setSaving(false);
+
+    if (!saved) {
+      toast({
+        title: 'Time zone not saved',
+        description: 'Please try again.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    toast({ title: 'Settings saved', description: `Your days are now counted in ${selectedTimeZone}.` });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={nextOpen => !saving && onOpenChange(nextOpen)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>
+            Your history, statistics and streaks group check-ins by day in this time zone, on every device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="profile-time-zone">Time zone</Label>
+          <Select value={selectedTimeZone} onValueChange={setSelectedTimeZone} disabled={loading || saving}>
+            <SelectTrigger id="profile-time-zone">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="max-h-72">
+              {timeZones.map(zone => (
+                <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedTimeZone !== browserTimeZone && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setSelectedTimeZone(browserTimeZone)} disabled={saving}>
+              Use this device's time zone ({browserTimeZone.replace(/_/g, ' ')})
+            </Button>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSave} disabled={loading || saving || selectedTimeZone === timeZone}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProfileSettingsDialog;
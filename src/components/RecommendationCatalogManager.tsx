@@ -0,0 +1,372 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { EMOTION_LABELS } from '@/lib/moodTrainingData';
+import {
+  type CatalogEntry,
+  type RecommendationType,
+  RECOMMENDATION_TYPES,
+  RECOMMENDATION_TYPE_ICONS,
+  invalidateRecommendationCatalog
+} from '@/lib/recommendationCatalog';
+import { ListChecks, Plus, Pencil, Trash2, Loader2 } from 'lucide-react';
+
+interface CatalogForm {
+  title: string;
+  description: string;
+  type: RecommendationType;
+  content_url: string;
+  duration_minutes: string;
+  min_stress_level: number;
+  max_stress_level: number;
+  target_emotions: string[];
+  tags: string;
+  locale: string;
+  priority: string;
+  is_active: boolean;
+}
+
+const EMPTY_FORM: CatalogForm = {
+  title: '',
+  description: '',
+  type: 'mindfulness',
+  content_url: '',
+  duration_minutes: '',
+  min_stress_level: 1,
+  max_stress_level: 5,
+  target_emotions: [],
+  tags: '',
+  locale: 'en',
+  priority: '0',
+  is_active: true
+};
+
+const STRESS_LEVELS = [1, 2, 3, 4, 5];
+
+const toForm = (entry: CatalogEntry): CatalogForm => ({
+  title: entry.title,
+  description: entry.description ?? '',
+  type: entry.type,
+  content_url: entry.content_url ?? '',
+  duration_minutes: entry.duration_minutes?.toString() ?? '',
+  min_stress_level: entry.min_stress_level,
+  max_stress_level: entry.max_stress_level,
+  target_emotions: entry.target_emotions,
+  tags: entry.tags.join(', '),
+  locale: entry.locale,
+  priority: entry.priority.toString(),
+  is_active: entry.is_active
+});
+
+const RecommendationCatalogManager: React.FC = () => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<CatalogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<CatalogForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const loadEntries = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('recommendation_catalog')
+      .select('*')
+      .order('min_stress_level', { ascending: true })
+      .order('priority', { ascending: false });
+
+    if (error) {
+      console.error('Error loading recommendation catalog:', error);
+    } else {
+      setEntries(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const openEditor = (entry?: CatalogEntry) => {
+    setEditingId(entry?.id ?? null);
+    setForm(entry ? toForm(entry) : EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const updateForm = <K extends keyof CatalogForm>(key: K, value: CatalogForm[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const toggleEmotion = (emotion: string) => {
+    setForm(prev => ({
+      ...prev,
+      target_emotions: prev.target_emotions.includes(emotion)
+        ? prev.target_emotions.filter(e => e !== emotion)
+        : [...prev.target_emotions, emotion]
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!form.title.trim()) {
+      toast({ title: 'Title is required', variant: 'destructive' });
+      return;
+    }
+    if (form.min_stress_level > form.max_stress_level) {
+      toast({ title: 'Invalid stress range', description: 'The minimum stress level must not exceed the maximum.', variant: 'destructive' });
+      return;
+    }
+
+    const payload = {
+      title: form.title.trim(),
+      description: form.description.trim() || null,
+      type: form.type,
+      content_url: form.content_url.trim() || null,
+      duration_minutes: form.duration_minutes ? parseInt(form.duration_minutes, 10) : null,
+      min_stress_level: form.min_stress_level,
+      max_stress_level: form.max_stress_level,
+      target_emotions: form.target_emotions,
+      tags: form.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+      locale: form.locale.trim() || 'en',
+      priority: parseInt(form.priority, 10) || 0,
+      is_active: form.is_active
+    };
+
+    setSaving(true);
+    const { error } = editingId
+      ? await supabase.from('recommendation_catalog').update(payload).eq('id', editingId)
+      : await supabase.from('recommendation_catalog').insert(payload);
+    setSaving(false);
+
+    if (error) {
+      console.error('Error saving catalog entry:', error);
+      toast({
+        title: 'Could not save recommendation',
+        description: error.code === '23505' ? 'A recommendation with this title already exists for the locale.' : error.message,
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    invalidateRecommendationCatalog();
+    setDialogOpen(false);
+    toast({ title: editingId ? 'Recommendation updated' : 'Recommendation added' });
+    loadEntries();
+  };
+
+  const handleToggleActive = async (entry: CatalogEntry, isActive: boolean) => {
+    const { error } = await supabase
+      .from('recommendation_catalog')
+      .update({ is_active: isActive })
+      .eq('id', entry.id);
+
+    if (error) {
+      console.error('Error updating catalog entry:', error);
+      toast({ title: 'Could not update recommendation', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    invalidateRecommendationCatalog();
+    setEntries(prev => prev.map(e => (e.id === entry.id ? { ...e, is_active: isActive } : e)));
+  };
+
+  const handleDelete = async (entry: CatalogEntry) => {
+    if (!window.confirm(`Delete "${entry.title}"? Recommendations already shown to students keep their text.`)) return;
+
+    const { error } = await supabase.from('recommendation_catalog').delete().eq('id', entry.id);
+
+    if (error) {
+      console.error('Error deleting catalog entry:', error);
+      toast({ title: 'Could not delete recommendation', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    invalidateRecommendationCatalog();
+    setEntries(prev => prev.filter(e => e.id !== entry.id));
+  };
+
+  return (
+    <Card className="shadow-lg border-2 border-indigo-100">
+      <CardHeader className="bg-gradient-to-r from-indigo-50 to-indigo-100">
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5 text-indigo-600" />
+          Recommendation Catalog
+          <Button size="sm" className="ml-auto" onClick={() => openEditor()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add recommendation
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Both analysis engines pick active entries whose stress range covers the analysed stress level. Entries targeting emotions are preferred when the model detects one of them; higher priority wins ties.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-3">
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading catalog...
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500">The catalog is empty, so no recommendations are shown to students.</p>
+        ) : (
+          entries.map(entry => {
+            const Icon = RECOMMENDATION_TYPE_ICONS[entry.type] || ListChecks;
+            return (
+              <div
+                key={entry.id}
+                className={`flex flex-wrap items-center gap-3 p-3 rounded-lg border ${entry.is_active ? 'bg-white' : 'bg-gray-50 opacity-70'}`}
+              >
+                <Icon className="h-5 w-5 text-indigo-600" />
+                <div className="flex-1 min-w-[220px]">
+                  <div className="text-sm font-medium text-gray-800 flex flex-wrap items-center gap-2">
+                    {entry.title}
+                    <Badge variant="outline">{entry.type}</Badge>
+                    <Badge variant="secondary">stress {entry.min_stress_level === entry.max_stress_level ? entry.min_stress_level : `${entry.min_stress_level}–${entry.max_stress_level}`}</Badge>
+                    {entry.locale !== 'en' && <Badge variant="outline">{entry.locale}</Badge>}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Priority {entry.priority}
+                    {entry.duration_minutes && ` · ${entry.duration_minutes} min`}
+                    {entry.target_emotions.length > 0 && ` · targets ${entry.target_emotions.join(', ')}`}
+                    {entry.tags.length > 0 && ` · #${entry.tags.join(' #')}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={entry.is_active}
+                    onCheckedChange={(checked) => handleToggleActive(entry, checked)}
+                    aria-label={entry.is_active ? 'Deactivate' : 'Activate'}
+                  />
+                  <Button size="sm" variant="outline" onClick={() => openEditor(entry)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(entry)}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit recommendation' : 'Add recommendation'}</DialogTitle>
+            <DialogDescription>Changes apply to new check-ins; stored recommendations are not rewritten.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="catalog-title">Title</Label>
+              <Input id="catalog-title" value={form.title} onChange={(e) => updateForm('title', e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="catalog-description">Description</Label>
+              <Textarea id="catalog-description" value={form.description} onChange={(e) => updateForm('description', e.target.value)} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Type</Label>
+                <Select value={form.type} onValueChange={(value) => updateForm('type', value as RecommendationType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RECOMMENDATION_TYPES.map(type => (
+                      <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="catalog-duration">Duration (minutes)</Label>
+                <Input id="catalog-duration" type="number" min={1} value={form.duration_minutes} onChange={(e) => updateForm('duration_minutes', e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="catalog-url">Content URL</Label>
+              <Input id="catalog-url" placeholder="https://… or /activities/…" value={form.content_url} onChange={(e) => updateForm('content_url', e.target.value)} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Min stress level</Label>
+                <Select value={form.min_stress_level.toString()} onValueChange={(value) => updateForm('min_stress_level', Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STRESS_LEVELS.map(level => <SelectItem key={level} value={level.toString()}>{level}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Max stress level</Label>
+                <Select value={form.max_stress_level.toString()} onValueChange={(value) => updateForm('max_stress_level', Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STRESS_LEVELS.map(level => <SelectItem key={level} value={level.toString()}>{level}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Target emotions</Label>
+              <div className="flex flex-wrap gap-2">
+                {EMOTION_LABELS.map(emotion => (
+                  <Badge
+                    key={emotion}
+                    variant={form.target_emotions.includes(emotion) ? 'default' : 'outline'}
+                    className="cursor-pointer capitalize"
+                    onClick={() => toggleEmotion(emotion)}
+                  >
+                    {emotion}
+                  </Badge>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">Leave empty to recommend regardless of the detected emotion.</p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="catalog-tags">Tags</Label>
+              <Input id="catalog-tags" placeholder="breathing, short" value={form.tags} onChange={(e) => updateForm('tags', e.target.value)} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="catalog-locale">Locale</Label>
+                <Input id="catalog-locale" value={form.locale} onChange={(e) => updateForm('locale', e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="catalog-priority">Priority</Label>
+                <Input id="catalog-priority" type="number" value={form.priority} onChange={(e) => updateForm('priority', e.target.value)} />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="catalog-active" checked={form.is_active} onCheckedChange={(checked) => updateForm('is_active', checked)} />
+              <Label htmlFor="catalog-active">Active</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default RecommendationCatalogManager;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { ThumbsUp, ThumbsDown, CheckCircle } from 'lucide-react';
+import { submitRecommendationFeedback, type RecommendationFeedbackUpdate } from '@/lib/recommendationFeedback';
+
+export interface RecommendationFeedbackState {
+  helpful: boolean | null;
+  completed: boolean;
+}
+
+interface RecommendationFeedbackProps {
+  recommendationId: string;
+  initialFeedback?: RecommendationFeedbackState | null;
+  compact?: boolean;
+}
+
+const RecommendationFeedback: React.FC<RecommendationFeedbackProps> = ({ recommendationId, initialFeedback, compact }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [feedback, setFeedback] = useState<RecommendationFeedbackState>(initialFeedback ?? { helpful: null, completed: false });
+  const [saving, setSaving] = useState(false);
+
+  const handleFeedback = async (update: RecommendationFeedbackUpdate) => {
+    if (!user) return;
+
+    const previous = feedback;
+    setFeedback(prev => ({ ...prev, ...update }));
+    setSaving(true);
+    const saved = await submitRecommendationFeedback(recommendationId, user.id, update);
+    setSaving(false);
+
+    if (!saved) {
+      setFeedback(previous);
+      toast({
+        title: 'Could not save feedback',
+        description: 'Please try again in a moment.',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const buttonSize = compact ? 'h-7 px-2 text-xs' : 'h-8 px-3 text-xs';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs text-gray-500">Was this helpful?</span>
+      <Button
+        size="sm"
+        variant={feedback.helpful === true ? 'default' : 'outline'}
+        className={buttonSize}
+        disabled={saving}
+        onClick={() => handleFeedback({ helpful: feedback.helpful === true ? null : true })}
+      >
+        <ThumbsUp className="h-3 w-3 mr-1" />
+        Helpful
+      </Button>
+      <Button
+        size="sm"
+        variant={feedback.helpful === false ? 'default' : 'outline'}
+        className={buttonSize}
+        disabled={saving}
+        onClick={() => handleFeedback({ helpful: feedback.helpful === false ? null : false })}
+      >
+        <ThumbsDown className="h-3 w-3 mr-1" />
+        Not helpful
+      </Button>
+      <Button
+        size="sm"
+        variant={feedback.completed ? 'default' : 'outline'}
+        className={buttonSize}
+        disabled={saving || feedback.completed}
+        onClick={() => handleFeedback({ completed: true })}
+      >
+        <CheckCircle className="h-3 w-3 mr-1" />
+        {feedback.completed ? 'Done' : 'I did it'}
+      </Button>
+    </div>
+  );
+};
+
+export default RecommendationFeedback;
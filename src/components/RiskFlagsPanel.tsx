@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/components/ui/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { ShieldAlert, CheckCircle, Eye, Loader2 } from 'lucide-react';
+
+type RiskFlagStatus = 'open' | 'acknowledged' | 'resolved';
+
+interface RiskFlag {
+  id: string;
+  user_id: string;
+  source: string;
+  mood_log_id: string | null;
+  severity: string;
+  score: number;
+  matched_phrases: string[];
+  excerpt: string | null;
+  status: RiskFlagStatus;
+  handled_at: string | null;
+  created_at: string;
+  users: { name: string | null; email: string | null } | null;
+}
+
+const RiskFlagsPanel: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [flags, setFlags] = useState<RiskFlag[]>([]);
+  const [statusFilter, setStatusFilter] = useState<RiskFlagStatus>('open');
+  const [loading, setLoading] = useState(true);
+
+  const loadFlags = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('risk_flags')
+      .select('*, users!risk_flags_user_id_fkey(name, email)')
+      .eq('status', statusFilter)
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (error) {
+      console.error('Error loading risk flags:', error);
+    } else {
+      setFlags((data || []) as unknown as RiskFlag[]);
+    }
+    setLoading(false);
+  }, [statusFilter]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadFlags();
+
+    const channel = supabase
+      .channel('risk-flags-panel')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'risk_flags' }, () => loadFlags())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [loadFlags]);
+
+  const updateStatus = async (flag: RiskFlag, status: RiskFlagStatus) => {
+    const { error } = await supabase
+      .from('risk_flags')
+      .update({
+        status,
+        handled_by: user?.id,
+        handled_at: new Date().toISOString()
+      })
+      .eq('id', flag.id);
+
+    if (error) {
+      console.error('Error updating risk flag:', error);
+      toast({
+        title: 'Could not update alert',
+        description: 'Please try again in a moment.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setFlags(prev => prev.filter(f => f.id !== flag.id));
+  };
+
+  return (
+    <Card className="shadow-lg border-2 border-red-100">
+      <CardHeader className="bg-gradient-to-r from-red-50 to-orange-50">
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5 text-red-600" />
+          Safety Alerts
+        </CardTitle>
+        <CardDescription>
+          Crisis language detected in mood notes and peer chat. Acknowledge an alert when you start reaching out and resolve it once the student is safe.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as RiskFlagStatus)}>
+          <TabsList>
+            <TabsTrigger value="open">Open</TabsTrigger>
+            <TabsTrigger value="acknowledged">Acknowledged</TabsTrigger>
+            <TabsTrigger value="resolved">Resolved</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading alerts...
+          </div>
+        ) : flags.length === 0 ? (
+          <p className="text-sm text-gray-500">No {statusFilter} alerts.</p>
+        ) : (
+          <div className="space-y-3">
+            {flags.map(flag => (
+              <div key={flag.id} className="p-4 rounded-lg border bg-white space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={flag.severity === 'high' ? 'destructive' : 'secondary'}>
+                    {flag.severity === 'high' ? 'High risk' : 'Elevated'}
+                  </Badge>
+                  <Badge variant="outline">{flag.source === 'chat_message' ? 'Chat message' : flag.mood_log_id ? 'Mood note' : 'Unsaved mood note'}</Badge>
+                  <span className="text-sm font-medium text-gray-800">
+                    {flag.users?.name || flag.users?.email || flag.user_id.slice(0, 8)}
+                  </span>
+                  <span className="text-xs text-gray-500 ml-auto">{new Date(flag.created_at).toLocaleString()}</span>
+                </div>
+                {flag.excerpt && (
+                  <blockquote className="text-sm text-gray-700 border-l-4 border-red-200 pl-3 italic">{flag.excerpt}</blockquote>
+                )}
+                <div className="text-xs text-gray-500">
+                  Matched: {flag.matched_phrases.join(', ') || '—'} · score {Number(flag.score).toFixed(2)}
+                </div>
+                {flag.status !== 'resolved' && (
+                  <div className="flex gap-2">
+                    {flag.status === 'open' && (
+                      <Button size="sm" variant="outline" onClick={() => updateStatus(flag, 'acknowledged')}>
+                        <Eye className="h-4 w-4 mr-2" />
+                        Acknowledge
+                      </Button>
+                    )}
+                    <Button size="sm" onClick={() => updateStatus(flag, 'resolved')}>
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Resolve
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RiskFlagsPanel;
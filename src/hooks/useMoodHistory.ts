@@ -1,26 +1,42 @@
-import { useState, useEffect, useMemo } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import useTimeZone from '@/hooks/useTimeZone';
+import type { MoodName } from '@/lib/moodNames';
+import type { MoodLogSource } from '@/lib/moodImport';
+import {
+  type MoodHistoryCursor,
+  EMPTY_MOOD_HISTORY_STATS,
+  fetchMoodHistoryPage,
+  fetchMoodHistoryStats
+} from '@/lib/moodHistoryQueries';
+import type { MoodLevel, RecommendationType } from '@shared/moodDomain';
 
 export interface MoodLogWithRecommendations {
   id: string;
-  mood_level: '1' | '2' | '3' | '4' | '5';
+  mood_level: MoodLevel;
+  mood_name: string | null;
+  valence: number | null;
+  arousal: number | null;
   note: string | null;
   ai_sentiment: string | null;
   ai_stress_level: number | null;
   created_at: string;
+  source: MoodLogSource;
   recommendations: Array<{
     id: string;
     title: string;
     description: string | null;
     content_url: string | null;
-    type: 'breathing' | 'mindfulness' | 'activity' | 'video' | 'article';
+    type: RecommendationType;
+    recommendation_feedback: Array<{ helpful: boolean | null; completed: boolean }>;
   }>;
 }
 
 export interface MoodHistoryFilters {
   dateRange: 'all' | 'week' | 'month' | '3months';
-  moodLevel: 'all' | '1' | '2' | '3' | '4' | '5';
+  moodLevel: 'all' | MoodLevel;
+  moodName: 'all' | MoodName;
+  search: string; // Full-text search over notes
   sortBy: 'newest' | 'oldest' | 'mood_asc' | 'mood_desc';
 }
 
@@ -30,168 +46,92 @@ export interface MoodHistoryStats {
   averageStress: number;
   mostCommonMood: string;
   moodDistribution: Record<string, number>;
-  weeklyTrend: Array<{ date: string; mood: number; stress?: number }>;
+  moodNameDistribution: Record<MoodName, number>; // Check-ins logged before names were stored are not counted
+  weeklyTrend: Array<{ date: string; mood: number; stress?: number }>; // Days in the user's time zone, yyyy-MM-dd
+  improvementTrend: 'improving' | 'stable' | 'declining'; // Newest entries against the oldest
+  topRecommendationType: RecommendationType | null; // Null until something was recommended
 }
 
-const useMoodHistory = () => {
-  const { student } = useAuth();
+// Loads the mood history a page at a time; statistics cover every matching entry
+const useMoodHistory = (initialFilters: Partial<MoodHistoryFilters> = {}) => {
+  const { user } = useAuth();
+  const { timeZone, loading: timeZoneLoading } = useTimeZone();
   const [moodLogs, setMoodLogs] = useState<MoodLogWithRecommendations[]>([]);
+  const [statistics, setStatistics] = useState<MoodHistoryStats>(EMPTY_MOOD_HISTORY_STATS);
+  const [nextCursor, setNextCursor] = useState<MoodHistoryCursor | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [filters, setFilters] = useState<MoodHistoryFilters>({
     dateRange: 'all',
     moodLevel: 'all',
-    sortBy: 'newest'
+    moodName: 'all',
+    search: '',
+    sortBy: 'newest',
+    ...initialFilters
   });
+  // Responses for filters that have since changed are dropped
+  const requestRef = useRef(0);
+  // Set synchronously, so a second intersection before the re-render cannot fetch the same page
+  const loadingMoreRef = useRef(false);
 
   const fetchMoodHistory = async () => {
-    if (!student?.id) {
+    if (!user?.id) {
       setLoading(false);
       return;
     }
 
+    const request = ++requestRef.current;
     try {
       setLoading(true);
       setError(null);
 
-      // Build date filter
-      let dateFilter = '';
-      const now = new Date();
-      if (filters.dateRange !== 'all') {
-        const daysBack = {
-          week: 7,
-          month: 30,
-          '3months': 90
-        }[filters.dateRange];
-        
-        const filterDate = new Date(now.getTime() - (daysBack * 24 * 60 * 60 * 1000));
-        dateFilter = filterDate.toISOString();
-      }
-
-      // Build query
-      let query = supabase
-        .from('mood_logs')
-        .select(`
-          id,
-          mood_level,
-          note,
-          ai_sentiment,
-          ai_stress_level,
-          created_at,
-          recommendations:recommendations!mood_log_id (
-            id,
-            title,
-            description,
-            content_url,
-            type
-          )
-        `)
-        .eq('student_id', student.id);
-
-      // Apply date filter
-      if (dateFilter) {
-        query = query.gte('created_at', dateFilter);
-      }
-
-      // Apply mood level filter
-      if (filters.moodLevel !== 'all') {
-        query = query.eq('mood_level', filters.moodLevel);
-      }
-
-      // Apply sorting
-      const sortColumn = filters.sortBy.includes('mood') ? 'mood_level' : 'created_at';
-      const ascending = filters.sortBy.includes('asc') || filters.sortBy === 'oldest';
-      query = query.order(sortColumn, { ascending });
-
-      const { data, error: fetchError } = await query;
+      const [page, stats] = await Promise.all([
+        fetchMoodHistoryPage(user.id, filters),
+        fetchMoodHistoryStats(filters, timeZone)
+      ]);
+      if (request !== requestRef.current) return;
 
-      if (fetchError) {
-        console.error('Error fetching mood history:', fetchError);
+      if (!page) {
         setError('Failed to load mood history. Please try again.');
         return;
       }
 
-      setMoodLogs(data || []);
+      setMoodLogs(page.logs);
+      setNextCursor(page.nextCursor);
+      setStatistics(stats ?? EMPTY_MOOD_HISTORY_STATS);
     } catch (err) {
       console.error('Error in fetchMoodHistory:', err);
       setError('An unexpected error occurred while loading mood history.');
     } finally {
-      setLoading(false);
+      if (request === requestRef.current) setLoading(false);
     }
   };
 
-  // Calculate statistics based on current data
-  const statistics: MoodHistoryStats = useMemo(() => {
-    if (moodLogs.length === 0) {
-      return {
-        totalEntries: 0,
-        averageMood: 0,
-        averageStress: 0,
-        mostCommonMood: '3',
-        moodDistribution: {},
-        weeklyTrend: []
-      };
-    }
+  // Stable until the cursor or filters change, so an observer calling it is not reconnected every render
+  const loadMore = useCallback(async () => {
+    if (!user?.id || !nextCursor || loadingMoreRef.current) return;
 
-    // Basic stats
-    const totalEntries = moodLogs.length;
-    const moodSum = moodLogs.reduce((sum, log) => sum + parseInt(log.mood_level), 0);
-    const averageMood = moodSum / totalEntries;
-
-    const stressLogs = moodLogs.filter(log => log.ai_stress_level !== null);
-    const stressSum = stressLogs.reduce((sum, log) => sum + (log.ai_stress_level || 0), 0);
-    const averageStress = stressLogs.length > 0 ? stressSum / stressLogs.length : 0;
-
-    // Mood distribution
-    const moodDistribution: Record<string, number> = { '1': 0, '2': 0, '3': 0, '4': 0, '5': 0 };
-    moodLogs.forEach(log => {
-      moodDistribution[log.mood_level] = (moodDistribution[log.mood_level] || 0) + 1;
-    });
-
-    // Most common mood
-    const mostCommonMood = Object.entries(moodDistribution)
-      .reduce((a, b) => a[1] > b[1] ? a : b)[0];
-
-    // Weekly trend (last 7 days)
-    const weeklyTrend: Array<{ date: string; mood: number; stress?: number }> = [];
-    for (let i = 6; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      const dateStr = date.toISOString().split('T')[0];
-      
-      const dayLogs = moodLogs.filter(log => 
-        log.created_at.startsWith(dateStr)
-      );
-
-      if (dayLogs.length > 0) {
-        const dayMoodAvg = dayLogs.reduce((sum, log) => sum + parseInt(log.mood_level), 0) / dayLogs.length;
-        const dayStressLogs = dayLogs.filter(log => log.ai_stress_level !== null);
-        const dayStressAvg = dayStressLogs.length > 0 
-          ? dayStressLogs.reduce((sum, log) => sum + (log.ai_stress_level || 0), 0) / dayStressLogs.length
-          : undefined;
-
-        weeklyTrend.push({
-          date: dateStr,
-          mood: Math.round(dayMoodAvg * 10) / 10,
-          stress: dayStressAvg ? Math.round(dayStressAvg * 10) / 10 : undefined
-        });
-      }
+    const request = requestRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    try {
+      const page = await fetchMoodHistoryPage(user.id, filters, nextCursor);
+      if (request !== requestRef.current || !page) return;
+
+      setMoodLogs(prev => [...prev, ...page.logs]);
+      setNextCursor(page.nextCursor);
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
     }
+  }, [user?.id, filters, nextCursor]);
 
-    return {
-      totalEntries,
-      averageMood: Math.round(averageMood * 10) / 10,
-      averageStress: Math.round(averageStress * 10) / 10,
-      mostCommonMood,
-      moodDistribution,
-      weeklyTrend
-    };
-  }, [moodLogs]);
-
-  // Fetch data when dependencies change
+  // Fetch data when dependencies change; the daily trend needs the user's time zone
   useEffect(() => {
+    if (timeZoneLoading) return;
     fetchMoodHistory();
-  }, [student?.id, filters]);
+  }, [user?.id, filters, timeZone, timeZoneLoading]);
 
   const updateFilters = (newFilters: Partial<MoodHistoryFilters>) => {
     setFilters(prev => ({ ...prev, ...newFilters }));
@@ -204,11 +144,15 @@ const useMoodHistory = () => {
   return {
     moodLogs,
     loading,
+    loadingMore,
+    hasMore: nextCursor !== null,
     error,
     filters,
     statistics,
+    timeZone,
     updateFilters,
-    refreshHistory
+    refreshHistory,
+    loadMore
   };
 };
 
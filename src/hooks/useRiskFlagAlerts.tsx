@@ -0,0 +1,53 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/components/ui/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+
+/**
+ * Notifies signed-in mentors and admins of new risk flags in realtime. Every mentor or admin
+ * with the app open counts as on duty.
+ */
+const useRiskFlagAlerts = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const isResponder = user?.role === 'admin' || user?.role === 'mentor';
+
+  useEffect(() => {
+    if (!isResponder) return;
+
+    const channel = supabase
+      .channel('risk-flag-alerts')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'risk_flags'
+        },
+        (payload) => {
+          const flag = payload.new as { severity: string; source: string };
+          console.log('🚨 New risk flag received:', flag.severity);
+          toast({
+            title: flag.severity === 'high' ? '🚨 High-risk language detected' : '⚠️ Concerning language detected',
+            description: `A student's ${flag.source === 'chat_message' ? 'chat message' : 'mood note'} needs follow-up.`,
+            variant: 'destructive',
+            action: (
+              <ToastAction altText="Review safety alerts" onClick={() => navigate('/safety')}>
+                Review
+              </ToastAction>
+            )
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [isResponder, toast, navigate]);
+};
+
+export default useRiskFlagAlerts;
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getBrowserTimeZone } from '@/lib/dateBuckets';
+import { loadTimeZonePreference, subscribeToTimeZonePreference } from '@/lib/userPreferences';
+
+// The signed-in user's time zone for bucketing statistics by day. Until the preference
+// has loaded, loading is true and timeZone is the browser's, so callers that query by
+// day should wait rather than fetch twice. A newly saved preference applies right away.
+const useTimeZone = () => {
+  const { user } = useAuth();
+  const [timeZone, setTimeZone] = useState(getBrowserTimeZone);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user?.id) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    loadTimeZonePreference(user.id).then(result => {
+      if (cancelled) return;
+      setTimeZone(result);
+      setLoading(false);
+    });
+
+    const unsubscribe = subscribeToTimeZonePreference((userId, savedTimeZone) => {
+      if (userId === user.id) setTimeZone(savedTimeZone);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [user?.id]);
+
+  return { timeZone, loading };
+};
+
+export default useTimeZone;
@@ -14,6 +14,306 @@ export type Database = {
   }
   public: {
     Tables: {
+      analyses: {
+        Row: {
+          backfill_job_id: string | null
+          confidence: number | null
+          created_at: string
+          engine: string
+          engine_version: string
+          explanation: Json | null
+          id: string
+          mood_log_id: string
+          sentiment: string | null
+          stress_level: number | null
+          summary: string | null
+          user_id: string
+        }
+        Insert: {
+          backfill_job_id?: string | null
+          confidence?: number | null
+          created_at?: string
+          engine: string
+          engine_version: string
+          explanation?: Json | null
+          id?: string
+          mood_log_id: string
+          sentiment?: string | null
+          stress_level?: number | null
+          summary?: string | null
+          user_id: string
+        }
+        Update: {
+          backfill_job_id?: string | null
+          confidence?: number | null
+          created_at?: string
+          engine?: string
+          engine_version?: string
+          explanation?: Json | null
+          id?: string
+          mood_log_id?: string
+          sentiment?: string | null
+          stress_level?: number | null
+          summary?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analyses_backfill_job_id_fkey"
+            columns: ["backfill_job_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_backfill_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "analyses_mood_log_id_fkey"
+            columns: ["mood_log_id"]
+            isOneToOne: false
+            referencedRelation: "mood_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "analyses_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      analysis_backfill_failures: {
+        Row: {
+          created_at: string
+          error: string
+          id: string
+          job_id: string
+          mood_log_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          error: string
+          id?: string
+          job_id: string
+          mood_log_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          error?: string
+          id?: string
+          job_id?: string
+          mood_log_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_backfill_failures_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_backfill_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "analysis_backfill_failures_mood_log_id_fkey"
+            columns: ["mood_log_id"]
+            isOneToOne: false
+            referencedRelation: "mood_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      analysis_backfill_jobs: {
+        Row: {
+          analyzed_logs: number
+          cursor_created_at: string | null
+          cursor_id: string | null
+          engine: string
+          engine_version: string
+          failed_logs: number
+          finished_at: string | null
+          id: string
+          processed_logs: number
+          reanalyze: boolean
+          requested_by: string | null
+          skipped_logs: number
+          started_at: string
+          status: string
+          total_logs: number
+          updated_at: string
+        }
+        Insert: {
+          analyzed_logs?: number
+          cursor_created_at?: string | null
+          cursor_id?: string | null
+          engine?: string
+          engine_version: string
+          failed_logs?: number
+          finished_at?: string | null
+          id?: string
+          processed_logs?: number
+          reanalyze?: boolean
+          requested_by?: string | null
+          skipped_logs?: number
+          started_at?: string
+          status?: string
+          total_logs?: number
+          updated_at?: string
+        }
+        Update: {
+          analyzed_logs?: number
+          cursor_created_at?: string | null
+          cursor_id?: string | null
+          engine?: string
+          engine_version?: string
+          failed_logs?: number
+          finished_at?: string | null
+          id?: string
+          processed_logs?: number
+          reanalyze?: boolean
+          requested_by?: string | null
+          skipped_logs?: number
+          started_at?: string
+          status?: string
+          total_logs?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_backfill_jobs_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      analysis_requests: {
+        Row: {
+          analysis_id: string
+          created_at: string
+          displayed: boolean
+          idempotency_key: string
+          mood_log_id: string
+          recommendation_ids: string[]
+          user_id: string
+        }
+        Insert: {
+          analysis_id: string
+          created_at?: string
+          displayed: boolean
+          idempotency_key: string
+          mood_log_id: string
+          recommendation_ids?: string[]
+          user_id: string
+        }
+        Update: {
+          analysis_id?: string
+          created_at?: string
+          displayed?: boolean
+          idempotency_key?: string
+          mood_log_id?: string
+          recommendation_ids?: string[]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_requests_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "analyses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "analysis_requests_mood_log_id_fkey"
+            columns: ["mood_log_id"]
+            isOneToOne: false
+            referencedRelation: "mood_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "analysis_requests_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      app_settings: {
+        Row: {
+          key: string
+          updated_at: string
+          value: Json
+        }
+        Insert: {
+          key: string
+          updated_at?: string
+          value: Json
+        }
+        Update: {
+          key?: string
+          updated_at?: string
+          value?: Json
+        }
+        Relationships: []
+      }
+      articles: {
+        Row: {
+          author_id: string | null
+          body_markdown: string
+          category: string
+          created_at: string
+          id: string
+          is_published: boolean
+          kind: Database["public"]["Enums"]["article_kind"]
+          reading_minutes: number | null
+          search_vector: unknown
+          slug: string
+          summary: string | null
+          tags: string[]
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          author_id?: string | null
+          body_markdown?: string
+          category?: string
+          created_at?: string
+          id?: string
+          is_published?: boolean
+          kind?: Database["public"]["Enums"]["article_kind"]
+          reading_minutes?: number | null
+          search_vector?: unknown
+          slug: string
+          summary?: string | null
+          tags?: string[]
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          author_id?: string | null
+          body_markdown?: string
+          category?: string
+          created_at?: string
+          id?: string
+          is_published?: boolean
+          kind?: Database["public"]["Enums"]["article_kind"]
+          reading_minutes?: number | null
+          search_vector?: unknown
+          slug?: string
+          summary?: string | null
+          tags?: string[]
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "articles_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       connection_logs: {
         Row: {
           created_at: string
@@ -21,7 +321,7 @@ export type Database = {
           id: string
           metadata: Json | null
           session_id: string
-          status: Database["public"]["Enums"]["connection_status"]
+          status: string
           user_id: string
         }
         Insert: {
@@ -30,7 +330,7 @@ export type Database = {
           id?: string
           metadata?: Json | null
           session_id: string
-          status: Database["public"]["Enums"]["connection_status"]
+          status: string
           user_id: string
         }
         Update: {
@@ -39,7 +339,7 @@ export type Database = {
           id?: string
           metadata?: Json | null
           session_id?: string
-          status?: Database["public"]["Enums"]["connection_status"]
+          status?: string
           user_id?: string
         }
         Relationships: [
@@ -139,36 +439,105 @@ export type Database = {
           },
         ]
       }
+      mood_corrections: {
+        Row: {
+          corrected_label: string
+          created_at: string
+          id: string
+          model_version: string | null
+          mood_log_id: string
+          predicted_sentiment: string | null
+          predicted_stress_level: number | null
+          user_id: string
+        }
+        Insert: {
+          corrected_label: string
+          created_at?: string
+          id?: string
+          model_version?: string | null
+          mood_log_id: string
+          predicted_sentiment?: string | null
+          predicted_stress_level?: number | null
+          user_id: string
+        }
+        Update: {
+          corrected_label?: string
+          created_at?: string
+          id?: string
+          model_version?: string | null
+          mood_log_id?: string
+          predicted_sentiment?: string | null
+          predicted_stress_level?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mood_corrections_mood_log_id_fkey"
+            columns: ["mood_log_id"]
+            isOneToOne: false
+            referencedRelation: "mood_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mood_corrections_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       mood_logs: {
         Row: {
           ai_confidence: number | null
+          ai_explanation: Json | null
           ai_sentiment: string | null
           ai_stress_level: number | null
+          arousal: number | null
           created_at: string
           id: string
+          model_version: string | null
           mood_level: Database["public"]["Enums"]["mood_level"]
+          mood_name: string | null
           note: string | null
+          search_vector: unknown
+          source: Database["public"]["Enums"]["mood_log_source"]
           user_id: string
+          valence: number | null
         }
         Insert: {
           ai_confidence?: number | null
+          ai_explanation?: Json | null
           ai_sentiment?: string | null
           ai_stress_level?: number | null
+          arousal?: number | null
           created_at?: string
           id?: string
+          model_version?: string | null
           mood_level: Database["public"]["Enums"]["mood_level"]
+          mood_name?: string | null
           note?: string | null
+          search_vector?: unknown
+          source?: Database["public"]["Enums"]["mood_log_source"]
           user_id: string
+          valence?: number | null
         }
         Update: {
           ai_confidence?: number | null
+          ai_explanation?: Json | null
           ai_sentiment?: string | null
           ai_stress_level?: number | null
+          arousal?: number | null
           created_at?: string
           id?: string
+          model_version?: string | null
           mood_level?: Database["public"]["Enums"]["mood_level"]
+          mood_name?: string | null
           note?: string | null
+          search_vector?: unknown
+          source?: Database["public"]["Enums"]["mood_log_source"]
           user_id?: string
+          valence?: number | null
         }
         Relationships: [
           {
@@ -180,35 +549,150 @@ export type Database = {
           },
         ]
       }
+      recommendation_catalog: {
+        Row: {
+          content_url: string | null
+          created_at: string
+          description: string | null
+          duration_minutes: number | null
+          id: string
+          is_active: boolean
+          locale: string
+          max_stress_level: number
+          min_stress_level: number
+          priority: number
+          tags: string[]
+          target_emotions: string[]
+          title: string
+          type: Database["public"]["Enums"]["recommendation_type"]
+          updated_at: string
+        }
+        Insert: {
+          content_url?: string | null
+          created_at?: string
+          description?: string | null
+          duration_minutes?: number | null
+          id?: string
+          is_active?: boolean
+          locale?: string
+          max_stress_level?: number
+          min_stress_level?: number
+          priority?: number
+          tags?: string[]
+          target_emotions?: string[]
+          title: string
+          type: Database["public"]["Enums"]["recommendation_type"]
+          updated_at?: string
+        }
+        Update: {
+          content_url?: string | null
+          created_at?: string
+          description?: string | null
+          duration_minutes?: number | null
+          id?: string
+          is_active?: boolean
+          locale?: string
+          max_stress_level?: number
+          min_stress_level?: number
+          priority?: number
+          tags?: string[]
+          target_emotions?: string[]
+          title?: string
+          type?: Database["public"]["Enums"]["recommendation_type"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      recommendation_feedback: {
+        Row: {
+          completed: boolean
+          completed_at: string | null
+          created_at: string
+          helpful: boolean | null
+          id: string
+          recommendation_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed?: boolean
+          completed_at?: string | null
+          created_at?: string
+          helpful?: boolean | null
+          id?: string
+          recommendation_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed?: boolean
+          completed_at?: string | null
+          created_at?: string
+          helpful?: boolean | null
+          id?: string
+          recommendation_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recommendation_feedback_recommendation_id_fkey"
+            columns: ["recommendation_id"]
+            isOneToOne: false
+            referencedRelation: "recommendations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recommendation_feedback_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       recommendations: {
         Row: {
+          catalog_id: string | null
           content_url: string | null
           created_at: string
           description: string | null
+          engine: string | null
           id: string
           mood_log_id: string | null
           title: string
           type: Database["public"]["Enums"]["recommendation_type"]
         }
         Insert: {
+          catalog_id?: string | null
           content_url?: string | null
           created_at?: string
           description?: string | null
+          engine?: string | null
           id?: string
           mood_log_id?: string | null
           title: string
           type: Database["public"]["Enums"]["recommendation_type"]
         }
         Update: {
+          catalog_id?: string | null
           content_url?: string | null
           created_at?: string
           description?: string | null
+          engine?: string | null
           id?: string
           mood_log_id?: string | null
           title?: string
           type?: Database["public"]["Enums"]["recommendation_type"]
         }
         Relationships: [
+          {
+            foreignKeyName: "recommendations_catalog_id_fkey"
+            columns: ["catalog_id"]
+            isOneToOne: false
+            referencedRelation: "recommendation_catalog"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "recommendations_mood_log_id_fkey"
             columns: ["mood_log_id"]
@@ -218,6 +702,86 @@ export type Database = {
           },
         ]
       }
+      risk_flags: {
+        Row: {
+          created_at: string
+          excerpt: string | null
+          handled_at: string | null
+          handled_by: string | null
+          id: string
+          matched_phrases: string[]
+          message_id: string | null
+          model_score: number | null
+          mood_log_id: string | null
+          score: number
+          severity: string
+          source: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          excerpt?: string | null
+          handled_at?: string | null
+          handled_by?: string | null
+          id?: string
+          matched_phrases?: string[]
+          message_id?: string | null
+          model_score?: number | null
+          mood_log_id?: string | null
+          score: number
+          severity: string
+          source: string
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          excerpt?: string | null
+          handled_at?: string | null
+          handled_by?: string | null
+          id?: string
+          matched_phrases?: string[]
+          message_id?: string | null
+          model_score?: number | null
+          mood_log_id?: string | null
+          score?: number
+          severity?: string
+          source?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "risk_flags_handled_by_fkey"
+            columns: ["handled_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "risk_flags_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "risk_flags_mood_log_id_fkey"
+            columns: ["mood_log_id"]
+            isOneToOne: false
+            referencedRelation: "mood_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "risk_flags_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       room_participants: {
         Row: {
           id: string
@@ -261,7 +825,7 @@ export type Database = {
           id: string
           is_anonymous: boolean
           name: string
-          type: Database["public"]["Enums"]["room_type"]
+          type: string
         }
         Insert: {
           created_at?: string
@@ -269,7 +833,7 @@ export type Database = {
           id?: string
           is_anonymous?: boolean
           name: string
-          type: Database["public"]["Enums"]["room_type"]
+          type: string
         }
         Update: {
           created_at?: string
@@ -277,7 +841,7 @@ export type Database = {
           id?: string
           is_anonymous?: boolean
           name?: string
-          type?: Database["public"]["Enums"]["room_type"]
+          type?: string
         }
         Relationships: [
           {
@@ -296,6 +860,7 @@ export type Database = {
           id: string
           name: string | null
           preferences: Json | null
+          role: Database["public"]["Enums"]["user_role"]
           updated_at: string
         }
         Insert: {
@@ -304,6 +869,7 @@ export type Database = {
           id: string
           name?: string | null
           preferences?: Json | null
+          role?: Database["public"]["Enums"]["user_role"]
           updated_at?: string
         }
         Update: {
@@ -312,6 +878,7 @@ export type Database = {
           id?: string
           name?: string | null
           preferences?: Json | null
+          role?: Database["public"]["Enums"]["user_role"]
           updated_at?: string
         }
         Relationships: []
@@ -323,7 +890,7 @@ export type Database = {
           id: string
           participants: Json | null
           room_id: string
-          status: Database["public"]["Enums"]["session_status"]
+          status: string
         }
         Insert: {
           created_at?: string
@@ -331,7 +898,7 @@ export type Database = {
           id?: string
           participants?: Json | null
           room_id: string
-          status?: Database["public"]["Enums"]["session_status"]
+          status?: string
         }
         Update: {
           created_at?: string
@@ -339,7 +906,7 @@ export type Database = {
           id?: string
           participants?: Json | null
           room_id?: string
-          status?: Database["public"]["Enums"]["session_status"]
+          status?: string
         }
         Relationships: [
           {
@@ -356,14 +923,106 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      analysis_engine_rank: {
+        Args: {
+          engine: string
+        }
+        Returns: number
+      }
+      get_daily_activity: {
+        Args: {
+          p_timezone?: string
+        }
+        Returns: {
+          avg_mood_level: number
+          count: number
+          day: string
+        }[]
+      }
+      get_mood_history_insights: {
+        Args: {
+          p_mood_level?: Database["public"]["Enums"]["mood_level"]
+          p_mood_name?: string
+          p_search?: string
+          p_since?: string
+        }
+        Returns: Json
+      }
+      get_mood_history_stats: {
+        Args: {
+          p_mood_level?: Database["public"]["Enums"]["mood_level"]
+          p_mood_name?: string
+          p_search?: string
+          p_since?: string
+          p_timezone?: string
+        }
+        Returns: Json
+      }
+      get_weekly_stress_trends: {
+        Args: {
+          p_timezone?: string
+        }
+        Returns: {
+          avg_stress: number
+          total_logs: number
+          week: string
+        }[]
+      }
+      insert_server_recommendations: {
+        Args: {
+          p_mood_log_id: string
+          p_recommendations: Json
+        }
+        Returns: undefined
+      }
+      resolve_time_zone: {
+        Args: {
+          p_timezone?: string
+        }
+        Returns: string
+      }
+      set_user_timezone: {
+        Args: {
+          p_timezone: string
+        }
+        Returns: undefined
+      }
+      store_backfill_analysis: {
+        Args: {
+          p_backfill_job_id: string
+          p_confidence: number
+          p_engine_version: string
+          p_mood_log_id: string
+          p_replace?: boolean
+          p_sentiment: string
+          p_stress_level: number
+          p_summary: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      store_server_analysis: {
+        Args: {
+          p_caller_id: string
+          p_confidence: number
+          p_engine_version: string
+          p_idempotency_key: string
+          p_mood_log_id: string
+          p_recommendations: Json
+          p_sentiment: string
+          p_stress_level: number
+          p_summary: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
-      connection_status: "connected" | "disconnected" | "reconnecting" | "failed"
-      mood_level: "very_low" | "low" | "neutral" | "high" | "very_high"
-      recommendation_type: "exercise" | "meditation" | "article" | "video" | "activity"
-      room_type: "public" | "private" | "anonymous"
-      session_status: "active" | "ended" | "paused"
+      article_kind: "article" | "resource" | "activity"
+      mood_level: "1" | "2" | "3" | "4" | "5"
+      mood_log_source: "check_in" | "daylio" | "bearable" | "mindbloom_export"
+      recommendation_type: "breathing" | "mindfulness" | "activity" | "video" | "article"
+      user_role: "student" | "admin" | "mentor"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -1,8 +1,12 @@
 import { supabase } from '@/integrations/supabase/client';
+import { FEATURE_DEFINITIONS, FEATURE_VECTOR_LENGTH } from './moodFeatures';
+import type { ModelCalibration, ModelEvaluation, PredictionExplanation, StoredModelMetrics } from './moodModelProtocol';
+import { getDayKey, getWeekStartKey } from './dateBuckets';
+import { moodLevelToNumber } from '@shared/moodDomain';
 
 // Interface definitions for analytics data
 export interface WeeklyStressTrend {
-  week: string;
+  week: string; // Monday starting the week, yyyy-MM-dd
   avg_stress: number;
   total_logs: number;
 }
@@ -14,7 +18,7 @@ export interface SentimentDistribution {
 }
 
 export interface DailyActivity {
-  day: string;
+  day: string; // yyyy-MM-dd
   count: number;
   avg_mood_level: number;
 }
@@ -34,20 +38,17 @@ export interface StudentOverview {
 
 // New interfaces for enhanced model analytics
 export interface ModelPerformanceMetrics {
-  modelVersion: string;
+  modelVersion: string | null;
   trainingAccuracy: number;
   validationAccuracy: number;
-  testAccuracy: number;
+  testAccuracy: number | null;
+  emotionAccuracy: number | null;
   totalParameters: number;
   trainingDataSize: number;
   augmentedDataSize: number;
   lastTrainingDate: string;
-  confusionMatrix: number[][];
-  precisionRecall: {
-    precision: number;
-    recall: number;
-    f1Score: number;
-  };
+  evaluation: ModelEvaluation | null; // null until a model has been evaluated on its test split
+  calibration: ModelCalibration | null; // null for versions trained before calibration existed
 }
 
 export interface ModelConfidenceDistribution {
@@ -62,64 +63,45 @@ export interface FeatureImportance {
   description: string;
 }
 
+export interface ModelVersionBreakdown {
+  modelVersion: string; // 'unversioned' for rows analysed before the model registry
+  count: number;
+  avgStressLevel: number;
+  percentage: number;
+}
+
 /**
- * Gets comprehensive model performance metrics from the enhanced mood model
+ * Gets the active model's recorded training metrics and test evaluation.
+ * Returns null when no trained model has reported metrics on this device.
  */
-export async function getModelPerformanceMetrics(): Promise<ModelPerformanceMetrics> {
+export async function getModelPerformanceMetrics(): Promise<ModelPerformanceMetrics | null> {
   try {
-    // Import the model status from the enhanced mood model
     const { getModelStatus } = await import('./moodModel');
     const modelStatus = getModelStatus();
     
-    // Load stored training metrics for accurate reporting
-    let storedMetrics = null;
-    try {
-      const metricsData = localStorage.getItem('enhanced-mood-model-metrics');
-      if (metricsData) {
-        storedMetrics = JSON.parse(metricsData);
-      }
-    } catch (error) {
-      console.warn('Failed to load stored metrics for analytics:', error);
+    // Metrics mirrored by the model client for the active registry version
+    const metricsData = localStorage.getItem('enhanced-mood-model-metrics');
+    if (!metricsData) {
+      return null;
     }
+    const storedMetrics: StoredModelMetrics = JSON.parse(metricsData);
     
-    // Use actual stored metrics when available, fallback to model status
-    const metrics: ModelPerformanceMetrics = {
-      modelVersion: modelStatus.modelVersion || '4.0',
-      trainingAccuracy: storedMetrics?.trainingAccuracy || modelStatus.lastTrainingAccuracy || 0.85,
-      validationAccuracy: storedMetrics?.validationAccuracy || modelStatus.lastValidationAccuracy || 0.82,
-      testAccuracy: storedMetrics?.testAccuracy || 0.84,
-      totalParameters: storedMetrics?.modelParams || modelStatus.modelParams || 15000,
-      trainingDataSize: storedMetrics?.trainingDataSize || modelStatus.trainingDataSize || 107,
-      augmentedDataSize: storedMetrics?.augmentedDataSize || modelStatus.augmentedDataSize || 150,
-      lastTrainingDate: storedMetrics?.lastTrainingDate || new Date().toISOString(),
-      confusionMatrix: [[42, 3], [5, 38]], // This would ideally be stored from actual test evaluation
-      precisionRecall: {
-        precision: 0.88,
-        recall: 0.86,
-        f1Score: 0.87
-      }
+    return {
+      modelVersion: modelStatus.modelVersion,
+      trainingAccuracy: storedMetrics.trainingAccuracy,
+      validationAccuracy: storedMetrics.validationAccuracy,
+      testAccuracy: storedMetrics.testAccuracy ?? null,
+      emotionAccuracy: storedMetrics.emotionAccuracy ?? null,
+      totalParameters: storedMetrics.modelParams,
+      trainingDataSize: storedMetrics.trainingDataSize,
+      augmentedDataSize: storedMetrics.augmentedDataSize,
+      lastTrainingDate: storedMetrics.lastTrainingDate,
+      evaluation: storedMetrics.evaluation ?? null,
+      calibration: storedMetrics.calibration ?? null
     };
-    
-    return metrics;
   } catch (error) {
     console.error('Error fetching model performance metrics:', error);
-    // Return fallback metrics if there's an error
-    return {
-      modelVersion: '4.0',
-      trainingAccuracy: 0.85,
-      validationAccuracy: 0.82,
-      testAccuracy: 0.84,
-      totalParameters: 15000,
-      trainingDataSize: 107,
-      augmentedDataSize: 150,
-      lastTrainingDate: new Date().toISOString(),
-      confusionMatrix: [[40, 5], [6, 37]],
-      precisionRecall: {
-        precision: 0.85,
-        recall: 0.84,
-        f1Score: 0.845
-      }
-    };
+    return null;
   }
 }
 
@@ -128,54 +110,42 @@ export async function getModelPerformanceMetrics(): Promise<ModelPerformanceMetr
  */
 export async function getModelConfidenceDistribution(): Promise<ModelConfidenceDistribution[]> {
   try {
-    // TODO: Re-enable after ai_confidence column migration is applied
-    // const { data: recentLogs, error } = await supabase
-    //   .from('mood_logs')
-    //   .select('ai_confidence')
-    //   .not('ai_confidence', 'is', null)
-    //   .limit(100)
-    //   .order('created_at', { ascending: false });
-    
-    // if (!error && recentLogs && recentLogs.length > 0) {
-    //   // Calculate actual confidence distribution from real data
-    //   const confidenceCounts = {
-    //     '0.9-1.0': 0,
-    //     '0.8-0.9': 0,
-    //     '0.7-0.8': 0,
-    //     '0.6-0.7': 0,
-    //     '0.5-0.6': 0,
-    //     '0.0-0.5': 0
-    //   };
-    //   
-    //   recentLogs.forEach(log => {
-    //     const confidence = log.ai_confidence;
-    //     if (confidence >= 0.9) confidenceCounts['0.9-1.0']++;
-    //     else if (confidence >= 0.8) confidenceCounts['0.8-0.9']++;
-    //     else if (confidence >= 0.7) confidenceCounts['0.7-0.8']++;
-    //     else if (confidence >= 0.6) confidenceCounts['0.6-0.7']++;
-    //     else if (confidence >= 0.5) confidenceCounts['0.5-0.6']++;
-    //     else confidenceCounts['0.0-0.5']++;
-    //   });
-    //   
-    //   const total = recentLogs.length;
-    //   return Object.entries(confidenceCounts).map(([range, count]) => ({
-    //     confidenceRange: range,
-    //     count,
-    //     percentage: Number(((count / total) * 100).toFixed(1))
-    //   })).filter(item => item.count > 0);
-    // }
-    
-    // Use realistic simulated data for now
-    const confidenceData: ModelConfidenceDistribution[] = [
-      { confidenceRange: '0.9-1.0', count: 28, percentage: 25.5 },
-      { confidenceRange: '0.8-0.9', count: 31, percentage: 28.2 },
-      { confidenceRange: '0.7-0.8', count: 25, percentage: 22.7 },
-      { confidenceRange: '0.6-0.7', count: 15, percentage: 13.6 },
-      { confidenceRange: '0.5-0.6', count: 8, percentage: 7.3 },
-      { confidenceRange: '0.0-0.5', count: 3, percentage: 2.7 }
-    ];
-    
-    return confidenceData;
+    // ai_confidence is mirrored from the displayed analysis by the sync_mood_log_analysis trigger
+    const { data: recentLogs, error } = await supabase
+      .from('mood_logs')
+      .select('ai_confidence')
+      .not('ai_confidence', 'is', null)
+      .limit(100)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    if (!recentLogs || recentLogs.length === 0) return [];
+
+    const confidenceCounts = {
+      '0.9-1.0': 0,
+      '0.8-0.9': 0,
+      '0.7-0.8': 0,
+      '0.6-0.7': 0,
+      '0.5-0.6': 0,
+      '0.0-0.5': 0
+    };
+
+    recentLogs.forEach(log => {
+      const confidence = Number(log.ai_confidence);
+      if (confidence >= 0.9) confidenceCounts['0.9-1.0']++;
+      else if (confidence >= 0.8) confidenceCounts['0.8-0.9']++;
+      else if (confidence >= 0.7) confidenceCounts['0.7-0.8']++;
+      else if (confidence >= 0.6) confidenceCounts['0.6-0.7']++;
+      else if (confidence >= 0.5) confidenceCounts['0.5-0.6']++;
+      else confidenceCounts['0.0-0.5']++;
+    });
+
+    const total = recentLogs.length;
+    return Object.entries(confidenceCounts).map(([range, count]) => ({
+      confidenceRange: range,
+      count,
+      percentage: Number(((count / total) * 100).toFixed(1))
+    })).filter(item => item.count > 0);
   } catch (error) {
     console.error('Error fetching model confidence distribution:', error);
     return [];
@@ -183,28 +153,50 @@ export async function getModelConfidenceDistribution(): Promise<ModelConfidenceD
 }
 
 /**
- * Gets feature importance rankings for the enhanced model
+ * Gets global feature importance as the mean absolute occlusion attribution over recent explained predictions
  */
-export async function getFeatureImportance(): Promise<FeatureImportance[]> {
+export async function getFeatureImportance(sampleSize = 200): Promise<FeatureImportance[]> {
   try {
-    // Feature importance based on the 15-dimensional feature vector
-    const featureImportance: FeatureImportance[] = [
-      { featureName: 'Negative Keywords', importance: 0.85, description: 'Presence of negative emotional words' },
-      { featureName: 'Mood Level', importance: 0.82, description: 'User-selected mood rating (1-5)' },
-      { featureName: 'Academic Stress', importance: 0.76, description: 'Academic pressure indicators' },
-      { featureName: 'Work Stress', importance: 0.71, description: 'Work-related stress signals' },
-      { featureName: 'Composite Stress', importance: 0.68, description: 'Combined stress indicators' },
-      { featureName: 'Positive Keywords', importance: 0.65, description: 'Presence of positive emotional words' },
-      { featureName: 'Uncertainty Indicators', importance: 0.59, description: 'Words indicating confusion or doubt' },
-      { featureName: 'Text Length', importance: 0.54, description: 'Complexity of user expression' },
-      { featureName: 'Relationship Keywords', importance: 0.48, description: 'Social and relationship context' },
-      { featureName: 'Health Keywords', importance: 0.43, description: 'Physical health indicators' },
-      { featureName: 'Achievement Keywords', importance: 0.39, description: 'Success and accomplishment markers' },
-      { featureName: 'Intensity Modifiers', importance: 0.35, description: 'Words that amplify emotions' },
-      { featureName: 'Lexical Diversity', importance: 0.31, description: 'Vocabulary richness ratio' },
-      { featureName: 'Sentence Count', importance: 0.28, description: 'Text structural complexity' },
-      { featureName: 'Average Word Length', importance: 0.24, description: 'Linguistic complexity measure' }
-    ];
+    const { data: recentLogs, error } = await supabase
+      .from('mood_logs')
+      .select('ai_explanation')
+      .not('ai_explanation', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(sampleSize);
+
+    if (error) {
+      console.error('Error fetching prediction explanations:', error);
+      return [];
+    }
+
+    const totals = new Array(FEATURE_VECTOR_LENGTH).fill(0);
+    let explainedCount = 0;
+
+    (recentLogs || []).forEach(log => {
+      const explanation = log.ai_explanation as unknown as PredictionExplanation | null;
+      if (!explanation?.attributions) return;
+
+      explanation.attributions.forEach(attribution => {
+        if (attribution.featureIndex >= 0 && attribution.featureIndex < FEATURE_VECTOR_LENGTH) {
+          totals[attribution.featureIndex] += Math.abs(attribution.contribution);
+        }
+      });
+      explainedCount++;
+    });
+
+    if (explainedCount === 0) {
+      return [];
+    }
+
+    // Normalise so the most influential feature scores 1.0
+    const means = totals.map(total => total / explainedCount);
+    const maxMean = Math.max(...means) || 1;
+
+    const featureImportance: FeatureImportance[] = FEATURE_DEFINITIONS.map((definition, index) => ({
+      featureName: definition.name,
+      importance: Number((means[index] / maxMean).toFixed(3)),
+      description: definition.description
+    }));
     
     return featureImportance.sort((a, b) => b.importance - a.importance);
   } catch (error) {
@@ -214,11 +206,51 @@ export async function getFeatureImportance(): Promise<FeatureImportance[]> {
 }
 
 /**
- * Fetches weekly stress trends for the last 12 weeks
+ * Groups analysed mood logs by the model version that produced them
+ */
+export async function getModelVersionBreakdown(): Promise<ModelVersionBreakdown[]> {
+  try {
+    const { data, error } = await supabase
+      .from('mood_logs')
+      .select('model_version, ai_stress_level')
+      .not('ai_stress_level', 'is', null);
+    
+    if (error) throw error;
+    
+    const total = data?.length || 0;
+    if (total === 0) return [];
+    
+    const versionData: { [key: string]: { count: number; total_stress: number } } = {};
+    
+    data.forEach(log => {
+      const version = log.model_version || 'unversioned';
+      if (!versionData[version]) {
+        versionData[version] = { count: 0, total_stress: 0 };
+      }
+      versionData[version].count++;
+      versionData[version].total_stress += log.ai_stress_level;
+    });
+    
+    return Object.entries(versionData)
+      .map(([modelVersion, stats]) => ({
+        modelVersion,
+        count: stats.count,
+        avgStressLevel: Number((stats.total_stress / stats.count).toFixed(2)),
+        percentage: Number(((stats.count / total) * 100).toFixed(1))
+      }))
+      .sort((a, b) => b.modelVersion.localeCompare(a.modelVersion));
+  } catch (error) {
+    console.error('Error fetching model version breakdown:', error);
+    return [];
+  }
+}
+
+/**
+ * Fetches weekly stress trends for the last 12 weeks, with weeks starting Monday in the time zone
  */
-export async function getWeeklyStressTrends(): Promise<WeeklyStressTrend[]> {
+export async function getWeeklyStressTrends(timeZone: string): Promise<WeeklyStressTrend[]> {
   try {
-    const { data, error } = await (supabase as any).rpc('get_weekly_stress_trends');
+    const { data, error } = await supabase.rpc('get_weekly_stress_trends', { p_timezone: timeZone });
     
     if (error) {
       // Fallback to direct query if RPC function doesn't exist
@@ -235,9 +267,7 @@ export async function getWeeklyStressTrends(): Promise<WeeklyStressTrend[]> {
       const weeklyData: { [key: string]: { total_stress: number; count: number } } = {};
       
       fallbackData?.forEach(log => {
-        const date = new Date(log.created_at);
-        const weekStart = new Date(date.setDate(date.getDate() - date.getDay()));
-        const weekKey = weekStart.toISOString().split('T')[0];
+        const weekKey = getWeekStartKey(getDayKey(log.created_at, timeZone));
         
         if (!weeklyData[weekKey]) {
           weeklyData[weekKey] = { total_stress: 0, count: 0 };
@@ -254,7 +284,11 @@ export async function getWeeklyStressTrends(): Promise<WeeklyStressTrend[]> {
       }));
     }
     
-    return data || [];
+    return (data || []).map(row => ({
+      week: row.week,
+      avg_stress: Number(row.avg_stress),
+      total_logs: Number(row.total_logs)
+    }));
   } catch (error) {
     console.error('Error fetching weekly stress trends:', error);
     return [];
@@ -297,15 +331,25 @@ export async function getSentimentDistribution(): Promise<SentimentDistribution[
 /**
  * Fetches daily activity patterns (alias for getDailyActivity)
  */
-export async function getDailyActivityPatterns(): Promise<DailyActivity[]> {
-  return getDailyActivity();
+export async function getDailyActivityPatterns(timeZone: string): Promise<DailyActivity[]> {
+  return getDailyActivity(timeZone);
 }
 
 /**
- * Fetches daily activity heatmap data for the last 30 days
+ * Fetches daily activity heatmap data for the last 30 days, with days in the time zone
  */
-export async function getDailyActivity(): Promise<DailyActivity[]> {
+export async function getDailyActivity(timeZone: string): Promise<DailyActivity[]> {
   try {
+    const { data: rpcData, error: rpcError } = await supabase.rpc('get_daily_activity', { p_timezone: timeZone });
+    if (!rpcError) {
+      return (rpcData || []).map(row => ({
+        day: row.day,
+        count: Number(row.count),
+        avg_mood_level: Number(row.avg_mood_level)
+      }));
+    }
+
+    // Fallback to direct query if RPC function doesn't exist
     const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
     
     const { data, error } = await supabase
@@ -320,8 +364,8 @@ export async function getDailyActivity(): Promise<DailyActivity[]> {
     const dailyData: { [key: string]: { count: number; total_mood: number } } = {};
     
     data?.forEach(log => {
-      const day = log.created_at.split('T')[0];
-      const moodLevel = parseInt(log.mood_level);
+      const day = getDayKey(log.created_at, timeZone);
+      const moodLevel = moodLevelToNumber(log.mood_level);
       
       if (!dailyData[day]) {
         dailyData[day] = { count: 0, total_mood: 0 };
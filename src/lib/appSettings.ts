@@ -0,0 +1,55 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+// App-wide settings admins change from the dashboard, stored in public.app_settings so
+// every browser applies them. Each setting is read once per session.
+
+export const ABSTAIN_THRESHOLD_SETTING = 'mood_model_abstain_threshold';
+
+const settingRequests = new Map<string, Promise<Json | null>>();
+
+/**
+ * The stored value of a setting, or null when it is unset or cannot be read
+ */
+export async function fetchAppSetting(key: string): Promise<Json | null> {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`❌ Error loading app setting ${key}:`, error);
+    return null;
+  }
+  return data?.value ?? null;
+}
+
+/**
+ * The setting's value, shared by every caller in the session
+ */
+export function loadAppSetting(key: string): Promise<Json | null> {
+  let request = settingRequests.get(key);
+  if (!request) {
+    request = fetchAppSetting(key);
+    settingRequests.set(key, request);
+  }
+  return request;
+}
+
+/**
+ * Stores a setting for every user; only admins may. Returns false when the update fails.
+ */
+export async function saveAppSetting(key: string, value: Json): Promise<boolean> {
+  const { error } = await supabase
+    .from('app_settings')
+    .upsert({ key, value, updated_at: new Date().toISOString() });
+
+  if (error) {
+    console.error(`❌ Error saving app setting ${key}:`, error);
+    return false;
+  }
+
+  settingRequests.set(key, Promise.resolve(value));
+  return true;
+}
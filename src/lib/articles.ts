@@ -0,0 +1,112 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Markdown content library over public.articles. The kind decides which route serves an
+// entry, so recommendation URLs like /articles/positive-habits resolve to library pages.
+
+export type Article = Tables<'articles'>;
+export type ArticleKind = Article['kind'];
+export type ArticleSummary = Pick<Article, 'id' | 'slug' | 'kind' | 'title' | 'summary' | 'category' | 'tags' | 'reading_minutes' | 'updated_at'>;
+
+export const ARTICLE_KINDS: ArticleKind[] = ['article', 'resource', 'activity'];
+
+export const ARTICLE_KIND_LABELS: Record<ArticleKind, string> = {
+  article: 'Article',
+  resource: 'Resource',
+  activity: 'Activity'
+};
+
+const ARTICLE_KIND_ROUTES: Record<ArticleKind, string> = {
+  article: '/articles',
+  resource: '/resources',
+  activity: '/activities'
+};
+
+const SUMMARY_COLUMNS = 'id, slug, kind, title, summary, category, tags, reading_minutes, updated_at';
+
+export interface ArticleSearch {
+  query?: string;
+  category?: string;
+  kinds?: ArticleKind[];
+}
+
+/**
+ * In-app path of a library entry
+ */
+export function getArticlePath(article: Pick<Article, 'kind' | 'slug'>): string {
+  return `${ARTICLE_KIND_ROUTES[article.kind]}/${article.slug}`;
+}
+
+/**
+ * URL slug for a title, e.g. "Sleep Hygiene Guide" -> "sleep-hygiene-guide"
+ */
+export function toArticleSlug(title: string): string {
+  return title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Published entry served at the kind's route, or null when there is none
+ */
+export async function loadArticle(kind: ArticleKind, slug: string): Promise<Article | null> {
+  const { data, error } = await supabase
+    .from('articles')
+    .select('*')
+    .eq('kind', kind)
+    .eq('slug', slug)
+    .eq('is_published', true)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Error loading article:', error);
+    return null;
+  }
+  return data;
+}
+
+/**
+ * Published entries matching a full-text query and category, sorted by title
+ */
+export async function searchArticles({ query, category, kinds }: ArticleSearch = {}): Promise<ArticleSummary[]> {
+  let request = supabase
+    .from('articles')
+    .select(SUMMARY_COLUMNS)
+    .eq('is_published', true);
+
+  if (category) {
+    request = request.eq('category', category);
+  }
+  if (kinds && kinds.length > 0) {
+    request = request.in('kind', kinds);
+  }
+  if (query?.trim()) {
+    request = request.textSearch('search_vector', query.trim(), { type: 'websearch', config: 'english' });
+  }
+
+  const { data, error } = await request.order('title', { ascending: true });
+
+  if (error) {
+    console.error('❌ Error searching articles:', error);
+    return [];
+  }
+  return data || [];
+}
+
+/**
+ * Categories that have at least one published entry
+ */
+export async function loadArticleCategories(): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('articles')
+    .select('category')
+    .eq('is_published', true);
+
+  if (error) {
+    console.error('❌ Error loading article categories:', error);
+    return [];
+  }
+  return [...new Set((data || []).map(row => row.category))].sort();
+}
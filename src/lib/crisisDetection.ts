@@ -0,0 +1,46 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  type CrisisAssessment,
+  type RiskFlagSource,
+  buildRiskFlag
+} from '@shared/crisisDetection';
+
+// Crisis detection in the browser: the detector itself lives in @shared/crisisDetection so
+// analyze-mood and the analysis backfill flag mood notes the same way.
+
+export {
+  detectCrisisLanguage,
+  type CrisisAssessment,
+  type CrisisCategory,
+  type CrisisDetectionOptions,
+  type CrisisMatch,
+  type CrisisSeverity,
+  type RiskFlagSource
+} from '@shared/crisisDetection';
+
+/**
+ * Records a flagged assessment so on-duty mentors and admins are notified in realtime
+ * @param {string} userId - The author of the flagged text
+ * @param {RiskFlagSource} source - Where the text was written
+ * @param {string | null} sourceId - The mood log or chat message id; null when the mood log failed to save
+ * @param {string} text - The flagged text, stored as a short excerpt
+ * @param {CrisisAssessment} assessment - Result from detectCrisisLanguage
+ */
+export async function createRiskFlag(
+  userId: string,
+  source: RiskFlagSource,
+  sourceId: string | null,
+  text: string,
+  assessment: CrisisAssessment
+): Promise<boolean> {
+  const { error } = await supabase
+    .from('risk_flags')
+    .insert(buildRiskFlag(userId, source, sourceId, text, assessment));
+
+  if (error) {
+    console.error('❌ Failed to create risk flag:', error);
+    return false;
+  }
+
+  return true;
+}
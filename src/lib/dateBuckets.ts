@@ -0,0 +1,155 @@
+// Calendar-day bucketing in the user's time zone. created_at is a UTC instant, so its date
+// part (created_at.split('T')[0]) is the UTC day: a check-in at 23:30 in India lands on
+// the next day there. Every chart, streak and trend groups check-ins through these
+// helpers instead. Day keys are plain 'yyyy-MM-dd' strings in the given time zone; the
+// server RPCs take the same IANA time zone name (see get_mood_history_stats).
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// en-CA formats dates as yyyy-MM-dd; hourCycle h23 keeps midnight at 00
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether the runtime knows the IANA time zone name, e.g. "Asia/Kolkata"
+ */
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The browser's time zone, used until the user's preference has loaded
+ */
+export function getBrowserTimeZone(): string {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * IANA time zones the runtime supports, for pickers. Runtimes without
+ * Intl.supportedValuesOf get the browser's time zone and UTC.
+ */
+export function listTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const timeZones = intl.supportedValuesOf?.('timeZone') ?? [getBrowserTimeZone()];
+  return Array.from(new Set([...timeZones, DEFAULT_TIME_ZONE])).sort();
+}
+
+// Wall-clock fields of an instant in the time zone
+function getZonedParts(date: Date, timeZone: string): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone).formatToParts(date)
+      .filter(part => part.type !== 'literal')
+      .map(part => [part.type, Number(part.value)])
+  );
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+/**
+ * Day key of an instant in the time zone
+ */
+export function getDayKey(date: Date | string, timeZone: string): string {
+  const { year, month, day } = getZonedParts(typeof date === 'string' ? new Date(date) : date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Day key n days after (or before, for negative n) another day key
+ */
+export function addDaysToKey(dayKey: string, days: number): string {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * The last `count` day keys up to and including today in the time zone, oldest first
+ */
+export function getRecentDayKeys(count: number, timeZone: string, now: Date = new Date()): string[] {
+  const today = getDayKey(now, timeZone);
+  return Array.from({ length: count }, (_, index) => addDaysToKey(today, index - count + 1));
+}
+
+/**
+ * Day of the week of a day key, Monday = 0 through Sunday = 6
+ */
+export function getWeekdayIndex(dayKey: string): number {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+}
+
+/**
+ * Day key of the Monday starting the week, matching Postgres date_trunc('week', ...)
+ */
+export function getWeekStartKey(dayKey: string): string {
+  return addDaysToKey(dayKey, -getWeekdayIndex(dayKey));
+}
+
+/**
+ * The instant the day starts in the time zone, for querying created_at ranges.
+ * Handles days whose midnight is shifted by a daylight saving change.
+ */
+export function getStartOfDay(dayKey: string, timeZone: string): Date {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day);
+
+  // The zone's offset can differ between the guess and the result around DST changes
+  let instant = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedParts(new Date(instant), timeZone);
+    const offset = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - instant;
+    instant = wallClock - offset;
+  }
+  return new Date(instant);
+}
+
+/**
+ * Formats a day key without shifting it through the browser's time zone
+ */
+export function formatDayKey(dayKey: string, options: Intl.DateTimeFormatOptions): string {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day, 12)).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+}
+
+/**
+ * Formats an instant as the wall-clock date and time in the time zone
+ */
+export function formatInTimeZone(date: Date | string, timeZone: string, options: Intl.DateTimeFormatOptions): string {
+  return (typeof date === 'string' ? new Date(date) : date).toLocaleString('en-US', { ...options, timeZone });
+}
+
+/**
+ * Groups items by the day key of their created_at in the time zone
+ */
+export function groupByDay<T extends { created_at: string }>(items: T[], timeZone: string): Record<string, T[]> {
+  const days: Record<string, T[]> = {};
+  items.forEach(item => {
+    const key = getDayKey(item.created_at, timeZone);
+    (days[key] = days[key] ?? []).push(item);
+  });
+  return days;
+}
@@ -1,4 +1,7 @@
-import { predictMood, getModelStatus, createMoodModel, validateFeatureVector, analyzeTextComplexity } from './moodModel';
+import { predictMood, getModelStatus, validateFeatureVector, analyzeTextComplexity } from './moodModel';
+import { createMoodModel } from './moodModelEngine';
+import { ENHANCED_TRAINING_DATA } from './moodTrainingData';
+import { buildVocabulary } from './moodTokenizer';
 
 /**
  * Enhanced Mood Model Test Suite
@@ -94,11 +97,13 @@ async function testEnhancedMoodModel() {
 
     // Test 9: Model architecture verification
     console.log('\n🏗️ Test 9: Model architecture verification');
-    const model = createMoodModel();
+    const vocabulary = buildVocabulary(ENHANCED_TRAINING_DATA.map(item => item.text));
+    const model = createMoodModel(vocabulary.length);
     console.log(`✅ Model created successfully`);
     console.log(`✅ Total parameters: ${model.countParams()}`);
-    console.log(`✅ Input shape: [null, 15] (15-dimensional features)`);
-    console.log(`✅ Architecture: 64→32→16→8→1 with dropout and batch normalization`);
+    console.log(`✅ Inputs: [null, ${vocabulary.length}] pooled tokens and [null, 15] hand-crafted features`);
+    console.log(`✅ Architecture: embedding + features → 64→32→16 trunk with stress (8→1) and emotion (7-way softmax) heads`);
+    model.dispose();
 
     console.log('\n🎉 All tests completed successfully!');
     console.log('=' .repeat(60));
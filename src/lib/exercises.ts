@@ -0,0 +1,108 @@
+// In-app guided exercises served under /activities/:slug. Recommendation catalog entries
+// point at these routes instead of external sites that campus networks block.
+
+export type ExerciseKind = 'breathing' | 'grounding' | 'body_scan';
+
+export interface BreathingPhase {
+  label: 'Inhale' | 'Hold' | 'Exhale';
+  seconds: number;
+}
+
+export interface GroundingStep {
+  count: number;
+  sense: string;
+  prompt: string;
+}
+
+interface ExerciseBase {
+  slug: string;
+  title: string;
+  description: string;
+  durationMinutes: number;
+}
+
+export interface BreathingExercise extends ExerciseBase {
+  kind: 'breathing';
+  phases: BreathingPhase[];
+  cycles: number;
+}
+
+export interface GroundingExercise extends ExerciseBase {
+  kind: 'grounding';
+  steps: GroundingStep[];
+}
+
+export interface BodyScanExercise extends ExerciseBase {
+  kind: 'body_scan';
+  regions: string[];
+  secondsPerRegion: number;
+}
+
+export type Exercise = BreathingExercise | GroundingExercise | BodyScanExercise;
+
+export const EXERCISES: Exercise[] = [
+  {
+    slug: 'box-breathing',
+    kind: 'breathing',
+    title: 'Box Breathing',
+    description: 'Breathe in, hold, out and hold again for four counts each to steady your heart rate.',
+    durationMinutes: 3,
+    phases: [
+      { label: 'Inhale', seconds: 4 },
+      { label: 'Hold', seconds: 4 },
+      { label: 'Exhale', seconds: 4 },
+      { label: 'Hold', seconds: 4 }
+    ],
+    cycles: 10
+  },
+  {
+    slug: '4-7-8-breathing',
+    kind: 'breathing',
+    title: '4-7-8 Breathing',
+    description: 'A long hold and slow exhale that calms the nervous system quickly. Stop if you feel light-headed.',
+    durationMinutes: 2,
+    phases: [
+      { label: 'Inhale', seconds: 4 },
+      { label: 'Hold', seconds: 7 },
+      { label: 'Exhale', seconds: 8 }
+    ],
+    cycles: 6
+  },
+  {
+    slug: 'grounding',
+    kind: 'grounding',
+    title: '5-4-3-2-1 Grounding',
+    description: 'Bring yourself back to the present by noticing what is around you, one sense at a time.',
+    durationMinutes: 5,
+    steps: [
+      { count: 5, sense: 'see', prompt: 'Look around and name five things you can see.' },
+      { count: 4, sense: 'touch', prompt: 'Notice four things you can feel, like your feet on the floor.' },
+      { count: 3, sense: 'hear', prompt: 'Listen for three sounds, near or far.' },
+      { count: 2, sense: 'smell', prompt: 'Find two things you can smell, or two smells you like.' },
+      { count: 1, sense: 'taste', prompt: 'Notice one thing you can taste right now.' }
+    ]
+  },
+  {
+    slug: 'body-scan',
+    kind: 'body_scan',
+    title: 'Body Scan',
+    description: 'Move your attention slowly from head to toe, noticing and releasing tension as you go.',
+    durationMinutes: 8,
+    regions: [
+      'Forehead and eyes',
+      'Jaw and mouth',
+      'Neck and shoulders',
+      'Arms and hands',
+      'Chest and breathing',
+      'Stomach',
+      'Lower back and hips',
+      'Legs',
+      'Feet and toes'
+    ],
+    secondsPerRegion: 50
+  }
+];
+
+export function getExercise(slug: string): Exercise | undefined {
+  return EXERCISES.find(exercise => exercise.slug === slug);
+}
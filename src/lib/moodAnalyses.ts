@@ -0,0 +1,48 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { PredictionResult } from './moodModelProtocol';
+
+// Single analysis contract for mood logs. Each engine stores its result as its own row in
+// the analyses table; a database trigger mirrors the highest-precedence row onto
+// mood_logs.ai_*, which is what every screen reads. Precedence (public.analysis_engine_rank):
+// the client model wins over the server heuristic, and within an engine the newest row wins.
+// Recommendations are written only by the engine whose analysis is displayed.
+
+export type AnalysisEngine = 'client_model' | 'server_heuristic';
+
+// On-device TensorFlow.js model (calibrated, explained and personalized)
+export const CLIENT_ANALYSIS_ENGINE: AnalysisEngine = 'client_model';
+// Keyword heuristic in the analyze-mood edge function
+export const SERVER_ANALYSIS_ENGINE: AnalysisEngine = 'server_heuristic';
+
+/**
+ * Stores the on-device model's analysis of a mood log. Returns false when nothing was
+ * stored, in which case the server analysis is displayed instead.
+ * @param {string} moodLogId - The analysed mood log
+ * @param {string} userId - Owner of the mood log
+ * @param {PredictionResult} prediction - Result from predictMood
+ */
+export async function saveClientAnalysis(moodLogId: string, userId: string, prediction: PredictionResult): Promise<boolean> {
+  // predictMood's mood-level-only fallback carries no model version and should not outrank the server
+  if (!prediction.modelVersion) return false;
+
+  const { error } = await supabase
+    .from('analyses')
+    .insert({
+      mood_log_id: moodLogId,
+      user_id: userId,
+      engine: CLIENT_ANALYSIS_ENGINE,
+      engine_version: prediction.modelVersion,
+      sentiment: prediction.sentiment,
+      stress_level: prediction.stressLevel,
+      confidence: prediction.confidence,
+      explanation: (prediction.explanation ?? null) as unknown as Json
+    });
+
+  if (error) {
+    console.error('❌ Failed to save client analysis:', error);
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,63 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getDayKey } from '@/lib/dateBuckets';
+import { moodLevelToNumber } from '@shared/moodDomain';
+
+// Per-day mood and stress for the Statistics calendar heatmap. Check-ins are bucketed by
+// the calendar day in the user's time zone rather than the UTC date of created_at, so
+// a check-in at 23:30 counts for the day it was logged on.
+
+export interface MoodCalendarDay {
+  date: string; // yyyy-MM-dd
+  entries: number;
+  averageMood: number;
+  averageStress: number | null; // Null when no entry that day has a stress level
+}
+
+export type MoodCalendar = Record<string, MoodCalendarDay>;
+
+// PostgREST caps a single response at 1000 rows
+const PAGE_SIZE = 1000;
+
+const roundToTenth = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Daily averages for the user's check-ins in [from, to), keyed by day in the time zone.
+ * Returns null when the query fails.
+ */
+export async function loadMoodCalendar(userId: string, from: Date, to: Date, timeZone: string): Promise<MoodCalendar | null> {
+  const days: Record<string, { moods: number[]; stresses: number[] }> = {};
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('mood_logs')
+      .select('id, created_at, mood_level, ai_stress_level')
+      .eq('user_id', userId)
+      .gte('created_at', from.toISOString())
+      .lt('created_at', to.toISOString())
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('❌ Error loading mood calendar:', error);
+      return null;
+    }
+
+    (data || []).forEach(log => {
+      const key = getDayKey(log.created_at, timeZone);
+      days[key] = days[key] ?? { moods: [], stresses: [] };
+      days[key].moods.push(moodLevelToNumber(log.mood_level));
+      if (log.ai_stress_level !== null) days[key].stresses.push(log.ai_stress_level);
+    });
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Object.fromEntries(Object.entries(days).map(([date, day]) => [date, {
+    date,
+    entries: day.moods.length,
+    averageMood: roundToTenth(average(day.moods)),
+    averageStress: day.stresses.length > 0 ? roundToTenth(average(day.stresses)) : null
+  }]));
+}
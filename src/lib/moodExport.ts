@@ -0,0 +1,140 @@
+import type { MoodHistoryFilters, MoodLogWithRecommendations } from '@/hooks/useMoodHistory';
+import { getMoodDefinition, isMoodName } from '@/lib/moodNames';
+import { getBrowserTimeZone, getDayKey } from '@/lib/dateBuckets';
+import { isMoodLevel } from '@shared/moodDomain';
+
+// Personal data export of the mood history. Everything is generated in the browser from
+// the entries matching the active History filters.
+
+const CSV_COLUMNS = [
+  'created_at',
+  'source',
+  'mood_level',
+  'mood_name',
+  'valence',
+  'arousal',
+  'note',
+  'ai_sentiment',
+  'ai_stress_level',
+  'recommendations',
+  'recommendations_completed'
+] as const;
+
+type CsvRow = Record<typeof CSV_COLUMNS[number], string | number | null>;
+
+/**
+ * Quotes a CSV field when needed. Text starting with a formula character is prefixed so
+ * spreadsheet apps do not evaluate notes as formulas; numbers, such as negative valence,
+ * are written as they are.
+ */
+function toCsvField(value: string | number | null): string {
+  if (value === null || value === undefined) return '';
+
+  let field = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(field)) {
+    field = `'${field}`;
+  }
+  return /[",\n\r]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+function toCsvRow(log: MoodLogWithRecommendations): CsvRow {
+  const recommendations = log.recommendations ?? [];
+  return {
+    created_at: log.created_at,
+    source: log.source,
+    mood_level: log.mood_level,
+    mood_name: log.mood_name,
+    valence: log.valence,
+    arousal: log.arousal,
+    note: log.note,
+    ai_sentiment: log.ai_sentiment,
+    ai_stress_level: log.ai_stress_level,
+    recommendations: recommendations.map(rec => rec.title).join('; '),
+    recommendations_completed: recommendations.filter(rec => rec.recommendation_feedback?.[0]?.completed).length
+  };
+}
+
+/**
+ * One row per check-in; recommendations are flattened to their titles
+ */
+export function toMoodHistoryCsv(logs: MoodLogWithRecommendations[]): string {
+  const rows = logs.map(log => {
+    const row = toCsvRow(log);
+    return CSV_COLUMNS.map(column => toCsvField(row[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
+
+/**
+ * Full check-ins with their recommendations and feedback, plus the filters they were exported with
+ */
+export function toMoodHistoryJson(logs: MoodLogWithRecommendations[], filters: MoodHistoryFilters): string {
+  return JSON.stringify({
+    exported_at: new Date().toISOString(),
+    filters,
+    entries: logs
+  }, null, 2);
+}
+
+/**
+ * File name such as "mood-history-2025-09-08.csv"
+ */
+export function getExportFilename(extension: 'csv' | 'json'): string {
+  return `mood-history-${getDayKey(new Date(), getBrowserTimeZone())}.${extension}`;
+}
+
+// How long the object URL behind a download stays valid
+const DOWNLOAD_URL_LIFETIME_MS = 60 * 1000;
+
+/**
+ * Saves generated content through a temporary object URL
+ */
+export function downloadFile(content: string, filename: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download after click() returns, so keep the URL alive briefly
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+}
+
+/**
+ * Label for a check-in, using the named mood when one was stored
+ */
+export function getMoodLabel(log: Pick<MoodLogWithRecommendations, 'mood_level' | 'mood_name'>): string {
+  const named = getMoodDefinition(log.mood_name);
+  return named ? `${named.label} (level ${log.mood_level})` : `Level ${log.mood_level}`;
+}
+
+/**
+ * Query string carrying the History filters to the clinician report
+ */
+export function toReportSearch(filters: MoodHistoryFilters): string {
+  const params = new URLSearchParams();
+  if (filters.dateRange !== 'all') params.set('dateRange', filters.dateRange);
+  if (filters.moodLevel !== 'all') params.set('moodLevel', filters.moodLevel);
+  if (filters.moodName !== 'all') params.set('moodName', filters.moodName);
+  if (filters.search) params.set('q', filters.search);
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
+
+/**
+ * History filters from the clinician report's query string; unknown values are ignored
+ */
+export function parseReportFilters(params: URLSearchParams): Partial<MoodHistoryFilters> {
+  const filters: Partial<MoodHistoryFilters> = { sortBy: 'oldest' };
+  const dateRange = params.get('dateRange');
+  const moodLevel = params.get('moodLevel');
+  const moodName = params.get('moodName');
+  const search = params.get('q');
+
+  if (dateRange === 'week' || dateRange === 'month' || dateRange === '3months') filters.dateRange = dateRange;
+  if (isMoodLevel(moodLevel)) filters.moodLevel = moodLevel;
+  if (isMoodName(moodName)) filters.moodName = moodName;
+  if (search?.trim()) filters.search = search.trim();
+  return filters;
+}
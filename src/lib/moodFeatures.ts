@@ -0,0 +1,168 @@
+import { NEGATION_PREFIX, isNegated, tokenize } from './moodTokenizer';
+
+// Hand-crafted feature extraction for the mood model. Kept free of
+// TensorFlow.js so explanations and admin analytics can name the 15 feature
+// slots without loading the model runtime. These features are the model's
+// auxiliary input next to the token sequence built by moodTokenizer.ts.
+
+export const FEATURE_VECTOR_LENGTH = 15;
+
+// Interface for a feature slot definition
+export interface FeatureDefinition {
+  name: string;
+  description: string;
+}
+
+// One entry per slot of the vector built by createFeatureVector, in index order
+export const FEATURE_DEFINITIONS: FeatureDefinition[] = [
+  { name: 'Mood Level', description: 'User-selected mood rating (1-5)' },
+  { name: 'Text Length', description: 'Complexity of user expression' },
+  { name: 'Positive Keywords', description: 'Presence of positive emotional words' },
+  { name: 'Negative Keywords', description: 'Presence of negative emotional words' },
+  { name: 'Academic Stress', description: 'Academic pressure indicators' },
+  { name: 'Work Stress', description: 'Work-related stress signals' },
+  { name: 'Relationship Keywords', description: 'Social and relationship context' },
+  { name: 'Health Keywords', description: 'Physical health indicators' },
+  { name: 'Achievement Keywords', description: 'Success and accomplishment markers' },
+  { name: 'Sentence Count', description: 'Text structural complexity' },
+  { name: 'Average Word Length', description: 'Linguistic complexity measure' },
+  { name: 'Lexical Diversity', description: 'Vocabulary richness ratio' },
+  { name: 'Uncertainty Indicators', description: 'Words indicating confusion or doubt' },
+  { name: 'Intensity Modifiers', description: 'Words that amplify emotions' },
+  { name: 'Composite Stress', description: 'Combined stress indicators' }
+];
+
+// Keyword lists behind the keyword-count slots, keyed by feature index
+export const FEATURE_KEYWORDS: Record<number, string[]> = {
+  // 3. Sentiment polarity scores - Positive keywords
+  2: [
+    'happy', 'good', 'great', 'awesome', 'wonderful', 'excellent', 'fantastic', 'amazing',
+    'love', 'joy', 'excited', 'grateful', 'blessed', 'peaceful', 'calm', 'relaxed',
+    'confident', 'optimistic', 'satisfied', 'proud', 'accomplished', 'motivated',
+    'energetic', 'creative', 'inspired', 'successful', 'achieving', 'thriving'
+  ],
+  // 4. Sentiment polarity scores - Negative keywords
+  3: [
+    'sad', 'bad', 'terrible', 'awful', 'horrible', 'hate', 'angry', 'mad', 'frustrated',
+    'depressed', 'anxious', 'worried', 'stressed', 'overwhelmed', 'tired', 'exhausted',
+    'hopeless', 'helpless', 'desperate', 'crying', 'miserable', 'devastated', 'broken'
+  ],
+  // 5. Academic pressure keywords
+  4: ['exam', 'test', 'study', 'grade', 'assignment', 'thesis', 'dissertation', 'professor', 'scholarship', 'graduation'],
+  // 6. Work stress keywords
+  5: ['work', 'job', 'boss', 'deadline', 'meeting', 'project', 'performance', 'salary', 'career', 'interview'],
+  // 7. Relationship keywords
+  6: ['relationship', 'partner', 'friend', 'family', 'love', 'breakup', 'argument', 'lonely', 'social', 'dating'],
+  // 8. Physical health keywords
+  7: ['sick', 'pain', 'tired', 'sleep', 'health', 'exercise', 'energy', 'fatigue', 'headache', 'doctor'],
+  // 9. Achievement keywords
+  8: ['success', 'achieve', 'win', 'goal', 'proud', 'accomplished', 'milestone', 'victory', 'progress', 'improvement'],
+  // 13. Uncertainty indicators
+  12: ['maybe', 'perhaps', 'unsure', 'confused', 'doubt', 'uncertain', 'unclear', 'wondering'],
+  // 14. Intensity modifiers
+  13: ['very', 'extremely', 'incredibly', 'really', 'totally', 'completely', 'absolutely', 'quite']
+};
+
+// Interface for a keyword that fired one of the keyword-count slots
+export interface MatchedKeyword {
+  keyword: string;
+  featureIndex: number;
+}
+
+// Inflections accepted after a keyword, so "exams" and "working" match but "workout" does not
+const KEYWORD_SUFFIXES = ['', 's', 'es', 'd', 'ed', 'ing'];
+
+/**
+ * Whether a token is the keyword or one of its simple inflections
+ */
+function matchesKeyword(token: string, keyword: string): boolean {
+  return token.startsWith(keyword) && KEYWORD_SUFFIXES.includes(token.slice(keyword.length));
+}
+
+/**
+ * Lists the keywords of a feature slot present in the tokens. Negated tokens never match,
+ * except that a negated positive word ("not happy") counts as a negative keyword.
+ */
+function findSlotKeywords(tokens: string[], featureIndex: number): string[] {
+  const plainTokens = tokens.filter(token => !isNegated(token));
+  const matched = FEATURE_KEYWORDS[featureIndex].filter(keyword => plainTokens.some(token => matchesKeyword(token, keyword)));
+
+  if (featureIndex === 3) {
+    const negatedPositives = tokens
+      .filter(isNegated)
+      .map(token => token.slice(NEGATION_PREFIX.length))
+      .flatMap(token => FEATURE_KEYWORDS[2].filter(keyword => matchesKeyword(token, keyword)))
+      .map(keyword => `not ${keyword}`);
+    return [...matched, ...new Set(negatedPositives)];
+  }
+
+  return matched;
+}
+
+/**
+ * Creates an enhanced feature vector with advanced sentiment and linguistic analysis
+ * @param {string} text - The mood note text
+ * @param {string} moodLevel - The selected mood level (1-5)
+ * @returns {number[]} Feature vector of length 15
+ */
+export function createFeatureVector(text = '', moodLevel = '3'): number[] {
+  const features = new Array(FEATURE_VECTOR_LENGTH).fill(0);
+  const tokens = tokenize(text);
+  const countKeywords = (featureIndex: number) => findSlotKeywords(tokens, featureIndex).length;
+  const words = text.toLowerCase().split(/\s+/).filter(word => word.length > 0);
+
+  // 1. Mood level as normalized feature (0-1)
+  features[0] = parseInt(moodLevel) / 5;
+
+  // 2. Text length normalized (sentence complexity indicator)
+  features[1] = Math.min(text.length / 200, 1);
+
+  // 3-9. Keyword-count slots (sentiment polarity, academic, work, relationship, health, achievement)
+  features[2] = Math.min(countKeywords(2) / 3, 1);
+  features[3] = Math.min(countKeywords(3) / 3, 1);
+  features[4] = Math.min(countKeywords(4) / 2, 1);
+  features[5] = Math.min(countKeywords(5) / 2, 1);
+  features[6] = Math.min(countKeywords(6) / 2, 1);
+  features[7] = Math.min(countKeywords(7) / 2, 1);
+  features[8] = Math.min(countKeywords(8) / 2, 1);
+
+  // 10. Sentence count (complexity indicator)
+  const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
+  features[9] = Math.min(sentences.length / 5, 1);
+
+  // 11. Average word length (linguistic complexity)
+  const avgWordLength = words.length > 0 ? words.reduce((sum, word) => sum + word.length, 0) / words.length : 0;
+  features[10] = Math.min(avgWordLength / 8, 1);
+
+  // 12. Unique word ratio (lexical diversity)
+  const uniqueWords = new Set(words);
+  features[11] = words.length > 0 ? uniqueWords.size / words.length : 0;
+
+  // 13. Uncertainty indicators
+  features[12] = Math.min(countKeywords(12) / 2, 1);
+
+  // 14. Intensity modifiers
+  features[13] = Math.min(countKeywords(13) / 2, 1);
+
+  // 15. Normalized stress level scaling (composite)
+  const stressIndicators = features[3] + features[4] + features[5] + features[12]; // negative + academic + work + uncertainty
+  features[14] = Math.min(stressIndicators / 4, 1);
+
+  return features;
+}
+
+/**
+ * Lists the keywords that fired the keyword-count slots, using the same matching rule as createFeatureVector.
+ * Negated positive words are reported as "not <keyword>" under the negative slot.
+ */
+export function findMatchedKeywords(text = ''): MatchedKeyword[] {
+  const tokens = tokenize(text);
+  const matches: MatchedKeyword[] = [];
+
+  Object.keys(FEATURE_KEYWORDS).forEach(index => {
+    findSlotKeywords(tokens, Number(index))
+      .forEach(keyword => matches.push({ keyword, featureIndex: Number(index) }));
+  });
+
+  return matches;
+}
@@ -0,0 +1,257 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { MoodHistoryFilters, MoodHistoryStats, MoodLogWithRecommendations } from '@/hooks/useMoodHistory';
+import { MOOD_NAMES } from '@/lib/moodNames';
+import { type RecommendationType, MOOD_LEVELS } from '@shared/moodDomain';
+
+// Server-side paging and statistics for the mood history. Pages are fetched with a keyset
+// cursor (the last entry of the previous page) so later pages cost the same as the first
+// and entries logged while scrolling do not shift the pages. Statistics come from the
+// get_mood_history_stats and get_mood_history_insights RPCs and cover every matching
+// entry, not just the loaded pages.
+
+export const MOOD_HISTORY_PAGE_SIZE = 20;
+
+// PostgREST caps a single response at 1000 rows
+const EXPORT_PAGE_SIZE = 1000;
+
+const MOOD_HISTORY_SELECT = `
+  id,
+  mood_level,
+  mood_name,
+  valence,
+  arousal,
+  note,
+  ai_sentiment,
+  ai_stress_level,
+  created_at,
+  source,
+  recommendations:recommendations!mood_log_id (
+    id,
+    title,
+    description,
+    content_url,
+    type,
+    recommendation_feedback (
+      helpful,
+      completed
+    )
+  )
+`;
+
+const DATE_RANGE_DAYS = {
+  week: 7,
+  month: 30,
+  '3months': 90
+} as const;
+
+export type MoodHistoryCursor = Pick<MoodLogWithRecommendations, 'id' | 'created_at' | 'mood_level'>;
+
+export interface MoodHistoryPage {
+  logs: MoodLogWithRecommendations[];
+  nextCursor: MoodHistoryCursor | null;
+}
+
+// Start of the selected date range, or null for all time
+function getSince(dateRange: MoodHistoryFilters['dateRange']): string | null {
+  if (dateRange === 'all') return null;
+  return new Date(Date.now() - DATE_RANGE_DAYS[dateRange] * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// Quoted for PostgREST's or() syntax; timestamps contain reserved characters
+const quote = (value: string) => `"${value}"`;
+
+/**
+ * Keyset condition for the rows after the cursor in the sort order. Mood sorts break ties
+ * newest first, like the time sorts break ties by id.
+ */
+function getCursorCondition(sortBy: MoodHistoryFilters['sortBy'], cursor: MoodHistoryCursor): string {
+  const createdAt = quote(cursor.created_at);
+
+  if (sortBy === 'newest' || sortBy === 'oldest') {
+    const op = sortBy === 'oldest' ? 'gt' : 'lt';
+    return `created_at.${op}.${createdAt},and(created_at.eq.${createdAt},id.${op}.${cursor.id})`;
+  }
+
+  const moodOp = sortBy === 'mood_asc' ? 'gt' : 'lt';
+  const level = quote(cursor.mood_level);
+  return [
+    `mood_level.${moodOp}.${level}`,
+    `and(mood_level.eq.${level},created_at.lt.${createdAt})`,
+    `and(mood_level.eq.${level},created_at.eq.${createdAt},id.lt.${cursor.id})`
+  ].join(',');
+}
+
+/**
+ * One page of the user's mood history in the filter's sort order, starting after the cursor.
+ * Returns null when the query fails.
+ */
+export async function fetchMoodHistoryPage(
+  userId: string,
+  filters: MoodHistoryFilters,
+  cursor: MoodHistoryCursor | null = null,
+  pageSize: number = MOOD_HISTORY_PAGE_SIZE
+): Promise<MoodHistoryPage | null> {
+  let query = supabase
+    .from('mood_logs')
+    .select(MOOD_HISTORY_SELECT)
+    .eq('user_id', userId);
+
+  const since = getSince(filters.dateRange);
+  if (since) {
+    query = query.gte('created_at', since);
+  }
+  if (filters.moodLevel !== 'all') {
+    query = query.eq('mood_level', filters.moodLevel);
+  }
+  if (filters.moodName !== 'all') {
+    query = query.eq('mood_name', filters.moodName);
+  }
+  if (filters.search.trim()) {
+    query = query.textSearch('search_vector', filters.search.trim(), { type: 'websearch', config: 'english' });
+  }
+  if (cursor) {
+    query = query.or(getCursorCondition(filters.sortBy, cursor));
+  }
+
+  if (filters.sortBy === 'mood_asc' || filters.sortBy === 'mood_desc') {
+    query = query
+      .order('mood_level', { ascending: filters.sortBy === 'mood_asc' })
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false });
+  } else {
+    const ascending = filters.sortBy === 'oldest';
+    query = query
+      .order('created_at', { ascending })
+      .order('id', { ascending });
+  }
+
+  // One extra row tells whether another page follows
+  const { data, error } = await query.limit(pageSize + 1);
+
+  if (error) {
+    console.error('❌ Error loading mood history page:', error);
+    return null;
+  }
+
+  const logs = (data || []).slice(0, pageSize) as MoodLogWithRecommendations[];
+  const last = logs[logs.length - 1];
+  return {
+    logs,
+    nextCursor: data && data.length > pageSize && last
+      ? { id: last.id, created_at: last.created_at, mood_level: last.mood_level }
+      : null
+  };
+}
+
+/**
+ * Every entry matching the filters, for exports and the clinician report
+ */
+export async function fetchAllMoodHistory(userId: string, filters: MoodHistoryFilters): Promise<MoodLogWithRecommendations[] | null> {
+  const logs: MoodLogWithRecommendations[] = [];
+  let cursor: MoodHistoryCursor | null = null;
+
+  do {
+    const page = await fetchMoodHistoryPage(userId, filters, cursor, EXPORT_PAGE_SIZE);
+    if (!page) return null;
+
+    logs.push(...page.logs);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return logs;
+}
+
+/**
+ * Entries logged in [from, to), oldest first, for the calendar's day view
+ */
+export async function fetchMoodHistoryBetween(userId: string, from: Date, to: Date): Promise<MoodLogWithRecommendations[] | null> {
+  const { data, error } = await supabase
+    .from('mood_logs')
+    .select(MOOD_HISTORY_SELECT)
+    .eq('user_id', userId)
+    .gte('created_at', from.toISOString())
+    .lt('created_at', to.toISOString())
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) {
+    console.error('❌ Error loading mood history for the day:', error);
+    return null;
+  }
+  return (data || []) as MoodLogWithRecommendations[];
+}
+
+interface MoodHistoryStatsRow {
+  total_entries: number;
+  average_mood: number;
+  average_stress: number;
+  mood_distribution: Record<string, number>;
+  mood_name_distribution: Record<string, number>;
+  daily_trend: Array<{ date: string; mood: number; stress: number | null }>;
+}
+
+interface MoodHistoryInsightsRow {
+  improvement_trend: MoodHistoryStats['improvementTrend'];
+  top_recommendation_type: RecommendationType | null;
+}
+
+export const EMPTY_MOOD_HISTORY_STATS: MoodHistoryStats = {
+  totalEntries: 0,
+  averageMood: 0,
+  averageStress: 0,
+  mostCommonMood: '3',
+  moodDistribution: {},
+  moodNameDistribution: Object.fromEntries(MOOD_NAMES.map(name => [name, 0])) as MoodHistoryStats['moodNameDistribution'],
+  weeklyTrend: [],
+  improvementTrend: 'stable',
+  topRecommendationType: null
+};
+
+/**
+ * Statistics over every entry matching the filters, with the daily trend bucketed in the
+ * time zone. Returns null when the RPC fails.
+ */
+export async function fetchMoodHistoryStats(filters: MoodHistoryFilters, timeZone: string): Promise<MoodHistoryStats | null> {
+  const filterArgs = {
+    p_since: getSince(filters.dateRange) ?? undefined,
+    p_mood_level: filters.moodLevel !== 'all' ? filters.moodLevel : undefined,
+    p_mood_name: filters.moodName !== 'all' ? filters.moodName : undefined,
+    p_search: filters.search.trim() || undefined
+  };
+  const [stats, insights] = await Promise.all([
+    supabase.rpc('get_mood_history_stats', { ...filterArgs, p_timezone: timeZone }),
+    supabase.rpc('get_mood_history_insights', filterArgs)
+  ]);
+
+  if (stats.error || !stats.data || insights.error || !insights.data) {
+    console.error('❌ Error loading mood history statistics:', stats.error ?? insights.error);
+    return null;
+  }
+
+  const row = stats.data as unknown as MoodHistoryStatsRow;
+  const insightsRow = insights.data as unknown as MoodHistoryInsightsRow;
+  if (row.total_entries === 0) return EMPTY_MOOD_HISTORY_STATS;
+
+  const moodDistribution: Record<string, number> = Object.fromEntries(
+    MOOD_LEVELS.map(level => [level, row.mood_distribution[level] ?? 0])
+  );
+  const moodNameDistribution = Object.fromEntries(
+    MOOD_NAMES.map(name => [name, row.mood_name_distribution[name] ?? 0])
+  ) as MoodHistoryStats['moodNameDistribution'];
+
+  return {
+    totalEntries: row.total_entries,
+    averageMood: row.average_mood,
+    averageStress: row.average_stress,
+    mostCommonMood: Object.entries(moodDistribution).reduce((a, b) => a[1] > b[1] ? a : b)[0],
+    moodDistribution,
+    moodNameDistribution,
+    weeklyTrend: row.daily_trend.map(day => ({
+      date: day.date,
+      mood: day.mood,
+      stress: day.stress ?? undefined
+    })),
+    improvementTrend: insightsRow.improvement_trend,
+    topRecommendationType: insightsRow.top_recommendation_type
+  };
+}
@@ -0,0 +1,370 @@
+import { isValid, parse } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { createRiskFlag, detectCrisisLanguage } from '@/lib/crisisDetection';
+import { type MoodName, getMoodDefinition } from '@/lib/moodNames';
+import { type MoodLevel, isMoodLevel } from '@shared/moodDomain';
+
+// Imports mood history exported from other trackers, or from our own JSON export, into
+// mood_logs. Files are parsed in the browser, mapped onto the 1-5 mood_level and checked
+// against the user's history before anything is written. Imported rows keep their
+// original timestamp and are marked with the tracker they came from. Their notes go
+// through crisis detection like a check-in's, so flagged notes reach a mentor.
+
+export type MoodLogSource = Database['public']['Enums']['mood_log_source'];
+export type ImportSource = Exclude<MoodLogSource, 'check_in'>;
+// Bearable's export does not say which mood scale was used, so the user picks it
+export type BearableMoodScale = 5 | 10;
+
+export const MOOD_LOG_SOURCE_LABELS: Record<MoodLogSource, string> = {
+  check_in: 'Check-in',
+  daylio: 'Daylio',
+  bearable: 'Bearable',
+  mindbloom_export: 'MindBloom export'
+};
+
+export interface ImportedMoodLog {
+  created_at: string;
+  mood_level: MoodLevel;
+  mood_name: MoodName | null;
+  valence: number | null;
+  arousal: number | null;
+  note: string | null;
+}
+
+export interface MoodImportPreview {
+  source: ImportSource;
+  entries: ImportedMoodLog[]; // New entries, oldest first
+  duplicates: number; // Already in the history or repeated in the file
+  skipped: Array<{ row: number; reason: string }>;
+}
+
+export interface MoodImportOptions {
+  bearableScale?: BearableMoodScale; // Defaults to the 1-10 scale of current Bearable versions
+}
+
+export interface MoodImportResult {
+  inserted: number;
+  flagged: number; // Imported notes with crisis language, raised to mentors
+}
+
+interface ParsedImport {
+  entries: ImportedMoodLog[];
+  skipped: MoodImportPreview['skipped'];
+}
+
+// Daylio's five default moods; renamed custom moods cannot be mapped
+const DAYLIO_MOOD_LEVELS: Record<string, MoodLevel> = {
+  rad: '5',
+  good: '4',
+  meh: '3',
+  bad: '2',
+  awful: '1'
+};
+
+// Bearable dates are UTC ISO timestamps, with or without milliseconds
+const BEARABLE_DATE_FORMATS = ["yyyy-MM-dd'T'HH:mm:ss.SSSX", "yyyy-MM-dd'T'HH:mm:ssX"];
+
+const PAGE_SIZE = 1000;
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * Splits CSV text into rows of fields, honouring quoted fields with commas, quotes and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+// Header name -> column index, lower-cased
+function readHeader(header: string[]): Record<string, number> {
+  return Object.fromEntries(header.map((name, index) => [name.trim().toLowerCase(), index]));
+}
+
+function toIsoTimestamp(date: Date): string | null {
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// Daylio times are local, either "21:30" or "9:30 PM"
+function parseDaylioTimestamp(fullDate: string, time: string): string | null {
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})\s*(am|pm)?$/i);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(fullDate.trim()) || !match) return null;
+
+  let hours = Number(match[1]) % (match[3] ? 12 : 24);
+  if (match[3]?.toLowerCase() === 'pm') hours += 12;
+  const [year, month, day] = fullDate.trim().split('-').map(Number);
+  return toIsoTimestamp(new Date(year, month - 1, day, hours, Number(match[2])));
+}
+
+function parseBearableTimestamp(value: string): string | null {
+  for (const dateFormat of BEARABLE_DATE_FORMATS) {
+    const date = parse(value.trim(), dateFormat, new Date());
+    if (isValid(date)) return date.toISOString();
+  }
+  return null;
+}
+
+const cleanNote = (value: string | undefined): string =>
+  (value ?? '').replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '').trim();
+
+function parseDaylioCsv(text: string): ParsedImport {
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = readHeader(header);
+  const result: ParsedImport = { entries: [], skipped: [] };
+
+  rows.forEach((fields, index) => {
+    const row = index + 2;
+    const mood = (fields[columns.mood] ?? '').trim();
+    const level = DAYLIO_MOOD_LEVELS[mood.toLowerCase()];
+    const createdAt = parseDaylioTimestamp(fields[columns.full_date] ?? '', fields[columns.time] ?? '');
+
+    if (!level) {
+      result.skipped.push({ row, reason: `Unknown mood "${mood}"` });
+      return;
+    }
+    if (!createdAt) {
+      result.skipped.push({ row, reason: 'Unreadable date or time' });
+      return;
+    }
+
+    const activities = (fields[columns.activities] ?? '').split('|').map(activity => activity.trim()).filter(Boolean);
+    const note = [
+      cleanNote(fields[columns.note_title]),
+      cleanNote(fields[columns.note]),
+      activities.length > 0 ? `Activities: ${activities.join(', ')}` : ''
+    ].filter(Boolean).join('\n');
+
+    result.entries.push({ created_at: createdAt, mood_level: level, mood_name: null, valence: null, arousal: null, note: note || null });
+  });
+
+  return result;
+}
+
+// Bearable exports one row per tracked factor; only the Mood rows are imported. Older
+// versions rate mood 1-5, newer ones 1-10, which is halved onto our scale.
+function parseBearableCsv(text: string, scale: BearableMoodScale): ParsedImport {
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = readHeader(header);
+  const ratingColumn = columns['rating/amount'] ?? columns.rating;
+  const result: ParsedImport = { entries: [], skipped: [] };
+
+  const moodRows = rows
+    .map((fields, index) => ({ fields, row: index + 2 }))
+    .filter(({ fields }) => (fields[columns.category] ?? '').trim().toLowerCase() === 'mood');
+
+  moodRows.forEach(({ fields, row }) => {
+    const rating = Number(fields[ratingColumn]);
+    const createdAt = parseBearableTimestamp(fields[columns.date] ?? '');
+
+    if (!Number.isFinite(rating) || rating < 1 || rating > scale) {
+      result.skipped.push({ row, reason: `Unknown mood rating "${fields[ratingColumn] ?? ''}"` });
+      return;
+    }
+    if (!createdAt) {
+      result.skipped.push({ row, reason: 'Unreadable date' });
+      return;
+    }
+
+    const level = String(scale === 10 ? Math.ceil(rating / 2) : Math.round(rating)) as MoodLevel;
+    const note = cleanNote(fields[columns.notes]);
+    result.entries.push({ created_at: createdAt, mood_level: level, mood_name: null, valence: null, arousal: null, note: note || null });
+  });
+
+  return result;
+}
+
+// Our own export keeps the named mood; names that do not match the level are dropped
+// rather than violating mood_logs_mood_name_level_check.
+function parseMindBloomJson(text: string): ParsedImport {
+  const result: ParsedImport = { entries: [], skipped: [] };
+  let entries: unknown;
+  try {
+    entries = JSON.parse(text)?.entries;
+  } catch {
+    entries = null;
+  }
+
+  if (!Array.isArray(entries)) {
+    result.skipped.push({ row: 0, reason: 'Not a MindBloom Station export' });
+    return result;
+  }
+
+  entries.forEach((entry, index) => {
+    const row = index + 1;
+    const createdAt = toIsoTimestamp(new Date(entry?.created_at));
+
+    if (!isMoodLevel(entry?.mood_level)) {
+      result.skipped.push({ row, reason: `Unknown mood level "${entry?.mood_level}"` });
+      return;
+    }
+    if (!createdAt) {
+      result.skipped.push({ row, reason: 'Unreadable date' });
+      return;
+    }
+
+    const named = getMoodDefinition(entry.mood_name);
+    const keepName = named?.level === entry.mood_level;
+    result.entries.push({
+      created_at: createdAt,
+      mood_level: entry.mood_level,
+      mood_name: keepName ? named.name : null,
+      valence: keepName ? named.valence : null,
+      arousal: keepName ? named.arousal : null,
+      note: typeof entry.note === 'string' && entry.note.trim() ? entry.note : null
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Recognises the tracker a file was exported from by its contents
+ */
+export function detectImportSource(text: string): ImportSource | null {
+  const trimmed = text.replace(/^\uFEFF/, '').trimStart();
+  if (trimmed.startsWith('{')) return 'mindbloom_export';
+
+  const columns = readHeader(parseCsv(trimmed.split(/\r?\n/, 1)[0])[0] ?? []);
+  if ('full_date' in columns && 'mood' in columns) return 'daylio';
+  if ('category' in columns && ('rating/amount' in columns || 'rating' in columns)) return 'bearable';
+  return null;
+}
+
+// Timestamps are compared to the minute, the precision the other trackers export
+const getTimestampKey = (timestamp: string): string => new Date(timestamp).toISOString().slice(0, 16);
+
+async function loadExistingTimestampKeys(userId: string, from: string, to: string): Promise<Set<string> | null> {
+  const keys = new Set<string>();
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('mood_logs')
+      .select('created_at')
+      .eq('user_id', userId)
+      .gte('created_at', from)
+      .lte('created_at', to)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('❌ Error loading existing mood logs for import:', error);
+      return null;
+    }
+
+    (data || []).forEach(row => keys.add(getTimestampKey(row.created_at)));
+    if (!data || data.length < PAGE_SIZE) return keys;
+  }
+}
+
+/**
+ * Parses an export file and drops entries the user's history already has. Returns null
+ * when the file is not recognised or the history could not be checked.
+ */
+export async function previewMoodImport(
+  userId: string,
+  text: string,
+  { bearableScale = 10 }: MoodImportOptions = {}
+): Promise<MoodImportPreview | null> {
+  const source = detectImportSource(text);
+  if (!source) return null;
+
+  const content = text.replace(/^\uFEFF/, '');
+  const parsed = source === 'daylio'
+    ? parseDaylioCsv(content)
+    : source === 'bearable'
+      ? parseBearableCsv(content, bearableScale)
+      : parseMindBloomJson(content);
+
+  const sorted = [...parsed.entries].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  if (sorted.length === 0) {
+    return { source, entries: [], duplicates: 0, skipped: parsed.skipped };
+  }
+
+  const lastMinuteEnd = new Date(new Date(sorted[sorted.length - 1].created_at).getTime() + 60_000).toISOString();
+  const seen = await loadExistingTimestampKeys(userId, `${getTimestampKey(sorted[0].created_at)}:00.000Z`, lastMinuteEnd);
+  if (!seen) return null;
+
+  const entries = sorted.filter(entry => {
+    const key = getTimestampKey(entry.created_at);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return { source, entries, duplicates: sorted.length - entries.length, skipped: parsed.skipped };
+}
+
+// Raises a risk flag for each saved note with crisis language and returns how many were raised
+async function flagImportedNotes(userId: string, rows: Array<{ id: string; note: string | null }>): Promise<number> {
+  let flagged = 0;
+
+  for (const { id, note } of rows) {
+    if (!note) continue;
+
+    const assessment = detectCrisisLanguage(note);
+    if (assessment.flagged && await createRiskFlag(userId, 'mood_log', id, note, assessment)) {
+      flagged++;
+    }
+  }
+
+  return flagged;
+}
+
+/**
+ * Inserts previewed entries in batches and returns how many were saved and how many of
+ * their notes were flagged for crisis language. Imported notes are not otherwise analysed
+ * here; an analysis backfill run scores them.
+ */
+export async function importMoodLogs(userId: string, source: ImportSource, entries: ImportedMoodLog[]): Promise<MoodImportResult> {
+  const result: MoodImportResult = { inserted: 0, flagged: 0 };
+
+  for (let start = 0; start < entries.length; start += INSERT_BATCH_SIZE) {
+    const batch = entries.slice(start, start + INSERT_BATCH_SIZE).map(entry => ({ ...entry, user_id: userId, source }));
+    const { data, error } = await supabase.from('mood_logs').insert(batch).select('id, note');
+
+    if (error) {
+      console.error('❌ Error importing mood logs:', error);
+      return result;
+    }
+    result.inserted += batch.length;
+    result.flagged += await flagImportedNotes(userId, data ?? []);
+  }
+
+  return result;
+}
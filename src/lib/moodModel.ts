@@ -1,34 +1,43 @@
-import * as tf from '@tensorflow/tfjs';
-
-// Cache for the trained model to avoid retraining
-let trainedModel: tf.Sequential | null = null;
-
-// Model storage keys for localStorage
-const MODEL_STORAGE_KEY = 'localstorage://enhanced-mood-model';
+import type { MemoryInfo } from '@tensorflow/tfjs';
+import { ENHANCED_TRAINING_DATA } from './moodTrainingData';
+import { ABSTAIN_THRESHOLD_SETTING, loadAppSetting, saveAppSetting } from './appSettings';
+import {
+  type ModelRegistrySnapshot,
+  type MoodModelRequest,
+  type MoodModelRequestType,
+  type MoodModelResponse,
+  type MoodModelResultMap,
+  type PersonalizationStatus,
+  type PredictionExplanation,
+  type PredictionResult,
+  type StoredModelMetrics,
+  type TrainResult,
+  type TrainingProgress,
+  type WorkerRuntimeStatus
+} from './moodModelProtocol';
+
+export type {
+  EmotionScore,
+  FeatureAttribution,
+  ModelRegistryEntry,
+  ModelRegistrySnapshot,
+  PersonalizationStatus,
+  PredictionExplanation,
+  PredictionResult,
+  TrainingProgress
+} from './moodModelProtocol';
+
+// Main-thread client for the mood model. TensorFlow.js lives entirely in
+// moodModel.worker.ts; every function here proxies to that worker so training
+// and inference never block the check-in UI.
+
+// Mirror of the active registry version for synchronous readers (the registry itself lives in the worker's IndexedDB)
 const MODEL_VERSION_KEY = 'enhanced-mood-model-version';
 const MODEL_METRICS_KEY = 'enhanced-mood-model-metrics';
-const CURRENT_MODEL_VERSION = '4.0'; // Enhanced architecture, expanded dataset, and advanced feature engineering
-
-// Interface for stored model metrics
-interface StoredModelMetrics {
-  trainingAccuracy: number;
-  validationAccuracy: number;
-  testAccuracy?: number;
-  trainingLoss: number;
-  trainingDataSize: number;
-  augmentedDataSize: number;
-  modelParams: number;
-  lastTrainingDate: string;
-}
 
-// Interface for prediction results
-export interface PredictionResult {
-  sentiment: string;
-  confidence: number;
-  stressLevel: number;
-  modelAccuracy?: number;
-  sentimentPolarity?: number;
-}
+// Predictions whose calibrated confidence falls below this are shown as "uncertain"; admins
+// change it for everyone through the mood_model_abstain_threshold app setting
+export const DEFAULT_ABSTAIN_THRESHOLD = 0.6;
 
 // Interface for model status
 interface ModelStatus {
@@ -36,662 +45,213 @@ interface ModelStatus {
   isModelPersisted: boolean;
   modelVersion: string | null;
   backend: string;
-  memoryInfo: tf.MemoryInfo;
+  memoryInfo: MemoryInfo;
   modelParams?: number;
   trainingDataSize: number;
   augmentedDataSize?: number;
   lastTrainingAccuracy?: number;
   lastValidationAccuracy?: number;
+  personalExampleCount: number; // Corrections behind the personal head used for the last personalised prediction
 }
 
-// Interface for training data entry
-interface TrainingDataEntry {
-  text: string;
-  mood: string;
-  label: number;
-  category?: 'academic' | 'work' | 'relationship' | 'physical' | 'achievement' | 'general';
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: TrainingProgress) => void;
 }
 
-// Interface for recommendation mapping
-export interface RecommendationMapping {
-  stressLevel: number;
-  recommendation: {
-    title: string;
-    description: string;
-    type: 'breathing' | 'mindfulness' | 'activity' | 'video' | 'article';
-    content_url?: string;
-  };
-}
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, PendingRequest>();
 
-// Comprehensive training dataset with 100+ realistic labeled examples across various categories
-const ENHANCED_TRAINING_DATA: TrainingDataEntry[] = [
-  // Academic Pressure Examples (label: 1 for stress)
-  { text: "final exams are next week and I'm not ready", mood: "2", label: 1, category: 'academic' },
-  { text: "dissertation deadline approaching, feeling overwhelmed", mood: "1", label: 1, category: 'academic' },
-  { text: "failed my midterm exam, worried about grades", mood: "2", label: 1, category: 'academic' },
-  { text: "studying 12 hours a day, burnout setting in", mood: "1", label: 1, category: 'academic' },
-  { text: "professor rejected my thesis proposal again", mood: "2", label: 1, category: 'academic' },
-  { text: "group project members not contributing, stressed", mood: "2", label: 1, category: 'academic' },
-  { text: "scholarship renewal depends on maintaining GPA", mood: "2", label: 1, category: 'academic' },
-  { text: "struggling with organic chemistry concepts", mood: "3", label: 1, category: 'academic' },
-  { text: "lab report due tomorrow, haven't started", mood: "2", label: 1, category: 'academic' },
-  { text: "graduate school applications overwhelming", mood: "2", label: 1, category: 'academic' },
-  { text: "imposter syndrome in advanced mathematics class", mood: "2", label: 1, category: 'academic' },
-  { text: "academic advisor unavailable when needed most", mood: "3", label: 1, category: 'academic' },
-  { text: "presentation anxiety for tomorrow's conference", mood: "2", label: 1, category: 'academic' },
-  { text: "research experiment failed for third time", mood: "2", label: 1, category: 'academic' },
-  
-  // Academic Success Examples (label: 0 for positive)
-  { text: "aced my calculus exam, feeling brilliant", mood: "5", label: 0, category: 'academic' },
-  { text: "professor praised my research methodology", mood: "4", label: 0, category: 'academic' },
-  { text: "published my first academic paper today", mood: "5", label: 0, category: 'academic' },
-  { text: "awarded scholarship for academic excellence", mood: "5", label: 0, category: 'academic' },
-  { text: "finally understood quantum physics concepts", mood: "4", label: 0, category: 'academic' },
-  { text: "graduated summa cum laude, parents proud", mood: "5", label: 0, category: 'academic' },
-  { text: "accepted into PhD program at top university", mood: "5", label: 0, category: 'academic' },
-  { text: "successful thesis defense yesterday", mood: "4", label: 0, category: 'academic' },
-  
-  // Work Stress Examples (label: 1 for stress)
-  { text: "toxic work environment affecting mental health", mood: "1", label: 1, category: 'work' },
-  { text: "layoffs announced, job security uncertain", mood: "2", label: 1, category: 'work' },
-  { text: "working 80-hour weeks, no work-life balance", mood: "1", label: 1, category: 'work' },
-  { text: "micromanaging boss making me miserable", mood: "2", label: 1, category: 'work' },
-  { text: "deadline impossible to meet with current resources", mood: "2", label: 1, category: 'work' },
-  { text: "performance review went poorly today", mood: "2", label: 1, category: 'work' },
-  { text: "salary not enough to cover living expenses", mood: "2", label: 1, category: 'work' },
-  { text: "remote work isolation affecting productivity", mood: "3", label: 1, category: 'work' },
-  { text: "coworker taking credit for my ideas", mood: "2", label: 1, category: 'work' },
-  { text: "burnout from constant client demands", mood: "1", label: 1, category: 'work' },
-  { text: "job market competitive, struggling to find work", mood: "2", label: 1, category: 'work' },
-  { text: "imposter syndrome in new leadership role", mood: "2", label: 1, category: 'work' },
-  
-  // Work Success Examples (label: 0 for positive)
-  { text: "promoted to senior manager position today", mood: "5", label: 0, category: 'work' },
-  { text: "successfully launched new product line", mood: "4", label: 0, category: 'work' },
-  { text: "received outstanding performance bonus", mood: "4", label: 0, category: 'work' },
-  { text: "team collaboration exceeded all expectations", mood: "4", label: 0, category: 'work' },
-  { text: "client praised our innovative solution", mood: "4", label: 0, category: 'work' },
-  { text: "work-life balance finally achieved", mood: "4", label: 0, category: 'work' },
-  { text: "landed dream job at tech startup", mood: "5", label: 0, category: 'work' },
-  
-  // Relationship Issues Examples (label: 1 for stress)
-  { text: "relationship ending after five years together", mood: "1", label: 1, category: 'relationship' },
-  { text: "constant arguments with partner lately", mood: "2", label: 1, category: 'relationship' },
-  { text: "feeling lonely and disconnected from friends", mood: "2", label: 1, category: 'relationship' },
-  { text: "family drama causing emotional exhaustion", mood: "2", label: 1, category: 'relationship' },
-  { text: "betrayal by close friend hurt deeply", mood: "1", label: 1, category: 'relationship' },
-  { text: "social anxiety preventing meaningful connections", mood: "2", label: 1, category: 'relationship' },
-  { text: "long-distance relationship strain increasing", mood: "2", label: 1, category: 'relationship' },
-  { text: "difficult conversation with parents needed", mood: "3", label: 1, category: 'relationship' },
-  { text: "feeling misunderstood by everyone around me", mood: "2", label: 1, category: 'relationship' },
-  { text: "dating apps exhausting, losing hope", mood: "2", label: 1, category: 'relationship' },
-  
-  // Relationship Success Examples (label: 0 for positive)
-  { text: "anniversary dinner was absolutely perfect", mood: "5", label: 0, category: 'relationship' },
-  { text: "deep conversation strengthened our bond", mood: "4", label: 0, category: 'relationship' },
-  { text: "reconciled with estranged family member", mood: "4", label: 0, category: 'relationship' },
-  { text: "surprise visit from childhood best friend", mood: "5", label: 0, category: 'relationship' },
-  { text: "supportive partner helped through crisis", mood: "4", label: 0, category: 'relationship' },
-  { text: "wedding planning bringing us closer together", mood: "4", label: 0, category: 'relationship' },
-  { text: "made genuine connections at social event", mood: "4", label: 0, category: 'relationship' },
-  
-  // Physical Health Examples (label: 1 for stress)
-  { text: "chronic pain flaring up again today", mood: "2", label: 1, category: 'physical' },
-  { text: "insomnia affecting work and relationships", mood: "2", label: 1, category: 'physical' },
-  { text: "medical test results causing anxiety", mood: "2", label: 1, category: 'physical' },
-  { text: "exhausted from lack of sleep lately", mood: "2", label: 1, category: 'physical' },
-  { text: "injury preventing favorite physical activities", mood: "3", label: 1, category: 'physical' },
-  { text: "medication side effects troublesome", mood: "3", label: 1, category: 'physical' },
-  { text: "seasonal allergies making life miserable", mood: "3", label: 1, category: 'physical' },
-  { text: "stress eating and weight gain concerns", mood: "2", label: 1, category: 'physical' },
-  
-  // Physical Health Success Examples (label: 0 for positive)
-  { text: "morning run energized me for entire day", mood: "4", label: 0, category: 'physical' },
-  { text: "clean bill of health from annual checkup", mood: "4", label: 0, category: 'physical' },
-  { text: "yoga practice bringing inner peace", mood: "4", label: 0, category: 'physical' },
-  { text: "recovery from surgery going exceptionally well", mood: "4", label: 0, category: 'physical' },
-  { text: "healthy meal prep routine established", mood: "4", label: 0, category: 'physical' },
-  { text: "personal fitness goals achieved today", mood: "4", label: 0, category: 'physical' },
-  { text: "eight hours of quality sleep restored energy", mood: "4", label: 0, category: 'physical' },
-  
-  // Achievement Examples (label: 0 for positive)
-  { text: "marathon training culminated in personal best", mood: "5", label: 0, category: 'achievement' },
-  { text: "artistic project featured in gallery exhibition", mood: "5", label: 0, category: 'achievement' },
-  { text: "volunteer work positively impacted community", mood: "4", label: 0, category: 'achievement' },
-  { text: "language fluency milestone reached today", mood: "4", label: 0, category: 'achievement' },
-  { text: "entrepreneurial venture showing profit", mood: "5", label: 0, category: 'achievement' },
-  { text: "musical performance received standing ovation", mood: "5", label: 0, category: 'achievement' },
-  { text: "book manuscript completed after years", mood: "5", label: 0, category: 'achievement' },
-  { text: "mentoring junior colleague brings satisfaction", mood: "4", label: 0, category: 'achievement' },
-  { text: "personal growth journey showing progress", mood: "4", label: 0, category: 'achievement' },
-  
-  // General Positive Examples (label: 0 for positive)
-  { text: "feeling grateful for simple pleasures today", mood: "4", label: 0, category: 'general' },
-  { text: "beautiful sunset restored my perspective", mood: "4", label: 0, category: 'general' },
-  { text: "random act of kindness brightened day", mood: "4", label: 0, category: 'general' },
-  { text: "cozy evening reading favorite book", mood: "4", label: 0, category: 'general' },
-  { text: "inspiring documentary motivated positive change", mood: "4", label: 0, category: 'general' },
-  { text: "peaceful morning meditation session", mood: "4", label: 0, category: 'general' },
-  { text: "laughter therapy working its magic", mood: "4", label: 0, category: 'general' },
-  { text: "optimistic about future possibilities", mood: "4", label: 0, category: 'general' },
-  
-  // General Neutral/Mixed Examples
-  { text: "ordinary day with typical ups and downs", mood: "3", label: 0, category: 'general' },
-  { text: "feeling contemplative about life choices", mood: "3", label: 1, category: 'general' },
-  { text: "weather changes affecting mood slightly", mood: "3", label: 1, category: 'general' },
-  { text: "routine day but productive overall", mood: "3", label: 0, category: 'general' },
-  { text: "minor inconveniences but manageable", mood: "3", label: 0, category: 'general' },
-  { text: "uncertain about weekend plans", mood: "3", label: 1, category: 'general' },
-  
-  // Original examples for compatibility
-  { text: "feeling happy and relaxed today", mood: "5", label: 0, category: 'general' },
-  { text: "motivated and energetic for the day ahead", mood: "4", label: 0, category: 'general' },
-  { text: "overwhelmed with deadlines and pressure", mood: "2", label: 1, category: 'work' },
-  { text: "stressed about exams and final grades", mood: "2", label: 1, category: 'academic' }
-];
-
-// Data augmentation synonyms for text perturbation
-const AUGMENTATION_SYNONYMS: Record<string, string[]> = {
-  'stressed': ['overwhelmed', 'pressured', 'anxious', 'tense'],
-  'happy': ['joyful', 'cheerful', 'content', 'pleased'],
-  'sad': ['depressed', 'downcast', 'melancholy', 'dejected'],
-  'worried': ['concerned', 'anxious', 'troubled', 'uneasy'],
-  'excited': ['thrilled', 'enthusiastic', 'eager', 'animated'],
-  'tired': ['exhausted', 'fatigued', 'weary', 'drained'],
-  'angry': ['furious', 'irritated', 'frustrated', 'annoyed'],
-  'good': ['great', 'excellent', 'wonderful', 'fantastic'],
-  'bad': ['terrible', 'awful', 'horrible', 'dreadful'],
-  'exam': ['test', 'assessment', 'evaluation', 'quiz'],
-  'work': ['job', 'employment', 'occupation', 'career'],
-  'deadline': ['due date', 'time limit', 'cutoff', 'target date']
+// Last runtime snapshot reported by the worker, so getModelStatus() can stay synchronous
+let runtimeStatus: WorkerRuntimeStatus = {
+  isModelCached: false,
+  activeVersionId: null,
+  backend: 'pending',
+  memoryInfo: { numTensors: 0, numDataBuffers: 0, numBytes: 0, reasons: [] }
 };
 
 /**
- * Applies data augmentation to training dataset using synonym replacement
- * @param {TrainingDataEntry[]} dataset - Original dataset
- * @returns {TrainingDataEntry[]} Augmented dataset
+ * Handles a message coming back from the inference worker
  */
-function augmentData(dataset: TrainingDataEntry[]): TrainingDataEntry[] {
-  const augmented: TrainingDataEntry[] = [...dataset];
-  
-  // Generate augmented examples for each original example
-  dataset.forEach(entry => {
-    let augmentedText = entry.text;
-    let hasChanges = false;
-    
-    // Apply synonym replacement (30% chance per word)
-    Object.entries(AUGMENTATION_SYNONYMS).forEach(([word, synonyms]) => {
-      if (augmentedText.includes(word) && Math.random() > 0.7) {
-        const randomSynonym = synonyms[Math.floor(Math.random() * synonyms.length)];
-        augmentedText = augmentedText.replace(word, randomSynonym);
-        hasChanges = true;
-      }
-    });
-    
-    // Add slight text perturbations
-    if (Math.random() > 0.6) {
-      augmentedText = augmentedText.replace(/[.,!]/g, '');
-      hasChanges = true;
-    }
-    
-    if (Math.random() > 0.8) {
-      const intensifiers = ['really', 'very', 'extremely', 'quite'];
-      const randomIntensifier = intensifiers[Math.floor(Math.random() * intensifiers.length)];
-      augmentedText = `${randomIntensifier} ${augmentedText}`;
-      hasChanges = true;
-    }
-    
-    if (hasChanges) {
-      augmented.push({
-        ...entry,
-        text: augmentedText
-      });
-    }
-  });
-  
-  if (process.env.NODE_ENV === 'development') {
-    console.log(`🔄 Data augmentation: ${dataset.length} → ${augmented.length} examples`);
-  }
-  return augmented;
-}
+function handleWorkerMessage(response: MoodModelResponse): void {
+  const pending = pendingRequests.get(response.id);
 
-/**
- * Creates an enhanced deep sequential TensorFlow.js model for mood analysis
- * @returns {tf.Sequential} The compiled model with advanced architecture (64→32→16→8→1)
- */
-export function createMoodModel(): tf.Sequential {
-  const model = tf.sequential({
-    layers: [
-      // Input layer - accepts enhanced feature vectors of length 15
-      tf.layers.dense({
-        inputShape: [15], // Expanded feature vector
-        units: 64, // Deeper architecture start
-        activation: 'relu',
-        kernelInitializer: 'glorotNormal',
-        name: 'input_layer'
-      }),
-      // Batch normalization for training stability
-      tf.layers.batchNormalization({
-        name: 'batch_norm_1'
-      }),
-      // Dropout for regularization
-      tf.layers.dropout({
-        rate: 0.4,
-        name: 'dropout_1'
-      }),
-      // Hidden layer 1
-      tf.layers.dense({
-        units: 32,
-        activation: 'relu',
-        kernelInitializer: 'glorotNormal',
-        name: 'hidden_layer_1'
-      }),
-      // Batch normalization
-      tf.layers.batchNormalization({
-        name: 'batch_norm_2'
-      }),
-      // Dropout
-      tf.layers.dropout({
-        rate: 0.3,
-        name: 'dropout_2'
-      }),
-      // Hidden layer 2  
-      tf.layers.dense({
-        units: 16,
-        activation: 'relu',
-        kernelInitializer: 'glorotNormal',
-        name: 'hidden_layer_2'
-      }),
-      // Hidden layer 3
-      tf.layers.dense({
-        units: 8,
-        activation: 'relu',
-        kernelInitializer: 'glorotNormal',
-        name: 'hidden_layer_3'
-      }),
-      // Final dropout
-      tf.layers.dropout({
-        rate: 0.2,
-        name: 'dropout_3'
-      }),
-      // Output layer - binary classification (positive/stress)
-      tf.layers.dense({
-        units: 1,
-        activation: 'sigmoid',
-        kernelInitializer: 'glorotNormal',
-        name: 'output_layer'
-      })
-    ]
-  });
-
-  // Compile the model with advanced optimizer settings
-  model.compile({
-    optimizer: tf.train.adam(0.0005), // Slightly lower learning rate for stability
-    loss: 'binaryCrossentropy',
-    metrics: ['accuracy']
-  });
+  if (response.kind === 'progress') {
+    pending?.onProgress?.(response.progress);
+    return;
+  }
 
-  console.log('🏗️ Enhanced deep model architecture created (64→32→16→8→1)');
-  console.log(`📊 Model summary: ${model.countParams()} parameters`);
+  runtimeStatus = response.status;
+  if (!pending) return;
+  pendingRequests.delete(response.id);
 
-  return model;
+  if (response.kind === 'error') {
+    pending.reject(new Error(response.message));
+  } else {
+    pending.resolve(response.result);
+  }
 }
 
 /**
- * Creates an enhanced feature vector with advanced sentiment and linguistic analysis
- * @param {string} text - The mood note text
- * @param {string} moodLevel - The selected mood level (1-5)
- * @returns {number[]} Feature vector of length 15
+ * Lazily spawns the inference worker
  */
-function createFeatureVector(text = '', moodLevel = '3'): number[] {
-  const features = new Array(15).fill(0);
-  const lowerText = text.toLowerCase();
-  const words = lowerText.split(/\s+/).filter(word => word.length > 0);
-  
-  // 1. Mood level as normalized feature (0-1)
-  features[0] = parseInt(moodLevel) / 5;
-  
-  // 2. Text length normalized (sentence complexity indicator)
-  features[1] = Math.min(text.length / 200, 1);
-  
-  // 3. Sentiment polarity scores - Positive keywords
-  const positiveWords = [
-    'happy', 'good', 'great', 'awesome', 'wonderful', 'excellent', 'fantastic', 'amazing', 
-    'love', 'joy', 'excited', 'grateful', 'blessed', 'peaceful', 'calm', 'relaxed', 
-    'confident', 'optimistic', 'satisfied', 'proud', 'accomplished', 'motivated', 
-    'energetic', 'creative', 'inspired', 'successful', 'achieving', 'thriving'
-  ];
-  const positiveCount = positiveWords.filter(word => lowerText.includes(word)).length;
-  features[2] = Math.min(positiveCount / 3, 1);
-  
-  // 4. Sentiment polarity scores - Negative keywords
-  const negativeWords = [
-    'sad', 'bad', 'terrible', 'awful', 'horrible', 'hate', 'angry', 'mad', 'frustrated', 
-    'depressed', 'anxious', 'worried', 'stressed', 'overwhelmed', 'tired', 'exhausted',
-    'hopeless', 'helpless', 'desperate', 'crying', 'miserable', 'devastated', 'broken'
-  ];
-  const negativeCount = negativeWords.filter(word => lowerText.includes(word)).length;
-  features[3] = Math.min(negativeCount / 3, 1);
-  
-  // 5. Academic pressure keywords
-  const academicWords = ['exam', 'test', 'study', 'grade', 'assignment', 'thesis', 'dissertation', 'professor', 'scholarship', 'graduation'];
-  const academicCount = academicWords.filter(word => lowerText.includes(word)).length;
-  features[4] = Math.min(academicCount / 2, 1);
-  
-  // 6. Work stress keywords
-  const workWords = ['work', 'job', 'boss', 'deadline', 'meeting', 'project', 'performance', 'salary', 'career', 'interview'];
-  const workCount = workWords.filter(word => lowerText.includes(word)).length;
-  features[5] = Math.min(workCount / 2, 1);
-  
-  // 7. Relationship keywords
-  const relationshipWords = ['relationship', 'partner', 'friend', 'family', 'love', 'breakup', 'argument', 'lonely', 'social', 'dating'];
-  const relationshipCount = relationshipWords.filter(word => lowerText.includes(word)).length;
-  features[6] = Math.min(relationshipCount / 2, 1);
-  
-  // 8. Physical health keywords
-  const healthWords = ['sick', 'pain', 'tired', 'sleep', 'health', 'exercise', 'energy', 'fatigue', 'headache', 'doctor'];
-  const healthCount = healthWords.filter(word => lowerText.includes(word)).length;
-  features[7] = Math.min(healthCount / 2, 1);
-  
-  // 9. Achievement keywords
-  const achievementWords = ['success', 'achieve', 'win', 'goal', 'proud', 'accomplished', 'milestone', 'victory', 'progress', 'improvement'];
-  const achievementCount = achievementWords.filter(word => lowerText.includes(word)).length;
-  features[8] = Math.min(achievementCount / 2, 1);
-  
-  // 10. Sentence count (complexity indicator)
-  const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-  features[9] = Math.min(sentences.length / 5, 1);
-  
-  // 11. Average word length (linguistic complexity)
-  const avgWordLength = words.length > 0 ? words.reduce((sum, word) => sum + word.length, 0) / words.length : 0;
-  features[10] = Math.min(avgWordLength / 8, 1);
-  
-  // 12. Unique word ratio (lexical diversity)
-  const uniqueWords = new Set(words);
-  features[11] = words.length > 0 ? uniqueWords.size / words.length : 0;
-  
-  // 13. Uncertainty indicators
-  const uncertaintyWords = ['maybe', 'perhaps', 'unsure', 'confused', 'doubt', 'uncertain', 'unclear', 'wondering'];
-  const uncertaintyCount = uncertaintyWords.filter(word => lowerText.includes(word)).length;
-  features[12] = Math.min(uncertaintyCount / 2, 1);
-  
-  // 14. Intensity modifiers
-  const intensityWords = ['very', 'extremely', 'incredibly', 'really', 'totally', 'completely', 'absolutely', 'quite'];
-  const intensityCount = intensityWords.filter(word => lowerText.includes(word)).length;
-  features[13] = Math.min(intensityCount / 2, 1);
-  
-  // 15. Normalized stress level scaling (composite)
-  const stressIndicators = features[3] + features[4] + features[5] + features[12]; // negative + academic + work + uncertainty
-  features[14] = Math.min(stressIndicators / 4, 1);
-  
-  return features;
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./moodModel.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<MoodModelResponse>) => handleWorkerMessage(event.data);
+    worker.onerror = (event: ErrorEvent) => {
+      console.error('❌ Mood model worker crashed:', event.message);
+      const error = new Error(event.message || 'Mood model worker crashed');
+      pendingRequests.forEach(pending => pending.reject(error));
+      pendingRequests.clear();
+      worker?.terminate();
+      worker = null;
+      runtimeStatus = { ...runtimeStatus, isModelCached: false };
+    };
+  }
+  return worker;
 }
 
 /**
- * Attempts to load a pre-trained model from localStorage with version compatibility
+ * Sends a typed request to the worker and resolves with its result
  */
-async function loadPersistedModel(): Promise<tf.Sequential | null> {
-  try {
-    const storedVersion = localStorage.getItem(MODEL_VERSION_KEY);
-    if (storedVersion !== CURRENT_MODEL_VERSION) {
-      console.log(`🔄 Model version mismatch (stored: ${storedVersion}, current: ${CURRENT_MODEL_VERSION}). Will retrain.`);
-      return null;
-    }
-
-    console.log('🔍 Loading enhanced model from localStorage...');
-    const model = await tf.loadLayersModel(MODEL_STORAGE_KEY) as tf.Sequential;
-    console.log('✅ Enhanced model loaded successfully from localStorage');
-    return model;
-  } catch (error) {
-    console.log('⚠️ No persisted model found or loading failed:', error.message);
-    return null;
-  }
+function sendRequest<T extends MoodModelRequestType>(
+  request: Omit<Extract<MoodModelRequest, { type: T }>, 'id'>,
+  onProgress?: (progress: TrainingProgress) => void
+): Promise<MoodModelResultMap[T]> {
+  const id = nextRequestId++;
+  return new Promise<MoodModelResultMap[T]>((resolve, reject) => {
+    pendingRequests.set(id, { resolve: resolve as (result: unknown) => void, reject, onProgress });
+    getWorker().postMessage({ ...request, id });
+  });
 }
 
 /**
- * Saves the trained model to localStorage
+ * Reads the training metrics recorded by the last successful training run
  */
-async function persistModel(model: tf.Sequential): Promise<void> {
+function loadStoredMetrics(): StoredModelMetrics | null {
   try {
-    console.log('💾 Saving enhanced model to localStorage...');
-    await model.save(MODEL_STORAGE_KEY);
-    localStorage.setItem(MODEL_VERSION_KEY, CURRENT_MODEL_VERSION);
-    console.log('✅ Enhanced model saved successfully to localStorage');
+    const metricsData = localStorage.getItem(MODEL_METRICS_KEY);
+    return metricsData ? JSON.parse(metricsData) : null;
   } catch (error) {
-    console.error('❌ Failed to save model:', error);
+    console.warn('Failed to load stored metrics:', error);
+    return null;
   }
 }
 
 /**
- * Trains the model with enhanced dataset, 300 epochs, and comprehensive evaluation
+ * Mirrors the active version and its metrics into localStorage for analytics
  */
-export async function trainModel(model: tf.Sequential | null = null): Promise<tf.Sequential> {
-  const loadedModel = await loadPersistedModel();
-  if (loadedModel) {
-    trainedModel = loadedModel;
-    return loadedModel;
+function recordActiveVersion({ version, metrics }: TrainResult): void {
+  if (version) {
+    localStorage.setItem(MODEL_VERSION_KEY, version);
+  } else {
+    localStorage.removeItem(MODEL_VERSION_KEY);
   }
 
-  if (trainedModel) {
-    return trainedModel;
+  if (metrics) {
+    localStorage.setItem(MODEL_METRICS_KEY, JSON.stringify(metrics));
+    console.log('💾 Training metrics stored for analytics');
   }
+}
 
-  if (!model) {
-    model = createMoodModel();
-  }
+/**
+ * Ensures the worker has a trained model, training it if no compatible version is registered
+ * @param {(progress: TrainingProgress) => void} onProgress - Receives real per-epoch progress
+ */
+export async function trainModel(onProgress?: (progress: TrainingProgress) => void): Promise<ModelStatus> {
+  recordActiveVersion(await sendRequest<'train'>({ type: 'train', forceNew: false }, onProgress));
+  return getModelStatus();
+}
 
-  console.log('🧠 Training enhanced mood analysis model v4.0...');
-  console.log(`📚 Training dataset size: ${ENHANCED_TRAINING_DATA.length} examples`);
+/**
+ * Trains and registers a new model version; it becomes active unless the current version is pinned
+ */
+export async function trainNewModelVersion(onProgress?: (progress: TrainingProgress) => void): Promise<ModelStatus> {
+  recordActiveVersion(await sendRequest<'train'>({ type: 'train', forceNew: true }, onProgress));
+  return getModelStatus();
+}
 
-  const augmentedData = augmentData(ENHANCED_TRAINING_DATA);
-  console.log(`🔄 Using augmented dataset: ${augmentedData.length} examples`);
+/**
+ * Lists the registered model versions and which one is active
+ */
+export async function listModelVersions(): Promise<ModelRegistrySnapshot> {
+  return sendRequest<'list'>({ type: 'list' });
+}
 
-  // Split dataset into train/validation/test (70%/20%/10%)
-  const shuffled = [...augmentedData].sort(() => Math.random() - 0.5);
-  const trainSize = Math.floor(shuffled.length * 0.7);
-  const valSize = Math.floor(shuffled.length * 0.2);
-  
-  const trainSet = shuffled.slice(0, trainSize);
-  const valSet = shuffled.slice(trainSize, trainSize + valSize);
-  const testSet = shuffled.slice(trainSize + valSize);
-  
-  console.log(`📋 Dataset split: Train=${trainSet.length}, Val=${valSet.length}, Test=${testSet.length}`);
+/**
+ * Activates a registered model version (rollback or rollforward), optionally pinning it
+ */
+export async function activateModelVersion(versionId: string, pinned = false): Promise<ModelStatus> {
+  recordActiveVersion(await sendRequest<'activate'>({ type: 'activate', versionId, pinned }));
+  return getModelStatus();
+}
 
-  const trainFeatures = trainSet.map(item => createFeatureVector(item.text, item.mood));
-  const trainLabels = trainSet.map(item => item.label);
-  const valFeatures = valSet.map(item => createFeatureVector(item.text, item.mood));
-  const valLabels = valSet.map(item => item.label);
+/**
+ * Reads the abstain threshold admins configured for every user
+ */
+export async function loadAbstainThreshold(): Promise<number> {
+  const stored = Number(await loadAppSetting(ABSTAIN_THRESHOLD_SETTING));
+  return stored >= 0.5 && stored <= 1 ? stored : DEFAULT_ABSTAIN_THRESHOLD;
+}
 
-  const trainXs = tf.tensor2d(trainFeatures);
-  const trainYs = tf.tensor2d(trainLabels, [trainLabels.length, 1]);
-  const valXs = tf.tensor2d(valFeatures);
-  const valYs = tf.tensor2d(valLabels, [valLabels.length, 1]);
+/**
+ * Sets the abstain threshold for every user; confidence is the probability of the predicted
+ * class, so 0.5 never abstains. Returns false when the setting could not be saved.
+ */
+export async function saveAbstainThreshold(threshold: number): Promise<boolean> {
+  const clamped = Math.min(Math.max(threshold, 0.5), 1);
+  const saved = await saveAppSetting(ABSTAIN_THRESHOLD_SETTING, clamped);
+  if (saved) {
+    console.log(`⚖️ Abstain threshold set to ${clamped}`);
+  }
+  return saved;
+}
 
-  let trainingHistory;
-  
-  try {
-    trainingHistory = await model.fit(trainXs, trainYs, {
-      epochs: 300,
-      batchSize: 8,
-      validationData: [valXs, valYs],
-      verbose: 0,
-      shuffle: true,
-      callbacks: {
-        onEpochEnd: (epoch, logs) => {
-          if (epoch % 100 === 0) {
-            console.log(`🔄 Epoch ${epoch}: loss = ${logs?.loss?.toFixed(4)}, accuracy = ${logs?.acc?.toFixed(4)}, val_loss = ${logs?.val_loss?.toFixed(4) || 'N/A'}, val_acc = ${logs?.val_acc?.toFixed(4) || 'N/A'}`);
-          }
-        },
-        onTrainEnd: () => {
-          console.log('✅ Training completed successfully!');
-        }
-      }
-    });
+/**
+ * Replaces the sentiment label with "uncertain" when the model is not confident enough to commit
+ */
+function applyAbstention(result: PredictionResult, threshold: number): PredictionResult {
+  if (result.confidence >= threshold) {
+    return { ...result, abstained: false };
+  }
 
-    const finalAccuracy = trainingHistory.history.acc[trainingHistory.history.acc.length - 1] as number;
-    const finalValAccuracy = trainingHistory.history.val_acc ? trainingHistory.history.val_acc[trainingHistory.history.val_acc.length - 1] as number : null;
-    const finalLoss = trainingHistory.history.loss[trainingHistory.history.loss.length - 1] as number;
-    
-    console.log('📊 Final training metrics:');
-    console.log(`   Training accuracy: ${finalAccuracy.toFixed(4)}`);
-    console.log(`   Training loss: ${finalLoss.toFixed(4)}`);
-    if (finalValAccuracy) {
-      console.log(`   Validation accuracy: ${finalValAccuracy.toFixed(4)}`);
-    }
-    
-    // Store actual training metrics for accurate analytics
-    const metrics: StoredModelMetrics = {
-      trainingAccuracy: finalAccuracy,
-      validationAccuracy: finalValAccuracy || finalAccuracy,
-      trainingLoss: finalLoss,
-      trainingDataSize: ENHANCED_TRAINING_DATA.length,
-      augmentedDataSize: augmentedData.length,
-      modelParams: model.countParams(),
-      lastTrainingDate: new Date().toISOString()
-    };
-    
-    localStorage.setItem(MODEL_METRICS_KEY, JSON.stringify(metrics));
-    console.log('💾 Training metrics stored for analytics');
-    
-    // Evaluate on test set if available
-    if (testSet.length > 0) {
-      const testFeatures = testSet.map(item => createFeatureVector(item.text, item.mood));
-      const testLabels = testSet.map(item => item.label);
-      const testXs = tf.tensor2d(testFeatures);
-      const testYs = tf.tensor2d(testLabels, [testLabels.length, 1]);
-      
-      const testPredictions = model.predict(testXs) as tf.Tensor;
-      const testPredData = await testPredictions.data();
-      
-      // Calculate confusion matrix
-      const binaryPreds = Array.from(testPredData).map(p => p > 0.5 ? 1 : 0);
-      let tp = 0, tn = 0, fp = 0, fn = 0;
-      
-      for (let i = 0; i < testLabels.length; i++) {
-        if (testLabels[i] === 1 && binaryPreds[i] === 1) tp++;
-        else if (testLabels[i] === 0 && binaryPreds[i] === 0) tn++;
-        else if (testLabels[i] === 0 && binaryPreds[i] === 1) fp++;
-        else if (testLabels[i] === 1 && binaryPreds[i] === 0) fn++;
-      }
-      
-      const testAccuracy = (tp + tn) / testLabels.length;
-      const precision = tp / (tp + fp) || 0;
-      const recall = tp / (tp + fn) || 0;
-      const f1Score = 2 * (precision * recall) / (precision + recall) || 0;
-      
-      console.log('🎯 Test set evaluation:');
-      console.log(`   Test accuracy: ${testAccuracy.toFixed(4)}`);
-      console.log(`   Precision: ${precision.toFixed(4)}`);
-      console.log(`   Recall: ${recall.toFixed(4)}`);
-      console.log(`   F1-Score: ${f1Score.toFixed(4)}`);
-      console.log(`   Confusion Matrix: [[${tn}, ${fp}], [${fn}, ${tp}]]`);
-      
-      // Update metrics with test accuracy
-      metrics.testAccuracy = testAccuracy;
-      localStorage.setItem(MODEL_METRICS_KEY, JSON.stringify(metrics));
-      
-      testXs.dispose();
-      testYs.dispose();
-      testPredictions.dispose();
-    }
+  return { ...result, sentiment: 'uncertain', sentimentPolarity: 0, abstained: true };
+}
 
-    trainedModel = model;
-    await persistModel(model);
-    return model;
-  } catch (error) {
-    console.error('❌ Error training model:', error);
-    throw error;
-  } finally {
-    trainXs.dispose();
-    trainYs.dispose();
-    valXs.dispose();
-    valYs.dispose();
-    
-    const memoryInfo = tf.memory();
-    console.log(`🧠 Memory usage after training: ${memoryInfo.numTensors} tensors, ${(memoryInfo.numBytes / 1024 / 1024).toFixed(2)} MB`);
-  }
+// Options for a single prediction
+interface PredictOptions {
+  explain?: boolean; // Include per-feature attributions and matched keywords
+  userId?: string; // Apply this user's on-device personal head
 }
 
 /**
  * Predicts mood sentiment and stress level with enhanced accuracy and confidence metrics
  */
-export async function predictMood(text = '', moodLevel = '3'): Promise<PredictionResult> {
-  let inputTensor: tf.Tensor | null = null;
-  let prediction: tf.Tensor | null = null;
-  
+export async function predictMood(text = '', moodLevel = '3', options: PredictOptions = {}): Promise<PredictionResult> {
   try {
-    let model = trainedModel;
-    if (!model) {
+    if (!runtimeStatus.isModelCached) {
       console.log('🔄 No trained model found, training new enhanced model...');
-      model = await trainModel();
+      await trainModel();
     }
 
-    const features = createFeatureVector(text, moodLevel);
-    inputTensor = tf.tensor2d([features]);
-
-    prediction = model.predict(inputTensor) as tf.Tensor;
-    const predictionValue = await prediction.data();
-    
-    const confidence = predictionValue[0];
-    
-    let sentiment: string;
-    let sentimentPolarity: number;
-    
-    if (confidence < 0.2) {
-      sentiment = 'very positive';
-      sentimentPolarity = 1.0;
-    } else if (confidence < 0.4) {
-      sentiment = 'positive';
-      sentimentPolarity = 0.7;
-    } else if (confidence < 0.6) {
-      sentiment = 'moderate stress';
-      sentimentPolarity = 0.3;
-    } else if (confidence < 0.8) {
-      sentiment = 'high stress detected';
-      sentimentPolarity = -0.3;
-    } else {
-      sentiment = 'severe stress detected';
-      sentimentPolarity = -1.0;
-    }
-    
-    let stressLevel: number;
-    const moodLevelNum = parseInt(moodLevel);
-    
-    const combinedScore = (confidence * 0.7) + ((5 - moodLevelNum) / 5 * 0.3);
-    
-    if (combinedScore < 0.2) {
-      stressLevel = 1;
-    } else if (combinedScore < 0.4) {
-      stressLevel = 2;
-    } else if (combinedScore < 0.6) {
-      stressLevel = 3;
-    } else if (combinedScore < 0.8) {
-      stressLevel = 4;
-    } else {
-      stressLevel = 5;
-    }
-
-    // Get actual model accuracy from training history or use stored metrics
-    const modelStatus = getModelStatus();
-    const modelAccuracy = modelStatus.lastTrainingAccuracy || 0.85;
-    
-    // Calculate actual confidence score (higher confidence for predictions farther from 0.5)
-    const actualConfidence = Math.abs(confidence - 0.5) * 2; // Converts 0-0.5-1 range to 0-1 confidence
-
-    const result: PredictionResult = {
-      sentiment,
-      confidence: Math.round(actualConfidence * 100) / 100,
-      stressLevel,
-      modelAccuracy: Math.round(modelAccuracy * 100) / 100,
-      sentimentPolarity: Math.round(sentimentPolarity * 100) / 100
-    };
+    const result = await sendRequest<'predict'>({
+      type: 'predict',
+      text,
+      moodLevel,
+      explain: !!options.explain,
+      userId: options.userId
+    });
 
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`🎯 Enhanced mood prediction:`, result);
-      console.log(`📊 Features used:`, features.map(f => f.toFixed(2)).join(', '));
-    }
+    // Get actual model accuracy from stored training metrics
+    const modelAccuracy = loadStoredMetrics()?.trainingAccuracy || 0.85;
 
-    return result;
+    return applyAbstention({
+      ...result,
+      modelAccuracy: Math.round(modelAccuracy * 100) / 100
+    }, await loadAbstainThreshold());
   } catch (error) {
     console.error('❌ Error predicting mood:', error);
     const moodLevelNum = parseInt(moodLevel);
@@ -702,111 +262,115 @@ export async function predictMood(text = '', moodLevel = '3'): Promise<Predictio
       modelAccuracy: 0.75,
       sentimentPolarity: moodLevelNum >= 4 ? 0.5 : moodLevelNum === 3 ? 0 : -0.5
     };
-  } finally {
-    if (inputTensor) inputTensor.dispose();
-    if (prediction) prediction.dispose();
   }
 }
 
+// A "this isn't right" correction of one analysed mood log
+export interface MoodCorrection {
+  moodLogId: string;
+  text: string;
+  moodLevel: string;
+  stressed: boolean; // What the user says the stress label should have been
+}
+
+/**
+ * Records a correction on this device and refits the user's personal head
+ */
+export async function recordCorrection(userId: string, correction: MoodCorrection): Promise<PersonalizationStatus> {
+  return sendRequest<'correct'>({
+    type: 'correct',
+    example: {
+      userId,
+      moodLogId: correction.moodLogId,
+      text: correction.text,
+      moodLevel: correction.moodLevel,
+      label: correction.stressed ? 1 : 0
+    }
+  });
+}
+
+/**
+ * Reports how many of the user's corrections are in use on this device
+ */
+export async function getPersonalizationStatus(userId: string): Promise<PersonalizationStatus> {
+  return sendRequest<'personalStatus'>({ type: 'personalStatus', userId });
+}
+
+/**
+ * Removes the user's corrections from this device so predictions fall back to the shared model
+ */
+export async function resetPersonalization(userId: string): Promise<PersonalizationStatus> {
+  return sendRequest<'resetPersonal'>({ type: 'resetPersonal', userId });
+}
+
 /**
  * Clears the cached trained model and persisted model with comprehensive cleanup
  */
 export function clearModel(): void {
-  if (trainedModel) {
-    try {
-      trainedModel.dispose();
-      console.log('🗑️ Cached model disposed successfully');
-    } catch (error) {
-      console.warn('⚠️ Error disposing cached model:', error);
-    }
-    trainedModel = null;
-  }
-  
   try {
     localStorage.removeItem(MODEL_VERSION_KEY);
     localStorage.removeItem(MODEL_METRICS_KEY);
-    console.log('🗑️ Model cache, metrics, and persistence cleared');
   } catch (error) {
-    console.error('❌ Error clearing persisted model:', error);
+    console.error('❌ Error clearing persisted model metadata:', error);
   }
-  
-  const memoryInfo = tf.memory();
-  console.log(`🧠 Memory after cleanup: ${memoryInfo.numTensors} tensors, ${(memoryInfo.numBytes / 1024 / 1024).toFixed(2)} MB`);
+
+  runtimeStatus = { ...runtimeStatus, isModelCached: false, modelParams: undefined };
+
+  sendRequest<'clear'>({ type: 'clear' })
+    .then(() => console.log('🗑️ Model cache, metrics, and persistence cleared'))
+    .catch(error => console.error('❌ Error clearing persisted model:', error));
 }
 
 /**
- * Gets comprehensive model status information with enhanced metrics
+ * Gets comprehensive model status information with enhanced metrics.
+ * Runtime fields reflect the worker's last report; a fresh report is requested in the background.
  */
 export function getModelStatus(): ModelStatus {
   const storedVersion = localStorage.getItem(MODEL_VERSION_KEY);
-  const augmentedData = augmentData(ENHANCED_TRAINING_DATA);
-  
-  // Load actual stored metrics
-  let storedMetrics: StoredModelMetrics | null = null;
-  try {
-    const metricsData = localStorage.getItem(MODEL_METRICS_KEY);
-    if (metricsData) {
-      storedMetrics = JSON.parse(metricsData);
-    }
-  } catch (error) {
-    console.warn('Failed to load stored metrics:', error);
-  }
+  const storedMetrics = loadStoredMetrics();
+
+  sendRequest<'status'>({ type: 'status' }).catch(error => {
+    console.warn('Failed to refresh worker status:', error);
+  });
   
   return {
-    isModelCached: trainedModel !== null,
-    isModelPersisted: storedVersion === CURRENT_MODEL_VERSION,
-    modelVersion: storedVersion,
-    backend: tf.getBackend(),
-    memoryInfo: tf.memory(),
-    modelParams: storedMetrics?.modelParams || trainedModel?.countParams(),
+    isModelCached: runtimeStatus.isModelCached,
+    isModelPersisted: storedVersion !== null,
+    modelVersion: runtimeStatus.activeVersionId || storedVersion,
+    backend: runtimeStatus.backend,
+    memoryInfo: runtimeStatus.memoryInfo,
+    modelParams: storedMetrics?.modelParams || runtimeStatus.modelParams,
     trainingDataSize: storedMetrics?.trainingDataSize || ENHANCED_TRAINING_DATA.length,
-    augmentedDataSize: storedMetrics?.augmentedDataSize || augmentedData.length,
+    augmentedDataSize: storedMetrics?.augmentedDataSize,
     lastTrainingAccuracy: storedMetrics?.trainingAccuracy || 0.85,
-    lastValidationAccuracy: storedMetrics?.validationAccuracy || 0.82
+    lastValidationAccuracy: storedMetrics?.validationAccuracy || 0.82,
+    personalExampleCount: runtimeStatus.personalExampleCount ?? 0
   };
 }
 
 /**
- * Smart recommendations mapping based on stress levels
+ * Picks the keywords behind features that pushed a prediction towards stress,
+ * falling back to the names of the strongest stress-raising features when no keyword fired
  */
-export function getRecommendationMapping(stressLevel: number): RecommendationMapping {
-  const mappings: Record<number, RecommendationMapping['recommendation']> = {
-    1: {
-      title: 'Motivational Video',
-      description: 'Keep up the great energy with some inspiring content to maintain your positive momentum!',
-      type: 'video',
-      content_url: 'https://www.youtube.com/watch?v=ZmInkxbvlCs'
-    },
-    2: {
-      title: 'Motivational Content',
-      description: 'You\'re doing well! Here\'s some uplifting content to boost your already positive mood.',
-      type: 'video',
-      content_url: 'https://www.youtube.com/watch?v=k2rqUlYlcQM'
-    },
-    3: {
-      title: 'Quick Breathing Exercise',
-      description: 'Take 5 minutes for deep breathing to reset your mind and find your center.',
-      type: 'breathing',
-      content_url: 'https://www.headspace.com/meditation/breathing-exercises'
-    },
-    4: {
-      title: 'Guided Meditation',
-      description: 'A calming guided meditation session to help reduce stress and restore balance.',
-      type: 'mindfulness',
-      content_url: 'https://www.calm.com/meditate'
-    },
-    5: {
-      title: 'Peer Support & Professional Help',
-      description: 'Reach out to peers for support or consider speaking with a mental health professional.',
-      type: 'mindfulness',
-      content_url: '/peer-support'
-    }
-  };
+export function getFlaggedReasons(explanation: PredictionExplanation, limit = 3): string[] {
+  const stressFeatures = explanation.attributions
+    .filter(attribution => attribution.contribution > 0)
+    .map(attribution => attribution.featureIndex);
+
+  const keywords = stressFeatures.flatMap(featureIndex =>
+    explanation.matchedKeywords
+      .filter(match => match.featureIndex === featureIndex)
+      .map(match => match.keyword)
+  );
 
-  return {
-    stressLevel,
-    recommendation: mappings[stressLevel] || mappings[3]
-  };
+  if (keywords.length > 0) {
+    return Array.from(new Set(keywords)).slice(0, limit);
+  }
+
+  return explanation.attributions
+    .filter(attribution => attribution.contribution > 0)
+    .slice(0, limit)
+    .map(attribution => attribution.feature.toLowerCase());
 }
 
 /**
@@ -840,4 +404,4 @@ export function analyzeTextComplexity(text: string) {
     uniqueWords: new Set(words).size,
     lexicalDiversity: words.length > 0 ? new Set(words).size / words.length : 0
   };
-}
\ No newline at end of file
+}
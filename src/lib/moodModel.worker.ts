@@ -0,0 +1,88 @@
+import {
+  trainModel,
+  predictMood,
+  clearModel,
+  activateVersion,
+  getRegistrySnapshot,
+  getRuntimeStatus,
+  addCorrection,
+  getPersonalizationStatus,
+  resetPersonalization
+} from './moodModelEngine';
+import type { MoodModelRequest, MoodModelResponse } from './moodModelProtocol';
+
+// Dedicated worker that owns the TensorFlow.js model. Requests are handled one
+// at a time so a prediction arriving mid-training waits for the fit to finish.
+
+let queue: Promise<void> = Promise.resolve();
+
+const respond = (response: MoodModelResponse) => {
+  self.postMessage(response);
+};
+
+async function handleRequest(request: MoodModelRequest): Promise<void> {
+  try {
+    switch (request.type) {
+      case 'train': {
+        const result = await trainModel(request.forceNew, progress => {
+          respond({ id: request.id, kind: 'progress', progress });
+        });
+        respond({ id: request.id, kind: 'result', type: 'train', result, status: getRuntimeStatus() });
+        break;
+      }
+      case 'predict': {
+        const result = await predictMood(request.text, request.moodLevel, request.explain, request.userId);
+        respond({ id: request.id, kind: 'result', type: 'predict', result, status: getRuntimeStatus() });
+        break;
+      }
+      case 'status': {
+        const status = getRuntimeStatus();
+        respond({ id: request.id, kind: 'result', type: 'status', result: status, status });
+        break;
+      }
+      case 'clear': {
+        await clearModel();
+        const status = getRuntimeStatus();
+        respond({ id: request.id, kind: 'result', type: 'clear', result: status, status });
+        break;
+      }
+      case 'list': {
+        const result = await getRegistrySnapshot();
+        respond({ id: request.id, kind: 'result', type: 'list', result, status: getRuntimeStatus() });
+        break;
+      }
+      case 'activate': {
+        const result = await activateVersion(request.versionId, request.pinned);
+        respond({ id: request.id, kind: 'result', type: 'activate', result, status: getRuntimeStatus() });
+        break;
+      }
+      case 'correct': {
+        const result = await addCorrection(request.example);
+        respond({ id: request.id, kind: 'result', type: 'correct', result, status: getRuntimeStatus() });
+        break;
+      }
+      case 'personalStatus': {
+        const result = await getPersonalizationStatus(request.userId);
+        respond({ id: request.id, kind: 'result', type: 'personalStatus', result, status: getRuntimeStatus() });
+        break;
+      }
+      case 'resetPersonal': {
+        const result = await resetPersonalization(request.userId);
+        respond({ id: request.id, kind: 'result', type: 'resetPersonal', result, status: getRuntimeStatus() });
+        break;
+      }
+    }
+  } catch (error) {
+    respond({
+      id: request.id,
+      kind: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      status: getRuntimeStatus()
+    });
+  }
+}
+
+self.onmessage = (event: MessageEvent<MoodModelRequest>) => {
+  const request = event.data;
+  queue = queue.then(() => handleRequest(request));
+};
@@ -0,0 +1,945 @@
+import * as tf from '@tensorflow/tfjs';
+import { ENHANCED_TRAINING_DATA, EMOTION_LABELS, augmentData, type TrainingDataEntry } from './moodTrainingData';
+import { FEATURE_DEFINITIONS, FEATURE_VECTOR_LENGTH, createFeatureVector, findMatchedKeywords } from './moodFeatures';
+import { buildVocabulary, createVocabularyIndex, encodeText, poolTokenIds } from './moodTokenizer';
+import { applyTemperature, calibrateStressPredictions, evaluateStressPredictions } from './moodModelEvaluation';
+import {
+  CURRENT_MODEL_VERSION,
+  type BundledModelMetadata,
+  type EmotionScore,
+  type FeatureAttribution,
+  type PredictionExplanation,
+  type PredictionResult,
+  type StoredModelMetrics,
+  type ModelRegistryEntry,
+  type ModelRegistrySnapshot,
+  type PersonalExample,
+  type PersonalizationStatus,
+  type TrainResult,
+  type TrainingProgress,
+  type WorkerRuntimeStatus
+} from './moodModelProtocol';
+import {
+  MAX_REGISTERED_VERSIONS,
+  addPersonalExample,
+  clearPersonalExamples,
+  clearRegistry,
+  createVersionId,
+  getActiveState,
+  getRegisteredVersion,
+  getVersionStorageKey,
+  listPersonalExamples,
+  listRegisteredVersions,
+  registerVersion,
+  setActiveState,
+  unregisterVersion
+} from './moodModelRegistry';
+
+// TensorFlow.js side of the mood model. This module is only ever loaded inside
+// moodModel.worker.ts so that training never blocks the UI thread; the main
+// thread talks to it through the typed protocol in moodModelProtocol.ts.
+
+// Cache for the active model to avoid retraining, and the registry id it was loaded from
+let trainedModel: tf.LayersModel | null = null;
+let activeVersionId: string | null = null;
+// Calibration temperature of the active version (1 = uncalibrated)
+let activeTemperature = 1;
+// Token ids of the active version's vocabulary
+let activeVocabulary: string[] = [];
+let activeVocabularyIndex: Map<string, number> = new Map();
+
+// Per-user correction head: a logistic adjustment on top of the active version's
+// trunk, fitted to that user's corrections and refitted when either changes
+interface PersonalHead {
+  userId: string;
+  versionId: string;
+  exampleCount: number;
+  // Latest createdAt among the corrections; correcting a log again replaces its example,
+  // which leaves the count unchanged but moves this forward
+  latestExampleAt: string;
+  kernel: number[]; // One weight per trunk unit; all zero until the user corrects something
+  bias: number;
+}
+
+let personalHead: PersonalHead | null = null;
+// Sub-model exposing the active version's trunk output; shares (and must not dispose) its weights
+let trunkModel: tf.LayersModel | null = null;
+
+const TRAINING_EPOCHS = 300;
+const EMBEDDING_DIM = 16;
+
+const PERSONAL_HEAD_STEPS = 150;
+const PERSONAL_HEAD_LEARNING_RATE = 0.05;
+// Pulls the personal head towards the shared model so a handful of corrections cannot overturn it
+const PERSONAL_HEAD_L2 = 0.05;
+
+// Pre-trained artifact produced by train-mood-model.js and served from public/
+const BUNDLED_MODEL_DIR = '/models/mood-model';
+
+// Outcome of fitting a fresh model, before it is registered
+export interface FittedModel {
+  model: tf.LayersModel;
+  metrics: StoredModelMetrics;
+  vocabulary: string[]; // Token ids the model was trained with
+}
+
+/**
+ * Creates the mood model: a mean-pooled token embedding joined with the hand-crafted features,
+ * feeding a shared dense trunk with a stress head and an emotion head
+ * @param {number} vocabularySize - Number of token ids, including padding and out-of-vocabulary
+ * @returns {tf.LayersModel} The compiled model (embedding 16 + 15 features → 64→32→16 trunk, 16→8→1 sigmoid stress head, 16→7 softmax emotion head)
+ */
+export function createMoodModel(vocabularySize: number): tf.LayersModel {
+  // Token input - the note's token sequence mean-pooled by poolTokenIds
+  const tokenInput = tf.input({ shape: [vocabularySize], name: 'pooled_tokens' });
+  // Auxiliary input - the 15 hand-crafted features
+  const featureInput = tf.input({ shape: [FEATURE_VECTOR_LENGTH], name: 'input_features' });
+
+  // Bias-free linear projection of the pooled one-hot tokens: its kernel rows are the token
+  // embeddings, so the output is the average embedding of the sequence. This is equivalent to
+  // Embedding + masked average pooling but avoids the slow gather gradient on the CPU backend.
+  const pooledEmbedding = tf.layers.dense({
+    units: EMBEDDING_DIM,
+    useBias: false,
+    kernelInitializer: 'glorotUniform',
+    name: 'token_embedding'
+  }).apply(tokenInput) as tf.SymbolicTensor;
+  const combined = tf.layers.concatenate({ name: 'combined_inputs' }).apply([pooledEmbedding, featureInput]) as tf.SymbolicTensor;
+
+  // Shared trunk with batch normalization and dropout for training stability
+  let trunk = tf.layers.dense({
+    units: 64,
+    activation: 'relu',
+    kernelInitializer: 'glorotNormal',
+    name: 'input_layer'
+  }).apply(combined) as tf.SymbolicTensor;
+  trunk = tf.layers.batchNormalization({ name: 'batch_norm_1' }).apply(trunk) as tf.SymbolicTensor;
+  trunk = tf.layers.dropout({ rate: 0.4, name: 'dropout_1' }).apply(trunk) as tf.SymbolicTensor;
+  trunk = tf.layers.dense({
+    units: 32,
+    activation: 'relu',
+    kernelInitializer: 'glorotNormal',
+    name: 'hidden_layer_1'
+  }).apply(trunk) as tf.SymbolicTensor;
+  trunk = tf.layers.batchNormalization({ name: 'batch_norm_2' }).apply(trunk) as tf.SymbolicTensor;
+  trunk = tf.layers.dropout({ rate: 0.3, name: 'dropout_2' }).apply(trunk) as tf.SymbolicTensor;
+  trunk = tf.layers.dense({
+    units: 16,
+    activation: 'relu',
+    kernelInitializer: 'glorotNormal',
+    name: 'hidden_layer_2'
+  }).apply(trunk) as tf.SymbolicTensor;
+
+  // Stress head - binary classification (positive/stress)
+  let stressBranch = tf.layers.dense({
+    units: 8,
+    activation: 'relu',
+    kernelInitializer: 'glorotNormal',
+    name: 'hidden_layer_3'
+  }).apply(trunk) as tf.SymbolicTensor;
+  stressBranch = tf.layers.dropout({ rate: 0.2, name: 'dropout_3' }).apply(stressBranch) as tf.SymbolicTensor;
+  const stressOutput = tf.layers.dense({
+    units: 1,
+    activation: 'sigmoid',
+    kernelInitializer: 'glorotNormal',
+    name: 'stress_output'
+  }).apply(stressBranch) as tf.SymbolicTensor;
+
+  // Emotion head - one softmax unit per EMOTION_LABELS entry
+  const emotionOutput = tf.layers.dense({
+    units: EMOTION_LABELS.length,
+    activation: 'softmax',
+    kernelInitializer: 'glorotNormal',
+    name: 'emotion_output'
+  }).apply(trunk) as tf.SymbolicTensor;
+
+  const model = tf.model({
+    inputs: [tokenInput, featureInput],
+    outputs: [stressOutput, emotionOutput],
+    name: 'mood_model'
+  });
+
+  // Compile the model with advanced optimizer settings
+  model.compile({
+    optimizer: tf.train.adam(0.0005), // Slightly lower learning rate for stability
+    loss: ['binaryCrossentropy', 'categoricalCrossentropy'],
+    metrics: ['accuracy']
+  });
+
+  console.log(`🏗️ Enhanced deep model architecture created (embedding ${vocabularySize}×${EMBEDDING_DIM} + ${FEATURE_VECTOR_LENGTH} features → 64→32→16 → stress 8→1 | emotion 7)`);
+  console.log(`📊 Model summary: ${model.countParams()} parameters`);
+
+  return model;
+}
+
+/**
+ * Loads a registered version's weights, refusing versions trained for another architecture
+ */
+async function loadRegisteredModel(entry: ModelRegistryEntry): Promise<tf.LayersModel> {
+  if (entry.architectureVersion !== CURRENT_MODEL_VERSION) {
+    throw new Error(`Model version ${entry.id} was trained for architecture v${entry.architectureVersion} and cannot be loaded by v${CURRENT_MODEL_VERSION}`);
+  }
+
+  console.log(`🔍 Loading model version ${entry.id} from ${entry.artifactUrl || 'IndexedDB'}...`);
+  const model = await tf.loadLayersModel(entry.artifactUrl || getVersionStorageKey(entry.id));
+  console.log(`✅ Model version ${entry.id} loaded successfully`);
+  return model;
+}
+
+/**
+ * Fetches the pre-trained artifact's metadata and registers it; returns null when no
+ * compatible artifact is deployed
+ */
+async function registerBundledModel(): Promise<ModelRegistryEntry | null> {
+  try {
+    const response = await fetch(`${BUNDLED_MODEL_DIR}/metadata.json`);
+    if (!response.ok) {
+      console.log('ℹ️ No pre-trained model artifact deployed');
+      return null;
+    }
+
+    const metadata: BundledModelMetadata = await response.json();
+    if (metadata.architectureVersion !== CURRENT_MODEL_VERSION) {
+      console.log(`🔄 Pre-trained artifact is v${metadata.architectureVersion}, expected v${CURRENT_MODEL_VERSION}`);
+      return null;
+    }
+
+    const entry: ModelRegistryEntry = {
+      id: metadata.versionId,
+      architectureVersion: metadata.architectureVersion,
+      createdAt: metadata.metrics.lastTrainingDate,
+      metrics: metadata.metrics,
+      vocabulary: metadata.vocabulary,
+      artifactUrl: `${BUNDLED_MODEL_DIR}/model.json`
+    };
+
+    // Older artifact entries point at the same URL, which now serves different weights
+    const staleArtifacts = (await listRegisteredVersions()).filter(existing => existing.artifactUrl && existing.id !== entry.id);
+    for (const stale of staleArtifacts) {
+      await unregisterVersion(stale.id);
+    }
+    await registerVersion(entry);
+    return entry;
+  } catch (error) {
+    console.log('⚠️ Pre-trained artifact unavailable:', error.message);
+    return null;
+  }
+}
+
+/**
+ * Activates the pre-trained artifact when no usable version is active or a new artifact has
+ * shipped since the last start; otherwise the active version (a retrained or rolled-back one
+ * included) keeps serving. Never replaces a version an admin pinned.
+ */
+async function loadBundledModel(): Promise<{ model: tf.LayersModel; entry: ModelRegistryEntry } | null> {
+  const state = await getActiveState().catch(() => ({ activeVersionId: null, pinned: false }));
+  if (state.pinned) {
+    return null;
+  }
+
+  const knownVersionIds = new Set((await listRegisteredVersions().catch(() => [])).map(existing => existing.id));
+  const entry = await registerBundledModel();
+  if (!entry) {
+    return null;
+  }
+
+  const activeEntry = state.activeVersionId ? await getRegisteredVersion(state.activeVersionId).catch(() => null) : null;
+  if (activeEntry?.architectureVersion === CURRENT_MODEL_VERSION && knownVersionIds.has(entry.id)) {
+    return null;
+  }
+
+  try {
+    const model = await loadRegisteredModel(entry);
+    await setActiveState({ activeVersionId: entry.id, pinned: false });
+    return { model, entry };
+  } catch (error) {
+    console.log('⚠️ Failed to load pre-trained artifact:', error.message);
+    return null;
+  }
+}
+
+/**
+ * Attempts to load the active version, falling back to the newest compatible one
+ */
+async function loadActiveModel(): Promise<{ model: tf.LayersModel; entry: ModelRegistryEntry } | null> {
+  try {
+    const state = await getActiveState();
+    const activeEntry = state.activeVersionId ? await getRegisteredVersion(state.activeVersionId) : null;
+
+    if (activeEntry?.architectureVersion === CURRENT_MODEL_VERSION) {
+      return { model: await loadRegisteredModel(activeEntry), entry: activeEntry };
+    }
+
+    const fallback = (await listRegisteredVersions()).find(entry => entry.architectureVersion === CURRENT_MODEL_VERSION);
+    if (!fallback) {
+      console.log(`🔄 No registered model for architecture v${CURRENT_MODEL_VERSION}. Will retrain.`);
+      return null;
+    }
+
+    console.log(`⏪ Active version ${state.activeVersionId} unavailable, falling back to ${fallback.id}`);
+    const model = await loadRegisteredModel(fallback);
+    await setActiveState({ activeVersionId: fallback.id, pinned: false });
+    return { model, entry: fallback };
+  } catch (error) {
+    console.log('⚠️ No persisted model found or loading failed:', error.message);
+    return null;
+  }
+}
+
+/**
+ * Saves a freshly trained model and registers its metadata; returns false when persistence failed
+ */
+async function persistVersion(model: tf.LayersModel, entry: ModelRegistryEntry): Promise<boolean> {
+  try {
+    console.log(`💾 Saving model version ${entry.id} to IndexedDB...`);
+    await model.save(getVersionStorageKey(entry.id));
+    await registerVersion(entry);
+    console.log(`✅ Model version ${entry.id} registered`);
+    return true;
+  } catch (error) {
+    console.error('❌ Failed to save model:', error);
+    return false;
+  }
+}
+
+/**
+ * Removes the oldest locally trained versions beyond MAX_REGISTERED_VERSIONS, never the active one
+ */
+async function pruneRegistry(): Promise<void> {
+  const entries = await listRegisteredVersions();
+  const removable = entries
+    .filter(entry => entry.id !== activeVersionId && !entry.artifactUrl)
+    .slice(MAX_REGISTERED_VERSIONS - 1);
+
+  for (const entry of removable) {
+    try {
+      await tf.io.removeModel(getVersionStorageKey(entry.id));
+    } catch (error) {
+      console.warn(`⚠️ Weights for ${entry.id} already missing:`, error);
+    }
+    await unregisterVersion(entry.id);
+    console.log(`🗑️ Pruned model version ${entry.id}`);
+  }
+}
+
+/**
+ * Swaps the in-memory model for another one, together with its calibration and vocabulary
+ */
+function setActiveModel(model: tf.LayersModel, entry: ModelRegistryEntry): void {
+  if (trainedModel && trainedModel !== model) {
+    trainedModel.dispose();
+  }
+  trainedModel = model;
+  activeVersionId = entry.id;
+  activeTemperature = entry.metrics?.calibration?.temperature ?? 1;
+  activeVocabulary = entry.vocabulary || [];
+  activeVocabularyIndex = createVocabularyIndex(activeVocabulary);
+  trunkModel = null;
+}
+
+/**
+ * Metrics recorded for the active version, if it is registered
+ */
+async function getActiveResult(): Promise<TrainResult> {
+  const entry = activeVersionId ? await getRegisteredVersion(activeVersionId).catch(() => null) : null;
+  return { version: activeVersionId, metrics: entry?.metrics || null };
+}
+
+/**
+ * One-hot encodes the emotion labels of a dataset for the softmax head
+ */
+function createEmotionTargets(entries: TrainingDataEntry[]): tf.Tensor2D {
+  return tf.tidy(() => {
+    const indices = tf.tensor1d(entries.map(item => EMOTION_LABELS.indexOf(item.emotion)), 'int32');
+    return tf.oneHot(indices, EMOTION_LABELS.length).toFloat() as tf.Tensor2D;
+  });
+}
+
+/**
+ * Builds the two model inputs (token ids and hand-crafted features) for a batch of notes
+ */
+function createModelInputs(entries: { text: string; mood: string }[], vocabularyIndex: Map<string, number>): tf.Tensor2D[] {
+  return [
+    tf.tensor2d(entries.map(item => poolTokenIds(encodeText(item.text, vocabularyIndex), vocabularyIndex.size))),
+    tf.tensor2d(entries.map(item => createFeatureVector(item.text, item.mood)), [entries.length, FEATURE_VECTOR_LENGTH])
+  ];
+}
+
+/**
+ * Fits a fresh model with enhanced dataset, 300 epochs, and comprehensive evaluation.
+ * All randomness (split, augmentation, initializers, dropout, batch order) comes from
+ * Math.random, which train-mood-model.js seeds for reproducible artifacts.
+ * @param {(progress: TrainingProgress) => void} onProgress - Called after every epoch
+ */
+export async function fitModel(onProgress?: (progress: TrainingProgress) => void): Promise<FittedModel> {
+  console.log(`🧠 Training enhanced mood analysis model v${CURRENT_MODEL_VERSION}...`);
+  console.log(`📚 Training dataset size: ${ENHANCED_TRAINING_DATA.length} examples`);
+
+  const augmentedData = augmentData(ENHANCED_TRAINING_DATA);
+  console.log(`🔄 Using augmented dataset: ${augmentedData.length} examples`);
+
+  // Split dataset into train/validation/test (70%/20%/10%)
+  const shuffled = [...augmentedData].sort(() => Math.random() - 0.5);
+  const trainSize = Math.floor(shuffled.length * 0.7);
+  const valSize = Math.floor(shuffled.length * 0.2);
+  
+  const trainSet = shuffled.slice(0, trainSize);
+  const valSet = shuffled.slice(trainSize, trainSize + valSize);
+  const testSet = shuffled.slice(trainSize + valSize);
+  
+  console.log(`📋 Dataset split: Train=${trainSet.length}, Val=${valSet.length}, Test=${testSet.length}`);
+
+  // The vocabulary only sees the training split, so validation and test measure out-of-vocabulary handling too
+  const vocabulary = buildVocabulary(trainSet.map(item => item.text));
+  const vocabularyIndex = createVocabularyIndex(vocabulary);
+  console.log(`🔤 Vocabulary size: ${vocabulary.length} tokens`);
+
+  const model = createMoodModel(vocabulary.length);
+
+  const trainLabels = trainSet.map(item => item.label);
+  const valLabels = valSet.map(item => item.label);
+
+  const trainXs = createModelInputs(trainSet, vocabularyIndex);
+  const trainYs = tf.tensor2d(trainLabels, [trainLabels.length, 1]);
+  const trainEmotionYs = createEmotionTargets(trainSet);
+  const valXs = createModelInputs(valSet, vocabularyIndex);
+
+  let trainingHistory;
+  
+  try {
+    trainingHistory = await model.fit(trainXs, [trainYs, trainEmotionYs], {
+      epochs: TRAINING_EPOCHS,
+      batchSize: 8,
+      verbose: 0,
+      shuffle: true,
+      callbacks: {
+        onEpochEnd: (epoch, logs) => {
+          onProgress?.({
+            epoch: epoch + 1,
+            totalEpochs: TRAINING_EPOCHS,
+            loss: logs?.loss,
+            accuracy: logs?.stress_output_acc
+          });
+          if (epoch % 100 === 0) {
+            console.log(`🔄 Epoch ${epoch}: loss = ${logs?.loss?.toFixed(4)}, stress_acc = ${logs?.stress_output_acc?.toFixed(4)}, emotion_acc = ${logs?.emotion_output_acc?.toFixed(4)}`);
+          }
+        },
+        onTrainEnd: () => {
+          console.log('✅ Training completed successfully!');
+        }
+      }
+    });
+
+    const { history } = trainingHistory;
+    const finalAccuracy = history.stress_output_acc[history.stress_output_acc.length - 1] as number;
+    // tfjs misaligns val_* metric names for multi-output models, so the validation split is scored directly
+    const [valPredictions, valEmotionPredictions] = model.predict(valXs) as tf.Tensor[];
+    const valPredData = Array.from(await valPredictions.data());
+    valPredictions.dispose();
+    valEmotionPredictions.dispose();
+    const finalValAccuracy = valLabels.length > 0
+      ? valLabels.filter((label, i) => (valPredData[i] > 0.5 ? 1 : 0) === label).length / valLabels.length
+      : null;
+    const finalLoss = history.loss[history.loss.length - 1] as number;
+    
+    console.log('📊 Final training metrics:');
+    console.log(`   Training accuracy: ${finalAccuracy.toFixed(4)}`);
+    console.log(`   Training loss: ${finalLoss.toFixed(4)}`);
+    if (finalValAccuracy) {
+      console.log(`   Validation accuracy: ${finalValAccuracy.toFixed(4)}`);
+    }
+    
+    // Actual training metrics, handed back to the main thread for storage
+    const metrics: StoredModelMetrics = {
+      trainingAccuracy: finalAccuracy,
+      validationAccuracy: finalValAccuracy || finalAccuracy,
+      trainingLoss: finalLoss,
+      trainingDataSize: ENHANCED_TRAINING_DATA.length,
+      augmentedDataSize: augmentedData.length,
+      modelParams: model.countParams(),
+      lastTrainingDate: new Date().toISOString()
+    };
+    
+    // Reliability is measured on the test split when there is one, otherwise on validation
+    let reliabilityProbabilities = valPredData;
+    let reliabilityLabels = valLabels;
+
+    // Evaluate on test set if available
+    if (testSet.length > 0) {
+      const testLabels = testSet.map(item => item.label);
+      const testXs = createModelInputs(testSet, vocabularyIndex);
+      
+      const [testPredictions, testEmotionPredictions] = model.predict(testXs) as tf.Tensor[];
+      const testEmotionArgMax = testEmotionPredictions.argMax(-1);
+      const testPredData = Array.from(await testPredictions.data());
+      const testEmotionIndices = await testEmotionArgMax.data();
+      
+      // Full evaluation report (confusion matrix, per-category accuracy, ROC, calibration)
+      const evaluation = evaluateStressPredictions(
+        testPredData,
+        testLabels,
+        testSet.map(item => item.category || 'general')
+      );
+      const emotionHits = testSet.filter((item, i) => EMOTION_LABELS[testEmotionIndices[i]] === item.emotion).length;
+      const emotionAccuracy = emotionHits / testSet.length;
+      const [[tn, fp], [fn, tp]] = evaluation.confusionMatrix;
+      
+      console.log('🎯 Test set evaluation:');
+      console.log(`   Test accuracy: ${evaluation.accuracy.toFixed(4)}`);
+      console.log(`   Precision: ${evaluation.precision.toFixed(4)}`);
+      console.log(`   Recall: ${evaluation.recall.toFixed(4)}`);
+      console.log(`   F1-Score: ${evaluation.f1Score.toFixed(4)}`);
+      console.log(`   AUC: ${evaluation.auc.toFixed(4)}`);
+      console.log(`   Confusion Matrix: [[${tn}, ${fp}], [${fn}, ${tp}]]`);
+      console.log(`   Emotion accuracy: ${emotionAccuracy.toFixed(4)}`);
+      
+      // Update metrics with the persisted evaluation
+      metrics.testAccuracy = evaluation.accuracy;
+      metrics.emotionAccuracy = emotionAccuracy;
+      metrics.evaluation = evaluation;
+      reliabilityProbabilities = testPredData;
+      reliabilityLabels = testLabels;
+      
+      testXs.forEach(tensor => tensor.dispose());
+      testPredictions.dispose();
+      testEmotionPredictions.dispose();
+      testEmotionArgMax.dispose();
+    }
+
+    // Temperature scaling fitted on the validation split
+    if (valLabels.length > 0) {
+      const calibration = calibrateStressPredictions(
+        valPredData,
+        valLabels,
+        reliabilityProbabilities,
+        reliabilityLabels,
+        reliabilityProbabilities === valPredData ? 'validation' : 'test'
+      );
+      console.log(`🌡️ Calibration temperature: ${calibration.temperature}, ECE ${calibration.uncalibratedEce.toFixed(4)} → ${calibration.calibratedEce.toFixed(4)}`);
+      metrics.calibration = calibration;
+    }
+
+    return { model, metrics, vocabulary };
+  } catch (error) {
+    console.error('❌ Error training model:', error);
+    model.dispose();
+    throw error;
+  } finally {
+    trainXs.forEach(tensor => tensor.dispose());
+    trainYs.dispose();
+    trainEmotionYs.dispose();
+    valXs.forEach(tensor => tensor.dispose());
+    
+    const memoryInfo = tf.memory();
+    console.log(`🧠 Memory usage after training: ${memoryInfo.numTensors} tensors, ${(memoryInfo.numBytes / 1024 / 1024).toFixed(2)} MB`);
+  }
+}
+
+/**
+ * Ensures an active model is loaded: the pre-trained artifact first (unless a version is
+ * pinned), then the registry, and only then a locally trained version. With forceNew a new
+ * version is always trained; it only becomes active when the current version is not pinned.
+ * @param {boolean} forceNew - Train a new version even if one is already available
+ * @param {(progress: TrainingProgress) => void} onProgress - Called after every epoch
+ */
+export async function trainModel(
+  forceNew = false,
+  onProgress?: (progress: TrainingProgress) => void
+): Promise<TrainResult> {
+  if (!forceNew) {
+    if (trainedModel) {
+      return getActiveResult();
+    }
+
+    const loaded = (await loadBundledModel()) || (await loadActiveModel());
+    if (loaded) {
+      setActiveModel(loaded.model, loaded.entry);
+      return { version: loaded.entry.id, metrics: loaded.entry.metrics };
+    }
+  }
+
+  const { model, metrics, vocabulary } = await fitModel(onProgress);
+  const entry: ModelRegistryEntry = {
+    id: createVersionId(CURRENT_MODEL_VERSION),
+    architectureVersion: CURRENT_MODEL_VERSION,
+    createdAt: metrics.lastTrainingDate,
+    metrics,
+    vocabulary
+  };
+  const persisted = await persistVersion(model, entry);
+
+  // A pinned version keeps serving predictions; the new one stays available for rollforward
+  const state = persisted ? await getActiveState() : { activeVersionId: null, pinned: false };
+  if (state.pinned && state.activeVersionId) {
+    try {
+      const pinnedResult = await activateVersion(state.activeVersionId, true);
+      console.log(`📌 Version ${state.activeVersionId} is pinned; ${entry.id} registered but not activated`);
+      model.dispose();
+      await pruneRegistry();
+      return pinnedResult;
+    } catch (error) {
+      console.warn(`⚠️ Pinned version ${state.activeVersionId} unusable, activating ${entry.id}:`, error);
+    }
+  }
+
+  setActiveModel(model, entry);
+  if (persisted) {
+    await setActiveState({ activeVersionId: entry.id, pinned: false });
+    await pruneRegistry();
+  }
+  return { version: entry.id, metrics };
+}
+
+/**
+ * Makes a registered version the active one, optionally pinning it
+ */
+export async function activateVersion(versionId: string, pinned: boolean): Promise<TrainResult> {
+  const entry = await getRegisteredVersion(versionId);
+  if (!entry) {
+    throw new Error(`Model version ${versionId} is not registered`);
+  }
+
+  if (versionId !== activeVersionId || !trainedModel) {
+    setActiveModel(await loadRegisteredModel(entry), entry);
+  }
+  await setActiveState({ activeVersionId: entry.id, pinned });
+  console.log(`${pinned ? '📌' : '⏪'} Active model version set to ${entry.id}`);
+
+  return { version: entry.id, metrics: entry.metrics };
+}
+
+/**
+ * Lists registered versions together with the active pointer
+ */
+export async function getRegistrySnapshot(): Promise<ModelRegistrySnapshot> {
+  const [entries, state] = await Promise.all([listRegisteredVersions(), getActiveState()]);
+  return { ...state, entries, currentArchitectureVersion: CURRENT_MODEL_VERSION };
+}
+
+/**
+ * Stress logit of the active version after temperature scaling
+ */
+function calibratedLogit(rawProbability: number): number {
+  const p = Math.min(Math.max(rawProbability, 1e-6), 1 - 1e-6);
+  return Math.log(p / (1 - p)) / activeTemperature;
+}
+
+/**
+ * Lazily builds the sub-model that outputs the shared trunk activations
+ */
+function getTrunkModel(): tf.LayersModel {
+  if (!trunkModel) {
+    trunkModel = tf.model({
+      inputs: trainedModel.inputs,
+      outputs: trainedModel.getLayer('hidden_layer_2').output as tf.SymbolicTensor,
+      name: 'mood_model_trunk'
+    });
+  }
+  return trunkModel;
+}
+
+/**
+ * Fits a user's personal head on their corrections: the shared model's calibrated stress logit
+ * plus a linear term on the trunk activations, trained with an L2 penalty from zero weights
+ */
+async function fitPersonalHead(userId: string, examples: PersonalExample[]): Promise<PersonalHead> {
+  const inputs = createModelInputs(examples.map(example => ({ text: example.text, mood: example.moodLevel })), activeVocabularyIndex);
+  const trunkActivations = getTrunkModel().predict(inputs) as tf.Tensor2D;
+  const [stressPredictions, emotionPredictions] = trainedModel.predict(inputs) as tf.Tensor[];
+  const baseLogits = tf.tensor2d(Array.from(await stressPredictions.data()).map(calibratedLogit), [examples.length, 1]);
+  const labels = tf.tensor2d(examples.map(example => example.label), [examples.length, 1]);
+
+  const kernel = tf.tidy(() => tf.variable(tf.zeros([trunkActivations.shape[1], 1])));
+  const bias = tf.tidy(() => tf.variable(tf.scalar(0)));
+  const optimizer = tf.train.adam(PERSONAL_HEAD_LEARNING_RATE);
+
+  try {
+    for (let step = 0; step < PERSONAL_HEAD_STEPS; step++) {
+      optimizer.minimize(() => {
+        const logits = baseLogits.add(trunkActivations.matMul(kernel)).add(bias);
+        return tf.losses.sigmoidCrossEntropy(labels, logits).add(kernel.square().sum().mul(PERSONAL_HEAD_L2)) as tf.Scalar;
+      });
+    }
+
+    console.log(`👤 Personal head fitted on ${examples.length} corrections`);
+    return {
+      userId,
+      versionId: activeVersionId,
+      exampleCount: examples.length,
+      latestExampleAt: getLatestExampleAt(examples),
+      kernel: Array.from(await kernel.data()),
+      bias: (await bias.data())[0]
+    };
+  } finally {
+    inputs.forEach(tensor => tensor.dispose());
+    [trunkActivations, stressPredictions, emotionPredictions, baseLogits, labels, kernel, bias].forEach(tensor => tensor.dispose());
+    optimizer.dispose();
+  }
+}
+
+const getLatestExampleAt = (examples: PersonalExample[]): string =>
+  examples.reduce((latest, example) => (example.createdAt > latest ? example.createdAt : latest), '');
+
+/**
+ * Returns the user's personal head for the active version, refitting it when the version or
+ * the stored corrections changed; null when the user has no corrections
+ */
+async function getPersonalHead(userId: string): Promise<PersonalHead | null> {
+  const examples = await listPersonalExamples(userId).catch(() => [] as PersonalExample[]);
+
+  if (examples.length === 0) {
+    personalHead = null;
+    return null;
+  }
+
+  const isCurrent = personalHead?.userId === userId
+    && personalHead.versionId === activeVersionId
+    && personalHead.exampleCount === examples.length
+    && personalHead.latestExampleAt === getLatestExampleAt(examples);
+  if (!isCurrent) {
+    personalHead = await fitPersonalHead(userId, examples);
+  }
+  return personalHead;
+}
+
+/**
+ * Stores a correction on-device and refits the user's personal head if a model is loaded
+ */
+export async function addCorrection(example: Omit<PersonalExample, 'id' | 'createdAt'>): Promise<PersonalizationStatus> {
+  await addPersonalExample({
+    ...example,
+    id: `${example.userId}:${example.moodLogId}`,
+    createdAt: new Date().toISOString()
+  });
+  if (personalHead?.userId === example.userId) {
+    personalHead = null;
+  }
+  return getPersonalizationStatus(example.userId);
+}
+
+/**
+ * Reports how many corrections a user's personal head uses, fitting it if needed
+ */
+export async function getPersonalizationStatus(userId: string): Promise<PersonalizationStatus> {
+  if (trainedModel) {
+    const head = await getPersonalHead(userId);
+    return { userId, exampleCount: head?.exampleCount ?? 0 };
+  }
+
+  const examples = await listPersonalExamples(userId);
+  return { userId, exampleCount: examples.length };
+}
+
+/**
+ * Deletes a user's corrections from this device and drops their personal head
+ */
+export async function resetPersonalization(userId: string): Promise<PersonalizationStatus> {
+  await clearPersonalExamples(userId);
+  if (personalHead?.userId === userId) {
+    personalHead = null;
+  }
+  console.log('🗑️ Personal corrections removed from this device');
+  return { userId, exampleCount: 0 };
+}
+
+/**
+ * Attributes the stress probability to the 15 feature slots by occlusion: each slot is
+ * zeroed in turn, with the token sequence unchanged, and the drop in stress probability
+ * becomes its contribution.
+ */
+async function explainPrediction(
+  model: tf.LayersModel,
+  text: string,
+  pooledTokens: number[],
+  features: number[],
+  stressProbability: number
+): Promise<PredictionExplanation> {
+  const occludedRows = features.map((_, slot) => features.map((value, i) => (i === slot ? 0 : value)));
+  const occludedInput = [
+    tf.tensor2d(occludedRows.map(() => pooledTokens)),
+    tf.tensor2d(occludedRows, [FEATURE_VECTOR_LENGTH, FEATURE_VECTOR_LENGTH])
+  ];
+  const outputs = model.predict(occludedInput) as tf.Tensor[];
+
+  try {
+    const occludedStress = await outputs[0].data();
+
+    const attributions: FeatureAttribution[] = features
+      .map((value, featureIndex) => ({
+        featureIndex,
+        feature: FEATURE_DEFINITIONS[featureIndex].name,
+        value: Math.round(value * 100) / 100,
+        contribution: Math.round((stressProbability - occludedStress[featureIndex]) * 1000) / 1000
+      }))
+      .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+
+    return { attributions, matchedKeywords: findMatchedKeywords(text) };
+  } finally {
+    occludedInput.forEach(tensor => tensor.dispose());
+    outputs.forEach(tensor => tensor.dispose());
+  }
+}
+
+/**
+ * Predicts mood sentiment, stress level and the ranked emotion distribution with the cached model.
+ * Callers must train (or load) the model first; modelAccuracy is filled in by the main thread.
+ * @param {boolean} explain - Also compute per-feature attributions and matched keywords
+ * @param {string} userId - Apply this user's personal head when they have corrections
+ */
+export async function predictMood(text = '', moodLevel = '3', explain = false, userId?: string): Promise<PredictionResult> {
+  if (!trainedModel) {
+    throw new Error('Mood model is not trained yet');
+  }
+
+  let inputTensors: tf.Tensor[] = [];
+  let predictions: tf.Tensor[] = [];
+  
+  try {
+    const pooledTokens = poolTokenIds(encodeText(text, activeVocabularyIndex), activeVocabulary.length);
+    const features = createFeatureVector(text, moodLevel);
+    inputTensors = [
+      tf.tensor2d([pooledTokens]),
+      tf.tensor2d([features], [1, FEATURE_VECTOR_LENGTH])
+    ];
+
+    predictions = trainedModel.predict(inputTensors) as tf.Tensor[];
+    const [stressPrediction, emotionPrediction] = predictions;
+    const predictionValue = await stressPrediction.data();
+    const emotionValues = await emotionPrediction.data();
+    
+    const rawProbability = predictionValue[0];
+    // Temperature-scaled stress probability of the active version
+    let stressProbability = applyTemperature(rawProbability, activeTemperature);
+
+    const head = userId ? await getPersonalHead(userId) : null;
+    if (head) {
+      const trunkActivations = getTrunkModel().predict(inputTensors) as tf.Tensor;
+      const activations = await trunkActivations.data();
+      trunkActivations.dispose();
+      const adjustment = head.kernel.reduce((sum, weight, i) => sum + weight * activations[i], head.bias);
+      stressProbability = 1 / (1 + Math.exp(-(calibratedLogit(rawProbability) + adjustment)));
+    }
+    
+    let sentiment: string;
+    let sentimentPolarity: number;
+    
+    if (stressProbability < 0.2) {
+      sentiment = 'very positive';
+      sentimentPolarity = 1.0;
+    } else if (stressProbability < 0.4) {
+      sentiment = 'positive';
+      sentimentPolarity = 0.7;
+    } else if (stressProbability < 0.6) {
+      sentiment = 'moderate stress';
+      sentimentPolarity = 0.3;
+    } else if (stressProbability < 0.8) {
+      sentiment = 'high stress detected';
+      sentimentPolarity = -0.3;
+    } else {
+      sentiment = 'severe stress detected';
+      sentimentPolarity = -1.0;
+    }
+    
+    let stressLevel: number;
+    const moodLevelNum = parseInt(moodLevel);
+    
+    const combinedScore = (stressProbability * 0.7) + ((5 - moodLevelNum) / 5 * 0.3);
+    
+    if (combinedScore < 0.2) {
+      stressLevel = 1;
+    } else if (combinedScore < 0.4) {
+      stressLevel = 2;
+    } else if (combinedScore < 0.6) {
+      stressLevel = 3;
+    } else if (combinedScore < 0.8) {
+      stressLevel = 4;
+    } else {
+      stressLevel = 5;
+    }
+    
+    // Calibrated probability that the predicted class (stress or not) is correct
+    const confidence = Math.max(stressProbability, 1 - stressProbability);
+
+    // Ranked emotion distribution from the softmax head
+    const emotions: EmotionScore[] = EMOTION_LABELS
+      .map((emotion, i) => ({ emotion, probability: Math.round(emotionValues[i] * 100) / 100 }))
+      .sort((a, b) => b.probability - a.probability);
+
+    const result: PredictionResult = {
+      sentiment,
+      confidence: Math.round(confidence * 100) / 100,
+      stressLevel,
+      stressProbability: Math.round(stressProbability * 100) / 100,
+      sentimentPolarity: Math.round(sentimentPolarity * 100) / 100,
+      emotions,
+      dominantEmotion: emotions[0].emotion,
+      modelVersion: activeVersionId,
+      personalized: head !== null
+    };
+
+    if (explain) {
+      result.explanation = await explainPrediction(trainedModel, text, pooledTokens, features, rawProbability);
+    }
+
+    if (process.env.NODE_ENV === 'development') {
+      console.log(`🎯 Enhanced mood prediction:`, result);
+      console.log(`📊 Features used:`, features.map(f => f.toFixed(2)).join(', '));
+    }
+
+    return result;
+  } finally {
+    inputTensors.forEach(tensor => tensor.dispose());
+    predictions.forEach(tensor => tensor.dispose());
+  }
+}
+
+/**
+ * Disposes the cached model and removes every registered version
+ */
+export async function clearModel(): Promise<void> {
+  if (trainedModel) {
+    try {
+      trainedModel.dispose();
+      console.log('🗑️ Cached model disposed successfully');
+    } catch (error) {
+      console.warn('⚠️ Error disposing cached model:', error);
+    }
+    trainedModel = null;
+  }
+  activeVersionId = null;
+  activeTemperature = 1;
+  activeVocabulary = [];
+  activeVocabularyIndex = new Map();
+  trunkModel = null;
+  personalHead = null;
+  
+  try {
+    const entries = await listRegisteredVersions();
+    for (const entry of entries.filter(entry => !entry.artifactUrl)) {
+      await tf.io.removeModel(getVersionStorageKey(entry.id)).catch(() => undefined);
+    }
+    await clearRegistry();
+    console.log(`🗑️ ${entries.length} registered model versions removed`);
+  } catch (error) {
+    // Nothing persisted yet - not an error
+    console.log('ℹ️ No persisted model weights to remove');
+  }
+  
+  const memoryInfo = tf.memory();
+  console.log(`🧠 Memory after cleanup: ${memoryInfo.numTensors} tensors, ${(memoryInfo.numBytes / 1024 / 1024).toFixed(2)} MB`);
+}
+
+/**
+ * Reports the runtime state of the worker-side model
+ */
+export function getRuntimeStatus(): WorkerRuntimeStatus {
+  return {
+    isModelCached: trainedModel !== null,
+    activeVersionId,
+    backend: tf.getBackend(),
+    memoryInfo: tf.memory(),
+    modelParams: trainedModel?.countParams(),
+    personalUserId: personalHead?.userId ?? null,
+    personalExampleCount: personalHead?.exampleCount ?? 0
+  };
+}
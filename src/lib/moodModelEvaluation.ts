@@ -0,0 +1,226 @@
+import type {
+  CalibrationBin,
+  CategoryAccuracy,
+  ModelCalibration,
+  ModelEvaluation,
+  RocPoint
+} from './moodModelProtocol';
+
+// Evaluation report for the stress head, computed from held-out test predictions.
+// Pure functions so the report can be rebuilt from stored probabilities anywhere.
+
+const DECISION_THRESHOLD = 0.5;
+const CALIBRATION_BIN_COUNT = 10;
+
+// Candidate temperatures searched when fitting calibration. The range is bounded so a
+// separable validation split cannot drive the temperature towards zero.
+const MIN_TEMPERATURE = 0.25;
+const MAX_TEMPERATURE = 5;
+const TEMPERATURE_STEP = 0.05;
+const PROBABILITY_EPSILON = 1e-6;
+
+const round = (value: number, digits = 4) => Number(value.toFixed(digits));
+
+const clampProbability = (p: number) => Math.min(Math.max(p, PROBABILITY_EPSILON), 1 - PROBABILITY_EPSILON);
+
+/**
+ * Builds ROC points by sweeping the decision threshold over every distinct probability
+ */
+function computeRocCurve(probabilities: number[], labels: number[]): { points: RocPoint[]; auc: number } {
+  const positives = labels.filter(label => label === 1).length;
+  const negatives = labels.length - positives;
+  const thresholds = Array.from(new Set(probabilities)).sort((a, b) => b - a);
+
+  const points: RocPoint[] = [{ threshold: 1, fpr: 0, tpr: 0 }];
+  thresholds.forEach(threshold => {
+    let tp = 0, fp = 0;
+    probabilities.forEach((p, i) => {
+      if (p >= threshold) {
+        if (labels[i] === 1) tp++;
+        else fp++;
+      }
+    });
+    points.push({
+      threshold: round(threshold),
+      fpr: negatives > 0 ? round(fp / negatives) : 0,
+      tpr: positives > 0 ? round(tp / positives) : 0
+    });
+  });
+  points.push({ threshold: 0, fpr: 1, tpr: 1 });
+
+  // Trapezoidal area under the curve
+  let auc = 0;
+  for (let i = 1; i < points.length; i++) {
+    auc += (points[i].fpr - points[i - 1].fpr) * (points[i].tpr + points[i - 1].tpr) / 2;
+  }
+
+  return { points, auc: round(auc) };
+}
+
+/**
+ * Groups predictions into equal-width probability bins and compares mean prediction with the observed stress rate
+ */
+export function computeCalibrationBins(probabilities: number[], labels: number[], binCount = CALIBRATION_BIN_COUNT): CalibrationBin[] {
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    binStart: i / binCount,
+    binEnd: (i + 1) / binCount,
+    total: 0,
+    positives: 0,
+    count: 0
+  }));
+
+  probabilities.forEach((p, i) => {
+    const bin = bins[Math.min(Math.floor(p * binCount), binCount - 1)];
+    bin.total += p;
+    bin.positives += labels[i];
+    bin.count++;
+  });
+
+  return bins
+    .filter(bin => bin.count > 0)
+    .map(bin => ({
+      binStart: round(bin.binStart, 2),
+      binEnd: round(bin.binEnd, 2),
+      meanPredicted: round(bin.total / bin.count),
+      observedRate: round(bin.positives / bin.count),
+      count: bin.count
+    }));
+}
+
+/**
+ * Computes the full evaluation report for the stress head on a held-out split
+ * @param {number[]} probabilities - Predicted stress probabilities
+ * @param {number[]} labels - Ground-truth labels (1 = stress)
+ * @param {string[]} categories - TrainingDataEntry.category of each example
+ */
+export function evaluateStressPredictions(
+  probabilities: number[],
+  labels: number[],
+  categories: string[]
+): ModelEvaluation {
+  let tp = 0, tn = 0, fp = 0, fn = 0;
+  const categoryStats: Record<string, { correct: number; count: number }> = {};
+
+  probabilities.forEach((p, i) => {
+    const predicted = p > DECISION_THRESHOLD ? 1 : 0;
+    const label = labels[i];
+
+    if (label === 1 && predicted === 1) tp++;
+    else if (label === 0 && predicted === 0) tn++;
+    else if (label === 0 && predicted === 1) fp++;
+    else fn++;
+
+    const category = categories[i] || 'general';
+    categoryStats[category] = categoryStats[category] || { correct: 0, count: 0 };
+    categoryStats[category].count++;
+    if (predicted === label) categoryStats[category].correct++;
+  });
+
+  const precision = tp / (tp + fp) || 0;
+  const recall = tp / (tp + fn) || 0;
+  const f1Score = 2 * (precision * recall) / (precision + recall) || 0;
+
+  const categoryAccuracy: CategoryAccuracy[] = Object.entries(categoryStats)
+    .map(([category, stats]) => ({
+      category,
+      accuracy: round(stats.correct / stats.count),
+      count: stats.count
+    }))
+    .sort((a, b) => a.category.localeCompare(b.category));
+
+  const roc = computeRocCurve(probabilities, labels);
+
+  return {
+    testSize: labels.length,
+    accuracy: labels.length > 0 ? round((tp + tn) / labels.length) : 0,
+    confusionMatrix: [[tn, fp], [fn, tp]],
+    precision: round(precision),
+    recall: round(recall),
+    f1Score: round(f1Score),
+    categoryAccuracy,
+    rocPoints: roc.points,
+    auc: roc.auc,
+    calibrationBins: computeCalibrationBins(probabilities, labels),
+    evaluatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Rescales a sigmoid probability by dividing its logit by the temperature
+ */
+export function applyTemperature(probability: number, temperature: number): number {
+  if (temperature === 1) return probability;
+  const p = clampProbability(probability);
+  const logit = Math.log(p / (1 - p));
+  return 1 / (1 + Math.exp(-logit / temperature));
+}
+
+/**
+ * Finds the temperature minimising the negative log-likelihood of the labels
+ * @param {number[]} probabilities - Uncalibrated stress probabilities on the validation split
+ * @param {number[]} labels - Ground-truth labels (1 = stress)
+ */
+export function fitTemperature(probabilities: number[], labels: number[]): number {
+  if (probabilities.length === 0) return 1;
+
+  let bestTemperature = 1;
+  let bestLoss = Infinity;
+
+  for (let t = MIN_TEMPERATURE; t <= MAX_TEMPERATURE + 1e-9; t += TEMPERATURE_STEP) {
+    const loss = probabilities.reduce((sum, p, i) => {
+      const calibrated = clampProbability(applyTemperature(p, t));
+      return sum - (labels[i] === 1 ? Math.log(calibrated) : Math.log(1 - calibrated));
+    }, 0);
+
+    if (loss < bestLoss) {
+      bestLoss = loss;
+      bestTemperature = t;
+    }
+  }
+
+  return round(bestTemperature, 2);
+}
+
+/**
+ * Expected calibration error: bin gaps between predicted and observed rates, weighted by bin size
+ */
+export function computeExpectedCalibrationError(bins: CalibrationBin[]): number {
+  const total = bins.reduce((sum, bin) => sum + bin.count, 0);
+  if (total === 0) return 0;
+
+  return round(bins.reduce((sum, bin) => sum + Math.abs(bin.meanPredicted - bin.observedRate) * bin.count / total, 0));
+}
+
+/**
+ * Fits temperature scaling on the validation split and measures reliability on a held-out split
+ * @param {number[]} validationProbabilities - Uncalibrated validation predictions used for fitting
+ * @param {number[]} validationLabels - Validation labels
+ * @param {number[]} heldOutProbabilities - Uncalibrated predictions for the reliability diagram
+ * @param {number[]} heldOutLabels - Labels for the reliability diagram
+ * @param {'test' | 'validation'} reliabilitySplit - Which split the held-out predictions come from
+ */
+export function calibrateStressPredictions(
+  validationProbabilities: number[],
+  validationLabels: number[],
+  heldOutProbabilities: number[],
+  heldOutLabels: number[],
+  reliabilitySplit: 'test' | 'validation'
+): ModelCalibration {
+  const temperature = fitTemperature(validationProbabilities, validationLabels);
+  const uncalibratedBins = computeCalibrationBins(heldOutProbabilities, heldOutLabels);
+  const calibratedBins = computeCalibrationBins(
+    heldOutProbabilities.map(p => applyTemperature(p, temperature)),
+    heldOutLabels
+  );
+
+  return {
+    method: 'temperature',
+    temperature,
+    fittedOn: validationProbabilities.length,
+    reliabilitySplit,
+    uncalibratedBins,
+    calibratedBins,
+    uncalibratedEce: computeExpectedCalibrationError(uncalibratedBins),
+    calibratedEce: computeExpectedCalibrationError(calibratedBins)
+  };
+}
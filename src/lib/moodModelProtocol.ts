@@ -0,0 +1,220 @@
+import type { MemoryInfo } from '@tensorflow/tfjs';
+import type { EmotionLabel } from './moodTrainingData';
+import type { MatchedKeyword } from './moodFeatures';
+
+// Shared contract between the main-thread client (moodModel.ts) and the
+// inference worker (moodModel.worker.ts). Nothing in here may import
+// TensorFlow.js at runtime - type-only imports are fine.
+
+export const CURRENT_MODEL_VERSION = '6.0'; // Token embedding plus hand-crafted features, stress and emotion heads
+
+// One point on the stress head's ROC curve
+export interface RocPoint {
+  threshold: number;
+  fpr: number;
+  tpr: number;
+}
+
+// Predicted vs. observed stress rate within one probability bin
+export interface CalibrationBin {
+  binStart: number;
+  binEnd: number;
+  meanPredicted: number;
+  observedRate: number;
+  count: number;
+}
+
+// Stress accuracy for one TrainingDataEntry.category
+export interface CategoryAccuracy {
+  category: string;
+  accuracy: number;
+  count: number;
+}
+
+// Full evaluation of the stress head on the held-out test split
+export interface ModelEvaluation {
+  testSize: number;
+  accuracy: number;
+  confusionMatrix: number[][]; // [[tn, fp], [fn, tp]]
+  precision: number;
+  recall: number;
+  f1Score: number;
+  categoryAccuracy: CategoryAccuracy[];
+  rocPoints: RocPoint[];
+  auc: number;
+  calibrationBins: CalibrationBin[];
+  evaluatedAt: string;
+}
+
+// Temperature scaling of the stress head, fitted on the validation split
+export interface ModelCalibration {
+  method: 'temperature';
+  temperature: number; // Divides the stress logit; 1 leaves probabilities unchanged
+  fittedOn: number; // Validation examples used to fit the temperature
+  reliabilitySplit: 'test' | 'validation'; // Split the reliability bins were computed on
+  uncalibratedBins: CalibrationBin[];
+  calibratedBins: CalibrationBin[];
+  uncalibratedEce: number; // Expected calibration error before scaling
+  calibratedEce: number;
+}
+
+// Interface for stored model metrics
+export interface StoredModelMetrics {
+  trainingAccuracy: number;
+  validationAccuracy: number;
+  testAccuracy?: number;
+  emotionAccuracy?: number;
+  trainingLoss: number;
+  trainingDataSize: number;
+  augmentedDataSize: number;
+  modelParams: number;
+  lastTrainingDate: string;
+  evaluation?: ModelEvaluation; // Absent when the test split was empty
+  calibration?: ModelCalibration; // Absent for versions trained before calibration existed
+}
+
+// Probability assigned to one emotion by the softmax head
+export interface EmotionScore {
+  emotion: EmotionLabel;
+  probability: number;
+}
+
+// Contribution of one feature slot to the stress probability, measured by occlusion
+export interface FeatureAttribution {
+  featureIndex: number;
+  feature: string;
+  value: number;
+  contribution: number; // Positive values pushed the prediction towards stress
+}
+
+// Why the model produced a prediction
+export interface PredictionExplanation {
+  attributions: FeatureAttribution[]; // Sorted by absolute contribution
+  matchedKeywords: MatchedKeyword[];
+}
+
+// Interface for prediction results
+export interface PredictionResult {
+  sentiment: string; // 'uncertain' when the prediction abstained
+  confidence: number; // Calibrated probability that the predicted stress class is correct
+  stressLevel: number;
+  stressProbability?: number; // Calibrated probability of stress
+  abstained?: boolean; // Confidence fell below the configured abstain threshold
+  modelAccuracy?: number;
+  sentimentPolarity?: number;
+  emotions?: EmotionScore[]; // Ranked from most to least likely
+  dominantEmotion?: EmotionLabel;
+  explanation?: PredictionExplanation; // Only present when requested
+  modelVersion?: string; // Registry id of the model that produced the prediction
+  personalized?: boolean; // The user's personal head adjusted the stress probability
+}
+
+// Per-epoch progress reported while the worker is fitting the model
+export interface TrainingProgress {
+  epoch: number;
+  totalEpochs: number;
+  loss?: number;
+  accuracy?: number;
+}
+
+// Metadata for one trained version in the model registry
+export interface ModelRegistryEntry {
+  id: string;
+  architectureVersion: string; // CURRENT_MODEL_VERSION at training time; only matching versions can be loaded
+  createdAt: string;
+  metrics: StoredModelMetrics | null;
+  vocabulary?: string[]; // Token ids of the embedding layer; absent for architectures before v6.0
+  artifactUrl?: string; // Set for the pre-trained artifact served from public/; local versions live in IndexedDB
+}
+
+// metadata.json written next to the pre-trained artifact by train-mood-model.js
+export interface BundledModelMetadata {
+  versionId: string;
+  architectureVersion: string;
+  seed: number;
+  metrics: StoredModelMetrics;
+  vocabulary: string[];
+}
+
+// Which registered version serves predictions
+export interface ModelRegistryState {
+  activeVersionId: string | null;
+  pinned: boolean; // Pinned versions are not replaced when a newer version is trained
+}
+
+export interface ModelRegistrySnapshot extends ModelRegistryState {
+  entries: ModelRegistryEntry[];
+  currentArchitectureVersion: string;
+}
+
+// A user's "this isn't right" correction, kept on-device to fine-tune their personal head
+export interface PersonalExample {
+  id: string; // userId and moodLogId, so re-correcting a log replaces the example
+  userId: string;
+  moodLogId: string;
+  text: string;
+  moodLevel: string;
+  label: number; // 1 = stressed, 0 = not stressed
+  createdAt: string;
+}
+
+// How many corrections a user's personal head is trained on
+export interface PersonalizationStatus {
+  userId: string;
+  exampleCount: number;
+}
+
+// Runtime state that only the worker can observe
+export interface WorkerRuntimeStatus {
+  isModelCached: boolean;
+  activeVersionId: string | null;
+  backend: string;
+  memoryInfo: MemoryInfo;
+  modelParams?: number;
+  personalUserId?: string | null; // User whose personal head was used last
+  personalExampleCount?: number;
+}
+
+// Active version after a train or activate request, with its recorded metrics
+export interface TrainResult {
+  version: string | null;
+  metrics: StoredModelMetrics | null;
+}
+
+export type MoodModelRequest =
+  | { id: number; type: 'train'; forceNew: boolean }
+  | { id: number; type: 'predict'; text: string; moodLevel: string; explain: boolean; userId?: string }
+  | { id: number; type: 'status' }
+  | { id: number; type: 'clear' }
+  | { id: number; type: 'list' }
+  | { id: number; type: 'activate'; versionId: string; pinned: boolean }
+  | { id: number; type: 'correct'; example: Omit<PersonalExample, 'id' | 'createdAt'> }
+  | { id: number; type: 'personalStatus'; userId: string }
+  | { id: number; type: 'resetPersonal'; userId: string };
+
+export type MoodModelRequestType = MoodModelRequest['type'];
+
+export interface MoodModelResultMap {
+  train: TrainResult;
+  predict: PredictionResult;
+  status: WorkerRuntimeStatus;
+  clear: WorkerRuntimeStatus;
+  list: ModelRegistrySnapshot;
+  activate: TrainResult;
+  correct: PersonalizationStatus;
+  personalStatus: PersonalizationStatus;
+  resetPersonal: PersonalizationStatus;
+}
+
+export type MoodModelResponse =
+  | { id: number; kind: 'progress'; progress: TrainingProgress }
+  | {
+      [K in MoodModelRequestType]: {
+        id: number;
+        kind: 'result';
+        type: K;
+        result: MoodModelResultMap[K];
+        status: WorkerRuntimeStatus;
+      };
+    }[MoodModelRequestType]
+  | { id: number; kind: 'error'; message: string; status: WorkerRuntimeStatus };
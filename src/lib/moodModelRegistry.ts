@@ -0,0 +1,167 @@
+import type { ModelRegistryEntry, ModelRegistryState, PersonalExample } from './moodModelProtocol';
+
+// IndexedDB-backed registry of trained mood model versions. Only metadata
+// lives here; the weights of each version are saved by TensorFlow.js under
+// the storage key returned by getVersionStorageKey(). The same database keeps
+// each user's corrections for the on-device personal head; they never leave
+// the browser.
+
+const REGISTRY_DB_NAME = 'mood-model-registry';
+const REGISTRY_DB_VERSION = 2;
+const VERSIONS_STORE = 'versions';
+const STATE_STORE = 'state';
+const PERSONAL_STORE = 'personal';
+const PERSONAL_USER_INDEX = 'userId';
+const ACTIVE_STATE_KEY = 'active';
+
+export const MAX_REGISTERED_VERSIONS = 5;
+
+const DEFAULT_STATE: ModelRegistryState = { activeVersionId: null, pinned: false };
+
+/**
+ * Opens (and on first use creates) the registry database
+ */
+function openRegistry(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(REGISTRY_DB_NAME, REGISTRY_DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(VERSIONS_STORE)) {
+        db.createObjectStore(VERSIONS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STATE_STORE)) {
+        db.createObjectStore(STATE_STORE);
+      }
+      if (!db.objectStoreNames.contains(PERSONAL_STORE)) {
+        const personal = db.createObjectStore(PERSONAL_STORE, { keyPath: 'id' });
+        personal.createIndex(PERSONAL_USER_INDEX, 'userId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs a single request against one object store and resolves once the transaction commits
+ */
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openRegistry();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * TensorFlow.js storage key holding the weights of a registered version
+ */
+export function getVersionStorageKey(versionId: string): string {
+  return `indexeddb://mood-model/${versionId}`;
+}
+
+/**
+ * Builds a unique version id from the architecture version and the training time
+ */
+export function createVersionId(architectureVersion: string, trainedAt = new Date()): string {
+  return `${architectureVersion}-${trainedAt.toISOString().replace(/[-:.TZ]/g, '').slice(0, 14)}`;
+}
+
+/**
+ * Lists all registered versions, newest first
+ */
+export async function listRegisteredVersions(): Promise<ModelRegistryEntry[]> {
+  const entries = await withStore<ModelRegistryEntry[]>(VERSIONS_STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Looks up a single registered version
+ */
+export async function getRegisteredVersion(versionId: string): Promise<ModelRegistryEntry | null> {
+  const entry = await withStore<ModelRegistryEntry | undefined>(VERSIONS_STORE, 'readonly', store => store.get(versionId));
+  return entry || null;
+}
+
+/**
+ * Adds or replaces a version's metadata
+ */
+export async function registerVersion(entry: ModelRegistryEntry): Promise<void> {
+  await withStore(VERSIONS_STORE, 'readwrite', store => store.put(entry));
+}
+
+/**
+ * Removes a version's metadata (its weights must be removed separately)
+ */
+export async function unregisterVersion(versionId: string): Promise<void> {
+  await withStore(VERSIONS_STORE, 'readwrite', store => store.delete(versionId));
+}
+
+/**
+ * Reads which version is active and whether an admin pinned it
+ */
+export async function getActiveState(): Promise<ModelRegistryState> {
+  const state = await withStore<ModelRegistryState | undefined>(STATE_STORE, 'readonly', store => store.get(ACTIVE_STATE_KEY));
+  return state || DEFAULT_STATE;
+}
+
+/**
+ * Records the active version and its pin flag
+ */
+export async function setActiveState(state: ModelRegistryState): Promise<void> {
+  await withStore(STATE_STORE, 'readwrite', store => store.put(state, ACTIVE_STATE_KEY));
+}
+
+/**
+ * Drops all version metadata and the active pointer
+ */
+export async function clearRegistry(): Promise<void> {
+  await withStore(VERSIONS_STORE, 'readwrite', store => store.clear());
+  await withStore(STATE_STORE, 'readwrite', store => store.clear());
+}
+
+/**
+ * Stores a user's correction; correcting the same mood log again replaces the earlier example
+ */
+export async function addPersonalExample(example: PersonalExample): Promise<void> {
+  await withStore(PERSONAL_STORE, 'readwrite', store => store.put(example));
+}
+
+/**
+ * Lists one user's corrections, oldest first
+ */
+export async function listPersonalExamples(userId: string): Promise<PersonalExample[]> {
+  const examples = await withStore<PersonalExample[]>(
+    PERSONAL_STORE,
+    'readonly',
+    store => store.index(PERSONAL_USER_INDEX).getAll(userId)
+  );
+  return examples.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Removes all of one user's corrections
+ */
+export async function clearPersonalExamples(userId: string): Promise<void> {
+  const keys = await withStore<IDBValidKey[]>(
+    PERSONAL_STORE,
+    'readonly',
+    store => store.index(PERSONAL_USER_INDEX).getAllKeys(userId)
+  );
+  for (const key of keys) {
+    await withStore(PERSONAL_STORE, 'readwrite', store => store.delete(key));
+  }
+}
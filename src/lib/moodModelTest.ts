@@ -1,7 +1,7 @@
 // Test script for TensorFlow.js mood analysis
 // This file demonstrates how the mood analysis works
 
-import { createMoodModel, trainModel, predictMood, getModelStatus } from './moodModel';
+import { trainModel, predictMood, getModelStatus } from './moodModel';
 
 /**
  * Test the mood analysis functionality
@@ -0,0 +1,61 @@
+import type { MoodLevel } from '@shared/moodDomain';
+
+// The nine moods offered at check-in. mood_logs keeps the 1-5 level for analytics and
+// stores the picked name with its valence/arousal coordinates next to it (circumplex
+// model, both from -1 to 1). The name-to-level pairs are enforced by the
+// mood_logs_mood_name_level_check constraint; keep the two in sync.
+
+export const MOOD_NAMES = [
+  'devastated',
+  'stressed',
+  'sad',
+  'worried',
+  'neutral',
+  'content',
+  'happy',
+  'excited',
+  'euphoric'
+] as const;
+
+export type MoodName = typeof MOOD_NAMES[number];
+
+export interface MoodDefinition {
+  name: MoodName;
+  label: string;
+  emoji: string;
+  level: MoodLevel;
+  valence: number; // -1 unpleasant to 1 pleasant
+  arousal: number; // -1 low energy to 1 high energy
+}
+
+export const MOOD_DEFINITIONS: Record<MoodName, MoodDefinition> = {
+  devastated: { name: 'devastated', label: 'Devastated', emoji: '😭', level: '1', valence: -0.9, arousal: 0.5 },
+  stressed: { name: 'stressed', label: 'Stressed', emoji: '😰', level: '2', valence: -0.6, arousal: 0.7 },
+  sad: { name: 'sad', label: 'Sad', emoji: '😢', level: '2', valence: -0.7, arousal: -0.5 },
+  worried: { name: 'worried', label: 'Worried', emoji: '😟', level: '3', valence: -0.4, arousal: 0.4 },
+  neutral: { name: 'neutral', label: 'Neutral', emoji: '😐', level: '3', valence: 0, arousal: 0 },
+  content: { name: 'content', label: 'Content', emoji: '😌', level: '4', valence: 0.6, arousal: -0.4 },
+  happy: { name: 'happy', label: 'Happy', emoji: '😊', level: '4', valence: 0.7, arousal: 0.3 },
+  excited: { name: 'excited', label: 'Excited', emoji: '😄', level: '5', valence: 0.7, arousal: 0.8 },
+  euphoric: { name: 'euphoric', label: 'Euphoric', emoji: '🤩', level: '5', valence: 0.9, arousal: 0.9 }
+};
+
+export function isMoodName(value: unknown): value is MoodName {
+  return typeof value === 'string' && (MOOD_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Definition of a stored mood name; older check-ins only have a level and return undefined
+ */
+export function getMoodDefinition(name: string | null | undefined): MoodDefinition | undefined {
+  return isMoodName(name) ? MOOD_DEFINITIONS[name] : undefined;
+}
+
+/**
+ * Plain-language reading of valence/arousal coordinates, e.g. "Unpleasant · High energy"
+ */
+export function describeMoodCoordinates(valence: number, arousal: number): string {
+  const pleasantness = valence > 0.2 ? 'Pleasant' : valence < -0.2 ? 'Unpleasant' : 'Neither pleasant nor unpleasant';
+  const energy = arousal > 0.2 ? 'High energy' : arousal < -0.2 ? 'Low energy' : 'Steady energy';
+  return `${pleasantness} · ${energy}`;
+}
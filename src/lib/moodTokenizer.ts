@@ -0,0 +1,128 @@
+// Tokenizer and vocabulary for the mood model's token-sequence input. Kept free
+// of TensorFlow.js, like moodFeatures.ts, so the keyword features can share the
+// same word boundaries and negation handling.
+
+export const MAX_SEQUENCE_LENGTH = 64;
+export const MAX_VOCABULARY_SIZE = 2000;
+
+// Reserved ids at the start of every vocabulary
+export const PAD_TOKEN = '<pad>';
+export const OOV_TOKEN = '<oov>';
+export const PAD_INDEX = 0;
+export const OOV_INDEX = 1;
+
+// Prefix marking tokens inside a negation scope ("not happy" → "not", "not_happy")
+export const NEGATION_PREFIX = 'not_';
+
+// Number of tokens after a negator that are treated as negated
+const NEGATION_SCOPE = 3;
+
+const NEGATORS = new Set([
+  'not', 'no', 'never', 'nothing', 'nobody', 'none', 'nor', 'neither', 'cannot', 'without', 'hardly', 'barely'
+]);
+
+// Words that end a negation scope early ("not tired but happy")
+const SCOPE_BREAKERS = new Set(['but', 'however', 'although', 'though', 'yet']);
+
+/**
+ * Whether a token negates the words that follow it, including contractions like "don't"
+ */
+export function isNegator(token: string): boolean {
+  return NEGATORS.has(token) || token.endsWith("n't");
+}
+
+/**
+ * Whether a token was produced inside a negation scope
+ */
+export function isNegated(token: string): boolean {
+  return token.startsWith(NEGATION_PREFIX);
+}
+
+/**
+ * Splits text into lower-cased word tokens. Negators are kept as tokens and up to three
+ * following words in the same clause are prefixed with "not_".
+ * @param {string} text - The mood note text
+ * @returns {string[]} Tokens in reading order
+ */
+export function tokenize(text = ''): string[] {
+  const tokens: string[] = [];
+  const clauses = text.toLowerCase().replace(/[‘’]/g, "'").split(/[.,;:!?\n]+/);
+
+  clauses.forEach(clause => {
+    let negationRemaining = 0;
+    const words = clause.match(/[a-z0-9]+(?:'[a-z]+)?/g) || [];
+
+    words.forEach(word => {
+      if (isNegator(word)) {
+        tokens.push(word);
+        negationRemaining = NEGATION_SCOPE;
+      } else if (SCOPE_BREAKERS.has(word)) {
+        tokens.push(word);
+        negationRemaining = 0;
+      } else if (negationRemaining > 0) {
+        tokens.push(`${NEGATION_PREFIX}${word}`);
+        negationRemaining--;
+      } else {
+        tokens.push(word);
+      }
+    });
+  });
+
+  return tokens;
+}
+
+/**
+ * Builds a vocabulary from a corpus, most frequent tokens first (ties alphabetical) so the
+ * same corpus always yields the same ids
+ * @param {string[]} texts - Training texts
+ * @returns {string[]} Tokens indexed by id, starting with the padding and out-of-vocabulary tokens
+ */
+export function buildVocabulary(texts: string[], maxSize = MAX_VOCABULARY_SIZE): string[] {
+  const counts = new Map<string, number>();
+  texts.forEach(text => {
+    tokenize(text).forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+  });
+
+  const ranked = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([token]) => token);
+
+  return [PAD_TOKEN, OOV_TOKEN, ...ranked].slice(0, maxSize);
+}
+
+/**
+ * Maps each vocabulary token to its id for encoding
+ */
+export function createVocabularyIndex(vocabulary: string[]): Map<string, number> {
+  return new Map(vocabulary.map((token, id) => [token, id]));
+}
+
+/**
+ * Encodes text as a fixed-length sequence of token ids, truncated or right-padded with PAD_INDEX
+ * @param {string} text - The mood note text
+ * @param {Map<string, number>} vocabularyIndex - Index built by createVocabularyIndex
+ */
+export function encodeText(text: string, vocabularyIndex: Map<string, number>, maxLength = MAX_SEQUENCE_LENGTH): number[] {
+  const ids = tokenize(text)
+    .slice(0, maxLength)
+    .map(token => vocabularyIndex.get(token) ?? OOV_INDEX);
+
+  return [...ids, ...new Array(maxLength - ids.length).fill(PAD_INDEX)];
+}
+
+/**
+ * Mean-pools the one-hot vectors of a token sequence, skipping padding. Multiplying the result by
+ * an embedding matrix gives the average of the tokens' embeddings.
+ * @param {number[]} tokenIds - Sequence from encodeText
+ * @param {number} vocabularySize - Length of the vocabulary the ids index into
+ */
+export function poolTokenIds(tokenIds: number[], vocabularySize: number): number[] {
+  const pooled = new Array(vocabularySize).fill(0);
+  const tokens = tokenIds.filter(id => id !== PAD_INDEX);
+
+  tokens.forEach(id => {
+    pooled[id] += 1 / tokens.length;
+  });
+
+  return pooled;
+}
@@ -0,0 +1,229 @@
+// Labelled training corpus and augmentation helpers for the mood model.
+// Kept free of TensorFlow.js so the main thread can read dataset metadata
+// without pulling the model runtime out of the worker bundle.
+
+// Emotion taxonomy for the classifier's softmax head - order defines the output units
+export const EMOTION_LABELS = ['anxiety', 'sadness', 'anger', 'loneliness', 'exhaustion', 'joy', 'calm'] as const;
+
+export type EmotionLabel = typeof EMOTION_LABELS[number];
+
+// Interface for training data entry
+export interface TrainingDataEntry {
+  text: string;
+  mood: string;
+  label: number;
+  emotion: EmotionLabel;
+  category?: 'academic' | 'work' | 'relationship' | 'physical' | 'achievement' | 'general';
+}
+
+// Comprehensive training dataset with 100+ realistic labeled examples across various categories
+export const ENHANCED_TRAINING_DATA: TrainingDataEntry[] = [
+  // Academic Pressure Examples (label: 1 for stress)
+  { text: "final exams are next week and I'm not ready", mood: "2", label: 1, emotion: 'anxiety', category: 'academic' },
+  { text: "dissertation deadline approaching, feeling overwhelmed", mood: "1", label: 1, emotion: 'anxiety', category: 'academic' },
+  { text: "failed my midterm exam, worried about grades", mood: "2", label: 1, emotion: 'anxiety', category: 'academic' },
+  { text: "studying 12 hours a day, burnout setting in", mood: "1", label: 1, emotion: 'exhaustion', category: 'academic' },
+  { text: "professor rejected my thesis proposal again", mood: "2", label: 1, emotion: 'sadness', category: 'academic' },
+  { text: "group project members not contributing, stressed", mood: "2", label: 1, emotion: 'anger', category: 'academic' },
+  { text: "scholarship renewal depends on maintaining GPA", mood: "2", label: 1, emotion: 'anxiety', category: 'academic' },
+  { text: "struggling with organic chemistry concepts", mood: "3", label: 1, emotion: 'anxiety', category: 'academic' },
+  { text: "lab report due tomorrow, haven't started", mood: "2", label: 1, emotion: 'anxiety', category: 'academic' },
+  { text: "graduate school applications overwhelming", mood: "2", label: 1, emotion: 'anxiety', category: 'academic' },
+  { text: "imposter syndrome in advanced mathematics class", mood: "2", label: 1, emotion: 'anxiety', category: 'academic' },
+  { text: "academic advisor unavailable when needed most", mood: "3", label: 1, emotion: 'loneliness', category: 'academic' },
+  { text: "presentation anxiety for tomorrow's conference", mood: "2", label: 1, emotion: 'anxiety', category: 'academic' },
+  { text: "research experiment failed for third time", mood: "2", label: 1, emotion: 'sadness', category: 'academic' },
+  
+  // Academic Success Examples (label: 0 for positive)
+  { text: "aced my calculus exam, feeling brilliant", mood: "5", label: 0, emotion: 'joy', category: 'academic' },
+  { text: "professor praised my research methodology", mood: "4", label: 0, emotion: 'joy', category: 'academic' },
+  { text: "published my first academic paper today", mood: "5", label: 0, emotion: 'joy', category: 'academic' },
+  { text: "awarded scholarship for academic excellence", mood: "5", label: 0, emotion: 'joy', category: 'academic' },
+  { text: "finally understood quantum physics concepts", mood: "4", label: 0, emotion: 'joy', category: 'academic' },
+  { text: "graduated summa cum laude, parents proud", mood: "5", label: 0, emotion: 'joy', category: 'academic' },
+  { text: "accepted into PhD program at top university", mood: "5", label: 0, emotion: 'joy', category: 'academic' },
+  { text: "successful thesis defense yesterday", mood: "4", label: 0, emotion: 'joy', category: 'academic' },
+  
+  // Work Stress Examples (label: 1 for stress)
+  { text: "toxic work environment affecting mental health", mood: "1", label: 1, emotion: 'anger', category: 'work' },
+  { text: "layoffs announced, job security uncertain", mood: "2", label: 1, emotion: 'anxiety', category: 'work' },
+  { text: "working 80-hour weeks, no work-life balance", mood: "1", label: 1, emotion: 'exhaustion', category: 'work' },
+  { text: "micromanaging boss making me miserable", mood: "2", label: 1, emotion: 'anger', category: 'work' },
+  { text: "deadline impossible to meet with current resources", mood: "2", label: 1, emotion: 'anxiety', category: 'work' },
+  { text: "performance review went poorly today", mood: "2", label: 1, emotion: 'sadness', category: 'work' },
+  { text: "salary not enough to cover living expenses", mood: "2", label: 1, emotion: 'anxiety', category: 'work' },
+  { text: "remote work isolation affecting productivity", mood: "3", label: 1, emotion: 'loneliness', category: 'work' },
+  { text: "coworker taking credit for my ideas", mood: "2", label: 1, emotion: 'anger', category: 'work' },
+  { text: "burnout from constant client demands", mood: "1", label: 1, emotion: 'exhaustion', category: 'work' },
+  { text: "job market competitive, struggling to find work", mood: "2", label: 1, emotion: 'anxiety', category: 'work' },
+  { text: "imposter syndrome in new leadership role", mood: "2", label: 1, emotion: 'anxiety', category: 'work' },
+  
+  // Work Success Examples (label: 0 for positive)
+  { text: "promoted to senior manager position today", mood: "5", label: 0, emotion: 'joy', category: 'work' },
+  { text: "successfully launched new product line", mood: "4", label: 0, emotion: 'joy', category: 'work' },
+  { text: "received outstanding performance bonus", mood: "4", label: 0, emotion: 'joy', category: 'work' },
+  { text: "team collaboration exceeded all expectations", mood: "4", label: 0, emotion: 'joy', category: 'work' },
+  { text: "client praised our innovative solution", mood: "4", label: 0, emotion: 'joy', category: 'work' },
+  { text: "work-life balance finally achieved", mood: "4", label: 0, emotion: 'calm', category: 'work' },
+  { text: "landed dream job at tech startup", mood: "5", label: 0, emotion: 'joy', category: 'work' },
+  
+  // Relationship Issues Examples (label: 1 for stress)
+  { text: "relationship ending after five years together", mood: "1", label: 1, emotion: 'sadness', category: 'relationship' },
+  { text: "constant arguments with partner lately", mood: "2", label: 1, emotion: 'anger', category: 'relationship' },
+  { text: "feeling lonely and disconnected from friends", mood: "2", label: 1, emotion: 'loneliness', category: 'relationship' },
+  { text: "family drama causing emotional exhaustion", mood: "2", label: 1, emotion: 'exhaustion', category: 'relationship' },
+  { text: "betrayal by close friend hurt deeply", mood: "1", label: 1, emotion: 'anger', category: 'relationship' },
+  { text: "social anxiety preventing meaningful connections", mood: "2", label: 1, emotion: 'anxiety', category: 'relationship' },
+  { text: "long-distance relationship strain increasing", mood: "2", label: 1, emotion: 'loneliness', category: 'relationship' },
+  { text: "difficult conversation with parents needed", mood: "3", label: 1, emotion: 'anxiety', category: 'relationship' },
+  { text: "feeling misunderstood by everyone around me", mood: "2", label: 1, emotion: 'loneliness', category: 'relationship' },
+  { text: "dating apps exhausting, losing hope", mood: "2", label: 1, emotion: 'sadness', category: 'relationship' },
+  
+  // Relationship Success Examples (label: 0 for positive)
+  { text: "anniversary dinner was absolutely perfect", mood: "5", label: 0, emotion: 'joy', category: 'relationship' },
+  { text: "deep conversation strengthened our bond", mood: "4", label: 0, emotion: 'calm', category: 'relationship' },
+  { text: "reconciled with estranged family member", mood: "4", label: 0, emotion: 'calm', category: 'relationship' },
+  { text: "surprise visit from childhood best friend", mood: "5", label: 0, emotion: 'joy', category: 'relationship' },
+  { text: "supportive partner helped through crisis", mood: "4", label: 0, emotion: 'calm', category: 'relationship' },
+  { text: "wedding planning bringing us closer together", mood: "4", label: 0, emotion: 'joy', category: 'relationship' },
+  { text: "made genuine connections at social event", mood: "4", label: 0, emotion: 'joy', category: 'relationship' },
+  
+  // Physical Health Examples (label: 1 for stress)
+  { text: "chronic pain flaring up again today", mood: "2", label: 1, emotion: 'exhaustion', category: 'physical' },
+  { text: "insomnia affecting work and relationships", mood: "2", label: 1, emotion: 'exhaustion', category: 'physical' },
+  { text: "medical test results causing anxiety", mood: "2", label: 1, emotion: 'anxiety', category: 'physical' },
+  { text: "exhausted from lack of sleep lately", mood: "2", label: 1, emotion: 'exhaustion', category: 'physical' },
+  { text: "injury preventing favorite physical activities", mood: "3", label: 1, emotion: 'sadness', category: 'physical' },
+  { text: "medication side effects troublesome", mood: "3", label: 1, emotion: 'exhaustion', category: 'physical' },
+  { text: "seasonal allergies making life miserable", mood: "3", label: 1, emotion: 'exhaustion', category: 'physical' },
+  { text: "stress eating and weight gain concerns", mood: "2", label: 1, emotion: 'anxiety', category: 'physical' },
+  
+  // Physical Health Success Examples (label: 0 for positive)
+  { text: "morning run energized me for entire day", mood: "4", label: 0, emotion: 'joy', category: 'physical' },
+  { text: "clean bill of health from annual checkup", mood: "4", label: 0, emotion: 'calm', category: 'physical' },
+  { text: "yoga practice bringing inner peace", mood: "4", label: 0, emotion: 'calm', category: 'physical' },
+  { text: "recovery from surgery going exceptionally well", mood: "4", label: 0, emotion: 'joy', category: 'physical' },
+  { text: "healthy meal prep routine established", mood: "4", label: 0, emotion: 'calm', category: 'physical' },
+  { text: "personal fitness goals achieved today", mood: "4", label: 0, emotion: 'joy', category: 'physical' },
+  { text: "eight hours of quality sleep restored energy", mood: "4", label: 0, emotion: 'calm', category: 'physical' },
+  
+  // Achievement Examples (label: 0 for positive)
+  { text: "marathon training culminated in personal best", mood: "5", label: 0, emotion: 'joy', category: 'achievement' },
+  { text: "artistic project featured in gallery exhibition", mood: "5", label: 0, emotion: 'joy', category: 'achievement' },
+  { text: "volunteer work positively impacted community", mood: "4", label: 0, emotion: 'joy', category: 'achievement' },
+  { text: "language fluency milestone reached today", mood: "4", label: 0, emotion: 'joy', category: 'achievement' },
+  { text: "entrepreneurial venture showing profit", mood: "5", label: 0, emotion: 'joy', category: 'achievement' },
+  { text: "musical performance received standing ovation", mood: "5", label: 0, emotion: 'joy', category: 'achievement' },
+  { text: "book manuscript completed after years", mood: "5", label: 0, emotion: 'joy', category: 'achievement' },
+  { text: "mentoring junior colleague brings satisfaction", mood: "4", label: 0, emotion: 'calm', category: 'achievement' },
+  { text: "personal growth journey showing progress", mood: "4", label: 0, emotion: 'calm', category: 'achievement' },
+  
+  // General Positive Examples (label: 0 for positive)
+  { text: "feeling grateful for simple pleasures today", mood: "4", label: 0, emotion: 'calm', category: 'general' },
+  { text: "beautiful sunset restored my perspective", mood: "4", label: 0, emotion: 'calm', category: 'general' },
+  { text: "random act of kindness brightened day", mood: "4", label: 0, emotion: 'joy', category: 'general' },
+  { text: "cozy evening reading favorite book", mood: "4", label: 0, emotion: 'calm', category: 'general' },
+  { text: "inspiring documentary motivated positive change", mood: "4", label: 0, emotion: 'joy', category: 'general' },
+  { text: "peaceful morning meditation session", mood: "4", label: 0, emotion: 'calm', category: 'general' },
+  { text: "laughter therapy working its magic", mood: "4", label: 0, emotion: 'joy', category: 'general' },
+  { text: "optimistic about future possibilities", mood: "4", label: 0, emotion: 'joy', category: 'general' },
+  
+  // General Neutral/Mixed Examples
+  { text: "ordinary day with typical ups and downs", mood: "3", label: 0, emotion: 'calm', category: 'general' },
+  { text: "feeling contemplative about life choices", mood: "3", label: 1, emotion: 'anxiety', category: 'general' },
+  { text: "weather changes affecting mood slightly", mood: "3", label: 1, emotion: 'sadness', category: 'general' },
+  { text: "routine day but productive overall", mood: "3", label: 0, emotion: 'calm', category: 'general' },
+  { text: "minor inconveniences but manageable", mood: "3", label: 0, emotion: 'calm', category: 'general' },
+  { text: "uncertain about weekend plans", mood: "3", label: 1, emotion: 'anxiety', category: 'general' },
+  
+  // Emotion coverage examples (anger and loneliness are otherwise sparse)
+  { text: "roommate keeps ignoring my boundaries, so angry", mood: "2", label: 1, emotion: 'anger', category: 'relationship' },
+  { text: "furious that my landlord ignored the repairs again", mood: "2", label: 1, emotion: 'anger', category: 'general' },
+  { text: "frustrated and mad about the unfair grading", mood: "2", label: 1, emotion: 'anger', category: 'academic' },
+  { text: "eating alone every night with nobody to talk to", mood: "2", label: 1, emotion: 'loneliness', category: 'relationship' },
+  { text: "moved to a new city and have no friends yet", mood: "2", label: 1, emotion: 'loneliness', category: 'relationship' },
+  { text: "weekends feel empty and isolating lately", mood: "2", label: 1, emotion: 'loneliness', category: 'general' },
+  { text: "crying all evening, everything feels heavy", mood: "1", label: 1, emotion: 'sadness', category: 'general' },
+  { text: "completely drained after a long week of shifts", mood: "2", label: 1, emotion: 'exhaustion', category: 'work' },
+  
+  // Negation examples so the token model learns that "not happy" is not positive
+  { text: "not happy at all with how things are going", mood: "2", label: 1, emotion: 'sadness', category: 'general' },
+  { text: "I don't feel good about anything lately", mood: "2", label: 1, emotion: 'sadness', category: 'general' },
+  { text: "can't relax, never enough time to finish the project", mood: "2", label: 1, emotion: 'anxiety', category: 'work' },
+  { text: "haven't been sleeping and not motivated to study", mood: "2", label: 1, emotion: 'exhaustion', category: 'academic' },
+  { text: "not stressed anymore, the exam went fine", mood: "4", label: 0, emotion: 'calm', category: 'academic' },
+  { text: "no worries today, just a calm walk in the park", mood: "4", label: 0, emotion: 'calm', category: 'general' },
+  { text: "didn't feel lonely at dinner with my friends", mood: "4", label: 0, emotion: 'joy', category: 'relationship' },
+  { text: "no more doubts, finally hit my goal at the gym", mood: "5", label: 0, emotion: 'joy', category: 'achievement' },
+  
+  // Original examples for compatibility
+  { text: "feeling happy and relaxed today", mood: "5", label: 0, emotion: 'joy', category: 'general' },
+  { text: "motivated and energetic for the day ahead", mood: "4", label: 0, emotion: 'joy', category: 'general' },
+  { text: "overwhelmed with deadlines and pressure", mood: "2", label: 1, emotion: 'anxiety', category: 'work' },
+  { text: "stressed about exams and final grades", mood: "2", label: 1, emotion: 'anxiety', category: 'academic' }
+];
+
+// Data augmentation synonyms for text perturbation
+export const AUGMENTATION_SYNONYMS: Record<string, string[]> = {
+  'stressed': ['overwhelmed', 'pressured', 'anxious', 'tense'],
+  'happy': ['joyful', 'cheerful', 'content', 'pleased'],
+  'sad': ['depressed', 'downcast', 'melancholy', 'dejected'],
+  'worried': ['concerned', 'anxious', 'troubled', 'uneasy'],
+  'excited': ['thrilled', 'enthusiastic', 'eager', 'animated'],
+  'tired': ['exhausted', 'fatigued', 'weary', 'drained'],
+  'angry': ['furious', 'irritated', 'frustrated', 'annoyed'],
+  'good': ['great', 'excellent', 'wonderful', 'fantastic'],
+  'bad': ['terrible', 'awful', 'horrible', 'dreadful'],
+  'exam': ['test', 'assessment', 'evaluation', 'quiz'],
+  'work': ['job', 'employment', 'occupation', 'career'],
+  'deadline': ['due date', 'time limit', 'cutoff', 'target date']
+};
+
+/**
+ * Applies data augmentation to training dataset using synonym replacement
+ * @param {TrainingDataEntry[]} dataset - Original dataset
+ * @returns {TrainingDataEntry[]} Augmented dataset
+ */
+export function augmentData(dataset: TrainingDataEntry[]): TrainingDataEntry[] {
+  const augmented: TrainingDataEntry[] = [...dataset];
+  
+  // Generate augmented examples for each original example
+  dataset.forEach(entry => {
+    let augmentedText = entry.text;
+    let hasChanges = false;
+    
+    // Apply synonym replacement (30% chance per word)
+    Object.entries(AUGMENTATION_SYNONYMS).forEach(([word, synonyms]) => {
+      if (augmentedText.includes(word) && Math.random() > 0.7) {
+        const randomSynonym = synonyms[Math.floor(Math.random() * synonyms.length)];
+        augmentedText = augmentedText.replace(word, randomSynonym);
+        hasChanges = true;
+      }
+    });
+    
+    // Add slight text perturbations
+    if (Math.random() > 0.6) {
+      augmentedText = augmentedText.replace(/[.,!]/g, '');
+      hasChanges = true;
+    }
+    
+    if (Math.random() > 0.8) {
+      const intensifiers = ['really', 'very', 'extremely', 'quite'];
+      const randomIntensifier = intensifiers[Math.floor(Math.random() * intensifiers.length)];
+      augmentedText = `${randomIntensifier} ${augmentedText}`;
+      hasChanges = true;
+    }
+    
+    if (hasChanges) {
+      augmented.push({
+        ...entry,
+        text: augmentedText
+      });
+    }
+  });
+  
+  if (process.env.NODE_ENV === 'development') {
+    console.log(`🔄 Data augmentation: ${dataset.length} → ${augmented.length} examples`);
+  }
+  return augmented;
+}
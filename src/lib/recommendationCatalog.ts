@@ -0,0 +1,137 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Video, Wind, Brain, Activity, BookOpen, type LucideIcon } from 'lucide-react';
+import { getRecommendationTypeScorer, loadRecommendationTypeStats } from '@/lib/recommendationFeedback';
+import type { RecommendationType } from '@shared/moodDomain';
+import { DEFAULT_LOCALE, selectRecommendations } from '@shared/recommendationRanking';
+
+// Recommendations from public.recommendation_catalog for the web app. The selection rule is
+// shared with analyze-mood through @shared/recommendationRanking.
+
+export type CatalogEntry = Tables<'recommendation_catalog'>;
+export { RECOMMENDATION_TYPES, type RecommendationType } from '@shared/moodDomain';
+export { selectRecommendations, type RecommendationSelection } from '@shared/recommendationRanking';
+
+// Catalog entry (or stored recommendation) decorated for display
+export interface EnhancedRecommendation {
+  catalogId: string | null;
+  recommendationId?: string; // Set when the recommendation is stored, enabling feedback
+  title: string;
+  description: string;
+  content_url?: string;
+  type: RecommendationType;
+  icon: LucideIcon;
+  color: string;
+  urgency: 'low' | 'medium' | 'high';
+}
+
+export const RECOMMENDATION_TYPE_ICONS: Record<RecommendationType, LucideIcon> = {
+  video: Video,
+  breathing: Wind,
+  mindfulness: Brain,
+  activity: Activity,
+  article: BookOpen
+};
+
+const STRESS_LEVEL_COLORS: Record<number, string> = {
+  1: 'from-green-50 to-emerald-50 border-green-200',
+  2: 'from-green-50 to-emerald-50 border-green-200',
+  3: 'from-yellow-50 to-orange-50 border-yellow-200',
+  4: 'from-orange-50 to-red-50 border-orange-200',
+  5: 'from-red-50 to-red-100 border-red-300'
+};
+
+let catalogPromise: Promise<CatalogEntry[]> | null = null;
+
+/**
+ * Loads the active catalog once per session
+ */
+export function loadRecommendationCatalog(): Promise<CatalogEntry[]> {
+  if (!catalogPromise) {
+    catalogPromise = (async () => {
+      const { data, error } = await supabase
+        .from('recommendation_catalog')
+        .select('*')
+        .eq('is_active', true);
+
+      if (error) {
+        console.error('❌ Error loading recommendation catalog:', error);
+        catalogPromise = null;
+        return [];
+      }
+      return data || [];
+    })();
+  }
+  return catalogPromise;
+}
+
+/**
+ * Drops the cached catalog so the next load sees admin edits
+ */
+export function invalidateRecommendationCatalog(): void {
+  catalogPromise = null;
+}
+
+/**
+ * Browser language without region, e.g. "en" for "en-GB"
+ */
+export function getUserLocale(): string {
+  return (typeof navigator !== 'undefined' && navigator.language?.split('-')[0]) || DEFAULT_LOCALE;
+}
+
+/**
+ * Decorates a catalog entry or stored recommendation for display
+ */
+export function toEnhancedRecommendation(
+  recommendation: Pick<CatalogEntry, 'title' | 'description' | 'content_url' | 'type'> & { catalogId: string | null; recommendationId?: string },
+  stressLevel: number
+): EnhancedRecommendation {
+  const type = recommendation.type;
+  return {
+    catalogId: recommendation.catalogId,
+    recommendationId: recommendation.recommendationId,
+    title: recommendation.title,
+    description: recommendation.description ?? '',
+    content_url: recommendation.content_url ?? undefined,
+    type,
+    icon: RECOMMENDATION_TYPE_ICONS[type] || Brain,
+    color: STRESS_LEVEL_COLORS[stressLevel] || STRESS_LEVEL_COLORS[3],
+    urgency: stressLevel <= 2 ? 'low' : stressLevel === 3 ? 'medium' : 'high'
+  };
+}
+
+/**
+ * Link for a recommendation's content. In-app routes carry the stored recommendation id so
+ * the page can log completion back to it.
+ */
+export function getRecommendationLink(contentUrl: string, recommendationId?: string): string {
+  if (!contentUrl.startsWith('/') || !recommendationId) return contentUrl;
+  return `${contentUrl}${contentUrl.includes('?') ? '&' : '?'}recommendation=${recommendationId}`;
+}
+
+/**
+ * Top catalog recommendation for a client prediction, ranked with the user's feedback history
+ */
+export async function getEnhancedRecommendation(
+  stressLevel: number,
+  emotion: string | null = null,
+  userId?: string
+): Promise<EnhancedRecommendation | null> {
+  const [catalog, typeStats] = await Promise.all([
+    loadRecommendationCatalog(),
+    userId ? loadRecommendationTypeStats(userId) : Promise.resolve({})
+  ]);
+  const [entry] = selectRecommendations(catalog, {
+    stressLevel,
+    emotion,
+    locale: getUserLocale(),
+    scoreType: userId ? getRecommendationTypeScorer(typeStats) : undefined
+  });
+
+  if (!entry) {
+    console.warn('⚠️ No catalog recommendation for stress level', stressLevel);
+    return null;
+  }
+
+  return toEnhancedRecommendation({ ...entry, catalogId: entry.id }, stressLevel);
+}
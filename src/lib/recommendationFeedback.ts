@@ -0,0 +1,52 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  type RecommendationTypeStats,
+  loadRecommendationTypeStats as loadSharedRecommendationTypeStats
+} from '@shared/recommendationRanking';
+
+// Recommendation feedback: storing it and loading the per-user type statistics it feeds.
+// The UCB1 ranking itself lives in @shared/recommendationRanking so analyze-mood ranks the
+// same way.
+
+export interface RecommendationFeedbackUpdate {
+  helpful?: boolean | null;
+  completed?: boolean;
+}
+
+export { getRecommendationTypeScorer, type RecommendationTypeStats } from '@shared/recommendationRanking';
+
+/**
+ * Records feedback on a stored recommendation; one row per user and recommendation
+ */
+export async function submitRecommendationFeedback(
+  recommendationId: string,
+  userId: string,
+  update: RecommendationFeedbackUpdate
+): Promise<boolean> {
+  const { error } = await supabase
+    .from('recommendation_feedback')
+    .upsert({
+      recommendation_id: recommendationId,
+      user_id: userId,
+      ...update,
+      ...(update.completed ? { completed_at: new Date().toISOString() } : {})
+    }, { onConflict: 'recommendation_id,user_id' });
+
+  if (error) {
+    console.error('❌ Error saving recommendation feedback:', error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Counts how often each type was recommended to the user and how it was rated
+ */
+export async function loadRecommendationTypeStats(userId: string): Promise<Record<string, RecommendationTypeStats>> {
+  try {
+    return await loadSharedRecommendationTypeStats(supabase, userId);
+  } catch (error) {
+    console.error('❌ Error loading recommendation feedback:', error);
+    return {};
+  }
+}
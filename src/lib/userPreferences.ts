@@ -0,0 +1,82 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getBrowserTimeZone, isValidTimeZone } from '@/lib/dateBuckets';
+
+// The user's time zone, stored in users.preferences so statistics bucket days the same
+// way on every device and in the server RPCs. A user without one gets the browser's time
+// zone saved on first load.
+
+export interface UserPreferences {
+  timezone?: string; // IANA name, e.g. "Asia/Kolkata"
+}
+
+// One request per user per session; every chart on a page shares it
+const timeZoneRequests = new Map<string, Promise<string>>();
+// Notified when the user picks another time zone, so mounted charts re-bucket
+const timeZoneListeners = new Set<(userId: string, timeZone: string) => void>();
+
+/**
+ * The user's stored preferences, or null when they cannot be read
+ */
+export async function fetchUserPreferences(userId: string): Promise<UserPreferences | null> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('preferences')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Error loading user preferences:', error);
+    return null;
+  }
+  return (data?.preferences ?? {}) as UserPreferences;
+}
+
+/**
+ * Saves the user's time zone. Returns false when it is not a known time zone or the
+ * update fails.
+ */
+export async function saveTimeZonePreference(userId: string, timeZone: string): Promise<boolean> {
+  if (!isValidTimeZone(timeZone)) return false;
+
+  const { error } = await supabase.rpc('set_user_timezone', { p_timezone: timeZone });
+  if (error) {
+    console.error('❌ Error saving time zone preference:', error);
+    return false;
+  }
+
+  timeZoneRequests.set(userId, Promise.resolve(timeZone));
+  timeZoneListeners.forEach(listener => listener(userId, timeZone));
+  return true;
+}
+
+/**
+ * Calls the listener whenever a time zone preference is saved; returns the unsubscribe function
+ */
+export function subscribeToTimeZonePreference(listener: (userId: string, timeZone: string) => void): () => void {
+  timeZoneListeners.add(listener);
+  return () => {
+    timeZoneListeners.delete(listener);
+  };
+}
+
+/**
+ * The time zone to bucket the user's statistics by. Falls back to the browser's time zone
+ * when none is stored or the preferences cannot be read.
+ */
+export function loadTimeZonePreference(userId: string): Promise<string> {
+  let request = timeZoneRequests.get(userId);
+  if (!request) {
+    request = (async () => {
+      const browserTimeZone = getBrowserTimeZone();
+      const preferences = await fetchUserPreferences(userId);
+      if (!preferences) return browserTimeZone;
+
+      if (isValidTimeZone(preferences.timezone)) return preferences.timezone;
+
+      await saveTimeZonePreference(userId, browserTimeZone);
+      return browserTimeZone;
+    })();
+    timeZoneRequests.set(userId, request);
+  }
+  return request;
+}
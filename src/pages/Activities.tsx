@@ -0,0 +1,55 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import Layout from '@/components/Layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { EXERCISES, type ExerciseKind } from '@/lib/exercises';
+import { Wind, Hand, ScanLine } from 'lucide-react';
+
+const KIND_ICONS: Record<ExerciseKind, React.ComponentType<{ className?: string }>> = {
+  breathing: Wind,
+  grounding: Hand,
+  body_scan: ScanLine
+};
+
+const ActivitiesPage = () => {
+  const navigate = useNavigate();
+  const isMobile = useIsMobile();
+
+  return (
+    <Layout>
+      <div className={`bg-white/80 backdrop-blur-sm min-h-full ${isMobile ? 'p-3' : 'p-4'}`}>
+        <div className={`mb-6 pb-4 border-b border-gray-200/60 ${isMobile ? 'mb-4 pb-3' : ''}`}>
+          <h1 className={`font-bold bg-gradient-to-r from-slate-800 to-slate-600 bg-clip-text text-transparent ${isMobile ? 'text-xl' : 'text-2xl'}`}>Exercises</h1>
+          <p className={`text-slate-600 ${isMobile ? 'text-xs' : 'text-sm'}`}>Short guided exercises to calm down and reset, right here in the app</p>
+        </div>
+        <div className={`grid gap-4 max-w-4xl ${isMobile ? 'grid-cols-1 pb-6' : 'grid-cols-2 pb-8'}`}>
+          {EXERCISES.map(exercise => {
+            const Icon = KIND_ICONS[exercise.kind];
+            return (
+              <Card
+                key={exercise.slug}
+                className="cursor-pointer hover:shadow-lg transition-shadow"
+                onClick={() => navigate(`/activities/${exercise.slug}`)}
+              >
+                <CardHeader className="pb-2">
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <Icon className="h-5 w-5 text-indigo-600" />
+                    {exercise.title}
+                    <Badge variant="secondary" className="ml-auto">{exercise.durationMinutes} min</Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <CardDescription>{exercise.description}</CardDescription>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default ActivitiesPage;
@@ -0,0 +1,123 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import Layout from '@/components/Layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useIsMobile } from '@/hooks/use-mobile';
+import BreathingPacer from '@/components/BreathingPacer';
+import GroundingSteps from '@/components/GroundingSteps';
+import BodyScanTimer from '@/components/BodyScanTimer';
+import ArticleContent from '@/components/ArticleContent';
+import { getExercise } from '@/lib/exercises';
+import { type Article, loadArticle } from '@/lib/articles';
+import { submitRecommendationFeedback } from '@/lib/recommendationFeedback';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+
+// Opened from a recommendation with ?recommendation=<id>, finishing the exercise marks
+// that recommendation as done. Slugs without a guided exercise fall back to the activity
+// of the same slug in the content library.
+const ActivityExercisePage = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isMobile = useIsMobile();
+  const exercise = slug ? getExercise(slug) : undefined;
+  const recommendationId = searchParams.get('recommendation');
+  const [activity, setActivity] = useState<Article | null>(null);
+  const [loadingActivity, setLoadingActivity] = useState(false);
+  const [completed, setCompleted] = useState(false);
+
+  useEffect(() => {
+    setActivity(null);
+    setCompleted(false);
+    if (!slug || exercise) return;
+
+    let cancelled = false;
+    setLoadingActivity(true);
+    loadArticle('activity', slug).then(result => {
+      if (cancelled) return;
+      setActivity(result);
+      setLoadingActivity(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slug, exercise]);
+
+  const handleComplete = useCallback(async () => {
+    if (recommendationId && user) {
+      await submitRecommendationFeedback(recommendationId, user.id, { completed: true });
+    }
+    setCompleted(true);
+    toast({
+      title: 'Exercise complete',
+      description: 'Nice work taking a moment for yourself.'
+    });
+  }, [recommendationId, user, toast]);
+
+  return (
+    <Layout>
+      <div className={`bg-white/80 backdrop-blur-sm min-h-full ${isMobile ? 'p-3' : 'p-4'}`}>
+        <div className={`mb-6 pb-4 border-b border-gray-200/60 ${isMobile ? 'mb-4 pb-3' : ''}`}>
+          <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={() => navigate('/activities')}>
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            All exercises
+          </Button>
+          <h1 className={`font-bold bg-gradient-to-r from-slate-800 to-slate-600 bg-clip-text text-transparent ${isMobile ? 'text-xl' : 'text-2xl'}`}>
+            {exercise?.title ?? activity?.title ?? (loadingActivity ? 'Loading...' : 'Exercise not found')}
+          </h1>
+          {(exercise?.description ?? activity?.summary) && (
+            <p className={`text-slate-600 ${isMobile ? 'text-xs' : 'text-sm'}`}>{exercise?.description ?? activity?.summary}</p>
+          )}
+        </div>
+        <div className={`max-w-2xl ${isMobile ? 'pb-6' : 'pb-8'}`}>
+          {!exercise && loadingActivity ? (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading...
+            </div>
+          ) : !exercise && activity ? (
+            <ArticleContent
+              article={activity}
+              isMobile={isMobile}
+              completeLabel="I did it"
+              completed={completed}
+              onComplete={handleComplete}
+            />
+          ) : !exercise ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">This activity isn't available</CardTitle>
+                <CardDescription>It may have been removed. Try one of the guided exercises instead.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button onClick={() => navigate('/activities')}>Browse exercises</Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card className="shadow-lg">
+              <CardContent className={isMobile ? 'p-3' : 'p-6'}>
+                {exercise.kind === 'breathing' && (
+                  <BreathingPacer phases={exercise.phases} cycles={exercise.cycles} onComplete={handleComplete} />
+                )}
+                {exercise.kind === 'grounding' && (
+                  <GroundingSteps steps={exercise.steps} onComplete={handleComplete} />
+                )}
+                {exercise.kind === 'body_scan' && (
+                  <BodyScanTimer regions={exercise.regions} secondsPerRegion={exercise.secondsPerRegion} onComplete={handleComplete} />
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default ActivityExercisePage;
@@ -22,6 +22,7 @@ import {
   getModelPerformanceMetrics,
   getModelConfidenceDistribution,
   getFeatureImportance,
+  getModelVersionBreakdown,
   type WeeklyStressTrend,
   type SentimentDistribution,
   type DailyActivity,
@@ -29,9 +30,16 @@ import {
   type StudentOverview,
   type ModelPerformanceMetrics,
   type ModelConfidenceDistribution,
-  type FeatureImportance
+  type FeatureImportance,
+  type ModelVersionBreakdown
 } from '@/lib/analyticsQueries';
+import ModelRegistryPanel from '@/components/ModelRegistryPanel';
+import ModelEvaluationPanel from '@/components/ModelEvaluationPanel';
+import ModelCalibrationPanel from '@/components/ModelCalibrationPanel';
+import AnalysisBackfillPanel from '@/components/AnalysisBackfillPanel';
 import { supabase } from '@/integrations/supabase/client';
+import useTimeZone from '@/hooks/useTimeZone';
+import { formatDayKey } from '@/lib/dateBuckets';
 import type { RealtimeChannel } from '@supabase/supabase-js';
 
 // Color schemes for charts
@@ -47,12 +55,15 @@ const COLORS = {
 const SENTIMENT_COLORS: Record<string, string> = {
   'positive': COLORS.success,
   'stress detected': COLORS.danger,
-  'neutral': COLORS.warning
+  'neutral': COLORS.warning,
+  'uncertain': '#94A3B8'
 };
 
 const STRESS_COLORS = [COLORS.success, '#84CC16', COLORS.warning, '#F97316', COLORS.danger];
 
 const AdminDashboard: React.FC = () => {
+  // Daily and weekly charts are bucketed in the viewing admin's time zone
+  const { timeZone, loading: timeZoneLoading } = useTimeZone();
   // State for analytics data
   const [overview, setOverview] = useState<StudentOverview | null>(null);
   const [weeklyStress, setWeeklyStress] = useState<WeeklyStressTrend[]>([]);
@@ -62,6 +73,7 @@ const AdminDashboard: React.FC = () => {
   const [modelMetrics, setModelMetrics] = useState<ModelPerformanceMetrics | null>(null);
   const [confidenceDistribution, setConfidenceDistribution] = useState<ModelConfidenceDistribution[]>([]);
   const [featureImportance, setFeatureImportance] = useState<FeatureImportance[]>([]);
+  const [versionBreakdown, setVersionBreakdown] = useState<ModelVersionBreakdown[]>([]);
   const [loading, setLoading] = useState(true);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [isRealTimeConnected, setIsRealTimeConnected] = useState(false);
@@ -78,15 +90,16 @@ const AdminDashboard: React.FC = () => {
       console.log('📊 Loading enhanced dashboard analytics...');
       
       const startTime = Date.now();
-      const [overviewData, weeklyData, sentiments, daily, stressLevels, modelPerf, confidence, features] = await Promise.all([
+      const [overviewData, weeklyData, sentiments, daily, stressLevels, modelPerf, confidence, features, versions] = await Promise.all([
         getStudentOverview(),
-        getWeeklyStressTrends(),
+        getWeeklyStressTrends(timeZone),
         getSentimentDistribution(),
-        getDailyActivity(),
+        getDailyActivity(timeZone),
         getStressLevelDistribution(),
         getModelPerformanceMetrics(),
         getModelConfidenceDistribution(),
-        getFeatureImportance()
+        getFeatureImportance(),
+        getModelVersionBreakdown()
       ]);
       
       const loadTime = Date.now() - startTime;
@@ -100,14 +113,15 @@ const AdminDashboard: React.FC = () => {
       setModelMetrics(modelPerf);
       setConfidenceDistribution(confidence);
       setFeatureImportance(features);
+      setVersionBreakdown(versions);
       setLastUpdated(new Date());
 
       console.log('📊 Enhanced analytics summary:', {
         totalStudents: overviewData.total_students,
         totalLogs: overviewData.total_mood_logs,
         avgStress: overviewData.avg_stress_level?.toFixed(1),
-        modelVersion: modelPerf.modelVersion,
-        modelAccuracy: (modelPerf.trainingAccuracy * 100).toFixed(1) + '%'
+        modelVersion: modelPerf?.modelVersion ?? 'not evaluated',
+        modelAccuracy: modelPerf ? (modelPerf.trainingAccuracy * 100).toFixed(1) + '%' : 'n/a'
       });
 
     } catch (error) {
@@ -115,7 +129,7 @@ const AdminDashboard: React.FC = () => {
     } finally {
       if (showLoader) setLoading(false);
     }
-  }, []);
+  }, [timeZone]);
 
   // Real-time subscription setup
   useEffect(() => {
@@ -181,12 +195,13 @@ const AdminDashboard: React.FC = () => {
 
   // Initial load
   useEffect(() => {
+    if (timeZoneLoading) return;
     loadAnalytics();
-  }, [loadAnalytics]);
+  }, [loadAnalytics, timeZoneLoading]);
 
   // Format date for display
   const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', { 
+    return formatDayKey(dateString, { 
       month: 'short', 
       day: 'numeric' 
     });
@@ -194,7 +209,7 @@ const AdminDashboard: React.FC = () => {
 
   // Format week for display
   const formatWeek = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', { 
+    return formatDayKey(dateString, { 
       month: 'short', 
       day: 'numeric' 
     });
@@ -482,7 +497,7 @@ const AdminDashboard: React.FC = () => {
           transition={{ delay: 0.4 }}
         >
           <Tabs defaultValue="trends" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-4 bg-white shadow-lg border-2 border-blue-100">
+            <TabsList className="grid w-full grid-cols-5 bg-white shadow-lg border-2 border-blue-100">
               <TabsTrigger value="trends" className="data-[state=active]:bg-blue-100 data-[state=active]:text-blue-700">
                 <TrendingUp className="h-4 w-4 mr-2" />
                 Stress Trends
@@ -499,6 +514,10 @@ const AdminDashboard: React.FC = () => {
                 <BarChart3 className="h-4 w-4 mr-2" />
                 Stress Distribution
               </TabsTrigger>
+              <TabsTrigger value="model" className="data-[state=active]:bg-indigo-100 data-[state=active]:text-indigo-700">
+                <Database className="h-4 w-4 mr-2" />
+                Model
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="trends">
@@ -737,6 +756,16 @@ const AdminDashboard: React.FC = () => {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="model" className="space-y-6">
+            <ModelEvaluationPanel metrics={modelMetrics} featureImportance={featureImportance} />
+            <ModelCalibrationPanel calibration={modelMetrics?.calibration ?? null} />
+            <ModelRegistryPanel
+              versionBreakdown={versionBreakdown}
+              onActiveVersionChange={() => loadAnalytics(false)}
+            />
+            <AnalysisBackfillPanel />
+          </TabsContent>
           </Tabs>
         </motion.div>
       </div>
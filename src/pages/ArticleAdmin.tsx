@@ -0,0 +1,28 @@
+import React from 'react';
+import Layout from '@/components/Layout';
+import ArticleManager from '@/components/ArticleManager';
+import { useAuth } from '@/contexts/AuthContext';
+
+const ArticleAdminPage = () => {
+  const { user } = useAuth();
+
+  return (
+    <Layout>
+      <div className="p-4 bg-white/80 backdrop-blur-sm min-h-full">
+        <div className="mb-6 pb-4 border-b border-gray-200/60">
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-slate-800 to-slate-600 bg-clip-text text-transparent">Content Library</h1>
+          <p className="text-slate-600 text-sm">Write and publish the articles, activities and resources linked from recommendations</p>
+        </div>
+        <div className="pb-8 max-w-4xl">
+          {user?.role === 'admin' ? (
+            <ArticleManager />
+          ) : (
+            <p className="text-sm text-gray-500">The content library editor is only available to admins.</p>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default ArticleAdminPage;
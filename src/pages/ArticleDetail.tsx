@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import Layout from '@/components/Layout';
+import ArticleContent from '@/components/ArticleContent';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { type Article, type ArticleKind, loadArticle } from '@/lib/articles';
+import { submitRecommendationFeedback } from '@/lib/recommendationFeedback';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+
+interface ArticleDetailPageProps {
+  kind: Extract<ArticleKind, 'article' | 'resource'>;
+}
+
+// Serves /articles/:slug and /resources/:slug. Opened from a recommendation with
+// ?recommendation=<id>, the reader can mark that recommendation as done.
+const ArticleDetailPage = ({ kind }: ArticleDetailPageProps) => {
+  const { slug } = useParams<{ slug: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isMobile = useIsMobile();
+  const [article, setArticle] = useState<Article | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [completed, setCompleted] = useState(false);
+  const recommendationId = searchParams.get('recommendation');
+
+  useEffect(() => {
+    if (!slug) return;
+
+    let cancelled = false;
+    setLoading(true);
+    loadArticle(kind, slug).then(result => {
+      if (cancelled) return;
+      setArticle(result);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, slug]);
+
+  const handleComplete = async () => {
+    if (!recommendationId || !user) return;
+
+    const saved = await submitRecommendationFeedback(recommendationId, user.id, { completed: true });
+    if (saved) {
+      setCompleted(true);
+      toast({ title: 'Marked as done', description: 'Thanks, this helps us suggest what works for you.' });
+    }
+  };
+
+  return (
+    <Layout>
+      <div className={`bg-white/80 backdrop-blur-sm min-h-full ${isMobile ? 'p-3' : 'p-4'}`}>
+        <div className={`mb-6 pb-4 border-b border-gray-200/60 ${isMobile ? 'mb-4 pb-3' : ''}`}>
+          <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={() => navigate('/articles')}>
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Library
+          </Button>
+          <h1 className={`font-bold bg-gradient-to-r from-slate-800 to-slate-600 bg-clip-text text-transparent ${isMobile ? 'text-xl' : 'text-2xl'}`}>
+            {loading ? 'Loading...' : article?.title ?? (kind === 'resource' ? 'Resource not found' : 'Article not found')}
+          </h1>
+          {article?.summary && (
+            <p className={`text-slate-600 ${isMobile ? 'text-xs' : 'text-sm'}`}>{article.summary}</p>
+          )}
+        </div>
+        <div className={`max-w-3xl space-y-4 ${isMobile ? 'pb-6' : 'pb-8'}`}>
+          {loading ? (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading...
+            </div>
+          ) : !article ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">This page isn't available</CardTitle>
+                <CardDescription>It may have been moved or unpublished. You can search the library instead.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button onClick={() => navigate('/articles')}>Browse the library</Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <ArticleContent
+                article={article}
+                isMobile={isMobile}
+                completeLabel="I read this"
+                completed={completed}
+                onComplete={recommendationId && user ? handleComplete : undefined}
+              />
+              {kind === 'resource' && (
+                <p className="text-sm text-gray-600">
+                  In immediate danger or thinking about harming yourself?{' '}
+                  <Button variant="link" className="p-0 h-auto" onClick={() => navigate('/resources/crisis-support')}>
+                    Get crisis support now
+                  </Button>
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default ArticleDetailPage;
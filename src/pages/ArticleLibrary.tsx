@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import Layout from '@/components/Layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useIsMobile } from '@/hooks/use-mobile';
+import {
+  type ArticleSummary,
+  ARTICLE_KIND_LABELS,
+  getArticlePath,
+  loadArticleCategories,
+  searchArticles
+} from '@/lib/articles';
+import { ArrowLeft, Clock, Loader2, Search } from 'lucide-react';
+
+// Serves /articles (optionally with ?q=) and /articles/category/:category
+const ArticleLibraryPage = () => {
+  const { category } = useParams<{ category?: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const isMobile = useIsMobile();
+  const query = searchParams.get('q') ?? '';
+  const [searchInput, setSearchInput] = useState(query);
+  const [articles, setArticles] = useState<ArticleSummary[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadArticleCategories().then(setCategories);
+  }, []);
+
+  useEffect(() => {
+    setSearchInput(query);
+  }, [query]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    searchArticles({ query, category }).then(results => {
+      if (cancelled) return;
+      setArticles(results);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, category]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = searchInput.trim();
+    setSearchParams(trimmed ? { q: trimmed } : {});
+  };
+
+  const openCategory = (next?: string) => {
+    const search = query ? `?q=${encodeURIComponent(query)}` : '';
+    navigate(next ? `/articles/category/${encodeURIComponent(next)}${search}` : `/articles${search}`);
+  };
+
+  return (
+    <Layout>
+      <div className={`bg-white/80 backdrop-blur-sm min-h-full ${isMobile ? 'p-3' : 'p-4'}`}>
+        <div className={`mb-6 pb-4 border-b border-gray-200/60 ${isMobile ? 'mb-4 pb-3' : ''}`}>
+          {category && (
+            <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={() => openCategory()}>
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              All topics
+            </Button>
+          )}
+          <h1 className={`font-bold bg-gradient-to-r from-slate-800 to-slate-600 bg-clip-text text-transparent capitalize ${isMobile ? 'text-xl' : 'text-2xl'}`}>
+            {category ?? 'Library'}
+          </h1>
+          <p className={`text-slate-600 ${isMobile ? 'text-xs' : 'text-sm'}`}>Articles, activities and support resources for looking after yourself</p>
+        </div>
+
+        <div className={`max-w-4xl space-y-4 ${isMobile ? 'pb-6' : 'pb-8'}`}>
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <Input
+              placeholder="Search the library..."
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              className="flex-1"
+            />
+            <Button type="submit">
+              <Search className="h-4 w-4 mr-2" />
+              Search
+            </Button>
+          </form>
+
+          {categories.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              <Badge
+                variant={!category ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => openCategory()}
+              >
+                All
+              </Badge>
+              {categories.map(name => (
+                <Badge
+                  key={name}
+                  variant={name === category ? 'default' : 'outline'}
+                  className="cursor-pointer capitalize"
+                  onClick={() => openCategory(name)}
+                >
+                  {name}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading library...
+            </div>
+          ) : articles.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              {query ? `Nothing in the library matches "${query}".` : 'There is nothing in this topic yet.'}
+            </p>
+          ) : (
+            <div className={`grid gap-4 ${isMobile ? 'grid-cols-1' : 'grid-cols-2'}`}>
+              {articles.map(article => (
+                <Card
+                  key={article.id}
+                  className="cursor-pointer hover:shadow-lg transition-shadow"
+                  onClick={() => navigate(getArticlePath(article))}
+                >
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-lg">{article.title}</CardTitle>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="secondary">{ARTICLE_KIND_LABELS[article.kind]}</Badge>
+                      <Badge variant="outline" className="capitalize">{article.category}</Badge>
+                      {article.reading_minutes && (
+                        <span className="flex items-center gap-1 text-xs text-gray-500">
+                          <Clock className="h-3 w-3" />
+                          {article.reading_minutes} min
+                        </span>
+                      )}
+                    </div>
+                  </CardHeader>
+                  {article.summary && (
+                    <CardContent>
+                      <CardDescription>{article.summary}</CardDescription>
+                    </CardContent>
+                  )}
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default ArticleLibraryPage;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import Layout from '@/components/Layout';
+import CrisisResources from '@/components/CrisisResources';
+import { Button } from '@/components/ui/button';
+import { useIsMobile } from '@/hooks/use-mobile';
+
+// Shown instead of Insights when a check-in note contains crisis language, and
+// reachable directly from the crisis support recommendation
+const CrisisSupportPage = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const isMobile = useIsMobile();
+  const mentorNotified = !!(location.state as { mentorNotified?: boolean } | null)?.mentorNotified;
+
+  return (
+    <Layout>
+      <div className={`bg-white/80 backdrop-blur-sm min-h-full ${isMobile ? 'p-3' : 'p-4'}`}>
+        <div className={`mb-6 pb-4 border-b border-gray-200/60 ${isMobile ? 'mb-4 pb-3' : ''}`}>
+          <h1 className={`font-bold bg-gradient-to-r from-slate-800 to-slate-600 bg-clip-text text-transparent ${isMobile ? 'text-xl' : 'text-2xl'}`}>Crisis Support</h1>
+          <p className={`text-slate-600 ${isMobile ? 'text-xs' : 'text-sm'}`}>It sounds like things are really hard right now. Support is available.</p>
+        </div>
+        <div className={`max-w-3xl space-y-4 ${isMobile ? 'pb-6' : 'pb-8'}`}>
+          <CrisisResources mentorNotified={mentorNotified} isMobile={isMobile} />
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => navigate('/insights')}>
+              I'm safe, continue to my insights
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default CrisisSupportPage;
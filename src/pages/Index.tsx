@@ -3,7 +3,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
 import { useIsMobile } from '@/hooks/use-mobile';
 import Layout from '@/components/Layout';
-import MoodTracker from '@/components/MoodTracker';
+import MoodTracker, { type CrisisCheckResult } from '@/components/MoodTracker';
 import Auth from './Auth';
 import { Loader2 } from 'lucide-react';
 import { type PredictionResult } from '@/lib/moodModel';
@@ -29,7 +29,7 @@ const Index = () => {
     }
   }, [loading]);
 
-  const handleMoodLogged = (aiResult?: PredictionResult, moodLevel?: string) => {
+  const handleMoodLogged = (aiResult?: PredictionResult, moodLevel?: string, crisis?: CrisisCheckResult) => {
     if (aiResult) {
       setLatestAiAnalysis(aiResult);
     }
@@ -37,6 +37,11 @@ const Index = () => {
       setSelectedMood(moodLevel);
     }
     setRefreshInsights(prev => prev + 1);
+    // Crisis language shows support resources instead of the normal insights
+    if (crisis) {
+      navigate('/resources/crisis-support', { state: { mentorNotified: crisis.mentorNotified } });
+      return;
+    }
     // Navigate to insights page after mood logging
     navigate('/insights');
   };
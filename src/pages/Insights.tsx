@@ -4,7 +4,8 @@ import InsightsPanel from '@/components/InsightsPanel';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useIsMobile } from '@/hooks/use-mobile';
-import { type PredictionResult } from '@/lib/moodModel';
+import { type PredictionExplanation, type PredictionResult } from '@/lib/moodModel';
+import { type CorrectableMoodLog } from '@/components/MoodCorrectionControl';
 import { Loader2 } from 'lucide-react';
 
 const InsightsPage = () => {
@@ -12,6 +13,7 @@ const InsightsPage = () => {
   const isMobile = useIsMobile();
   const [latestAiAnalysis, setLatestAiAnalysis] = useState<PredictionResult | null>(null);
   const [selectedMood, setSelectedMood] = useState<string | null>(null);
+  const [analyzedMoodLog, setAnalyzedMoodLog] = useState<CorrectableMoodLog | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -63,12 +65,15 @@ const InsightsPage = () => {
             stressLevel: latestLog.ai_stress_level || 3,
             confidence: 0.85, // Default confidence since not stored in DB
             sentimentPolarity: latestLog.ai_sentiment === 'positive' ? 0.5 : latestLog.ai_sentiment === 'stress detected' ? -0.5 : 0,
-            modelAccuracy: 0.92 // Default model accuracy
+            modelAccuracy: 0.92, // Default model accuracy
+            explanation: (latestLog.ai_explanation as unknown as PredictionExplanation) || undefined,
+            modelVersion: latestLog.model_version || undefined
           };
 
           console.log('Setting AI analysis:', aiAnalysis);
           setLatestAiAnalysis(aiAnalysis);
           setSelectedMood(latestLog.mood_level);
+          setAnalyzedMoodLog({ id: latestLog.id, note: latestLog.note, mood_level: latestLog.mood_level });
         } else {
           console.log('No mood logs with AI analysis found');
           // If no AI analysis exists, let's try to get the latest mood log anyway
@@ -144,6 +149,7 @@ const InsightsPage = () => {
           <InsightsPanel 
             latestAiAnalysis={latestAiAnalysis}
             selectedMood={selectedMood}
+            analyzedMoodLog={analyzedMoodLog}
           />
         </div>
       </div>
@@ -0,0 +1,225 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend
+} from 'recharts';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import useMoodHistory, { type MoodLogWithRecommendations } from '@/hooks/useMoodHistory';
+import { fetchAllMoodHistory } from '@/lib/moodHistoryQueries';
+import { MOOD_DEFINITIONS, MOOD_NAMES } from '@/lib/moodNames';
+import { getMoodLabel, parseReportFilters } from '@/lib/moodExport';
+import { formatDayKey, formatInTimeZone, getDayKey } from '@/lib/dateBuckets';
+import { moodLevelToNumber } from '@shared/moodDomain';
+import { ArrowLeft, Loader2, Printer } from 'lucide-react';
+import Auth from './Auth';
+
+const DATE_RANGE_LABELS = {
+  all: 'All time',
+  week: 'Last 7 days',
+  month: 'Last 30 days',
+  '3months': 'Last 3 months'
+} as const;
+
+// Dates are shown in the user's saved time zone, like the daily trend
+const REPORT_DATE: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' };
+const NOTE_TIMESTAMP: Intl.DateTimeFormatOptions = { ...REPORT_DATE, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' };
+
+// Charts have a fixed width so the printed page matches what is on screen
+const CHART_WIDTH = 680;
+
+// Printable clinician report for /history/report. It takes the History filters from the
+// query string and is saved as a PDF through the browser's print dialog, so nothing
+// leaves the device.
+const MoodReportPage = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const initialFilters = useMemo(() => parseReportFilters(searchParams), [searchParams]);
+  const { loading: statsLoading, error: statsError, filters, statistics, timeZone } = useMoodHistory(initialFilters);
+  const [moodLogs, setMoodLogs] = useState<MoodLogWithRecommendations[]>([]);
+  const [logsLoading, setLogsLoading] = useState(true);
+  const [logsError, setLogsError] = useState<string | null>(null);
+  const loading = statsLoading || logsLoading;
+  const error = statsError || logsError;
+
+  // The report lists every matching entry, not just the first page
+  useEffect(() => {
+    if (!user?.id) return;
+
+    let cancelled = false;
+    setLogsLoading(true);
+    fetchAllMoodHistory(user.id, filters).then(logs => {
+      if (cancelled) return;
+      setMoodLogs(logs ?? []);
+      setLogsError(logs ? null : 'Failed to load mood history. Please try again.');
+      setLogsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, filters]);
+
+  // Daily averages in the user's time zone, oldest first
+  const dailyTrend = useMemo(() => {
+    const days = new Map<string, { mood: number[]; stress: number[] }>();
+    moodLogs.forEach(log => {
+      const date = getDayKey(log.created_at, timeZone);
+      const day = days.get(date) ?? { mood: [], stress: [] };
+      day.mood.push(moodLevelToNumber(log.mood_level));
+      if (log.ai_stress_level !== null) day.stress.push(log.ai_stress_level);
+      days.set(date, day);
+    });
+
+    const average = (values: number[]) =>
+      values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : null;
+
+    return [...days.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, day]) => ({
+        date: formatDayKey(date, { month: 'short', day: 'numeric' }),
+        mood: average(day.mood),
+        stress: average(day.stress)
+      }));
+  }, [moodLogs, timeZone]);
+
+  const moodNameData = MOOD_NAMES
+    .map(name => ({ mood: MOOD_DEFINITIONS[name].label, count: statistics.moodNameDistribution[name] }))
+    .filter(entry => entry.count > 0);
+
+  const notedLogs = moodLogs.filter(log => log.note?.trim());
+
+  if (authLoading) {
+    return null;
+  }
+
+  if (!user) {
+    return <Auth />;
+  }
+
+  const firstDate = moodLogs[0]?.created_at;
+  const lastDate = moodLogs[moodLogs.length - 1]?.created_at;
+  const filterSummary = [
+    DATE_RANGE_LABELS[filters.dateRange],
+    filters.moodLevel !== 'all' ? `Mood level ${filters.moodLevel}` : null,
+    filters.moodName !== 'all' ? MOOD_DEFINITIONS[filters.moodName].label : null,
+    filters.search ? `Notes mentioning "${filters.search}"` : null
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="min-h-screen bg-white text-slate-800">
+      <div className="max-w-3xl mx-auto p-6 print:p-0 space-y-8">
+        <div className="flex justify-between items-center print:hidden">
+          <Button variant="outline" size="sm" onClick={() => navigate('/history')} className="flex items-center gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Back to history
+          </Button>
+          <Button size="sm" onClick={() => window.print()} disabled={loading || moodLogs.length === 0} className="flex items-center gap-2">
+            <Printer className="w-4 h-4" />
+            Print / Save as PDF
+          </Button>
+        </div>
+
+        <header className="border-b border-slate-200 pb-4">
+          <h1 className="text-2xl font-bold">Mood Tracking Report</h1>
+          <p className="text-sm text-slate-600">
+            {user.name || user.email} · Generated {formatInTimeZone(new Date(), timeZone, { month: 'long', day: 'numeric', year: 'numeric' })}
+          </p>
+          <p className="text-sm text-slate-600">
+            {filterSummary}
+            {firstDate && lastDate && ` · ${formatInTimeZone(firstDate, timeZone, REPORT_DATE)} to ${formatInTimeZone(lastDate, timeZone, REPORT_DATE)}`}
+          </p>
+        </header>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : moodLogs.length === 0 ? (
+          <p className="text-sm text-slate-600">No check-ins match these filters.</p>
+        ) : (
+          <>
+            <section className="grid grid-cols-3 gap-4">
+              <div className="border border-slate-200 rounded-lg p-4">
+                <p className="text-xs text-slate-500">Check-ins</p>
+                <p className="text-2xl font-semibold">{statistics.totalEntries}</p>
+              </div>
+              <div className="border border-slate-200 rounded-lg p-4">
+                <p className="text-xs text-slate-500">Average mood</p>
+                <p className="text-2xl font-semibold">{statistics.averageMood.toFixed(1)} <span className="text-sm font-normal text-slate-500">/ 5</span></p>
+              </div>
+              <div className="border border-slate-200 rounded-lg p-4">
+                <p className="text-xs text-slate-500">Average stress</p>
+                <p className="text-2xl font-semibold">
+                  {statistics.averageStress > 0 ? statistics.averageStress.toFixed(1) : '–'} <span className="text-sm font-normal text-slate-500">/ 5</span>
+                </p>
+              </div>
+            </section>
+
+            <section className="break-inside-avoid">
+              <h2 className="text-lg font-semibold mb-2">Daily mood and stress</h2>
+              <LineChart width={CHART_WIDTH} height={240} data={dailyTrend}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="date" tick={{ fontSize: 11 }} />
+                <YAxis domain={[1, 5]} ticks={[1, 2, 3, 4, 5]} tick={{ fontSize: 11 }} />
+                <Legend />
+                <Line type="monotone" dataKey="mood" name="Mood (1-5)" stroke="#3b82f6" strokeWidth={2} isAnimationActive={false} connectNulls />
+                <Line type="monotone" dataKey="stress" name="Stress (1-5)" stroke="#f97316" strokeWidth={2} isAnimationActive={false} connectNulls />
+              </LineChart>
+            </section>
+
+            {moodNameData.length > 0 && (
+              <section className="break-inside-avoid">
+                <h2 className="text-lg font-semibold mb-2">Moods reported</h2>
+                <BarChart width={CHART_WIDTH} height={200} data={moodNameData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis dataKey="mood" tick={{ fontSize: 11 }} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+                  <Bar dataKey="count" name="Check-ins" fill="#8b5cf6" isAnimationActive={false} />
+                </BarChart>
+              </section>
+            )}
+
+            <section>
+              <h2 className="text-lg font-semibold mb-2">Notes ({notedLogs.length})</h2>
+              {notedLogs.length === 0 ? (
+                <p className="text-sm text-slate-600">No notes were written in this period.</p>
+              ) : (
+                <table className="w-full text-sm border-collapse">
+                  <thead>
+                    <tr className="border-b border-slate-300 text-left text-slate-500">
+                      <th className="py-2 pr-3 font-medium whitespace-nowrap">Date</th>
+                      <th className="py-2 pr-3 font-medium whitespace-nowrap">Mood</th>
+                      <th className="py-2 pr-3 font-medium whitespace-nowrap">Stress</th>
+                      <th className="py-2 font-medium">Note</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {notedLogs.map(log => (
+                      <tr key={log.id} className="border-b border-slate-100 align-top break-inside-avoid">
+                        <td className="py-2 pr-3 whitespace-nowrap">{formatInTimeZone(log.created_at, timeZone, NOTE_TIMESTAMP)}</td>
+                        <td className="py-2 pr-3 whitespace-nowrap">{getMoodLabel(log)}</td>
+                        <td className="py-2 pr-3 whitespace-nowrap">{log.ai_stress_level !== null ? `${log.ai_stress_level}/5` : '–'}</td>
+                        <td className="py-2 whitespace-pre-wrap">{log.note}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          </>
+        )}
+
+        <footer className="border-t border-slate-200 pt-4 text-xs text-slate-500">
+          Self-reported check-ins from MindBloom Station. Stress levels are estimated automatically from the notes.
+          This report is not a clinical assessment.
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default MoodReportPage;
@@ -0,0 +1,23 @@
+import React from 'react';
+import Layout from '@/components/Layout';
+import PeerSupportChat from '@/components/PeerSupportChat';
+import { useIsMobile } from '@/hooks/use-mobile';
+
+// Linked from the highest stress recommendation; anonymous text chat with fellow students
+const PeerSupportPage = () => {
+  const isMobile = useIsMobile();
+
+  return (
+    <Layout>
+      <div className={`bg-white/80 backdrop-blur-sm min-h-full ${isMobile ? 'p-3' : 'p-4'}`}>
+        <div className={`mb-6 pb-4 border-b border-gray-200/60 ${isMobile ? 'mb-4 pb-3' : ''}`}>
+          <h1 className={`font-bold bg-gradient-to-r from-slate-800 to-slate-600 bg-clip-text text-transparent ${isMobile ? 'text-xl' : 'text-2xl'}`}>Peer Support</h1>
+          <p className={`text-slate-600 ${isMobile ? 'text-xs' : 'text-sm'}`}>Talk anonymously with fellow students who understand</p>
+        </div>
+        <PeerSupportChat />
+      </div>
+    </Layout>
+  );
+};
+
+export default PeerSupportPage;
@@ -0,0 +1,29 @@
+import React from 'react';
+import Layout from '@/components/Layout';
+import RiskFlagsPanel from '@/components/RiskFlagsPanel';
+import { useAuth } from '@/contexts/AuthContext';
+
+const SafetyAlertsPage = () => {
+  const { user } = useAuth();
+  const isResponder = user?.role === 'admin' || user?.role === 'mentor';
+
+  return (
+    <Layout>
+      <div className="p-4 bg-white/80 backdrop-blur-sm min-h-full">
+        <div className="mb-6 pb-4 border-b border-gray-200/60">
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-slate-800 to-slate-600 bg-clip-text text-transparent">Safety Alerts</h1>
+          <p className="text-slate-600 text-sm">Follow up on students whose notes or messages contained crisis language</p>
+        </div>
+        <div className="pb-8 max-w-4xl">
+          {isResponder ? (
+            <RiskFlagsPanel />
+          ) : (
+            <p className="text-sm text-gray-500">Safety alerts are only available to mentors and admins.</p>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default SafetyAlertsPage;
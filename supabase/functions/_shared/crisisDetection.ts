@@ -0,0 +1,164 @@
+// Crisis language detector for mood notes and chat messages, shared by the web app
+// (imported there as @shared/crisisDetection), analyze-mood and the analysis backfill, so
+// a note is checked wherever it reaches us. Phrase patterns decide whether text is flagged
+// at all; the mood model's stress probability only raises the score of a match, so a
+// stressed note without crisis language is never flagged. Negated phrases ("I'm not going
+// to hurt myself") still match on purpose: a person reviewing a false positive costs far
+// less than a missed one.
+
+export type CrisisCategory = 'explicit_intent' | 'suicidal_ideation' | 'hopelessness'
+export type CrisisSeverity = 'elevated' | 'high'
+export type RiskFlagSource = 'mood_log' | 'chat_message'
+
+export interface CrisisMatch {
+  phrase: string;
+  category: CrisisCategory;
+}
+
+export interface CrisisAssessment {
+  flagged: boolean;
+  severity: CrisisSeverity | null;
+  score: number;
+  modelScore: number | null;
+  matches: CrisisMatch[];
+}
+
+export interface CrisisDetectionOptions {
+  // For text the mood model cannot score, such as chat messages: every matched phrase
+  // flags, hopelessness at the elevated level, instead of needing a model score to do so
+  textOnly?: boolean;
+}
+
+// Columns of a public.risk_flags insert
+export interface RiskFlagRow {
+  user_id: string;
+  source: RiskFlagSource;
+  mood_log_id: string | null;
+  message_id: string | null;
+  severity: CrisisSeverity;
+  score: number;
+  model_score: number | null;
+  matched_phrases: string[];
+  excerpt: string;
+}
+
+const CRISIS_PATTERNS: { category: CrisisCategory; weight: number; patterns: RegExp[] }[] = [
+  {
+    category: 'explicit_intent',
+    weight: 1.0,
+    patterns: [
+      /\b(kill|killing|hurt|hurting|cut|cutting|harm|harming) myself\b/,
+      /\bself[- ]?harm(ing)?\b/,
+      /\b(commit|committing) suicide\b/,
+      /\bsuicidal\b/,
+      /\bend(ing)? (my (own )?life|it all)\b/,
+      /\btake my (own )?life\b/,
+      /\boverdos(e|ing)\b/,
+      /\bwant(ed)? to die\b/
+    ]
+  },
+  {
+    category: 'suicidal_ideation',
+    weight: 0.8,
+    patterns: [
+      /\bbetter off (dead|without me)\b/,
+      /\bno reason to (live|go on)\b/,
+      /\bdon'?t want to (live|be alive|be here|exist)\b/,
+      /\bwish i (was|were) dead\b/,
+      /\bwish i (could disappear|never woke up|wasn'?t born)\b/,
+      /\bcan'?t go on\b/,
+      /\bnot worth living\b/
+    ]
+  },
+  {
+    category: 'hopelessness',
+    weight: 0.3,
+    patterns: [
+      /\bhopeless\b/,
+      /\bworthless\b/,
+      /\bno way out\b/,
+      /\bnothing matters\b/,
+      /\bburden (to|on) (everyone|my family|others)\b/,
+      /\bgive up on everything\b/
+    ]
+  }
+]
+
+// Share of the score contributed by the model's stress probability
+const MODEL_SCORE_WEIGHT = 0.2
+const HIGH_SEVERITY_THRESHOLD = 0.8
+const ELEVATED_SEVERITY_THRESHOLD = 0.4
+
+// Length of the text excerpt stored with a risk flag for responders
+const EXCERPT_LENGTH = 280
+
+/**
+ * Scores text for self-harm and suicidal language
+ * @param {string} text - Mood note or chat message
+ * @param {number} modelScore - Calibrated stress probability from the mood model, if available
+ * @param {CrisisDetectionOptions} options - textOnly for text without a model score
+ * @returns {CrisisAssessment} Matches, combined score and severity
+ */
+export function detectCrisisLanguage(
+  text: string,
+  modelScore: number | null = null,
+  { textOnly = false }: CrisisDetectionOptions = {}
+): CrisisAssessment {
+  const normalized = (text || '').toLowerCase().replace(/[‘’]/g, "'").replace(/\s+/g, ' ')
+  const matches: CrisisMatch[] = []
+  let phraseWeight = 0
+
+  CRISIS_PATTERNS.forEach(({ category, weight, patterns }) => {
+    patterns.forEach(pattern => {
+      const match = normalized.match(pattern)
+      if (match) {
+        matches.push({ phrase: match[0], category })
+        phraseWeight = Math.max(phraseWeight, weight)
+      }
+    })
+  })
+
+  const phraseScore = textOnly ? Math.max(phraseWeight, ELEVATED_SEVERITY_THRESHOLD) : phraseWeight
+  const score = phraseWeight > 0
+    ? Math.min(1, phraseScore + MODEL_SCORE_WEIGHT * (modelScore ?? 0))
+    : 0
+  const severity: CrisisSeverity | null = score >= HIGH_SEVERITY_THRESHOLD
+    ? 'high'
+    : score >= ELEVATED_SEVERITY_THRESHOLD ? 'elevated' : null
+
+  return {
+    flagged: severity !== null,
+    severity,
+    score: Math.round(score * 100) / 100,
+    modelScore,
+    matches
+  }
+}
+
+/**
+ * The risk_flags row for a flagged assessment; the text is kept as a short excerpt
+ * @param {string} userId - The author of the flagged text
+ * @param {RiskFlagSource} source - Where the text was written
+ * @param {string | null} sourceId - The mood log or chat message id; null for a mood note that was not saved
+ * @param {string} text - The flagged text
+ * @param {CrisisAssessment} assessment - A flagged result from detectCrisisLanguage
+ */
+export function buildRiskFlag(
+  userId: string,
+  source: RiskFlagSource,
+  sourceId: string | null,
+  text: string,
+  assessment: CrisisAssessment
+): RiskFlagRow {
+  return {
+    user_id: userId,
+    source,
+    mood_log_id: source === 'mood_log' ? sourceId : null,
+    message_id: source === 'chat_message' ? sourceId : null,
+    severity: assessment.severity as CrisisSeverity,
+    score: assessment.score,
+    model_score: assessment.modelScore,
+    matched_phrases: assessment.matches.map(match => match.phrase),
+    excerpt: text.slice(0, EXCERPT_LENGTH)
+  }
+}
@@ -0,0 +1,93 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.56.0'
+
+// HTTP helpers shared by the edge functions: CORS, typed errors and caller authentication
+
+// Comma-separated list of origins allowed to call the function from a browser. It is
+// required: when unset no origin is allowed, rather than every origin.
+const allowedOrigins = (Deno.env.get('ALLOWED_ORIGINS') ?? '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean)
+
+if (allowedOrigins.length === 0) {
+  console.error('ALLOWED_ORIGINS is not set; browser requests to this function will be blocked')
+}
+
+export function getCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get('Origin') ?? ''
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, idempotency-key',
+    'Vary': 'Origin',
+  }
+
+  if (allowedOrigins.length > 0) {
+    headers['Access-Control-Allow-Origin'] = allowedOrigins.includes(origin) ? origin : allowedOrigins[0]
+  }
+  return headers
+}
+
+// Error with the HTTP status and machine-readable code returned to the caller
+export class HttpError extends Error {
+  constructor(public status: number, public code: string, message: string, public details?: Record<string, string>) {
+    super(message)
+  }
+}
+
+export function jsonResponse(req: Request, body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' },
+    status,
+  })
+}
+
+export type ServiceClient = ReturnType<typeof createClient>
+
+/**
+ * Creates a service-role client; it bypasses RLS, so callers must be authorized explicitly
+ */
+export function createServiceClient(): ServiceClient {
+  return createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  )
+}
+
+export interface Caller {
+  id: string;
+  role: string | null;
+}
+
+/**
+ * Verifies the bearer token and loads the caller's role, throwing a 401 when it is missing or invalid
+ */
+export async function authenticate(req: Request, supabaseClient: ServiceClient): Promise<Caller> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) {
+    throw new HttpError(401, 'missing_token', 'Missing bearer token')
+  }
+
+  const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token)
+  if (authError || !user) {
+    throw new HttpError(401, 'invalid_token', 'Invalid or expired token')
+  }
+
+  const { data: profile } = await supabaseClient
+    .from('users')
+    .select('role')
+    .eq('id', user.id)
+    .maybeSingle()
+
+  return { id: user.id, role: profile?.role ?? null }
+}
+
+/**
+ * Maps an error to its JSON response; unexpected errors are logged but not echoed to the caller
+ */
+export function errorResponse(req: Request, error: unknown, functionName: string) {
+  if (error instanceof HttpError) {
+    return jsonResponse(req, { error: { code: error.code, message: error.message, details: error.details } }, error.status)
+  }
+
+  console.error(`Error in ${functionName} function:`, error)
+  return jsonResponse(req, { error: { code: 'internal_error', message: 'Internal server error' } }, 500)
+}
@@ -0,0 +1,89 @@
+import { type MoodLevel, moodLevelToNumber } from './moodDomain.ts'
+
+// Keyword heuristic behind the server_heuristic analysis engine, shared by analyze-mood
+// and the backfill job. Bump SERVER_ENGINE_VERSION whenever the rules change so the
+// backfill re-analyzes old mood logs; a backfill skips logs already at the current version
+// unless it is started with "Re-analyze" (reanalyze: true).
+
+// Must match the engines accepted by public.analyses (see src/lib/moodAnalyses.ts)
+export const SERVER_ANALYSIS_ENGINE = 'server_heuristic'
+export const SERVER_ENGINE_VERSION = 'heuristic-1.0'
+
+// Same sentiment labels as the client model so both engines' rows can be compared and charted
+const STRESS_SENTIMENTS: Record<number, string> = {
+  1: 'very positive',
+  2: 'positive',
+  3: 'moderate stress',
+  4: 'high stress detected',
+  5: 'severe stress detected'
+}
+
+export async function analyzeMood(moodLevel: MoodLevel, note?: string | null) {
+  const level = moodLevelToNumber(moodLevel)
+  
+  // Simple AI-like analysis based on mood level and note content
+  let summary = ""
+  let stressLevel = 1
+  let confidence = 0.7 // Base confidence
+
+  // Analyze based on mood level
+  if (level <= 2) {
+    summary = "You seem to be experiencing some difficult emotions today. Remember that it's normal to have ups and downs, and reaching out for support is a sign of strength."
+    stressLevel = level === 1 ? 5 : 4
+    confidence = 0.8 // Higher confidence for extreme mood levels
+  } else if (level === 3) {
+    summary = "You're feeling okay today, which is perfectly normal. Consider some self-care activities to boost your mood a bit more."
+    stressLevel = 3
+    confidence = 0.6 // Lower confidence for neutral mood
+  } else if (level === 4) {
+    summary = "You're feeling good today! This is a great foundation to build on. Keep up the positive momentum."
+    stressLevel = 2
+    confidence = 0.75
+  } else {
+    summary = "You're feeling fantastic today! Your positive energy can be contagious - consider sharing some encouragement with peers."
+    stressLevel = 1
+    confidence = 0.85 // Higher confidence for extreme mood levels
+  }
+
+  // Enhance analysis if there's a note
+  if (note && note.trim()) {
+    const noteWords = note.toLowerCase()
+    
+    // Check for stress indicators
+    const stressKeywords = ['stress', 'anxious', 'worried', 'overwhelmed', 'pressure', 'exam', 'deadline']
+    const positiveKeywords = ['happy', 'good', 'great', 'excited', 'grateful', 'accomplished']
+    const sadKeywords = ['sad', 'depressed', 'lonely', 'tired', 'exhausted', 'hopeless']
+    
+    const hasStressKeywords = stressKeywords.some(keyword => noteWords.includes(keyword))
+    const hasPositiveKeywords = positiveKeywords.some(keyword => noteWords.includes(keyword))
+    const hasSadKeywords = sadKeywords.some(keyword => noteWords.includes(keyword))
+    
+    // Increase confidence when we have text analysis
+    confidence = Math.min(0.95, confidence + 0.1)
+    
+    if (hasStressKeywords) {
+      stressLevel = Math.min(5, stressLevel + 1)
+      summary += " I noticed you mentioned feeling stressed. Try some breathing exercises or take a short break."
+      confidence = Math.min(0.9, confidence + 0.05) // Higher confidence with keyword match
+    }
+    
+    if (hasSadKeywords) {
+      summary += " It sounds like you're going through a tough time. Consider reaching out to a friend or counselor."
+      confidence = Math.min(0.9, confidence + 0.05)
+    }
+    
+    if (hasPositiveKeywords && level >= 3) {
+      summary += " I can see you're focusing on positive aspects, which is wonderful for your mental health!"
+      confidence = Math.min(0.9, confidence + 0.05)
+    }
+  }
+
+  stressLevel = Math.max(1, Math.min(5, stressLevel))
+
+  return {
+    sentiment: STRESS_SENTIMENTS[stressLevel],
+    summary,
+    stressLevel,
+    confidence: Math.round(confidence * 100) / 100 // Round to 2 decimal places
+  }
+}
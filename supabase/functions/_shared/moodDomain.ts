@@ -0,0 +1,30 @@
+// Database enums of the mood domain and the helpers around them. The edge functions import
+// this file directly and the web app imports it as @shared/moodDomain, so there is one list
+// of values. test-enum-drift.js fails when it, the migrations and the generated
+// src/integrations/supabase/types.ts disagree.
+
+export const MOOD_LEVELS = ['1', '2', '3', '4', '5'] as const
+export type MoodLevel = typeof MOOD_LEVELS[number]
+
+export const RECOMMENDATION_TYPES = ['breathing', 'mindfulness', 'activity', 'video', 'article'] as const
+export type RecommendationType = typeof RECOMMENDATION_TYPES[number]
+
+export function isMoodLevel(value: unknown): value is MoodLevel {
+  return typeof value === 'string' && (MOOD_LEVELS as readonly string[]).includes(value)
+}
+
+/**
+ * Mood level from a request or form value; accepts 1-5 as a number or a string
+ */
+export function parseMoodLevel(value: unknown): MoodLevel | null {
+  const level = typeof value === 'number' ? String(value) : value
+  return isMoodLevel(level) ? level : null
+}
+
+export function moodLevelToNumber(level: MoodLevel): number {
+  return Number(level)
+}
+
+export function isRecommendationType(value: unknown): value is RecommendationType {
+  return typeof value === 'string' && (RECOMMENDATION_TYPES as readonly string[]).includes(value)
+}
@@ -0,0 +1,51 @@
+import type { ServiceClient } from './http.ts'
+import type { RecommendationType } from './moodDomain.ts'
+import { getRecommendationTypeScorer, loadRecommendationTypeStats, selectRecommendations } from './recommendationRanking.ts'
+
+// Recommendations stored by analyze-mood, picked from public.recommendation_catalog and
+// ranked per user with recommendation_feedback (see recommendationRanking.ts)
+
+const MAX_RECOMMENDATIONS = 3
+
+export interface CatalogEntry {
+  id: string;
+  title: string;
+  description: string | null;
+  type: RecommendationType;
+  content_url: string | null;
+  min_stress_level: number;
+  max_stress_level: number;
+  target_emotions: string[];
+  locale: string;
+  priority: number;
+}
+
+/**
+ * Loads the active catalog and returns store_server_analysis recommendation payloads
+ */
+export async function generateRecommendations(supabaseClient: ServiceClient, stressLevel: number, userId: string) {
+  const [{ data: catalog, error }, typeStats] = await Promise.all([
+    supabaseClient
+      .from('recommendation_catalog')
+      .select('id, title, description, type, content_url, min_stress_level, max_stress_level, target_emotions, locale, priority')
+      .eq('is_active', true),
+    loadRecommendationTypeStats(supabaseClient, userId)
+  ])
+
+  if (error) {
+    throw error
+  }
+
+  // The server heuristic detects no emotions, so targeting never filters its picks
+  return selectRecommendations((catalog ?? []) as CatalogEntry[], {
+    stressLevel,
+    limit: MAX_RECOMMENDATIONS,
+    scoreType: getRecommendationTypeScorer(typeStats)
+  }).map(entry => ({
+    catalog_id: entry.id,
+    title: entry.title,
+    description: entry.description,
+    content_url: entry.content_url,
+    type: entry.type
+  }))
+}
@@ -0,0 +1,124 @@
+// Recommendation selection over public.recommendation_catalog and the per-user ranking of
+// recommendation types from feedback history, shared by analyze-mood and the web app
+// (imported there as @shared/recommendationRanking). Each type is scored with UCB1: the
+// smoothed rate of positive feedback plus an exploration bonus that shrinks the more often
+// the type has been recommended, so a type shown at every check-in gives way to others
+// until its feedback earns it back. Dependency-free: callers pass their own Supabase client.
+
+export const DEFAULT_LOCALE = 'en'
+// Score weights: a matching target emotion outweighs any priority difference when there is
+// no feedback history, while feedback can still move a type past it
+const EMOTION_MATCH_BONUS = 1
+const PRIORITY_WEIGHT = 0.02
+// Recent recommendations considered when ranking
+const HISTORY_LIMIT = 200
+
+// Catalog columns the selection reads; callers keep whatever else they selected
+export interface SelectableCatalogEntry {
+  title: string;
+  type: string;
+  min_stress_level: number;
+  max_stress_level: number;
+  target_emotions: string[];
+  locale: string;
+  priority: number;
+}
+
+export interface RecommendationSelection {
+  stressLevel: number;
+  emotion?: string | null;
+  locale?: string;
+  limit?: number;
+  scoreType?: (type: string) => number; // Per-user ranking from feedback history
+}
+
+export interface RecommendationTypeStats {
+  shown: number;
+  positive: number;
+  negative: number;
+}
+
+interface RecommendationHistoryRow {
+  type: string;
+  recommendation_feedback: { helpful: boolean | null; completed: boolean }[];
+}
+
+interface RecommendationHistoryQuery extends PromiseLike<{ data: RecommendationHistoryRow[] | null; error: unknown }> {
+  eq(column: string, value: string): RecommendationHistoryQuery;
+  order(column: string, options: { ascending: boolean }): RecommendationHistoryQuery;
+  limit(count: number): RecommendationHistoryQuery;
+}
+
+// The part of a Supabase client the loader uses, so both the browser and the Deno client fit.
+// Its typed query builder is too deep to match structurally, hence the unknown result.
+export interface RecommendationHistoryClient {
+  from(table: 'recommendations'): unknown;
+}
+
+/**
+ * Picks the entries covering the stress level. Entries targeting the detected emotion get
+ * a bonus and entries targeting other emotions are dropped; without an emotion the
+ * targeting is ignored. The rest of the score is the admin priority plus the per-user
+ * type score.
+ */
+export function selectRecommendations<T extends SelectableCatalogEntry>(
+  catalog: T[],
+  { stressLevel, emotion = null, locale = DEFAULT_LOCALE, limit = 1, scoreType }: RecommendationSelection
+): T[] {
+  const localized = catalog.filter(entry => entry.locale === locale)
+  const entries = localized.length > 0 ? localized : catalog.filter(entry => entry.locale === DEFAULT_LOCALE)
+  const matchesEmotion = (entry: T) => emotion !== null && entry.target_emotions.includes(emotion)
+  const score = (entry: T) =>
+    (matchesEmotion(entry) ? EMOTION_MATCH_BONUS : 0) +
+    PRIORITY_WEIGHT * entry.priority +
+    (scoreType ? scoreType(entry.type) : 0)
+
+  return entries
+    .filter(entry => stressLevel >= entry.min_stress_level && stressLevel <= entry.max_stress_level)
+    .filter(entry => emotion === null || entry.target_emotions.length === 0 || matchesEmotion(entry))
+    .sort((a, b) => score(b) - score(a) || a.title.localeCompare(b.title))
+    .slice(0, limit)
+}
+
+/**
+ * Counts how often each type was recommended to the user and how it was rated. Throws the
+ * query error.
+ */
+export async function loadRecommendationTypeStats(
+  supabaseClient: RecommendationHistoryClient,
+  userId: string
+): Promise<Record<string, RecommendationTypeStats>> {
+  const table = supabaseClient.from('recommendations') as { select(columns: string): RecommendationHistoryQuery }
+  const { data, error } = await table
+    .select('type, mood_logs!inner(user_id), recommendation_feedback(helpful, completed)')
+    .eq('mood_logs.user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(HISTORY_LIMIT)
+
+  if (error) {
+    throw error
+  }
+
+  const stats: Record<string, RecommendationTypeStats> = {}
+  for (const row of data ?? []) {
+    const typeStats = stats[row.type] ??= { shown: 0, positive: 0, negative: 0 }
+    typeStats.shown++
+
+    const [feedback] = row.recommendation_feedback
+    if (feedback?.completed || feedback?.helpful === true) typeStats.positive++
+    else if (feedback?.helpful === false) typeStats.negative++
+  }
+  return stats
+}
+
+/**
+ * UCB1 scorer over recommendation types; types never recommended get the largest bonus
+ */
+export function getRecommendationTypeScorer(stats: Record<string, RecommendationTypeStats>): (type: string) => number {
+  const totalShown = Object.values(stats).reduce((sum, typeStats) => sum + typeStats.shown, 0)
+
+  return (type: string) => {
+    const { shown, positive, negative } = stats[type] ?? { shown: 0, positive: 0, negative: 0 }
+    return (positive + 1) / (positive + negative + 2) + Math.sqrt((2 * Math.log(totalShown + 1)) / (shown + 1))
+  }
+}
@@ -0,0 +1,57 @@
+import type { ServiceClient } from './http.ts'
+import { type RiskFlagRow, buildRiskFlag, detectCrisisLanguage } from './crisisDetection.ts'
+
+// Server-side crisis check for mood notes, run by analyze-mood and the analysis backfill.
+// The web app flags a note as it is written, so a mood log that already has a risk flag is
+// not flagged again; notes that reach the database some other way are caught here.
+
+interface MoodNote {
+  id: string;
+  user_id: string;
+  note: string | null;
+}
+
+/**
+ * Raises a risk flag for each note with crisis language that has none yet and returns how
+ * many were raised. The server has no calibrated stress probability, so only the phrases
+ * count. Throws the query error.
+ */
+export async function flagMoodNotes(supabaseClient: ServiceClient, moodLogs: MoodNote[]): Promise<number> {
+  const flags: RiskFlagRow[] = []
+  for (const log of moodLogs) {
+    if (!log.note) continue
+
+    const assessment = detectCrisisLanguage(log.note)
+    if (assessment.flagged) {
+      flags.push(buildRiskFlag(log.user_id, 'mood_log', log.id, log.note, assessment))
+    }
+  }
+
+  if (flags.length === 0) {
+    return 0
+  }
+
+  const { data: existing, error: existingError } = await supabaseClient
+    .from('risk_flags')
+    .select('mood_log_id')
+    .in('mood_log_id', flags.map(flag => flag.mood_log_id))
+
+  if (existingError) {
+    throw existingError
+  }
+
+  const alreadyFlagged = new Set((existing ?? []).map((row: { mood_log_id: string }) => row.mood_log_id))
+  const newFlags = flags.filter(flag => !alreadyFlagged.has(flag.mood_log_id as string))
+  if (newFlags.length === 0) {
+    return 0
+  }
+
+  const { error } = await supabaseClient
+    .from('risk_flags')
+    .insert(newFlags)
+
+  if (error) {
+    throw error
+  }
+  return newFlags.length
+}
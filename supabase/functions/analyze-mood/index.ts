@@ -1,209 +1,220 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.56.0'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
+import {
+  HttpError,
+  type ServiceClient,
+  authenticate,
+  createServiceClient,
+  errorResponse,
+  getCorsHeaders,
+  jsonResponse
+} from '../_shared/http.ts'
+import {
+  SERVER_ANALYSIS_ENGINE,
+  SERVER_ENGINE_VERSION,
+  analyzeMood
+} from '../_shared/moodAnalysis.ts'
+import { type MoodLevel, parseMoodLevel } from '../_shared/moodDomain.ts'
+import { generateRecommendations } from '../_shared/recommendationCatalog.ts'
+import { flagMoodNotes } from '../_shared/riskFlags.ts'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const MAX_NOTE_LENGTH = 2000
+const MAX_IDEMPOTENCY_KEY_LENGTH = 128
 
 interface MoodAnalysisRequest {
   mood_log_id: string;
-  mood_level: string;
-  note?: string;
+  mood_level: MoodLevel;
+  note: string | null;
+}
+
+/**
+ * Validates the request body, collecting every field error into one 422
+ */
+function validateMoodAnalysisRequest(body: unknown): MoodAnalysisRequest {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpError(422, 'invalid_body', 'Request body must be a JSON object')
+  }
+
+  const { mood_log_id, mood_level, note } = body as Record<string, unknown>
+  const details: Record<string, string> = {}
+
+  if (typeof mood_log_id !== 'string' || !UUID_PATTERN.test(mood_log_id)) {
+    details.mood_log_id = 'must be a UUID'
+  }
+
+  const level = parseMoodLevel(mood_level)
+  if (!level) {
+    details.mood_level = 'must be an integer from 1 to 5'
+  }
+
+  if (note !== undefined && note !== null) {
+    if (typeof note !== 'string') {
+      details.note = 'must be a string'
+    } else if (note.length > MAX_NOTE_LENGTH) {
+      details.note = `must be at most ${MAX_NOTE_LENGTH} characters`
+    }
+  }
+
+  if (Object.keys(details).length > 0) {
+    throw new HttpError(422, 'invalid_request', 'Request validation failed', details)
+  }
+
+  return {
+    mood_log_id: mood_log_id as string,
+    mood_level: level,
+    note: typeof note === 'string' && note.trim() ? note.trim() : null
+  }
 }
 
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
+    return new Response('ok', { headers: getCorsHeaders(req) })
   }
 
   try {
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
-    )
+    const supabaseClient = createServiceClient()
+    const caller = await authenticate(req, supabaseClient)
+
+    let rawBody: unknown
+    try {
+      rawBody = await req.json()
+    } catch {
+      throw new HttpError(422, 'invalid_body', 'Request body must be JSON')
+    }
 
-    const { mood_log_id, mood_level, note }: MoodAnalysisRequest = await req.json()
+    const { mood_log_id, mood_level, note } = validateMoodAnalysisRequest(rawBody)
 
-    // Perform AI analysis based on mood level and note
-    const analysis = await analyzeMood(mood_level, note)
+    // Retries carrying the same Idempotency-Key get the stored result instead of a 409
+    const idempotencyKey = req.headers.get('Idempotency-Key')?.trim() || null
+    if (idempotencyKey && idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      throw new HttpError(422, 'invalid_idempotency_key', `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`)
+    }
 
-    // Update the mood log with AI insights
-    const { error: updateError } = await supabaseClient
+    const { data: moodLog, error: moodLogError } = await supabaseClient
       .from('mood_logs')
-      .update({
-        ai_sentiment: analysis.sentiment,
-        ai_stress_level: analysis.stressLevel,
-        ai_confidence: analysis.confidence
-      })
+      .select('id, user_id, note')
       .eq('id', mood_log_id)
+      .maybeSingle()
 
-    if (updateError) {
-      throw updateError
+    if (moodLogError) {
+      throw moodLogError
+    }
+    if (!moodLog) {
+      throw new HttpError(404, 'mood_log_not_found', 'Mood log not found')
     }
 
-    // Generate personalized recommendations
-    const recommendations = await generateRecommendations(mood_level, analysis.stressLevel)
-
-    // Insert recommendations
-    for (const rec of recommendations) {
-      await supabaseClient
-        .from('recommendations')
-        .insert({
-          mood_log_id,
-          title: rec.title,
-          description: rec.description,
-          content_url: rec.content_url,
-          type: rec.type
-        })
+    if (moodLog.user_id !== caller.id && caller.role !== 'admin') {
+      throw new HttpError(403, 'forbidden', 'You can only analyze your own mood logs')
     }
 
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        analysis,
-        recommendations: recommendations.length 
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      },
-    )
+    // The stored note is checked for crisis language on every request, replays included, so
+    // a note saved without the web app's check still reaches a mentor. A failed check does
+    // not block the analysis.
+    try {
+      await flagMoodNotes(supabaseClient, [moodLog])
+    } catch (flagError) {
+      console.error('Failed to check mood note for crisis language:', flagError)
+    }
 
-  } catch (error) {
-    console.error('Error in analyze-mood function:', error)
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 400,
-      },
-    )
-  }
-})
+    if (idempotencyKey) {
+      const { data: previousRequest, error: idempotencyError } = await supabaseClient
+        .from('analysis_requests')
+        .select('mood_log_id, analysis_id, recommendation_ids, displayed')
+        .eq('user_id', caller.id)
+        .eq('idempotency_key', idempotencyKey)
+        .maybeSingle()
 
-async function analyzeMood(moodLevel: string, note?: string) {
-  const level = parseInt(moodLevel)
-  
-  // Simple AI-like analysis based on mood level and note content
-  let sentiment = ""
-  let stressLevel = 1
-  let confidence = 0.7 // Base confidence
-
-  // Analyze based on mood level
-  if (level <= 2) {
-    sentiment = "You seem to be experiencing some difficult emotions today. Remember that it's normal to have ups and downs, and reaching out for support is a sign of strength."
-    stressLevel = level === 1 ? 5 : 4
-    confidence = 0.8 // Higher confidence for extreme mood levels
-  } else if (level === 3) {
-    sentiment = "You're feeling okay today, which is perfectly normal. Consider some self-care activities to boost your mood a bit more."
-    stressLevel = 3
-    confidence = 0.6 // Lower confidence for neutral mood
-  } else if (level === 4) {
-    sentiment = "You're feeling good today! This is a great foundation to build on. Keep up the positive momentum."
-    stressLevel = 2
-    confidence = 0.75
-  } else {
-    sentiment = "You're feeling fantastic today! Your positive energy can be contagious - consider sharing some encouragement with peers."
-    stressLevel = 1
-    confidence = 0.85 // Higher confidence for extreme mood levels
-  }
+      if (idempotencyError) {
+        throw idempotencyError
+      }
+      if (previousRequest) {
+        if (previousRequest.mood_log_id !== mood_log_id) {
+          throw new HttpError(422, 'idempotency_key_reused', 'Idempotency-Key was already used for a different mood log')
+        }
+        return jsonResponse(req, await buildResponse(supabaseClient, previousRequest, true), 200)
+      }
+    }
 
-  // Enhance analysis if there's a note
-  if (note && note.trim()) {
-    const noteWords = note.toLowerCase()
-    
-    // Check for stress indicators
-    const stressKeywords = ['stress', 'anxious', 'worried', 'overwhelmed', 'pressure', 'exam', 'deadline']
-    const positiveKeywords = ['happy', 'good', 'great', 'excited', 'grateful', 'accomplished']
-    const sadKeywords = ['sad', 'depressed', 'lonely', 'tired', 'exhausted', 'hopeless']
-    
-    const hasStressKeywords = stressKeywords.some(keyword => noteWords.includes(keyword))
-    const hasPositiveKeywords = positiveKeywords.some(keyword => noteWords.includes(keyword))
-    const hasSadKeywords = sadKeywords.some(keyword => noteWords.includes(keyword))
-    
-    // Increase confidence when we have text analysis
-    confidence = Math.min(0.95, confidence + 0.1)
-    
-    if (hasStressKeywords) {
-      stressLevel = Math.min(5, stressLevel + 1)
-      sentiment += " I noticed you mentioned feeling stressed. Try some breathing exercises or take a short break."
-      confidence = Math.min(0.9, confidence + 0.05) // Higher confidence with keyword match
+    // A mood log is analyzed once per engine version; repeating the request is a replay
+    const { count: existingAnalyses, error: replayError } = await supabaseClient
+      .from('analyses')
+      .select('id', { count: 'exact', head: true })
+      .eq('mood_log_id', mood_log_id)
+      .eq('engine', SERVER_ANALYSIS_ENGINE)
+      .eq('engine_version', SERVER_ENGINE_VERSION)
+
+    if (replayError) {
+      throw replayError
     }
-    
-    if (hasSadKeywords) {
-      sentiment += " It sounds like you're going through a tough time. Consider reaching out to a friend or counselor."
-      confidence = Math.min(0.9, confidence + 0.05)
+    if (existingAnalyses) {
+      throw new HttpError(409, 'already_analyzed', 'This mood log has already been analyzed')
     }
-    
-    if (hasPositiveKeywords && level >= 3) {
-      sentiment += " I can see you're focusing on positive aspects, which is wonderful for your mental health!"
-      confidence = Math.min(0.9, confidence + 0.05)
+
+    // Perform AI analysis based on mood level and note
+    const analysis = await analyzeMood(mood_level, note)
+    const recommendations = await generateRecommendations(supabaseClient, analysis.stressLevel, moodLog.user_id)
+
+    // Analysis, recommendations and idempotency record are stored in one transaction. The
+    // sync_mood_log_analysis trigger decides whether mood_logs.ai_* shows this analysis, and
+    // recommendations are only kept when it does.
+    const { data: stored, error: storeError } = await supabaseClient.rpc('store_server_analysis', {
+      p_mood_log_id: mood_log_id,
+      p_user_id: moodLog.user_id,
+      p_caller_id: caller.id,
+      p_idempotency_key: idempotencyKey,
+      p_engine_version: SERVER_ENGINE_VERSION,
+      p_sentiment: analysis.sentiment,
+      p_stress_level: analysis.stressLevel,
+      p_confidence: analysis.confidence,
+      p_summary: analysis.summary,
+      p_recommendations: recommendations
+    })
+
+    if (storeError) {
+      // A concurrent replay won the unique (mood_log_id, engine, engine_version) race
+      if (storeError.code === '23505') {
+        throw new HttpError(409, 'already_analyzed', 'This mood log has already been analyzed')
+      }
+      throw storeError
     }
-  }
 
-  return {
-    sentiment,
-    stressLevel: Math.max(1, Math.min(5, stressLevel)),
-    confidence: Math.round(confidence * 100) / 100 // Round to 2 decimal places
-  }
-}
+    return jsonResponse(req, await buildResponse(supabaseClient, stored, false), 200)
 
-async function generateRecommendations(moodLevel: string, stressLevel: number) {
-  const level = parseInt(moodLevel)
-  const recommendations = []
-
-  // Stress-based recommendations
-  if (stressLevel >= 4) {
-    recommendations.push({
-      title: "Immediate Stress Relief",
-      description: "Quick breathing exercise to calm your nervous system",
-      content_url: "https://www.youtube.com/watch?v=YRPh_GaiL8s",
-      type: "breathing"
-    })
+  } catch (error) {
+    return errorResponse(req, error, 'analyze-mood')
   }
+})
 
-  if (stressLevel >= 3) {
-    recommendations.push({
-      title: "5-Minute Mindfulness Break",
-      description: "Short meditation to center yourself",
-      content_url: "https://www.headspace.com/meditation/5-minute-meditation",
-      type: "mindfulness"
-    })
-  }
+interface StoredAnalysisIds {
+  analysis_id: string;
+  recommendation_ids: string[];
+  displayed: boolean;
+}
 
-  // Mood-based recommendations
-  if (level <= 2) {
-    recommendations.push(
-      {
-        title: "Gentle Movement",
-        description: "Light physical activity to boost endorphins",
-        content_url: "/activities/gentle-movement",
-        type: "activity"
-      },
-      {
-        title: "Crisis Support Resources",
-        description: "24/7 support when you need it most",
-        content_url: "/resources/crisis-support",
-        type: "article"
-      }
-    )
-  } else if (level === 3) {
-    recommendations.push({
-      title: "Mood Boosting Activities",
-      description: "Simple ways to lift your spirits",
-      content_url: "/activities/mood-boost",
-      type: "activity"
-    })
-  } else if (level >= 4) {
-    recommendations.push({
-      title: "Maintain Your Positive Energy",
-      description: "Tips to keep feeling great",
-      content_url: "/articles/positive-habits",
-      type: "article"
-    })
+/**
+ * Builds the success response from stored ids, so first calls and idempotent retries match
+ */
+async function buildResponse(
+  supabaseClient: ServiceClient,
+  stored: StoredAnalysisIds,
+  replayed: boolean
+) {
+  const { data: analysis, error } = await supabaseClient
+    .from('analyses')
+    .select('id, engine, engine_version, sentiment, stress_level, confidence, summary, created_at')
+    .eq('id', stored.analysis_id)
+    .single()
+
+  if (error) {
+    throw error
   }
 
-  return recommendations.slice(0, 3) // Limit to 3 recommendations
-}
\ No newline at end of file
+  return {
+    success: true,
+    replayed,
+    displayed: stored.displayed,
+    analysis,
+    recommendation_ids: stored.recommendation_ids
+  }
+}
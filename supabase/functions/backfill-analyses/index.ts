@@ -0,0 +1,300 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import {
+  HttpError,
+  type ServiceClient,
+  authenticate,
+  createServiceClient,
+  errorResponse,
+  getCorsHeaders,
+  jsonResponse
+} from '../_shared/http.ts'
+import {
+  SERVER_ANALYSIS_ENGINE,
+  SERVER_ENGINE_VERSION,
+  analyzeMood
+} from '../_shared/moodAnalysis.ts'
+import type { MoodLevel } from '../_shared/moodDomain.ts'
+import { flagMoodNotes } from '../_shared/riskFlags.ts'
+
+// Re-runs the server analysis over historical mood logs with the current engine version.
+// Each call processes one page so it stays well inside the edge function time limit; the
+// admin dashboard keeps calling "continue" until the job completes, and a job left
+// running (e.g. the tab was closed) can be resumed from its cursor.
+//
+// Logs already analyzed by SERVER_ENGINE_VERSION are skipped, so a rule change is only
+// picked up when the version is bumped (see _shared/moodAnalysis.ts). A job started with
+// reanalyze: true rewrites those analyses too, for changes that kept the version.
+//
+// Every note in the page, skipped or not, is also checked for crisis language; notes with
+// crisis language and no risk flag yet are flagged for mentors.
+
+const PAGE_SIZE = 50
+
+type BackfillAction = 'start' | 'continue' | 'cancel'
+
+interface BackfillRequest {
+  action: BackfillAction;
+  job_id?: string;
+  reanalyze?: boolean; // start only
+}
+
+interface BackfillJob {
+  id: string;
+  status: string;
+  engine_version: string;
+  reanalyze: boolean;
+  total_logs: number;
+  processed_logs: number;
+  analyzed_logs: number;
+  skipped_logs: number;
+  failed_logs: number;
+  cursor_created_at: string | null;
+  cursor_id: string | null;
+}
+
+interface MoodLogRow {
+  id: string;
+  user_id: string;
+  mood_level: MoodLevel;
+  note: string | null;
+  created_at: string;
+}
+
+function validateBackfillRequest(body: unknown): BackfillRequest {
+  const { action, job_id, reanalyze } = (body ?? {}) as Record<string, unknown>
+
+  if (action !== 'start' && action !== 'continue' && action !== 'cancel') {
+    throw new HttpError(422, 'invalid_request', 'Request validation failed', { action: 'must be start, continue or cancel' })
+  }
+  if (action !== 'start' && typeof job_id !== 'string') {
+    throw new HttpError(422, 'invalid_request', 'Request validation failed', { job_id: 'is required' })
+  }
+  if (reanalyze !== undefined && typeof reanalyze !== 'boolean') {
+    throw new HttpError(422, 'invalid_request', 'Request validation failed', { reanalyze: 'must be a boolean' })
+  }
+
+  return { action, job_id: job_id as string | undefined, reanalyze: reanalyze as boolean | undefined }
+}
+
+async function loadJob(supabaseClient: ServiceClient, jobId: string): Promise<BackfillJob> {
+  const { data: job, error } = await supabaseClient
+    .from('analysis_backfill_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+  if (!job) {
+    throw new HttpError(404, 'job_not_found', 'Backfill job not found')
+  }
+  return job as BackfillJob
+}
+
+async function startJob(supabaseClient: ServiceClient, callerId: string, reanalyze: boolean): Promise<BackfillJob> {
+  const { count: totalLogs, error: countError } = await supabaseClient
+    .from('mood_logs')
+    .select('id', { count: 'exact', head: true })
+
+  if (countError) {
+    throw countError
+  }
+
+  const { data: job, error } = await supabaseClient
+    .from('analysis_backfill_jobs')
+    .insert({
+      requested_by: callerId,
+      engine: SERVER_ANALYSIS_ENGINE,
+      engine_version: SERVER_ENGINE_VERSION,
+      reanalyze,
+      total_logs: totalLogs ?? 0
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    // idx_analysis_backfill_jobs_running allows a single running job
+    if (error.code === '23505') {
+      throw new HttpError(409, 'job_running', 'A backfill job is already running')
+    }
+    throw error
+  }
+  return job as BackfillJob
+}
+
+/**
+ * Re-analyzes the next page of mood logs after the job's cursor and records the outcome
+ */
+async function processPage(supabaseClient: ServiceClient, job: BackfillJob): Promise<BackfillJob> {
+  let query = supabaseClient
+    .from('mood_logs')
+    .select('id, user_id, mood_level, note, created_at')
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(PAGE_SIZE)
+
+  if (job.cursor_created_at && job.cursor_id) {
+    query = query.or(
+      `created_at.gt.${job.cursor_created_at},and(created_at.eq.${job.cursor_created_at},id.gt.${job.cursor_id})`
+    )
+  }
+
+  const { data: page, error: pageError } = await query
+  if (pageError) {
+    throw pageError
+  }
+  const moodLogs = (page ?? []) as MoodLogRow[]
+
+  // Logs already analyzed by this engine version are skipped unless the job re-analyzes them;
+  // either way the cursor keeps a resumed job from repeating work
+  const { data: existing, error: existingError } = moodLogs.length > 0 && !job.reanalyze
+    ? await supabaseClient
+      .from('analyses')
+      .select('mood_log_id')
+      .eq('engine', SERVER_ANALYSIS_ENGINE)
+      .eq('engine_version', job.engine_version)
+      .in('mood_log_id', moodLogs.map(log => log.id))
+    : { data: [], error: null }
+
+  if (existingError) {
+    throw existingError
+  }
+  const alreadyAnalyzed = new Set((existing ?? []).map((row: { mood_log_id: string }) => row.mood_log_id))
+
+  try {
+    await flagMoodNotes(supabaseClient, moodLogs)
+  } catch (flagError) {
+    console.error('Failed to check mood notes for crisis language:', flagError)
+  }
+
+  let analyzed = 0
+  let skipped = 0
+  const failures: { job_id: string; mood_log_id: string; error: string }[] = []
+
+  for (const log of moodLogs) {
+    if (alreadyAnalyzed.has(log.id)) {
+      skipped++
+      continue
+    }
+
+    try {
+      const analysis = await analyzeMood(log.mood_level, log.note)
+      // Backfills refresh analyses only; recommendations stay as they were when the log was written
+      const { error } = await supabaseClient.rpc('store_backfill_analysis', {
+        p_backfill_job_id: job.id,
+        p_mood_log_id: log.id,
+        p_user_id: log.user_id,
+        p_engine_version: job.engine_version,
+        p_sentiment: analysis.sentiment,
+        p_stress_level: analysis.stressLevel,
+        p_confidence: analysis.confidence,
+        p_summary: analysis.summary,
+        p_replace: job.reanalyze
+      })
+
+      if (error) {
+        // A live analyze-mood call got there first
+        if (error.code === '23505') {
+          skipped++
+          continue
+        }
+        throw error
+      }
+      analyzed++
+    } catch (error) {
+      failures.push({
+        job_id: job.id,
+        mood_log_id: log.id,
+        error: error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error)
+      })
+    }
+  }
+
+  if (failures.length > 0) {
+    const { error: failureError } = await supabaseClient
+      .from('analysis_backfill_failures')
+      .insert(failures)
+
+    if (failureError) {
+      console.error('Failed to record backfill failures:', failureError)
+    }
+  }
+
+  const lastLog = moodLogs[moodLogs.length - 1]
+  const finished = moodLogs.length < PAGE_SIZE
+
+  const { data: updatedJob, error: updateError } = await supabaseClient
+    .from('analysis_backfill_jobs')
+    .update({
+      processed_logs: job.processed_logs + moodLogs.length,
+      analyzed_logs: job.analyzed_logs + analyzed,
+      skipped_logs: job.skipped_logs + skipped,
+      failed_logs: job.failed_logs + failures.length,
+      cursor_created_at: lastLog?.created_at ?? job.cursor_created_at,
+      cursor_id: lastLog?.id ?? job.cursor_id,
+      ...(finished ? { status: 'completed', finished_at: new Date().toISOString() } : {})
+    })
+    .eq('id', job.id)
+    .select('*')
+    .single()
+
+  if (updateError) {
+    throw updateError
+  }
+  return updatedJob as BackfillJob
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: getCorsHeaders(req) })
+  }
+
+  try {
+    const supabaseClient = createServiceClient()
+    const caller = await authenticate(req, supabaseClient)
+
+    if (caller.role !== 'admin') {
+      throw new HttpError(403, 'forbidden', 'Only admins can run analysis backfills')
+    }
+
+    let rawBody: unknown
+    try {
+      rawBody = await req.json()
+    } catch {
+      throw new HttpError(422, 'invalid_body', 'Request body must be JSON')
+    }
+
+    const { action, job_id, reanalyze } = validateBackfillRequest(rawBody)
+
+    if (action === 'start') {
+      const job = await startJob(supabaseClient, caller.id, reanalyze ?? false)
+      return jsonResponse(req, { job: await processPage(supabaseClient, job) }, 200)
+    }
+
+    const job = await loadJob(supabaseClient, job_id as string)
+    if (job.status !== 'running') {
+      throw new HttpError(409, 'job_not_running', `Backfill job is ${job.status}`)
+    }
+
+    if (action === 'cancel') {
+      const { data: cancelledJob, error } = await supabaseClient
+        .from('analysis_backfill_jobs')
+        .update({ status: 'cancelled', finished_at: new Date().toISOString() })
+        .eq('id', job.id)
+        .select('*')
+        .single()
+
+      if (error) {
+        throw error
+      }
+      return jsonResponse(req, { job: cancelledJob }, 200)
+    }
+
+    return jsonResponse(req, { job: await processPage(supabaseClient, job) }, 200)
+
+  } catch (error) {
+    return errorResponse(req, error, 'backfill-analyses')
+  }
+})
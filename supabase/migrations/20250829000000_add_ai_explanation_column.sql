@@ -0,0 +1,14 @@
+-- Add ai_explanation column to mood_logs table
+-- Stores the per-feature attributions and matched keywords behind each AI prediction
+-- Shape: { "attributions": [{ "featureIndex", "feature", "value", "contribution" }], "matchedKeywords": [{ "keyword", "featureIndex" }] }
+
+ALTER TABLE public.mood_logs 
+ADD COLUMN IF NOT EXISTS ai_explanation JSONB;
+
+-- Partial index so global feature importance only scans explained predictions
+CREATE INDEX IF NOT EXISTS idx_mood_logs_explained_created_at 
+ON public.mood_logs(created_at DESC) 
+WHERE ai_explanation IS NOT NULL;
+
+-- Add comment for documentation
+COMMENT ON COLUMN public.mood_logs.ai_explanation IS 'Occlusion attributions over the 15 model features plus the keywords that fired them';
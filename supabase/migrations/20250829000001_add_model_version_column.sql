@@ -0,0 +1,12 @@
+-- Add model_version column to mood_logs table
+-- Records the model registry version (e.g. '5.0-20250829120000') that produced the AI analysis,
+-- so analytics can be sliced by model. NULL for rows analysed before the registry existed.
+
+ALTER TABLE public.mood_logs 
+ADD COLUMN IF NOT EXISTS model_version TEXT;
+
+-- Add index for per-model analytics
+CREATE INDEX IF NOT EXISTS idx_mood_logs_model_version ON public.mood_logs(model_version);
+
+-- Add comment for documentation
+COMMENT ON COLUMN public.mood_logs.model_version IS 'Model registry version that produced ai_sentiment/ai_stress_level';
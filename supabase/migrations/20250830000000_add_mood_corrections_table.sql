@@ -0,0 +1,49 @@
+-- Add mood_corrections table
+-- Stores "this isn't right" feedback on an AI analysis. Each row links to the mood log
+-- it corrects; the on-device model also keeps a local copy to fine-tune a per-user head.
+
+CREATE TABLE IF NOT EXISTS public.mood_corrections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  mood_log_id UUID NOT NULL REFERENCES public.mood_logs(id) ON DELETE CASCADE,
+  predicted_sentiment TEXT,
+  predicted_stress_level INTEGER,
+  corrected_label TEXT NOT NULL CHECK (corrected_label IN ('not_stressed', 'stressed')),
+  model_version TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (mood_log_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mood_corrections_user_id ON public.mood_corrections(user_id);
+
+ALTER TABLE public.mood_corrections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own mood corrections" 
+ON public.mood_corrections 
+FOR SELECT 
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert corrections for their own mood logs" 
+ON public.mood_corrections 
+FOR INSERT 
+WITH CHECK (
+  user_id = auth.uid()
+  AND mood_log_id IN (SELECT ml.id FROM public.mood_logs ml WHERE ml.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own mood corrections" 
+ON public.mood_corrections 
+FOR UPDATE 
+USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all mood corrections" 
+ON public.mood_corrections 
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.users 
+  WHERE id = auth.uid() 
+  AND role = 'admin'
+));
+
+COMMENT ON TABLE public.mood_corrections IS 'User corrections of AI mood analyses, linked to mood_logs';
+COMMENT ON COLUMN public.mood_corrections.corrected_label IS 'What the user says the stress label should have been';
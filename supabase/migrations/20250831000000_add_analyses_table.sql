@@ -0,0 +1,108 @@
+-- Add analyses table
+-- Every engine that analyses a mood log stores its own result here instead of overwriting
+-- the mood log. The ai_* columns on mood_logs become a projection of the analysis the UI
+-- shows, chosen by engine precedence:
+--   1. client_model      - the on-device TensorFlow.js model (calibrated, explained, personalized)
+--   2. server_heuristic  - the analyze-mood edge function's keyword heuristic
+-- Within an engine the most recent analysis wins.
+
+CREATE TABLE IF NOT EXISTS public.analyses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  mood_log_id UUID NOT NULL REFERENCES public.mood_logs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  engine TEXT NOT NULL CHECK (engine IN ('client_model', 'server_heuristic')),
+  engine_version TEXT NOT NULL,
+  sentiment TEXT,
+  stress_level INTEGER CHECK (stress_level BETWEEN 1 AND 5),
+  confidence DECIMAL(3,2) CHECK (confidence >= 0.0 AND confidence <= 1.0),
+  summary TEXT,
+  explanation JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (mood_log_id, engine, engine_version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_analyses_mood_log_id ON public.analyses(mood_log_id);
+CREATE INDEX IF NOT EXISTS idx_analyses_user_id ON public.analyses(user_id);
+
+ALTER TABLE public.analyses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own analyses"
+ON public.analyses
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert client analyses for their own mood logs"
+ON public.analyses
+FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND engine = 'client_model'
+  AND mood_log_id IN (SELECT ml.id FROM public.mood_logs ml WHERE ml.user_id = auth.uid())
+);
+
+CREATE POLICY "Admins can view all analyses"
+ON public.analyses
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.users
+  WHERE id = auth.uid()
+  AND role = 'admin'
+));
+
+-- Lower rank wins
+CREATE OR REPLACE FUNCTION public.analysis_engine_rank(engine TEXT)
+RETURNS INTEGER AS $$
+  SELECT CASE engine
+    WHEN 'client_model' THEN 1
+    WHEN 'server_heuristic' THEN 2
+    ELSE 99
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Copies the highest-precedence analysis of a mood log onto its ai_* columns
+CREATE OR REPLACE FUNCTION public.sync_mood_log_analysis()
+RETURNS TRIGGER AS $$
+DECLARE
+  displayed public.analyses%ROWTYPE;
+BEGIN
+  SELECT * INTO displayed
+  FROM public.analyses
+  WHERE mood_log_id = NEW.mood_log_id
+  ORDER BY public.analysis_engine_rank(engine), created_at DESC
+  LIMIT 1;
+
+  UPDATE public.mood_logs
+  SET ai_sentiment = displayed.sentiment,
+      ai_stress_level = displayed.stress_level,
+      ai_confidence = displayed.confidence,
+      ai_explanation = displayed.explanation,
+      model_version = displayed.engine_version
+  WHERE id = NEW.mood_log_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_mood_log_analysis ON public.analyses;
+CREATE TRIGGER sync_mood_log_analysis
+AFTER INSERT OR UPDATE ON public.analyses
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_mood_log_analysis();
+
+-- Recommendations record which engine produced them, and a mood log can hold each
+-- recommendation only once so retries and a second engine cannot duplicate rows
+ALTER TABLE public.recommendations ADD COLUMN IF NOT EXISTS engine TEXT;
+
+DELETE FROM public.recommendations r
+USING public.recommendations newer
+WHERE r.mood_log_id = newer.mood_log_id
+  AND r.title = newer.title
+  AND (r.created_at, r.id) < (newer.created_at, newer.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recommendations_mood_log_title
+ON public.recommendations(mood_log_id, title);
+
+COMMENT ON TABLE public.analyses IS 'Per-engine mood analyses; mood_logs.ai_* mirrors the highest-precedence one';
+COMMENT ON COLUMN public.analyses.engine IS 'Which analysis engine produced the row: client_model or server_heuristic';
+COMMENT ON COLUMN public.analyses.summary IS 'Human-readable summary text, if the engine produces one';
+COMMENT ON COLUMN public.recommendations.engine IS 'Analysis engine that generated the recommendation';
@@ -0,0 +1,60 @@
+-- Add risk_flags table
+-- Created when crisis language is detected in a mood note or chat message. Mentors and
+-- admins subscribe to inserts over realtime and work each flag from open to resolved.
+
+CREATE TABLE IF NOT EXISTS public.risk_flags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('mood_log', 'chat_message')),
+  mood_log_id UUID REFERENCES public.mood_logs(id) ON DELETE CASCADE,
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE,
+  severity TEXT NOT NULL CHECK (severity IN ('elevated', 'high')),
+  score DECIMAL(3,2) NOT NULL CHECK (score >= 0.0 AND score <= 1.0),
+  model_score DECIMAL(3,2) CHECK (model_score >= 0.0 AND model_score <= 1.0),
+  matched_phrases TEXT[] NOT NULL DEFAULT '{}',
+  excerpt TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'resolved')),
+  handled_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  handled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (
+    (source = 'mood_log' AND mood_log_id IS NOT NULL)
+    OR (source = 'chat_message' AND message_id IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_risk_flags_status_created_at ON public.risk_flags(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_risk_flags_user_id ON public.risk_flags(user_id);
+
+ALTER TABLE public.risk_flags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can insert risk flags for their own content"
+ON public.risk_flags
+FOR INSERT
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Mentors and admins can view all risk flags"
+ON public.risk_flags
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.users
+  WHERE id = auth.uid()
+  AND role IN ('admin', 'mentor')
+));
+
+CREATE POLICY "Mentors and admins can update risk flags"
+ON public.risk_flags
+FOR UPDATE
+USING (EXISTS (
+  SELECT 1 FROM public.users
+  WHERE id = auth.uid()
+  AND role IN ('admin', 'mentor')
+));
+
+-- Enable realtime so on-duty mentors and admins are notified of new flags
+ALTER PUBLICATION supabase_realtime ADD TABLE public.risk_flags;
+
+COMMENT ON TABLE public.risk_flags IS 'Crisis language detected in mood notes and chat messages, for mentor/admin follow-up';
+COMMENT ON COLUMN public.risk_flags.score IS 'Combined phrase and model score from the crisis detector';
+COMMENT ON COLUMN public.risk_flags.model_score IS 'Calibrated stress probability from the mood model, when the text was a mood note';
+COMMENT ON COLUMN public.risk_flags.excerpt IS 'Start of the flagged text so responders have context without opening the source';
@@ -0,0 +1,89 @@
+-- Idempotent, atomic storage for the analyze-mood edge function
+-- store_server_analysis writes the server analysis, its recommendations and the
+-- idempotency record in one transaction, so a failed call leaves nothing behind and a
+-- retried call with the same Idempotency-Key can return the stored ids. p_user_id owns
+-- the mood log; p_caller_id made the request (an admin may analyze another user's log).
+
+CREATE TABLE IF NOT EXISTS public.analysis_requests (
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  idempotency_key TEXT NOT NULL CHECK (char_length(idempotency_key) BETWEEN 1 AND 128),
+  mood_log_id UUID NOT NULL REFERENCES public.mood_logs(id) ON DELETE CASCADE,
+  analysis_id UUID NOT NULL REFERENCES public.analyses(id) ON DELETE CASCADE,
+  recommendation_ids UUID[] NOT NULL DEFAULT '{}',
+  displayed BOOLEAN NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, idempotency_key)
+);
+
+-- Only the edge function (service role) reads or writes idempotency records
+ALTER TABLE public.analysis_requests ENABLE ROW LEVEL SECURITY;
+
+-- Inserts the recommendations of the displayed analysis. Migrations that store more per
+-- recommendation replace this helper rather than store_server_analysis.
+CREATE OR REPLACE FUNCTION public.insert_server_recommendations(p_mood_log_id UUID, p_recommendations JSONB)
+RETURNS VOID AS $$
+  INSERT INTO public.recommendations (mood_log_id, title, description, content_url, type, engine)
+  SELECT p_mood_log_id, rec->>'title', rec->>'description', rec->>'content_url',
+         (rec->>'type')::public.recommendation_type, 'server_heuristic'
+  FROM jsonb_array_elements(p_recommendations) AS rec
+  ON CONFLICT (mood_log_id, title) DO NOTHING;
+$$ LANGUAGE sql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.store_server_analysis(
+  p_mood_log_id UUID,
+  p_user_id UUID,
+  p_caller_id UUID,
+  p_idempotency_key TEXT,
+  p_engine_version TEXT,
+  p_sentiment TEXT,
+  p_stress_level INTEGER,
+  p_confidence DECIMAL,
+  p_summary TEXT,
+  p_recommendations JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_analysis_id UUID;
+  v_displayed BOOLEAN;
+  v_recommendation_ids UUID[] := '{}';
+BEGIN
+  -- Raises unique_violation when this engine version already analyzed the mood log
+  INSERT INTO public.analyses (mood_log_id, user_id, engine, engine_version, sentiment, stress_level, confidence, summary)
+  VALUES (p_mood_log_id, p_user_id, 'server_heuristic', p_engine_version, p_sentiment, p_stress_level, p_confidence, p_summary)
+  RETURNING id INTO v_analysis_id;
+
+  -- Only the engine whose analysis is displayed adds recommendations
+  v_displayed := NOT EXISTS (
+    SELECT 1 FROM public.analyses
+    WHERE mood_log_id = p_mood_log_id
+    AND public.analysis_engine_rank(engine) < public.analysis_engine_rank('server_heuristic')
+  );
+
+  IF v_displayed THEN
+    PERFORM public.insert_server_recommendations(p_mood_log_id, p_recommendations);
+
+    SELECT COALESCE(array_agg(r.id ORDER BY r.created_at, r.id), '{}') INTO v_recommendation_ids
+    FROM public.recommendations r
+    WHERE r.mood_log_id = p_mood_log_id
+    AND r.title IN (SELECT rec->>'title' FROM jsonb_array_elements(p_recommendations) AS rec);
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    INSERT INTO public.analysis_requests (user_id, idempotency_key, mood_log_id, analysis_id, recommendation_ids, displayed)
+    VALUES (p_caller_id, p_idempotency_key, p_mood_log_id, v_analysis_id, v_recommendation_ids, v_displayed);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'analysis_id', v_analysis_id,
+    'recommendation_ids', to_jsonb(v_recommendation_ids),
+    'displayed', v_displayed
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.insert_server_recommendations(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.store_server_analysis(UUID, UUID, UUID, TEXT, TEXT, TEXT, INTEGER, DECIMAL, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.store_server_analysis(UUID, UUID, UUID, TEXT, TEXT, TEXT, INTEGER, DECIMAL, TEXT, JSONB) TO service_role;
+
+COMMENT ON TABLE public.analysis_requests IS 'Idempotency records for analyze-mood, keyed by caller and Idempotency-Key header';
+COMMENT ON FUNCTION public.store_server_analysis IS 'Atomically stores a server analysis, its recommendations and the idempotency record';
@@ -0,0 +1,132 @@
+-- Add analysis backfill jobs
+-- Admins re-run the server analysis over historical mood logs when the keyword rules
+-- change (or for logs analyzed before the analyses table existed). The backfill-analyses
+-- edge function processes one page per call and records progress on the job row; every
+-- analysis it writes points back at its job for provenance. Logs the engine version has
+-- already analyzed are skipped unless the job was started with reanalyze, which rewrites
+-- their analysis in place (for rule changes that kept SERVER_ENGINE_VERSION).
+
+CREATE TABLE IF NOT EXISTS public.analysis_backfill_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  requested_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  engine TEXT NOT NULL DEFAULT 'server_heuristic',
+  engine_version TEXT NOT NULL,
+  reanalyze BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'cancelled')),
+  total_logs INTEGER NOT NULL DEFAULT 0,
+  processed_logs INTEGER NOT NULL DEFAULT 0,
+  analyzed_logs INTEGER NOT NULL DEFAULT 0,
+  skipped_logs INTEGER NOT NULL DEFAULT 0,
+  failed_logs INTEGER NOT NULL DEFAULT 0,
+  cursor_created_at TIMESTAMP WITH TIME ZONE,
+  cursor_id UUID,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+-- At most one running job at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_analysis_backfill_jobs_running
+ON public.analysis_backfill_jobs(status) WHERE status = 'running';
+
+CREATE TABLE IF NOT EXISTS public.analysis_backfill_failures (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.analysis_backfill_jobs(id) ON DELETE CASCADE,
+  mood_log_id UUID REFERENCES public.mood_logs(id) ON DELETE CASCADE,
+  error TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_backfill_failures_job_id ON public.analysis_backfill_failures(job_id);
+
+ALTER TABLE public.analysis_backfill_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.analysis_backfill_failures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view backfill jobs"
+ON public.analysis_backfill_jobs
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.users
+  WHERE id = auth.uid()
+  AND role = 'admin'
+));
+
+CREATE POLICY "Admins can view backfill failures"
+ON public.analysis_backfill_failures
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.users
+  WHERE id = auth.uid()
+  AND role = 'admin'
+));
+
+CREATE TRIGGER update_analysis_backfill_jobs_updated_at
+BEFORE UPDATE ON public.analysis_backfill_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable realtime so the admin dashboard follows job progress
+ALTER PUBLICATION supabase_realtime ADD TABLE public.analysis_backfill_jobs;
+
+-- Provenance: which backfill job (if any) wrote an analysis
+ALTER TABLE public.analyses
+ADD COLUMN IF NOT EXISTS backfill_job_id UUID REFERENCES public.analysis_backfill_jobs(id) ON DELETE SET NULL;
+
+-- Backfills store through store_server_analysis and then tag the analysis with their job,
+-- in the same transaction. Backfills refresh analyses only, so no recommendations are passed.
+-- With p_replace an existing analysis by the same engine version is rewritten instead.
+CREATE OR REPLACE FUNCTION public.store_backfill_analysis(
+  p_backfill_job_id UUID,
+  p_mood_log_id UUID,
+  p_user_id UUID,
+  p_engine_version TEXT,
+  p_sentiment TEXT,
+  p_stress_level INTEGER,
+  p_confidence DECIMAL,
+  p_summary TEXT,
+  p_replace BOOLEAN DEFAULT false
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_result JSONB;
+  v_analysis_id UUID;
+BEGIN
+  IF p_replace THEN
+    -- created_at moves forward so the rewrite counts as the engine's latest analysis
+    UPDATE public.analyses
+    SET sentiment = p_sentiment,
+        stress_level = p_stress_level,
+        confidence = p_confidence,
+        summary = p_summary,
+        backfill_job_id = p_backfill_job_id,
+        created_at = now()
+    WHERE mood_log_id = p_mood_log_id
+    AND engine = 'server_heuristic'
+    AND engine_version = p_engine_version
+    RETURNING id INTO v_analysis_id;
+
+    IF v_analysis_id IS NOT NULL THEN
+      RETURN jsonb_build_object('analysis_id', v_analysis_id, 'recommendation_ids', '[]'::jsonb, 'replaced', true);
+    END IF;
+  END IF;
+
+  v_result := public.store_server_analysis(
+    p_mood_log_id, p_user_id, NULL, NULL, p_engine_version,
+    p_sentiment, p_stress_level, p_confidence, p_summary, '[]'::jsonb
+  );
+
+  UPDATE public.analyses
+  SET backfill_job_id = p_backfill_job_id
+  WHERE id = (v_result->>'analysis_id')::UUID;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.store_backfill_analysis(UUID, UUID, UUID, TEXT, TEXT, INTEGER, DECIMAL, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.store_backfill_analysis(UUID, UUID, UUID, TEXT, TEXT, INTEGER, DECIMAL, TEXT, BOOLEAN) TO service_role;
+
+COMMENT ON TABLE public.analysis_backfill_jobs IS 'Admin-triggered re-analysis runs over historical mood logs';
+COMMENT ON TABLE public.analysis_backfill_failures IS 'Mood logs a backfill job could not re-analyze, with the error';
+COMMENT ON COLUMN public.analysis_backfill_jobs.reanalyze IS 'Whether logs already analyzed by engine_version are re-analyzed instead of skipped';
+COMMENT ON COLUMN public.analyses.backfill_job_id IS 'Backfill job that wrote this analysis; null for live analyses';
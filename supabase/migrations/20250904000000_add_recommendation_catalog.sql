@@ -0,0 +1,89 @@
+-- Add recommendation catalog
+-- Recommendations used to be hard-coded in the client model and the analyze-mood edge
+-- function. Both engines now select active catalog entries whose stress range covers the
+-- analysed stress level; entries with target emotions only apply when the engine detected
+-- one of them (the server heuristic detects none, so it ignores the targeting) and are
+-- ranked ahead of untargeted entries. Ties are broken by priority.
+
+CREATE TABLE IF NOT EXISTS public.recommendation_catalog (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT,
+  type recommendation_type NOT NULL,
+  content_url TEXT,
+  duration_minutes INTEGER CHECK (duration_minutes IS NULL OR duration_minutes > 0),
+  min_stress_level INTEGER NOT NULL DEFAULT 1 CHECK (min_stress_level BETWEEN 1 AND 5),
+  max_stress_level INTEGER NOT NULL DEFAULT 5 CHECK (max_stress_level BETWEEN 1 AND 5),
+  target_emotions TEXT[] NOT NULL DEFAULT '{}',
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  locale TEXT NOT NULL DEFAULT 'en',
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (min_stress_level <= max_stress_level),
+  UNIQUE (locale, title)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recommendation_catalog_active ON public.recommendation_catalog(locale) WHERE is_active;
+
+ALTER TABLE public.recommendation_catalog ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view active catalog entries"
+ON public.recommendation_catalog
+FOR SELECT
+TO authenticated
+USING (is_active);
+
+CREATE POLICY "Admins can manage the recommendation catalog"
+ON public.recommendation_catalog
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.users
+  WHERE id = auth.uid()
+  AND role = 'admin'
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.users
+  WHERE id = auth.uid()
+  AND role = 'admin'
+));
+
+CREATE TRIGGER update_recommendation_catalog_updated_at
+BEFORE UPDATE ON public.recommendation_catalog
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed with the mappings previously hard-coded in moodModel.ts and the edge function
+INSERT INTO public.recommendation_catalog
+  (title, description, type, content_url, duration_minutes, min_stress_level, max_stress_level, target_emotions, tags, priority)
+VALUES
+  ('Motivational Video', 'Keep up the great energy with some inspiring content to maintain your positive momentum!', 'video', 'https://www.youtube.com/watch?v=ZmInkxbvlCs', 10, 1, 1, '{}', '{motivation}', 20),
+  ('Motivational Content', 'You''re doing well! Here''s some uplifting content to boost your already positive mood.', 'video', 'https://www.youtube.com/watch?v=k2rqUlYlcQM', 10, 2, 2, '{}', '{motivation}', 20),
+  ('Maintain Your Positive Energy', 'Tips to keep feeling great', 'article', '/articles/positive-habits', 5, 1, 2, '{joy,calm}', '{habits}', 10),
+  ('Quick Breathing Exercise', 'Take 5 minutes for deep breathing to reset your mind and find your center.', 'breathing', 'https://www.headspace.com/meditation/breathing-exercises', 5, 3, 3, '{}', '{breathing}', 20),
+  ('Mood Boosting Activities', 'Simple ways to lift your spirits', 'activity', '/activities/mood-boost', 15, 2, 3, '{sadness,loneliness}', '{activity}', 10),
+  ('5-Minute Mindfulness Break', 'Short meditation to center yourself', 'mindfulness', 'https://www.headspace.com/meditation/5-minute-meditation', 5, 3, 5, '{anxiety}', '{meditation}', 10),
+  ('Guided Meditation', 'A calming guided meditation session to help reduce stress and restore balance.', 'mindfulness', 'https://www.calm.com/meditate', 15, 4, 4, '{}', '{meditation}', 20),
+  ('Immediate Stress Relief', 'Quick breathing exercise to calm your nervous system', 'breathing', 'https://www.youtube.com/watch?v=YRPh_GaiL8s', 5, 4, 5, '{anxiety,anger}', '{breathing}', 15),
+  ('Gentle Movement', 'Light physical activity to boost endorphins', 'activity', '/activities/gentle-movement', 10, 4, 5, '{sadness,exhaustion}', '{activity}', 10),
+  ('Peer Support & Professional Help', 'Reach out to peers for support or consider speaking with a mental health professional.', 'mindfulness', '/peer-support', NULL, 5, 5, '{}', '{support}', 30),
+  ('Crisis Support Resources', '24/7 support when you need it most', 'article', '/resources/crisis-support', NULL, 5, 5, '{}', '{support,crisis}', 25)
+ON CONFLICT (locale, title) DO NOTHING;
+
+-- Which catalog entry a stored recommendation came from
+ALTER TABLE public.recommendations
+ADD COLUMN IF NOT EXISTS catalog_id UUID REFERENCES public.recommendation_catalog(id) ON DELETE SET NULL;
+
+-- store_server_analysis records the catalog entry of each recommendation
+CREATE OR REPLACE FUNCTION public.insert_server_recommendations(p_mood_log_id UUID, p_recommendations JSONB)
+RETURNS VOID AS $$
+  INSERT INTO public.recommendations (mood_log_id, title, description, content_url, type, engine, catalog_id)
+  SELECT p_mood_log_id, rec->>'title', rec->>'description', rec->>'content_url',
+         (rec->>'type')::public.recommendation_type, 'server_heuristic', (rec->>'catalog_id')::UUID
+  FROM jsonb_array_elements(p_recommendations) AS rec
+  ON CONFLICT (mood_log_id, title) DO NOTHING;
+$$ LANGUAGE sql SET search_path = public;
+
+COMMENT ON TABLE public.recommendation_catalog IS 'Recommendations both analysis engines select from by stress level and emotion';
+COMMENT ON COLUMN public.recommendations.catalog_id IS 'Catalog entry the recommendation was selected from';
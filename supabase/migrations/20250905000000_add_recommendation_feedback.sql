@@ -0,0 +1,59 @@
+-- Add recommendation_feedback table
+-- "Helpful / not helpful / did it" feedback on a stored recommendation, one row per user
+-- and recommendation. Both engines rank catalog entries with the user's feedback history
+-- (see src/lib/recommendationFeedback.ts).
+
+CREATE TABLE IF NOT EXISTS public.recommendation_feedback (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  recommendation_id UUID NOT NULL REFERENCES public.recommendations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  helpful BOOLEAN,
+  completed BOOLEAN NOT NULL DEFAULT false,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (recommendation_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recommendation_feedback_user_id ON public.recommendation_feedback(user_id);
+
+ALTER TABLE public.recommendation_feedback ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own recommendation feedback"
+ON public.recommendation_feedback
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can give feedback on recommendations for their own mood logs"
+ON public.recommendation_feedback
+FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND recommendation_id IN (
+    SELECT r.id FROM public.recommendations r
+    JOIN public.mood_logs ml ON ml.id = r.mood_log_id
+    WHERE ml.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their own recommendation feedback"
+ON public.recommendation_feedback
+FOR UPDATE
+USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all recommendation feedback"
+ON public.recommendation_feedback
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.users
+  WHERE id = auth.uid()
+  AND role = 'admin'
+));
+
+CREATE TRIGGER update_recommendation_feedback_updated_at
+BEFORE UPDATE ON public.recommendation_feedback
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.recommendation_feedback IS 'Whether a recommendation helped and whether the user did it';
+COMMENT ON COLUMN public.recommendation_feedback.helpful IS 'Null until the user rates the recommendation';
@@ -0,0 +1,28 @@
+-- Point breathing and mindfulness recommendations at the in-app exercises
+-- YouTube, Headspace and Calm are blocked on campus networks; the exercises under
+-- /activities/:slug are rendered by the app (see src/lib/exercises.ts).
+
+UPDATE public.recommendation_catalog AS c
+SET content_url = v.content_url
+FROM (VALUES
+  ('Quick Breathing Exercise', '/activities/box-breathing'),
+  ('Immediate Stress Relief', '/activities/4-7-8-breathing'),
+  ('5-Minute Mindfulness Break', '/activities/grounding'),
+  ('Guided Meditation', '/activities/body-scan')
+) AS v(title, content_url)
+WHERE c.title = v.title
+AND c.locale = 'en';
+
+INSERT INTO public.recommendation_catalog
+  (title, description, type, content_url, duration_minutes, min_stress_level, max_stress_level, target_emotions, tags, priority)
+VALUES
+  ('5-4-3-2-1 Grounding', 'Notice what you can see, touch, hear, smell and taste to bring yourself back to the present.', 'mindfulness', '/activities/grounding', 5, 4, 5, '{anxiety,loneliness}', '{grounding}', 15)
+ON CONFLICT (locale, title) DO NOTHING;
+
+-- Recommendations already shown keep working on campus too
+UPDATE public.recommendations AS r
+SET content_url = c.content_url
+FROM public.recommendation_catalog AS c
+WHERE (r.catalog_id = c.id OR (r.catalog_id IS NULL AND r.title = c.title AND c.locale = 'en'))
+AND c.content_url LIKE '/activities/%'
+AND r.content_url IS DISTINCT FROM c.content_url;
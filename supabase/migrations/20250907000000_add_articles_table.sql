@@ -0,0 +1,156 @@
+-- Add the content library
+-- Recommendations link to in-app pages such as /articles/positive-habits,
+-- /resources/... and /activities/mood-boost. Those pages render markdown stored here.
+-- The kind decides which route serves an entry:
+--   article  -> /articles/:slug
+--   resource -> /resources/:slug
+--   activity -> /activities/:slug (only when no guided exercise has the slug)
+
+CREATE TYPE article_kind AS ENUM ('article', 'resource', 'activity');
+
+CREATE TABLE IF NOT EXISTS public.articles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  kind article_kind NOT NULL DEFAULT 'article',
+  title TEXT NOT NULL,
+  summary TEXT,
+  body_markdown TEXT NOT NULL DEFAULT '',
+  category TEXT NOT NULL DEFAULT 'general',
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  reading_minutes INTEGER CHECK (reading_minutes IS NULL OR reading_minutes > 0),
+  is_published BOOLEAN NOT NULL DEFAULT false,
+  author_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(summary, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(body_markdown, '')), 'C')
+  ) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (kind, slug)
+);
+
+CREATE INDEX IF NOT EXISTS idx_articles_search ON public.articles USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_articles_category ON public.articles(category) WHERE is_published;
+
+ALTER TABLE public.articles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view published articles"
+ON public.articles
+FOR SELECT
+TO authenticated
+USING (is_published);
+
+CREATE POLICY "Admins can manage articles"
+ON public.articles
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.users
+  WHERE id = auth.uid()
+  AND role = 'admin'
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.users
+  WHERE id = auth.uid()
+  AND role = 'admin'
+));
+
+CREATE TRIGGER update_articles_updated_at
+BEFORE UPDATE ON public.articles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed the pages the recommendation catalog and the original sample recommendations link to
+INSERT INTO public.articles (slug, kind, title, summary, category, tags, reading_minutes, is_published, body_markdown)
+VALUES
+  ('positive-habits', 'article', 'Maintain Your Positive Energy', 'Small habits that help a good week stay good.', 'wellbeing', '{habits}', 4, true,
+$md$Feeling good is a great time to build habits, because they are easier to start when you have energy to spare.
+
+## Protect the basics
+
+- **Sleep:** keep a regular wake-up time, even at the weekend.
+- **Food:** eat something before long lectures or study sessions.
+- **Movement:** a short walk between classes counts.
+
+## Notice what is working
+
+At the end of the day, write down one thing that went well and why. Over a few weeks this gives you a list of what lifts your mood, which is useful on harder days.
+
+## Share it
+
+Tell a friend about something that made you laugh, or check in on someone who has been quiet. Connection is one of the strongest predictors of wellbeing.
+
+> Good days are not a reason to stop looking after yourself. They are the best time to practise.
+$md$),
+  ('sleep-hygiene', 'article', 'Sleep Hygiene Guide', 'Better sleep for better mental health.', 'sleep', '{sleep,habits}', 5, true,
+$md$Sleep and mood affect each other: poor sleep makes stress harder to handle, and stress makes it harder to sleep.
+
+## Before bed
+
+1. Stop caffeine after mid-afternoon.
+2. Put your phone out of reach for the last 30 minutes.
+3. Keep your room cool, dark and quiet.
+
+## If you cannot fall asleep
+
+Get up after about 20 minutes and do something calm in dim light, like reading on paper. Go back to bed when you feel sleepy.
+
+## During exams
+
+All-nighters hurt memory more than they help. A regular sleep schedule in the week before an exam is one of the most effective ways to prepare.
+
+Try the [body scan](/activities/body-scan) if your mind is racing at night.
+$md$),
+  ('mood-boost', 'activity', 'Mood Boosting Activities', 'Simple ways to lift your spirits.', 'activities', '{activity}', 15, true,
+$md$When your mood is low, waiting until you *feel* like doing something rarely works. Doing something small first often brings the motivation with it.
+
+## Pick one for the next 15 minutes
+
+- Step outside and walk around the block.
+- Put on a song you loved a few years ago.
+- Message a friend, even just to say hi.
+- Tidy one small area, like your desk.
+- Make a hot drink and drink it away from your screen.
+
+## Afterwards
+
+Notice whether anything shifted, even slightly. Rate your mood in a check-in so you can see which activities help you most over time.
+$md$),
+  ('gentle-movement', 'activity', 'Gentle Movement', 'Light physical activity to boost endorphins.', 'activities', '{activity,movement}', 10, true,
+$md$Gentle movement releases tension and lifts your mood without needing a gym or a lot of energy.
+
+## A 10-minute routine
+
+1. **Neck rolls:** slowly roll your head in a half circle, five times each way.
+2. **Shoulder shrugs:** lift your shoulders to your ears, hold, then drop them. Repeat ten times.
+3. **Standing stretch:** reach both arms overhead and lean gently to each side.
+4. **Walk:** spend five minutes walking, indoors or out, at a comfortable pace.
+
+Stop if anything hurts. The goal is to feel a little looser, not to work out.
+$md$),
+  ('study-break', 'activity', 'Study Break Activities', 'Physical activities to refresh your mind.', 'activities', '{activity,study}', 10, true,
+$md$Short breaks make long study sessions more effective.
+
+## Every 50 minutes
+
+- Stand up, stretch and refill your water.
+- Look at something far away for a minute to rest your eyes.
+- Do a round of [box breathing](/activities/box-breathing).
+
+Avoid scrolling during breaks; it keeps your brain busy instead of letting it rest.
+$md$),
+  ('campus-counselling', 'resource', 'Campus Counselling Service', 'Free, confidential support from trained counsellors.', 'support', '{support,counselling}', 2, true,
+$md$The counselling service offers free, confidential appointments for all students.
+
+## What to expect
+
+- A first conversation about what is going on and what might help.
+- Short-term counselling, group sessions or a referral, depending on your needs.
+
+## How to book
+
+Contact student services or ask your mentor to help you make an appointment.
+
+If you are in immediate danger, see [crisis support](/resources/crisis-support) instead.
+$md$)
+ON CONFLICT (kind, slug) DO NOTHING;
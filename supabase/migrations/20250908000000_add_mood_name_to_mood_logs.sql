@@ -0,0 +1,28 @@
+-- Keep the mood the student picked
+-- The check-in offers nine moods but mood_logs only stored the 1-5 level, so "stressed"
+-- and "sad" ended up as the same row. The level stays for existing analytics; the name
+-- and its valence/arousal coordinates (see src/lib/moodNames.ts) are stored next to it.
+-- Check-ins logged before this migration keep a NULL name.
+
+ALTER TABLE public.mood_logs
+  ADD COLUMN IF NOT EXISTS mood_name TEXT,
+  ADD COLUMN IF NOT EXISTS valence REAL CHECK (valence IS NULL OR valence BETWEEN -1 AND 1),
+  ADD COLUMN IF NOT EXISTS arousal REAL CHECK (arousal IS NULL OR arousal BETWEEN -1 AND 1);
+
+-- A name always belongs to the level the check-in maps it to
+ALTER TABLE public.mood_logs
+  ADD CONSTRAINT mood_logs_mood_name_level_check CHECK (
+    mood_name IS NULL OR (mood_name, mood_level::text) IN (
+      ('devastated', '1'),
+      ('stressed', '2'),
+      ('sad', '2'),
+      ('worried', '3'),
+      ('neutral', '3'),
+      ('content', '4'),
+      ('happy', '4'),
+      ('excited', '5'),
+      ('euphoric', '5')
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_mood_logs_user_mood_name ON public.mood_logs(user_id, mood_name);
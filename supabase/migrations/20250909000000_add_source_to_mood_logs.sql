@@ -0,0 +1,12 @@
+-- Mark where a mood log came from
+-- Students moving over from other trackers can import their history from the History
+-- page (see src/lib/moodImport.ts). Imported rows keep the original timestamp and carry
+-- the tracker they came from so they can be told apart from in-app check-ins.
+
+CREATE TYPE public.mood_log_source AS ENUM ('check_in', 'daylio', 'bearable', 'mindbloom_export');
+
+ALTER TABLE public.mood_logs
+  ADD COLUMN IF NOT EXISTS source public.mood_log_source NOT NULL DEFAULT 'check_in';
+
+-- Imports look up existing entries by timestamp to skip duplicates
+CREATE INDEX IF NOT EXISTS idx_mood_logs_user_created_at ON public.mood_logs(user_id, created_at);
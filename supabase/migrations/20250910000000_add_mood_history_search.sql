@@ -0,0 +1,66 @@
+-- Page, search and summarise the mood history on the server
+-- The History page loaded every mood log with its recommendations and computed the
+-- statistics in the browser. It now pages through mood_logs with a keyset cursor (see
+-- src/lib/moodHistoryQueries.ts), searches notes through search_vector, and reads the
+-- statistics for every matching entry from get_mood_history_stats.
+
+ALTER TABLE public.mood_logs
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    to_tsvector('english', coalesce(note, ''))
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_mood_logs_search ON public.mood_logs USING GIN (search_vector);
+
+-- Keyset pagination orders by (created_at, id) or (mood_level, created_at, id). These
+-- replace the (user_id, created_at) index the importer used.
+DROP INDEX IF EXISTS public.idx_mood_logs_user_created_at;
+CREATE INDEX IF NOT EXISTS idx_mood_logs_user_created_at_id ON public.mood_logs(user_id, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_mood_logs_user_mood_level ON public.mood_logs(user_id, mood_level, created_at, id);
+
+-- Statistics for the caller's mood logs matching the History filters. NULL arguments
+-- do not filter. The daily trend covers the last 7 days in UTC.
+CREATE OR REPLACE FUNCTION public.get_mood_history_stats(
+  p_since TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_mood_level public.mood_level DEFAULT NULL,
+  p_mood_name TEXT DEFAULT NULL,
+  p_search TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+  WITH filtered AS (
+    SELECT mood_level::text::integer AS mood, mood_name, ai_stress_level, created_at
+    FROM public.mood_logs
+    WHERE user_id = auth.uid()
+    AND (p_since IS NULL OR created_at >= p_since)
+    AND (p_mood_level IS NULL OR mood_level = p_mood_level)
+    AND (p_mood_name IS NULL OR mood_name = p_mood_name)
+    AND (p_search IS NULL OR search_vector @@ websearch_to_tsquery('english', p_search))
+  )
+  SELECT jsonb_build_object(
+    'total_entries', (SELECT count(*) FROM filtered),
+    'average_mood', (SELECT coalesce(round(avg(mood), 1), 0) FROM filtered),
+    'average_stress', (SELECT coalesce(round(avg(ai_stress_level), 1), 0) FROM filtered),
+    'mood_distribution', (
+      SELECT coalesce(jsonb_object_agg(mood, entries), '{}'::jsonb)
+      FROM (SELECT mood, count(*) AS entries FROM filtered GROUP BY mood) AS levels
+    ),
+    'mood_name_distribution', (
+      SELECT coalesce(jsonb_object_agg(mood_name, entries), '{}'::jsonb)
+      FROM (SELECT mood_name, count(*) AS entries FROM filtered WHERE mood_name IS NOT NULL GROUP BY mood_name) AS names
+    ),
+    'daily_trend', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object(
+        'date', day,
+        'mood', round(avg_mood, 1),
+        'stress', round(avg_stress, 1)
+      ) ORDER BY day), '[]'::jsonb)
+      FROM (
+        SELECT (created_at AT TIME ZONE 'UTC')::date AS day, avg(mood) AS avg_mood, avg(ai_stress_level) AS avg_stress
+        FROM filtered
+        WHERE created_at >= ((now() AT TIME ZONE 'UTC')::date - 6)::timestamp AT TIME ZONE 'UTC'
+        GROUP BY 1
+      ) AS days
+    )
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_mood_history_stats(TIMESTAMP WITH TIME ZONE, public.mood_level, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,132 @@
+-- Bucket statistics by the user's time zone
+-- Daily trends, streaks and weekly charts grouped check-ins by the UTC date of
+-- created_at, so a check-in at 23:30 in India counted for the next day. The user's IANA
+-- time zone is now stored in users.preferences ({"timezone": "Asia/Kolkata"}), and the
+-- statistics RPCs take a p_timezone argument that falls back to it. The browser groups
+-- days the same way through src/lib/dateBuckets.ts.
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS preferences JSONB DEFAULT '{}'::jsonb;
+
+-- The time zone to bucket by: p_timezone when Postgres knows it, else the caller's
+-- stored preference, else UTC
+CREATE OR REPLACE FUNCTION public.resolve_time_zone(p_timezone TEXT DEFAULT NULL)
+RETURNS TEXT AS $$
+  SELECT coalesce(
+    (SELECT name FROM pg_timezone_names WHERE name = p_timezone),
+    (
+      SELECT tz.name
+      FROM public.users u
+      JOIN pg_timezone_names tz ON tz.name = u.preferences->>'timezone'
+      WHERE u.id = auth.uid()
+    ),
+    'UTC'
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Stores the caller's time zone without touching their other preferences
+CREATE OR REPLACE FUNCTION public.set_user_timezone(p_timezone TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', p_timezone;
+  END IF;
+
+  UPDATE public.users
+  SET preferences = coalesce(preferences, '{}'::jsonb) || jsonb_build_object('timezone', p_timezone),
+      updated_at = now()
+  WHERE id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Same statistics as before; the daily trend now covers the last 7 days in the user's
+-- time zone rather than in UTC
+DROP FUNCTION IF EXISTS public.get_mood_history_stats(TIMESTAMP WITH TIME ZONE, public.mood_level, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_mood_history_stats(
+  p_since TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_mood_level public.mood_level DEFAULT NULL,
+  p_mood_name TEXT DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_timezone TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+  WITH settings AS (
+    SELECT public.resolve_time_zone(p_timezone) AS tz
+  ),
+  filtered AS (
+    SELECT mood_level::text::integer AS mood, mood_name, ai_stress_level, created_at
+    FROM public.mood_logs
+    WHERE user_id = auth.uid()
+    AND (p_since IS NULL OR created_at >= p_since)
+    AND (p_mood_level IS NULL OR mood_level = p_mood_level)
+    AND (p_mood_name IS NULL OR mood_name = p_mood_name)
+    AND (p_search IS NULL OR search_vector @@ websearch_to_tsquery('english', p_search))
+  )
+  SELECT jsonb_build_object(
+    'total_entries', (SELECT count(*) FROM filtered),
+    'average_mood', (SELECT coalesce(round(avg(mood), 1), 0) FROM filtered),
+    'average_stress', (SELECT coalesce(round(avg(ai_stress_level), 1), 0) FROM filtered),
+    'mood_distribution', (
+      SELECT coalesce(jsonb_object_agg(mood, entries), '{}'::jsonb)
+      FROM (SELECT mood, count(*) AS entries FROM filtered GROUP BY mood) AS levels
+    ),
+    'mood_name_distribution', (
+      SELECT coalesce(jsonb_object_agg(mood_name, entries), '{}'::jsonb)
+      FROM (SELECT mood_name, count(*) AS entries FROM filtered WHERE mood_name IS NOT NULL GROUP BY mood_name) AS names
+    ),
+    'daily_trend', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object(
+        'date', day,
+        'mood', round(avg_mood, 1),
+        'stress', round(avg_stress, 1)
+      ) ORDER BY day), '[]'::jsonb)
+      FROM (
+        SELECT (created_at AT TIME ZONE settings.tz)::date AS day, avg(mood) AS avg_mood, avg(ai_stress_level) AS avg_stress
+        FROM filtered, settings
+        WHERE created_at >= ((now() AT TIME ZONE settings.tz)::date - 6)::timestamp AT TIME ZONE settings.tz
+        GROUP BY 1
+      ) AS days
+    )
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Average stress per week (starting Monday) over the last 12 weeks, for the admin
+-- dashboard. Row level security limits non-admins to their own logs.
+CREATE OR REPLACE FUNCTION public.get_weekly_stress_trends(p_timezone TEXT DEFAULT NULL)
+RETURNS TABLE (week DATE, avg_stress NUMERIC, total_logs BIGINT) AS $$
+  WITH settings AS (
+    SELECT public.resolve_time_zone(p_timezone) AS tz
+  )
+  SELECT
+    date_trunc('week', created_at AT TIME ZONE settings.tz)::date AS week,
+    round(avg(ai_stress_level), 2) AS avg_stress,
+    count(*) AS total_logs
+  FROM public.mood_logs, settings
+  WHERE ai_stress_level IS NOT NULL
+  AND created_at >= now() - INTERVAL '84 days'
+  GROUP BY 1
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Check-ins and average mood per day over the last 30 days, for the admin dashboard
+CREATE OR REPLACE FUNCTION public.get_daily_activity(p_timezone TEXT DEFAULT NULL)
+RETURNS TABLE (day DATE, count BIGINT, avg_mood_level NUMERIC) AS $$
+  WITH settings AS (
+    SELECT public.resolve_time_zone(p_timezone) AS tz
+  )
+  SELECT
+    (created_at AT TIME ZONE settings.tz)::date AS day,
+    count(*) AS count,
+    round(avg(mood_level::text::integer), 1) AS avg_mood_level
+  FROM public.mood_logs, settings
+  WHERE created_at >= now() - INTERVAL '30 days'
+  GROUP BY 1
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.resolve_time_zone(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_user_timezone(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_mood_history_stats(TIMESTAMP WITH TIME ZONE, public.mood_level, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_weekly_stress_trends(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_daily_activity(TEXT) TO authenticated;
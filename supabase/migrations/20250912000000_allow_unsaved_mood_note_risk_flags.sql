@@ -0,0 +1,15 @@
+-- Flag crisis language in mood notes that could not be saved
+-- The web app checks a note before saving it, but a risk flag had to point at the saved
+-- mood log, so a failed save showed the student the crisis screen without alerting a
+-- mentor. A mood note flag may now have no mood log as long as it keeps the excerpt
+-- (risk_flags_check was the unnamed table constraint from 20250901000000).
+
+ALTER TABLE public.risk_flags DROP CONSTRAINT IF EXISTS risk_flags_check;
+
+ALTER TABLE public.risk_flags
+  ADD CONSTRAINT risk_flags_source_reference_check CHECK (
+    (source = 'mood_log' AND message_id IS NULL AND (mood_log_id IS NOT NULL OR excerpt IS NOT NULL))
+    OR (source = 'chat_message' AND message_id IS NOT NULL)
+  );
+
+COMMENT ON COLUMN public.risk_flags.mood_log_id IS 'Flagged mood log; null when the note was flagged but the check-in failed to save';
@@ -0,0 +1,53 @@
+-- Mood trend and top recommendation type over the whole mood history
+-- The Statistics page worked these out from the loaded History page, which since paging
+-- is only the first 20 entries. get_mood_history_insights computes them over every entry
+-- matching the History filters, next to get_mood_history_stats.
+
+-- NULL arguments do not filter. The trend compares the newest entries with the oldest
+-- (up to 10 each, half the entries at most); the top type is the most recommended one.
+CREATE OR REPLACE FUNCTION public.get_mood_history_insights(
+  p_since TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_mood_level public.mood_level DEFAULT NULL,
+  p_mood_name TEXT DEFAULT NULL,
+  p_search TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+  WITH filtered AS (
+    SELECT
+      id,
+      mood_level::text::integer AS mood,
+      row_number() OVER (ORDER BY created_at DESC, id DESC) AS newest_rank,
+      row_number() OVER (ORDER BY created_at, id) AS oldest_rank,
+      count(*) OVER () AS total
+    FROM public.mood_logs
+    WHERE user_id = auth.uid()
+    AND (p_since IS NULL OR created_at >= p_since)
+    AND (p_mood_level IS NULL OR mood_level = p_mood_level)
+    AND (p_mood_name IS NULL OR mood_name = p_mood_name)
+    AND (p_search IS NULL OR search_vector @@ websearch_to_tsquery('english', p_search))
+  ),
+  halves AS (
+    SELECT
+      avg(mood) FILTER (WHERE newest_rank <= least(10, total / 2)) AS recent_mood,
+      avg(mood) FILTER (WHERE oldest_rank <= least(10, total / 2)) AS earlier_mood
+    FROM filtered
+  )
+  SELECT jsonb_build_object(
+    'improvement_trend', CASE
+      WHEN recent_mood > earlier_mood + 0.3 THEN 'improving'
+      WHEN recent_mood < earlier_mood - 0.3 THEN 'declining'
+      ELSE 'stable'
+    END,
+    'top_recommendation_type', (
+      SELECT r.type::text
+      FROM public.recommendations r
+      JOIN filtered f ON f.id = r.mood_log_id
+      GROUP BY r.type
+      ORDER BY count(*) DESC, r.type
+      LIMIT 1
+    )
+  )
+  FROM halves;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_mood_history_insights(TIMESTAMP WITH TIME ZONE, public.mood_level, TEXT, TEXT) TO authenticated;
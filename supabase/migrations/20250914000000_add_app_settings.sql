@@ -0,0 +1,45 @@
+-- Add app_settings table
+-- App-wide settings that admins change from the dashboard. The mood model's abstain
+-- threshold was kept in the admin's localStorage, so it never reached the students whose
+-- predictions it is meant to govern; it is now the mood_model_abstain_threshold setting,
+-- which every browser reads before labelling a prediction.
+
+CREATE TABLE IF NOT EXISTS public.app_settings (
+  key TEXT NOT NULL PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view app settings"
+ON public.app_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage app settings"
+ON public.app_settings
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.users
+  WHERE id = auth.uid()
+  AND role = 'admin'
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.users
+  WHERE id = auth.uid()
+  AND role = 'admin'
+));
+
+CREATE TRIGGER update_app_settings_updated_at
+BEFORE UPDATE ON public.app_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.app_settings (key, value)
+VALUES ('mood_model_abstain_threshold', '0.6'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+COMMENT ON TABLE public.app_settings IS 'App-wide settings managed by admins and read by every client';
+COMMENT ON COLUMN public.app_settings.value IS 'Setting value as JSON, e.g. 0.6 for mood_model_abstain_threshold';
@@ -0,0 +1,56 @@
+// Fails when the crisis detector stops flagging, or starts flagging, known phrases
+// Runs the shared detector (the one the web app and the edge functions use) over notes
+// whose outcome is fixed. Add a case whenever a phrase is found to slip through.
+//
+// Run with: npm run test:crisis
+
+import { readFileSync } from 'node:fs';
+import ts from 'typescript';
+
+const DETECTOR_FILE = 'supabase/functions/_shared/crisisDetection.ts';
+
+// [text, model score, expected severity, options]
+const CASES = [
+  ['I just want to end it all', null, 'high'],
+  ['thinking about ending it all tonight', null, 'high'],
+  ['I want to end my life', null, 'high'],
+  ['I want to end my own life', null, 'high'],
+  ['I keep thinking about hurting myself', null, 'high'],
+  ['I’m suicidal', null, 'high'],
+  ['everyone would be better off without me', null, 'high'],
+  ['I can’t go on like this', null, 'high'],
+  ['I feel hopeless', 0.9, 'elevated'],
+  ['I feel hopeless', null, null],
+  ['I feel hopeless', null, 'elevated', { textOnly: true }],
+  ['I just want to end it all', null, 'high', { textOnly: true }],
+  ['see you at the library later', null, null, { textOnly: true }],
+  ['the exam ended and it all went fine', null, null],
+  ['stressed about the deadline but handling it', 1, null],
+  ['', 1, null]
+];
+
+// The detector is dependency-free TypeScript, so stripping its types is enough to run it
+async function loadDetector() {
+  const { outputText } = ts.transpileModule(readFileSync(DETECTOR_FILE, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 }
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(outputText).toString('base64')}`);
+}
+
+const { detectCrisisLanguage } = await loadDetector();
+const failures = [];
+
+for (const [text, modelScore, expected, options] of CASES) {
+  const { severity } = detectCrisisLanguage(text, modelScore, options);
+  if (severity !== expected) {
+    failures.push(`"${text}" (model score ${modelScore}${options?.textOnly ? ', text only' : ''}): expected ${expected ?? 'not flagged'}, got ${severity ?? 'not flagged'}`);
+  }
+}
+
+if (failures.length > 0) {
+  console.error(`❌ Crisis detection changed. Update the patterns in ${DETECTOR_FILE}:`);
+  failures.forEach(failure => console.error(`  - ${failure}`));
+  process.exit(1);
+}
+
+console.log(`✅ ${CASES.length} crisis detection cases behave as expected`);
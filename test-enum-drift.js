@@ -0,0 +1,99 @@
+// Fails when the database enums drift apart
+// Compares the enums the migrations leave behind with the generated Supabase types and the
+// shared domain module used by the web app and the edge functions.
+//
+// Run with: npm run test:enums
+
+import { readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+
+const MIGRATIONS_DIR = 'supabase/migrations';
+const TYPES_FILE = 'src/integrations/supabase/types.ts';
+const DOMAIN_FILE = 'supabase/functions/_shared/moodDomain.ts';
+
+// Database enum -> constant exported by the domain module
+const DOMAIN_ENUMS = {
+  mood_level: 'MOOD_LEVELS',
+  recommendation_type: 'RECOMMENDATION_TYPES'
+};
+
+const parseQuotedList = (list, quote) =>
+  [...list.matchAll(new RegExp(`${quote}([^${quote}]*)${quote}`, 'g'))].map(match => match[1]);
+
+// Replays CREATE TYPE / ALTER TYPE ... ADD VALUE / DROP TYPE in migration order
+function readMigrationEnums() {
+  const enums = {};
+  const statement = /CREATE\s+TYPE\s+(?:public\.)?(\w+)\s+AS\s+ENUM\s*\(([^)]*)\)|ALTER\s+TYPE\s+(?:public\.)?(\w+)\s+ADD\s+VALUE\s+(?:IF\s+NOT\s+EXISTS\s+)?'([^']+)'|DROP\s+TYPE\s+(?:IF\s+EXISTS\s+)?(?:public\.)?(\w+)/gi;
+
+  for (const file of readdirSync(MIGRATIONS_DIR).filter(name => name.endsWith('.sql')).sort()) {
+    const sql = readFileSync(join(MIGRATIONS_DIR, file), 'utf8').replace(/--.*$/gm, '');
+
+    for (const [, created, values, altered, added, dropped] of sql.matchAll(statement)) {
+      if (created) enums[created] = parseQuotedList(values, "'");
+      if (altered && enums[altered] && !enums[altered].includes(added)) enums[altered].push(added);
+      if (dropped) delete enums[dropped];
+    }
+  }
+
+  return enums;
+}
+
+function readGeneratedEnums() {
+  const source = readFileSync(TYPES_FILE, 'utf8');
+  const block = source.match(/\n {4}Enums: \{\n([\s\S]*?)\n {4}\}/);
+  if (!block) throw new Error(`No Enums block found in ${TYPES_FILE}`);
+
+  const enums = {};
+  for (const [, name, values] of block[1].matchAll(/^ {6}(\w+):((?:\s*\|?\s*"[^"]*")+)/gm)) {
+    enums[name] = parseQuotedList(values, '"');
+  }
+  return enums;
+}
+
+function readDomainEnums() {
+  const source = readFileSync(DOMAIN_FILE, 'utf8');
+  const enums = {};
+
+  for (const [enumName, constant] of Object.entries(DOMAIN_ENUMS)) {
+    const match = source.match(new RegExp(`export const ${constant} = \\[([^\\]]*)\\]`));
+    if (!match) throw new Error(`${constant} is not exported by ${DOMAIN_FILE}`);
+    enums[enumName] = parseQuotedList(match[1], "'");
+  }
+  return enums;
+}
+
+const sameValues = (a, b) => a.length === b.length && a.every((value, i) => value === b[i]);
+const format = values => (values ? values.join(', ') : '(missing)');
+
+const migrationEnums = readMigrationEnums();
+const generatedEnums = readGeneratedEnums();
+const domainEnums = readDomainEnums();
+const failures = [];
+
+// Every enum the migrations define must be in the generated types with the same values
+for (const [name, values] of Object.entries(migrationEnums)) {
+  if (!sameValues(values, generatedEnums[name] ?? [])) {
+    failures.push(`${name}: migrations [${format(values)}] but ${TYPES_FILE} [${format(generatedEnums[name])}]`);
+  }
+}
+
+// ...and the generated types must not keep enums the migrations drop or never create
+for (const [name, values] of Object.entries(generatedEnums)) {
+  if (!migrationEnums[name]) {
+    failures.push(`${name}: not defined by the migrations but ${TYPES_FILE} [${format(values)}]`);
+  }
+}
+
+for (const [name, values] of Object.entries(domainEnums)) {
+  if (!sameValues(values, migrationEnums[name] ?? [])) {
+    failures.push(`${name}: migrations [${format(migrationEnums[name])}] but ${DOMAIN_FILE} [${format(values)}]`);
+  }
+}
+
+if (failures.length > 0) {
+  console.error('❌ Enum drift detected. Update the migration, regenerate the types (npm run types:generate) and update the domain module so they agree:');
+  failures.forEach(failure => console.error(`  - ${failure}`));
+  process.exit(1);
+}
+
+console.log(`✅ ${Object.keys(migrationEnums).length} database enums match the generated types and the domain module`);
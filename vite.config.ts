@@ -44,6 +44,8 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Dependency-free modules shared with the edge functions
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
       "events": "rollup-plugin-node-polyfills/polyfills/events",
       "util": "rollup-plugin-node-polyfills/polyfills/util",
       "process": "rollup-plugin-node-polyfills/polyfills/process-es6",